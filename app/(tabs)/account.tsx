@@ -102,6 +102,8 @@ export default function AccountScreen() {
   };
 
   const searchResults = searchQuery ? searchConditions(searchQuery) : [];
+  const activeConditions = conditions.filter((c) => !c.archived_at);
+  const resolvedConditions = conditions.filter((c) => !!c.archived_at);
 
   return (
     <View style={styles.container}>
@@ -192,7 +194,7 @@ export default function AccountScreen() {
                 </View>
               ) : (
                 <View style={styles.conditionsList}>
-                  {conditions.map((condition) => (
+                  {activeConditions.map((condition) => (
                     <View key={condition.id} style={styles.conditionRow}>
                       <TouchableOpacity
                         style={styles.conditionMain}
@@ -235,6 +237,26 @@ export default function AccountScreen() {
                       </TouchableOpacity>
                     </View>
                   ))}
+
+                  {resolvedConditions.length > 0 && (
+                    <>
+                      <Text style={styles.resolvedLabel}>Resolved</Text>
+                      {resolvedConditions.map((condition) => (
+                        <TouchableOpacity
+                          key={condition.id}
+                          style={[styles.conditionRow, styles.resolvedRow]}
+                          onPress={() => handleConditionPress(condition.id)}
+                        >
+                          <View style={styles.conditionMain}>
+                            <Text style={[styles.conditionName, styles.resolvedName]}>
+                              {condition.condition?.name || condition.custom_label}
+                            </Text>
+                            <ChevronRight size={20} color="#9ca3af" />
+                          </View>
+                        </TouchableOpacity>
+                      ))}
+                    </>
+                  )}
                 </View>
               )}
             </>
@@ -378,6 +400,18 @@ const styles = StyleSheet.create({
     ...shadows.sm,
     minHeight: 80,
   },
+  resolvedLabel: {
+    ...typography.captionBold,
+    color: colors.neutral.gray600,
+    marginTop: spacing.sm,
+  },
+  resolvedRow: {
+    minHeight: 56,
+    opacity: 0.8,
+  },
+  resolvedName: {
+    color: colors.neutral.gray600,
+  },
   conditionMain: {
     flex: 1,
     flexDirection: 'row',
@@ -8,15 +8,41 @@ import {
   TouchableOpacity,
   ActivityIndicator,
   Platform,
+  Alert,
 } from 'react-native';
 import { useRouter } from 'expo-router';
-import { Plus, Clock } from 'lucide-react-native';
+import { Plus, Clock, CloudOff, Moon, Flame, TrendingUp, X, AlertCircle } from 'lucide-react-native';
 import { useAuth } from '@/context/AuthContext';
 import { supabase } from '@/lib/supabase';
-import { UserProfile, DailyLog, UserCondition, MoodTag } from '@/lib/types';
+import {
+  UserProfile,
+  DailyLog,
+  UserCondition,
+  MoodTag,
+  InsightReport,
+  FlareEpisode,
+} from '@/lib/types';
+import { insightReportFromRow } from '@/lib/ai-insights';
 import { Card } from '@/components/Card';
+import { useFailedSyncCount, usePendingSyncCount } from '@/hooks/usePendingSyncCount';
+import { discardFailed, flushOutbox, retryFailed } from '@/lib/log-outbox';
+import { calendarISODate, parseISODate, todayISODate } from '@/lib/dates';
+import { useTimeZone } from '@/hooks/useTimeZone';
+import { fetchRestDays, recomputeStreakIfDayChanged, setRestDay } from '@/lib/streak';
+import { CycleModel, cycleDayFor, daysUntilNextPeriod, fetchCycleModel, phaseLabel } from '@/lib/cycle';
+import { flareTrends, loadFlareEpisodes } from '@/lib/flares';
+import {
+  BaselineAlert,
+  BaselineBand,
+  BaselineDay,
+  dismissBaselineAlerts,
+  fetchBaselineAlerts,
+  fetchOverallBaselines,
+} from '@/lib/baseline';
 import { colors, typography, spacing, borderRadius, shadows } from '@/lib/design-system';
 
+const FLARE_TREND_DAYS = 90;
+
 const MOOD_EMOJIS: Record<MoodTag, string> = {
   good: '😊',
   neutral: '😐',
@@ -31,12 +57,13 @@ const MOOD_COLORS: Record<MoodTag, string> = {
   fluctuating: '#f59e0b',
 };
 
-function ymdLocal(d: Date) {
-  const y = d.getFullYear();
-  const m = String(d.getMonth() + 1).padStart(2, '0');
-  const day = String(d.getDate()).padStart(2, '0');
-  return `${y}-${m}-${day}`;
-}
+const BASELINE_COLORS: Record<BaselineBand, string> = {
+  low: colors.accent.green,
+  below: colors.accent.green,
+  typical: colors.accent.blue,
+  above: '#f59e0b',
+  high: '#ef4444',
+};
 
 function getSeverityColor(sev: number | null | undefined) {
   if (sev === null || sev === undefined) return null;
@@ -54,22 +81,37 @@ export default function DashboardScreen() {
   const [logs, setLogs] = useState<DailyLog[]>([]);
   const [conditions, setConditions] = useState<UserCondition[]>([]);
   const [loading, setLoading] = useState(true);
-  const [currentMonth, setCurrentMonth] = useState(new Date());
+  const timeZone = useTimeZone();
+  const [currentMonth, setCurrentMonth] = useState(() => parseISODate(todayISODate()));
   const [todayLog, setTodayLog] = useState<DailyLog | null>(null);
   const [todayCheckInCount, setTodayCheckInCount] = useState(0);
-  const [latestInsight, setLatestInsight] = useState<string>('');
+  const [latestInsight, setLatestInsight] = useState<InsightReport | null>(null);
+  const [restDays, setRestDays] = useState<string[]>([]);
+  const [cycleModel, setCycleModel] = useState<CycleModel | null>(null);
+  const [flares, setFlares] = useState<FlareEpisode[]>([]);
+  const [baselines, setBaselines] = useState<Map<string, BaselineDay>>(new Map());
+  const [baselineAlerts, setBaselineAlerts] = useState<BaselineAlert[]>([]);
+  const pendingSyncCount = usePendingSyncCount(user?.id);
+  const failedSyncCount = useFailedSyncCount(user?.id);
   //const [showLogModal, setShowLogModal] = useState(false);
 
   useEffect(() => {
     if (user) {
       loadData();
     }
-  }, [user, currentMonth]);
+  }, [user, currentMonth, timeZone]);
 
   const loadData = async () => {
     if (!user) return;
 
     try {
+      // stored streaks only change when logs do; refresh once a day so a missed day is counted
+      try {
+        await recomputeStreakIfDayChanged(user.id);
+      } catch (e) {
+        console.error('[Dashboard] streak refresh failed', e);
+      }
+
       const { data: profileData } = await supabase
         .from('users')
         .select('*')
@@ -80,14 +122,28 @@ export default function DashboardScreen() {
         setProfile(profileData);
       }
 
-      const start = ymdLocal(
-        new Date(currentMonth.getFullYear(), currentMonth.getMonth(), 1)
-      );
-      
-      const end = ymdLocal(
-        new Date(currentMonth.getFullYear(), currentMonth.getMonth() + 1, 0)
-      );
-      
+      const start = calendarISODate(currentMonth.getFullYear(), currentMonth.getMonth(), 1);
+
+      const end = calendarISODate(currentMonth.getFullYear(), currentMonth.getMonth() + 1, 0);
+
+      try {
+        setRestDays(await fetchRestDays(user.id, start, end));
+      } catch (e) {
+        console.error('[Dashboard] rest days failed', e);
+      }
+
+      try {
+        setCycleModel(await fetchCycleModel(user.id));
+      } catch (e) {
+        console.error('[Dashboard] cycle model failed', e);
+      }
+
+      try {
+        setBaselines(await fetchOverallBaselines(user.id, start, end));
+      } catch (e) {
+        console.error('[Dashboard] baselines failed', e);
+      }
+
       const { data: logsData } = await supabase
         .from('daily_logs')
         .select('*')
@@ -99,7 +155,7 @@ export default function DashboardScreen() {
       if (logsData) {
         setLogs(logsData);
 
-        const today = ymdLocal(new Date());
+        const today = todayISODate(timeZone);
         const todayLogData = logsData.find((log) => log.date === today);
         setTodayLog(todayLogData || null);
 
@@ -122,6 +178,25 @@ export default function DashboardScreen() {
 
       if (conditionsData) {
         setConditions(conditionsData as any);
+
+        try {
+          setBaselineAlerts(
+            await fetchBaselineAlerts(
+              user.id,
+              (conditionsData as UserCondition[])
+                .filter((c) => !c.archived_at)
+                .map((c) => ({ id: c.id, label: c.condition?.name || c.custom_label || 'A condition' }))
+            )
+          );
+        } catch (e) {
+          console.error('[Dashboard] baseline alerts failed', e);
+        }
+      }
+
+      try {
+        setFlares(await loadFlareEpisodes(user.id));
+      } catch (e) {
+        console.error('[Dashboard] flare sync failed', e);
       }
 
       const { data: insightData } = await supabase
@@ -133,8 +208,7 @@ export default function DashboardScreen() {
         .maybeSingle();
 
       if (insightData) {
-        const firstLine = insightData.insights_text.split('\n')[0];
-        setLatestInsight(firstLine.replace(/^[•\-*]\s*/, ''));
+        setLatestInsight(insightReportFromRow(insightData));
       }
     } catch (err) {
       console.error(err);
@@ -143,6 +217,35 @@ export default function DashboardScreen() {
     }
   };
 
+  const handleRetryFailed = async () => {
+    if (!user) return;
+    try {
+      const result = await retryFailed(user.id);
+      if (result.synced + result.conflicts > 0) await loadData();
+    } catch (e) {
+      console.error('[Dashboard] retry failed', e);
+    }
+  };
+
+  const handleDiscardFailed = () => {
+    if (!user) return;
+    Alert.alert(
+      'Discard unsaved logs?',
+      failedSyncCount === 1
+        ? "This log couldn't be saved and will be deleted from this device."
+        : `These ${failedSyncCount} logs couldn't be saved and will be deleted from this device.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: () =>
+            discardFailed(user.id).catch((e) => console.error('[Dashboard] discard failed', e)),
+        },
+      ]
+    );
+  };
+
   const getDaysInMonth = () => {
     const year = currentMonth.getFullYear();
     const month = currentMonth.getMonth();
@@ -166,20 +269,51 @@ export default function DashboardScreen() {
 
   const getLogForDate = (day: number | null) => {
     if (!day) return null;
-    const dateStr = ymdLocal(
-      new Date(currentMonth.getFullYear(), currentMonth.getMonth(), day)
-    );
-    
+    const dateStr = calendarISODate(currentMonth.getFullYear(), currentMonth.getMonth(), day);
+
     return logs.find((log) => log.date === dateStr);
   };
 
+  const toggleRestDay = (dateStr: string) => {
+    if (!user) return;
+    const isRest = restDays.includes(dateStr);
+
+    Alert.alert(
+      isRest ? 'Remove rest day?' : 'Mark as rest day?',
+      "Rest days keep your streak going on days you couldn't log, like during a flare.",
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: isRest ? 'Remove' : 'Mark rest day',
+          onPress: async () => {
+            try {
+              await setRestDay(user.id, dateStr, !isRest);
+              await loadData();
+            } catch (e) {
+              console.error('[Dashboard] rest day update failed', e);
+              Alert.alert('Error', 'Could not update rest day. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleDismissBaselineAlerts = async () => {
+    if (!user) return;
+    setBaselineAlerts([]);
+    try {
+      await dismissBaselineAlerts(user.id);
+    } catch (e) {
+      console.error('[Dashboard] dismissing baseline alerts failed', e);
+    }
+  };
+
   const isToday = (day: number | null) => {
     if (!day) return false;
   
-    const todayStr = ymdLocal(new Date());
-    const dayStr = ymdLocal(
-      new Date(currentMonth.getFullYear(), currentMonth.getMonth(), day)
-    );
+    const todayStr = todayISODate(timeZone);
+    const dayStr = calendarISODate(currentMonth.getFullYear(), currentMonth.getMonth(), day);
   
     return dayStr === todayStr;
   };
@@ -194,6 +328,21 @@ export default function DashboardScreen() {
 
   const days = getDaysInMonth();
   const weekDays = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+  const todayStr = todayISODate(timeZone);
+  const todayCycle = cycleModel ? cycleDayFor(cycleModel, todayStr, todayStr) : null;
+  const nextPeriodIn = cycleModel ? daysUntilNextPeriod(cycleModel, todayStr) : null;
+  const flareSummaries = conditions
+    .filter((c) => !c.archived_at)
+    .map((c) => ({
+      condition: c,
+      trends: flareTrends(
+        flares.filter((f) => f.user_condition_id === c.id),
+        FLARE_TREND_DAYS,
+        6,
+        todayStr
+      ),
+    }))
+    .filter(({ trends }) => trends.recent.count > 0 || trends.previous.count > 0 || trends.toReview > 0);
 
   return (
     <View style={styles.container}>
@@ -218,6 +367,70 @@ export default function DashboardScreen() {
           <Text style={styles.checkInButtonText}>Check In</Text>
         </TouchableOpacity>
 
+        {pendingSyncCount > 0 && user && (
+          <TouchableOpacity
+            style={styles.syncBanner}
+            onPress={() => flushOutbox(user.id).catch((e) => console.error('[Dashboard] sync failed', e))}
+            activeOpacity={0.8}
+          >
+            <CloudOff size={16} color={colors.neutral.gray700} />
+            <Text style={styles.syncBannerText}>
+              {pendingSyncCount === 1
+                ? '1 log waiting to sync'
+                : `${pendingSyncCount} logs waiting to sync`}
+            </Text>
+            <Text style={styles.syncBannerAction}>Retry</Text>
+          </TouchableOpacity>
+        )}
+
+        {failedSyncCount > 0 && user && (
+          <View style={[styles.syncBanner, styles.syncBannerFailed]}>
+            <AlertCircle size={16} color={colors.neutral.gray700} />
+            <Text style={styles.syncBannerText}>
+              {failedSyncCount === 1
+                ? "1 log couldn't be saved"
+                : `${failedSyncCount} logs couldn't be saved`}
+            </Text>
+            <TouchableOpacity onPress={handleRetryFailed} activeOpacity={0.7}>
+              <Text style={styles.syncBannerAction}>Retry</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={handleDiscardFailed} activeOpacity={0.7}>
+              <Text style={styles.syncBannerAction}>Discard</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {baselineAlerts.length > 0 && (
+          <View style={styles.alertBanner}>
+            <TrendingUp size={18} color={colors.neutral.gray900} strokeWidth={2} />
+            <View style={styles.alertBody}>
+              {baselineAlerts.map((alert) => (
+                <TouchableOpacity
+                  key={alert.userConditionId ?? 'overall'}
+                  onPress={() =>
+                    alert.userConditionId
+                      ? router.push({
+                          pathname: '/condition-detail',
+                          params: { id: alert.userConditionId },
+                        })
+                      : router.push('/history')
+                  }
+                >
+                  <Text style={styles.alertText}>
+                    {alert.label} has been above your usual for {alert.run.days} days in a row
+                  </Text>
+                </TouchableOpacity>
+              ))}
+              <Text style={styles.alertHint}>
+                Worth keeping an eye on. Alerts can be turned off in Settings.
+              </Text>
+            </View>
+            <TouchableOpacity onPress={handleDismissBaselineAlerts} hitSlop={8}>
+              <X size={18} color={colors.neutral.gray700} />
+            </TouchableOpacity>
+          </View>
+        )}
+
         <View style={styles.cardsGrid}>
           <Card color={colors.primary.lavender} style={styles.streakCard}>
             <View style={styles.streakContent}>
@@ -225,6 +438,12 @@ export default function DashboardScreen() {
               <View style={styles.streakInfo}>
                 <Text style={styles.streakNumber}>{profile?.current_streak || 0}</Text>
                 <Text style={styles.streakLabel}>day streak</Text>
+                {!!profile?.streak_freezes_available && (
+                  <Text style={styles.streakFreezes}>
+                    ❄️ {profile.streak_freezes_available} freeze
+                    {profile.streak_freezes_available !== 1 ? 's' : ''}
+                  </Text>
+                )}
               </View>
             </View>
           </Card>
@@ -297,25 +516,40 @@ export default function DashboardScreen() {
             {days.map((day, index) => {
               const log = getLogForDate(day);
               const isTodayDate = isToday(day);
-          
+              const dateStr = day
+                ? calendarISODate(currentMonth.getFullYear(), currentMonth.getMonth(), day)
+                : null;
+              const isPast = !!dateStr && dateStr < todayISODate(timeZone);
+              const isRestDay = !!dateStr && restDays.includes(dateStr);
+              const cycleDay =
+                cycleModel && dateStr ? cycleDayFor(cycleModel, dateStr, todayStr) : null;
+              const baseline = dateStr ? baselines.get(dateStr) : undefined;
+
               return (
                 <TouchableOpacity
                   key={index}
                   style={styles.dayCell}
                   onPress={() => {
                     if (day && log) router.push('/history');
+                    else if (dateStr && isPast) toggleRestDay(dateStr);
                   }}
-                  disabled={!day || !log}
+                  disabled={!day || (!log && !isPast)}
                 >
                   <View
                     style={[
                       styles.dayInner,
+                      cycleDay?.phase === 'menstrual' &&
+                        (cycleDay.predicted ? styles.predictedPeriodCell : styles.periodCell),
+                      cycleDay?.phase === 'fertile' && styles.fertileCell,
                       isTodayDate && styles.todayInner,
                       isTodayDate && styles.todayCell,
                     ]}
                   >
                   {day ? (
                     <>
+                      {cycleDay && (
+                        <Text style={styles.cycleDayText}>{cycleDay.cycleDay}</Text>
+                      )}
                       <Text style={[styles.dayNumber, isTodayDate && styles.todayNumber]}>
                         {day}
                       </Text>
@@ -325,9 +559,16 @@ export default function DashboardScreen() {
                           <View
                             style={[
                               styles.severityDot,
-                              { backgroundColor: getSeverityColor(log.overall_severity)! },
+                              baseline?.anomaly && styles.severityDotAnomaly,
+                              {
+                                backgroundColor: baseline?.band
+                                  ? BASELINE_COLORS[baseline.band]
+                                  : getSeverityColor(log.overall_severity)!,
+                              },
                             ]}
                           />
+                        ) : isRestDay ? (
+                          <Moon size={8} color={colors.accent.purple} strokeWidth={2.5} />
                         ) : (
                           <View style={styles.noDataDot} />
                         )}
@@ -339,12 +580,115 @@ export default function DashboardScreen() {
               );
             })}
           </View>
+
+          {Array.from(baselines.values()).some((b) => b.band) && (
+            <View style={styles.cycleFooter}>
+              <View style={styles.cycleLegend}>
+                <View style={styles.legendItem}>
+                  <View style={[styles.severityDot, { backgroundColor: BASELINE_COLORS.below }]} />
+                  <Text style={styles.legendText}>Better than usual</Text>
+                </View>
+                <View style={styles.legendItem}>
+                  <View style={[styles.severityDot, { backgroundColor: BASELINE_COLORS.typical }]} />
+                  <Text style={styles.legendText}>Usual</Text>
+                </View>
+                <View style={styles.legendItem}>
+                  <View style={[styles.severityDot, { backgroundColor: BASELINE_COLORS.above }]} />
+                  <Text style={styles.legendText}>Worse</Text>
+                </View>
+                <View style={styles.legendItem}>
+                  <View style={[styles.severityDot, { backgroundColor: BASELINE_COLORS.high }]} />
+                  <Text style={styles.legendText}>Much worse</Text>
+                </View>
+              </View>
+              <Text style={styles.legendText}>
+                Compared with your own usual severity; outlined days stood out.
+              </Text>
+            </View>
+          )}
+
+          {cycleModel && (
+            <View style={styles.cycleFooter}>
+              <View style={styles.cycleLegend}>
+                <View style={styles.legendItem}>
+                  <View style={[styles.legendSwatch, styles.periodCell]} />
+                  <Text style={styles.legendText}>Period</Text>
+                </View>
+                <View style={styles.legendItem}>
+                  <View style={[styles.legendSwatch, styles.predictedPeriodCell]} />
+                  <Text style={styles.legendText}>Predicted</Text>
+                </View>
+                <View style={styles.legendItem}>
+                  <View style={[styles.legendSwatch, styles.fertileCell]} />
+                  <Text style={styles.legendText}>Fertile window</Text>
+                </View>
+              </View>
+              <Text style={styles.cycleSummary}>
+                {todayCycle
+                  ? `Cycle day ${todayCycle.cycleDay} · ${phaseLabel(todayCycle.phase)}`
+                  : 'Cycle'}
+                {nextPeriodIn !== null &&
+                  (nextPeriodIn === 0
+                    ? ' · period expected now'
+                    : ` · next period in ~${nextPeriodIn} day${nextPeriodIn !== 1 ? 's' : ''}`)}
+              </Text>
+            </View>
+          )}
         </View>
 
+        {flareSummaries.length > 0 && (
+          <Card color={colors.neutral.white} style={styles.flareCard}>
+            <View style={styles.flareHeader}>
+              <Flame size={20} color={colors.accent.red} strokeWidth={2} />
+              <Text style={styles.flareTitle}>Flares</Text>
+              <Text style={styles.flarePeriod}>last {FLARE_TREND_DAYS} days</Text>
+            </View>
+            {flareSummaries.map(({ condition, trends }) => {
+              const { recent, previous } = trends;
+              const change =
+                recent.count === previous.count
+                  ? 'same as before'
+                  : `${recent.count > previous.count ? '↑' : '↓'} from ${previous.count}`;
+
+              return (
+                <TouchableOpacity
+                  key={condition.id}
+                  style={styles.flareRow}
+                  onPress={() =>
+                    router.push({ pathname: '/condition-detail', params: { id: condition.id } })
+                  }
+                >
+                  <View style={styles.flareRowText}>
+                    <Text style={styles.flareCondition} numberOfLines={1}>
+                      {condition.condition?.name || condition.custom_label}
+                    </Text>
+                    <Text style={styles.flareMeta}>
+                      {recent.count} flare{recent.count !== 1 ? 's' : ''}
+                      {recent.averageDays !== null &&
+                        ` · ${Math.round(recent.averageDays * 10) / 10} days avg`}{' '}
+                      · {change}
+                      {trends.toReview > 0 && ` · ${trends.toReview} to review`}
+                    </Text>
+                  </View>
+                  {trends.ongoing && <Text style={styles.flareOngoing}>Ongoing</Text>}
+                </TouchableOpacity>
+              );
+            })}
+          </Card>
+        )}
+
         {latestInsight && (
           <View style={styles.insightCard}>
-            <Text style={styles.insightText}>{latestInsight}</Text>
-            <TouchableOpacity onPress={() => router.push('/history')}>
+            <Text style={styles.insightText}>{latestInsight.featured.title}</Text>
+            {latestInsight.patterns.length > 0 && (
+              <Text style={styles.insightMeta}>
+                {latestInsight.patterns.length} pattern
+                {latestInsight.patterns.length !== 1 ? 's' : ''} ·{' '}
+                {latestInsight.experiments.length} experiment
+                {latestInsight.experiments.length !== 1 ? 's' : ''} to try
+              </Text>
+            )}
+            <TouchableOpacity onPress={() => router.push('/(tabs)/insights')}>
               <Text style={styles.viewAllLink}>View all insights →</Text>
             </TouchableOpacity>
           </View>
@@ -450,6 +794,11 @@ const styles = StyleSheet.create({
     ...typography.caption,
     color: colors.neutral.gray700,
   },
+  streakFreezes: {
+    ...typography.small,
+    color: colors.neutral.gray600,
+    marginTop: 2,
+  },
   momentCard: {
     flex: 1,
   },
@@ -506,6 +855,50 @@ const styles = StyleSheet.create({
     marginBottom: spacing.md,
     ...shadows.sm,
   },
+  syncBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    backgroundColor: colors.primary.peach,
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    marginBottom: spacing.md,
+  },
+  syncBannerFailed: {
+    backgroundColor: colors.primary.pink,
+  },
+  alertBanner: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: spacing.sm,
+    backgroundColor: colors.primary.pink,
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    marginBottom: spacing.md,
+  },
+  alertBody: {
+    flex: 1,
+    gap: spacing.xs,
+  },
+  alertText: {
+    ...typography.captionBold,
+    color: colors.neutral.gray900,
+  },
+  alertHint: {
+    ...typography.small,
+    color: colors.neutral.gray700,
+  },
+  syncBannerText: {
+    ...typography.caption,
+    flex: 1,
+    color: colors.neutral.gray800,
+  },
+  syncBannerAction: {
+    ...typography.captionBold,
+    color: colors.neutral.gray900,
+  },
   calendarHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -531,6 +924,56 @@ const styles = StyleSheet.create({
     color: colors.neutral.gray500,
     textAlign: 'center',
   },
+  periodCell: {
+    backgroundColor: colors.primary.pink,
+  },
+  predictedPeriodCell: {
+    borderWidth: 1.5,
+    borderStyle: 'dashed',
+    borderColor: colors.primary.pink,
+  },
+  fertileCell: {
+    backgroundColor: colors.primary.mint,
+  },
+  cycleDayText: {
+    position: 'absolute',
+    top: 1,
+    right: 3,
+    fontSize: 8,
+    lineHeight: 9,
+    fontWeight: '600',
+    color: colors.neutral.gray500,
+  },
+  cycleFooter: {
+    marginTop: spacing.md,
+    paddingTop: spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: colors.neutral.gray200,
+    gap: spacing.xs,
+  },
+  cycleLegend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.md,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  legendSwatch: {
+    width: 12,
+    height: 12,
+    borderRadius: 4,
+  },
+  legendText: {
+    ...typography.small,
+    color: colors.neutral.gray600,
+  },
+  cycleSummary: {
+    ...typography.caption,
+    color: colors.neutral.gray700,
+  },
   todayCell: {
     backgroundColor: colors.primary.lavender,
     //borderRadius: borderRadius.sm,
@@ -557,6 +1000,48 @@ const styles = StyleSheet.create({
     borderRadius: 3,
     backgroundColor: colors.neutral.gray300,
   },
+  flareCard: {
+    marginBottom: spacing.md,
+  },
+  flareHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  flareTitle: {
+    ...typography.title3,
+    color: colors.neutral.gray900,
+    flex: 1,
+  },
+  flarePeriod: {
+    ...typography.small,
+    color: colors.neutral.gray500,
+  },
+  flareRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingVertical: spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: colors.neutral.gray100,
+  },
+  flareRowText: {
+    flex: 1,
+  },
+  flareCondition: {
+    ...typography.bodyBold,
+    color: colors.neutral.gray900,
+  },
+  flareMeta: {
+    ...typography.small,
+    color: colors.neutral.gray600,
+    marginTop: 2,
+  },
+  flareOngoing: {
+    ...typography.captionBold,
+    color: colors.accent.red,
+  },
   insightCard: {
     backgroundColor: colors.primary.sage,
     borderRadius: borderRadius.lg,
@@ -570,6 +1055,11 @@ const styles = StyleSheet.create({
     marginBottom: spacing.sm,
     lineHeight: 24,
   },
+  insightMeta: {
+    ...typography.small,
+    color: colors.neutral.gray600,
+    marginBottom: spacing.sm,
+  },
   viewAllLink: {
     ...typography.captionBold,
     color: colors.accent.purple,
@@ -732,6 +1222,13 @@ const styles = StyleSheet.create({
     height: 8,
     borderRadius: 4,
   },
+  severityDotAnomaly: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    borderWidth: 1.5,
+    borderColor: colors.neutral.gray900,
+  },
   
   severityMiniText: {
     ...typography.small,
@@ -12,24 +12,9 @@ import {
 import { useRouter, useFocusEffect } from 'expo-router';
 import { useAuth } from '@/context/AuthContext';
 import { supabase } from '@/lib/supabase';
+import { daysBetween, parseISODate, todayISODate } from '@/lib/dates';
 import { colors, typography, spacing, borderRadius, shadows } from '@/lib/design-system';
 
-function startOfWeek(d: Date) {
-  // US-style week: Sunday start
-  const x = new Date(d);
-  x.setHours(0, 0, 0, 0);
-  x.setDate(x.getDate() - x.getDay());
-  return x;
-}
-
-function isSameDay(a: Date, b: Date) {
-  return (
-    a.getFullYear() === b.getFullYear() &&
-    a.getMonth() === b.getMonth() &&
-    a.getDate() === b.getDate()
-  );
-}
-
 // ✅ Smart date formatting:
 // Today → Today
 // Yesterday → Yesterday
@@ -37,31 +22,19 @@ function isSameDay(a: Date, b: Date) {
 // Older → Jan 21
 // Different year → Jan 21, 2025
 function formatDateSmart(dateStr: string): string {
-  // dateStr is "YYYY-MM-DD" from DB
-  const date = new Date(`${dateStr}T00:00:00`);
-  const now = new Date();
-
-  const today = new Date(now);
-  today.setHours(0, 0, 0, 0);
-
-  const yesterday = new Date(today);
-  yesterday.setDate(today.getDate() - 1);
+  // dateStr is "YYYY-MM-DD" from DB; "today" is in the user's timezone
+  const diffDays = daysBetween(dateStr, todayISODate());
+  const d = parseISODate(dateStr);
 
-  // Normalize `date` to midnight local too (for clean day comparisons)
-  const d = new Date(date);
-  d.setHours(0, 0, 0, 0);
-
-  if (isSameDay(d, today)) return 'Today';
-  if (isSameDay(d, yesterday)) return 'Yesterday';
+  if (diffDays === 0) return 'Today';
+  if (diffDays === 1) return 'Yesterday';
 
   // ✅ rolling "within last 7 days" (not calendar week)
-  const diffDays = Math.floor((today.getTime() - d.getTime()) / (1000 * 60 * 60 * 24));
-
   if (diffDays >= 0 && diffDays < 7) {
     return d.toLocaleDateString('en-US', { weekday: 'long' }); // Tuesday
   }
 
-  const sameYear = d.getFullYear() === today.getFullYear();
+  const sameYear = dateStr.slice(0, 4) === todayISODate().slice(0, 4);
 
   if (sameYear) {
     return d.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }); // Jan 21
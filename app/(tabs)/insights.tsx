@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -17,21 +17,34 @@ import {
   MessageCircle,
   ChevronRight,
   ChevronDown,
+  BarChart3,
+  FlaskConical,
+  Clock,
 } from 'lucide-react-native';
 import { useAuth } from '@/context/AuthContext';
 import { supabase } from '@/lib/supabase';
-import { generateAIInsights } from '@/lib/ai-insights';
-import { UserCondition } from '@/lib/types';
+import { generateAIInsights, insightReportFromRow } from '@/lib/ai-insights';
+import {
+  ConditionCorrelations,
+  describeCorrelation,
+  describeCorrelationStats,
+  fetchTriggerCorrelations,
+  strongestPerTrigger,
+} from '@/lib/trigger-correlations';
+import {
+  LAG_WINDOW_PRESETS,
+  LagInputs,
+  computeLagAnalysis,
+  describeLagPeak,
+  fetchLagInputs,
+  formatLagEffect,
+  formatLagWindow,
+} from '@/lib/lag-analysis';
+import { CycleInsights, fetchCycleInsights, phaseLabel } from '@/lib/cycle';
+import { InsightReport } from '@/lib/types';
 import { colors, typography, spacing, borderRadius, shadows } from '@/lib/design-system';
 import { Card } from '@/components/Card';
 
-interface Pattern {
-  id: string;
-  headline: string;
-  explanation: string;
-  conditionId?: string;
-}
-
 interface ConditionInsight {
   conditionName: string;
   conditionId: string;
@@ -43,17 +56,36 @@ interface InsufficientDataNotice {
   message: string;
 }
 
+const CORRELATION_WINDOW_DAYS = 90;
+const CYCLE_WINDOW_DAYS = 180;
+
+function formatEvidenceDates(dates: string[]) {
+  const shown = dates.slice(0, 3).map((d) =>
+    new Date(`${d}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+  );
+  const extra = dates.length - shown.length;
+  return extra > 0 ? `${shown.join(', ')} +${extra} more` : shown.join(', ');
+}
+
 export default function InsightsScreen() {
   const router = useRouter();
   const { user } = useAuth();
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
-  const [featuredInsight, setFeaturedInsight] = useState<string | null>(null);
-  const [patterns, setPatterns] = useState<Pattern[]>([]);
-  const [conditionInsights, setConditionInsights] = useState<ConditionInsight[]>([]);
+  const [report, setReport] = useState<InsightReport | null>(null);
   const [insufficientData, setInsufficientData] = useState<InsufficientDataNotice[]>([]);
   const [expandedConditions, setExpandedConditions] = useState<Set<string>>(new Set());
   const [hasEnoughData, setHasEnoughData] = useState(false);
+  const [correlations, setCorrelations] = useState<ConditionCorrelations[]>([]);
+  const [cycleInsights, setCycleInsights] = useState<CycleInsights | null>(null);
+  const [lagInputs, setLagInputs] = useState<LagInputs | null>(null);
+  const [lagPresetId, setLagPresetId] = useState(LAG_WINDOW_PRESETS[0].id);
+
+  const lagPreset = LAG_WINDOW_PRESETS.find((p) => p.id === lagPresetId) ?? LAG_WINDOW_PRESETS[0];
+  const lagAnalysis = useMemo(
+    () => (lagInputs ? computeLagAnalysis(lagInputs, lagPreset.windows) : []),
+    [lagInputs, lagPreset]
+  );
 
   useEffect(() => {
     if (user) {
@@ -87,6 +119,8 @@ export default function InsightsScreen() {
           },
         ]);
       } else {
+        await Promise.all([loadCorrelations(), loadLagInputs(), loadCycleInsights()]);
+
         const { data: insights } = await supabase
           .from('ai_insights')
           .select('*')
@@ -96,7 +130,7 @@ export default function InsightsScreen() {
           .maybeSingle();
 
         if (insights) {
-          parseInsights(insights.insights_text);
+          setReport(insightReportFromRow(insights));
         } else {
           await generateNewInsights();
         }
@@ -108,38 +142,48 @@ export default function InsightsScreen() {
     }
   };
 
-  const generateNewInsights = async () => {
+  const loadCorrelations = async () => {
     if (!user) return;
 
     try {
-      const result = await generateAIInsights(user.id, 30);
-      if (result.insights) {
-        parseInsights(result.insights);
-      }
+      const report = await fetchTriggerCorrelations(user.id, CORRELATION_WINDOW_DAYS);
+      setCorrelations(report.conditions);
     } catch (error) {
-      console.error('Error generating insights:', error);
+      console.error('Error computing trigger correlations:', error);
     }
   };
 
-  const parseInsights = (insightsText: string) => {
-    const lines = insightsText.split('\n').filter((l) => l.trim());
+  const loadLagInputs = async () => {
+    if (!user) return;
 
-    if (lines.length > 0) {
-      setFeaturedInsight(lines[0].replace(/^[-•*]\s*/, ''));
+    try {
+      setLagInputs(await fetchLagInputs(user.id, CORRELATION_WINDOW_DAYS));
+    } catch (error) {
+      console.error('Error loading logs for delayed effects:', error);
     }
+  };
+
+  const loadCycleInsights = async () => {
+    if (!user) return;
 
-    const patternList: Pattern[] = [];
-    lines.slice(1, 5).forEach((line, idx) => {
-      const cleaned = line.replace(/^[-•*]\s*/, '');
-      if (cleaned) {
-        patternList.push({
-          id: `pattern-${idx}`,
-          headline: cleaned.split('.')[0],
-          explanation: cleaned,
-        });
+    try {
+      setCycleInsights(await fetchCycleInsights(user.id, CYCLE_WINDOW_DAYS));
+    } catch (error) {
+      console.error('Error computing cycle phase severity:', error);
+    }
+  };
+
+  const generateNewInsights = async () => {
+    if (!user) return;
+
+    try {
+      const result = await generateAIInsights(30);
+      if (result.report) {
+        setReport(result.report);
       }
-    });
-    setPatterns(patternList);
+    } catch (error) {
+      console.error('Error generating insights:', error);
+    }
   };
 
   const handleRefresh = async () => {
@@ -158,6 +202,19 @@ export default function InsightsScreen() {
     setExpandedConditions(newExpanded);
   };
 
+  // group the report's patterns under each condition they mention
+  const conditionInsights: ConditionInsight[] = [];
+  report?.patterns.forEach((pattern) => {
+    pattern.conditions.forEach((name) => {
+      let entry = conditionInsights.find((c) => c.conditionName === name);
+      if (!entry) {
+        entry = { conditionName: name, conditionId: name, insights: [] };
+        conditionInsights.push(entry);
+      }
+      entry.insights.push(pattern.title);
+    });
+  });
+
   return (
     <View style={styles.container}>
       <View style={styles.header}>
@@ -195,37 +252,276 @@ export default function InsightsScreen() {
           </View>
         ) : (
           <>
-            {featuredInsight && (
+            {report && (
               <View style={styles.featuredCard}>
                 <View style={styles.featuredHeader}>
                   <Sparkles size={24} color="#6366f1" strokeWidth={2} />
                   <Text style={styles.featuredLabel}>Featured Insight</Text>
+                  {report.version > 0 && (
+                    <Text style={styles.confidenceBadge}>{report.confidence} confidence</Text>
+                  )}
+                </View>
+                <Text style={styles.featuredText}>{report.featured.title}</Text>
+                {!!report.featured.body && (
+                  <Text style={styles.featuredBody}>{report.featured.body}</Text>
+                )}
+                {!!report.confidence_reason && (
+                  <Text style={styles.confidenceReason}>{report.confidence_reason}</Text>
+                )}
+              </View>
+            )}
+
+            {correlations.length > 0 && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Trigger Patterns</Text>
+                <Text style={styles.sectionSubtitle}>
+                  Calculated directly from your last {CORRELATION_WINDOW_DAYS} days of logs. These
+                  are associations, not proof that one causes the other.
+                </Text>
+                <View style={styles.patternsList}>
+                  {correlations.map((condition) => {
+                    const findings = strongestPerTrigger(
+                      condition.results.filter((r) => r.reliable)
+                    ).slice(0, 3);
+
+                    return (
+                      <View key={condition.userConditionId} style={styles.correlationCard}>
+                        <Text style={styles.conditionName}>{condition.conditionName}</Text>
+                        {findings.length === 0 ? (
+                          <Text style={styles.correlationEmpty}>
+                            No clear patterns yet ({condition.daysWithSeverity} days rated,{' '}
+                            {condition.triggersTested} triggers checked).
+                          </Text>
+                        ) : (
+                          findings.map((finding) => (
+                            <View
+                              key={`${finding.triggerId}-${finding.lag}`}
+                              style={styles.correlationRow}
+                            >
+                              <View style={styles.patternIcon}>
+                                <BarChart3 size={18} color="#6366f1" strokeWidth={2} />
+                              </View>
+                              <View style={styles.patternContent}>
+                                <Text style={styles.patternHeadline}>
+                                  {describeCorrelation(finding)}
+                                </Text>
+                                <Text style={styles.patternExplanation}>
+                                  {describeCorrelationStats(finding)}
+                                </Text>
+                                <Text style={styles.correlationStrength}>
+                                  {finding.strength} effect
+                                </Text>
+                              </View>
+                            </View>
+                          ))
+                        )}
+                      </View>
+                    );
+                  })}
                 </View>
-                <Text style={styles.featuredText}>{featuredInsight}</Text>
               </View>
             )}
 
-            {patterns.length > 0 && (
+            {lagAnalysis.length > 0 && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Delayed Effects</Text>
+                <Text style={styles.sectionSubtitle}>
+                  How severity changed in the hours after each trigger you track. Moment logs use
+                  the time you logged them; daily check-ins count from midday.
+                </Text>
+                <View style={styles.lagPresetRow}>
+                  {LAG_WINDOW_PRESETS.map((preset) => {
+                    const active = preset.id === lagPreset.id;
+                    return (
+                      <TouchableOpacity
+                        key={preset.id}
+                        style={[styles.lagPresetChip, active && styles.lagPresetChipActive]}
+                        onPress={() => setLagPresetId(preset.id)}
+                      >
+                        <Text style={[styles.lagPresetText, active && styles.lagPresetTextActive]}>
+                          {preset.label}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+                <View style={styles.patternsList}>
+                  {lagAnalysis.map((condition) => {
+                    const findings = condition.profiles.filter((p) => p.peak).slice(0, 3);
+
+                    return (
+                      <View key={condition.userConditionId} style={styles.correlationCard}>
+                        <Text style={styles.conditionName}>{condition.conditionName}</Text>
+                        {findings.length === 0 ? (
+                          <Text style={styles.correlationEmpty}>
+                            No clear delayed effects yet ({condition.triggersTested} triggers checked).
+                          </Text>
+                        ) : (
+                          findings.map((profile) => (
+                            <View key={profile.triggerId} style={styles.correlationRow}>
+                              <View style={styles.patternIcon}>
+                                <Clock size={18} color="#6366f1" strokeWidth={2} />
+                              </View>
+                              <View style={styles.patternContent}>
+                                <Text style={styles.patternHeadline}>
+                                  {describeLagPeak(condition.conditionName, profile)}
+                                </Text>
+                                <View style={styles.lagWindowRow}>
+                                  {profile.responses.map((response, idx) => (
+                                    <View
+                                      key={formatLagWindow(lagPreset.windows[idx])}
+                                      style={[
+                                        styles.lagWindowCell,
+                                        response === profile.peak && styles.lagWindowCellPeak,
+                                      ]}
+                                    >
+                                      <Text style={styles.lagWindowLabel}>
+                                        {formatLagWindow(lagPreset.windows[idx])}
+                                      </Text>
+                                      <Text
+                                        style={[
+                                          styles.lagWindowValue,
+                                          response?.reliable && styles.lagWindowValueReliable,
+                                        ]}
+                                      >
+                                        {response ? formatLagEffect(response) : '–'}
+                                      </Text>
+                                    </View>
+                                  ))}
+                                </View>
+                                <Text style={styles.correlationStrength}>
+                                  {profile.peak!.strength} effect · {profile.peak!.n} days
+                                </Text>
+                              </View>
+                            </View>
+                          ))
+                        )}
+                      </View>
+                    );
+                  })}
+                </View>
+              </View>
+            )}
+
+            {cycleInsights?.model && cycleInsights.conditions.length > 0 && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Severity by Cycle Phase</Text>
+                <Text style={styles.sectionSubtitle}>
+                  Average severity in each phase of your completed cycles over the last{' '}
+                  {CYCLE_WINDOW_DAYS} days. Phases are estimated from the days you logged being
+                  on your period.
+                </Text>
+                <View style={styles.patternsList}>
+                  {cycleInsights.conditions.map((condition) => {
+                    const ratedDays = condition.phases.reduce((sum, p) => sum + p.days, 0);
+
+                    return (
+                      <View key={condition.userConditionId} style={styles.correlationCard}>
+                        <Text style={styles.conditionName}>{condition.conditionName}</Text>
+                        {ratedDays === 0 ? (
+                          <Text style={styles.correlationEmpty}>
+                            No rated days in a completed cycle yet.
+                          </Text>
+                        ) : (
+                          <View style={styles.phaseList}>
+                            {condition.phases.map((p) => (
+                              <View key={p.phase} style={styles.phaseRow}>
+                                <Text style={styles.phaseLabel}>{phaseLabel(p.phase)}</Text>
+                                <View style={styles.phaseTrack}>
+                                  {p.mean !== null && (
+                                    <View
+                                      style={[
+                                        styles.phaseFill,
+                                        condition.standout?.phase === p.phase &&
+                                          styles.phaseFillStandout,
+                                        { width: `${Math.max(4, (p.mean / 10) * 100)}%` },
+                                      ]}
+                                    />
+                                  )}
+                                </View>
+                                <Text style={styles.phaseValue}>
+                                  {p.mean !== null ? p.mean.toFixed(1) : '–'}
+                                  <Text style={styles.phaseDays}> · {p.days}d</Text>
+                                </Text>
+                              </View>
+                            ))}
+                          </View>
+                        )}
+                        {condition.standout && (
+                          <Text style={styles.correlationStrength}>
+                            {condition.standout.comparison.difference > 0 ? 'Worse' : 'Milder'} during{' '}
+                            {phaseLabel(condition.standout.phase).toLowerCase()} (
+                            {condition.standout.comparison.difference > 0 ? '+' : ''}
+                            {condition.standout.comparison.difference.toFixed(1)} vs the rest of the
+                            cycle)
+                          </Text>
+                        )}
+                      </View>
+                    );
+                  })}
+                </View>
+              </View>
+            )}
+
+            {report && report.patterns.length > 0 && (
               <View style={styles.section}>
                 <Text style={styles.sectionTitle}>Pattern Detection</Text>
                 <View style={styles.patternsList}>
-                  {patterns.map((pattern) => (
-                    <TouchableOpacity
-                      key={pattern.id}
-                      style={styles.patternCard}
-                      activeOpacity={0.7}
-                    >
+                  {report.patterns.map((pattern, idx) => (
+                    <View key={`pattern-${idx}`} style={styles.patternCard}>
                       <View style={styles.patternIcon}>
                         <TrendingUp size={20} color="#6366f1" strokeWidth={2} />
                       </View>
                       <View style={styles.patternContent}>
-                        <Text style={styles.patternHeadline}>{pattern.headline}</Text>
-                        <Text style={styles.patternExplanation}>
-                          {pattern.explanation}
-                        </Text>
+                        <Text style={styles.patternHeadline}>{pattern.title}</Text>
+                        <Text style={styles.patternExplanation}>{pattern.explanation}</Text>
+                        {(pattern.triggers.length > 0 || pattern.conditions.length > 0) && (
+                          <View style={styles.chipRow}>
+                            {pattern.conditions.map((name) => (
+                              <Text key={`c-${name}`} style={[styles.chip, styles.conditionChip]}>
+                                {name}
+                              </Text>
+                            ))}
+                            {pattern.triggers.map((t) => (
+                              <Text key={`t-${t.key}`} style={styles.chip}>
+                                {t.label}
+                              </Text>
+                            ))}
+                          </View>
+                        )}
+                        {pattern.evidence_dates.length > 0 && (
+                          <Text style={styles.evidenceText}>
+                            Seen on {formatEvidenceDates(pattern.evidence_dates)} ·{' '}
+                            {pattern.confidence} confidence
+                          </Text>
+                        )}
                       </View>
-                      <ChevronRight size={20} color="#9ca3af" />
-                    </TouchableOpacity>
+                    </View>
+                  ))}
+                </View>
+              </View>
+            )}
+
+            {report && report.experiments.length > 0 && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Experiments to Try</Text>
+                <View style={styles.patternsList}>
+                  {report.experiments.map((experiment, idx) => (
+                    <View key={`experiment-${idx}`} style={styles.patternCard}>
+                      <View style={[styles.patternIcon, styles.experimentIcon]}>
+                        <FlaskConical size={20} color="#6366f1" strokeWidth={2} />
+                      </View>
+                      <View style={styles.patternContent}>
+                        <Text style={styles.patternHeadline}>{experiment.title}</Text>
+                        <Text style={styles.patternExplanation}>{experiment.description}</Text>
+                        {experiment.duration_days !== null && (
+                          <Text style={styles.evidenceText}>
+                            For {experiment.duration_days} day
+                            {experiment.duration_days !== 1 ? 's' : ''}
+                          </Text>
+                        )}
+                      </View>
+                    </View>
                   ))}
                 </View>
               </View>
@@ -379,6 +675,22 @@ const styles = StyleSheet.create({
     color: colors.neutral.gray900,
     lineHeight: 26,
   },
+  featuredBody: {
+    ...typography.body,
+    color: colors.neutral.gray700,
+    marginTop: spacing.sm,
+  },
+  confidenceBadge: {
+    ...typography.small,
+    marginLeft: 'auto',
+    color: colors.neutral.gray700,
+    textTransform: 'capitalize',
+  },
+  confidenceReason: {
+    ...typography.caption,
+    color: colors.neutral.gray600,
+    marginTop: spacing.sm,
+  },
   section: {
     marginBottom: spacing.lg,
   },
@@ -387,6 +699,12 @@ const styles = StyleSheet.create({
     color: colors.neutral.gray900,
     marginBottom: spacing.md,
   },
+  sectionSubtitle: {
+    ...typography.caption,
+    color: colors.neutral.gray600,
+    marginTop: -spacing.sm,
+    marginBottom: spacing.md,
+  },
   patternsList: {
     gap: spacing.md,
   },
@@ -420,6 +738,145 @@ const styles = StyleSheet.create({
     color: colors.neutral.gray600,
     lineHeight: 20,
   },
+  correlationCard: {
+    padding: spacing.md,
+    backgroundColor: colors.neutral.white,
+    borderRadius: borderRadius.lg,
+    gap: spacing.md,
+    ...shadows.sm,
+  },
+  correlationRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: spacing.md,
+  },
+  correlationEmpty: {
+    ...typography.caption,
+    color: colors.neutral.gray600,
+  },
+  correlationStrength: {
+    ...typography.small,
+    color: colors.accent.purple,
+    textTransform: 'capitalize',
+    marginTop: 2,
+  },
+  phaseList: {
+    gap: spacing.sm,
+  },
+  phaseRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  phaseLabel: {
+    ...typography.caption,
+    color: colors.neutral.gray700,
+    width: 96,
+  },
+  phaseTrack: {
+    flex: 1,
+    height: 8,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.neutral.gray100,
+    overflow: 'hidden',
+  },
+  phaseFill: {
+    height: '100%',
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.primary.pink,
+  },
+  phaseFillStandout: {
+    backgroundColor: colors.accent.purple,
+  },
+  phaseValue: {
+    ...typography.captionBold,
+    color: colors.neutral.gray900,
+    width: 64,
+    textAlign: 'right',
+  },
+  phaseDays: {
+    ...typography.small,
+    color: colors.neutral.gray500,
+  },
+  lagPresetRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+    marginBottom: spacing.md,
+  },
+  lagPresetChip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.neutral.white,
+    borderWidth: 1,
+    borderColor: colors.neutral.gray300,
+  },
+  lagPresetChipActive: {
+    backgroundColor: colors.primary.lavender,
+    borderColor: colors.accent.purple,
+  },
+  lagPresetText: {
+    ...typography.caption,
+    color: colors.neutral.gray700,
+  },
+  lagPresetTextActive: {
+    ...typography.captionBold,
+    color: colors.neutral.gray900,
+  },
+  lagWindowRow: {
+    flexDirection: 'row',
+    gap: spacing.xs,
+    marginTop: spacing.sm,
+  },
+  lagWindowCell: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.md,
+    backgroundColor: colors.neutral.gray50,
+  },
+  lagWindowCellPeak: {
+    backgroundColor: colors.primary.lavender,
+  },
+  lagWindowLabel: {
+    ...typography.small,
+    color: colors.neutral.gray500,
+  },
+  lagWindowValue: {
+    ...typography.caption,
+    color: colors.neutral.gray600,
+  },
+  lagWindowValueReliable: {
+    ...typography.captionBold,
+    color: colors.neutral.gray900,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+    marginTop: spacing.sm,
+  },
+  chip: {
+    ...typography.small,
+    color: colors.neutral.gray800,
+    backgroundColor: colors.primary.mint,
+    borderRadius: borderRadius.full,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: 2,
+    overflow: 'hidden',
+  },
+  conditionChip: {
+    backgroundColor: colors.primary.lavender,
+  },
+  evidenceText: {
+    ...typography.small,
+    color: colors.neutral.gray500,
+    marginTop: spacing.xs,
+  },
+  experimentIcon: {
+    backgroundColor: colors.primary.peach,
+  },
   conditionsList: {
     gap: spacing.md,
   },
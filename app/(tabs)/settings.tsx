@@ -29,10 +29,22 @@ import {
   Calendar,
   Trash2,
   Download,
+  Upload,
 } from 'lucide-react-native';
 import { supabase } from '@/lib/supabase';
+import { deviceTimeZone, updateUserTimeZone } from '@/lib/dates';
+import { syncNotificationSchedule } from '@/lib/notifications';
+import { ALERT_CONSECUTIVE_DAYS, setBaselineAlertsEnabled } from '@/lib/baseline';
 import { useCallback } from 'react';
 import { seedDemoData, clearAllUserData } from '@/lib/seed-demo-data';
+import {
+  exportUserData,
+  getExportRange,
+  EXPORT_RANGE_PRESETS,
+  ExportFormat,
+  ExportArchive,
+} from '@/lib/data-export';
+import { pickImportFile, parseImportArchive, importArchive, summarizeImportReport } from '@/lib/data-import';
 import { colors, typography, spacing, borderRadius, shadows } from '@/lib/design-system';
 
 interface UserPreferences {
@@ -40,6 +52,7 @@ interface UserPreferences {
   timezone: string;
   display_name?: string;
   profile_picture_url?: string;
+  baseline_alerts_enabled: boolean;
 }
 
 interface CustomNotification {
@@ -51,19 +64,41 @@ interface CustomNotification {
   is_enabled: boolean;
 }
 
+const EXPORT_OPTIONS: { format: ExportFormat; label: string; description: string }[] = [
+  {
+    format: 'pdf',
+    label: 'Clinician Report (PDF)',
+    description: 'Printable summary for appointments',
+  },
+  {
+    format: 'csv',
+    label: 'Spreadsheet (CSV)',
+    description: 'One row per log, for spreadsheets and analysis',
+  },
+  {
+    format: 'json',
+    label: 'Full Archive (JSON)',
+    description: 'Everything, including conditions and triggers',
+  },
+];
+
 export default function SettingsScreen() {
   const { user } = useAuth();
   const router = useRouter();
   const [preferences, setPreferences] = useState<UserPreferences>({
     theme: 'auto',
     timezone: 'UTC',
+    baseline_alerts_enabled: true,
   });
   const [notifications, setNotifications] = useState<CustomNotification[]>([]);
   const [loading, setLoading] = useState(true);
   const [showThemeModal, setShowThemeModal] = useState(false);
   const [showProfileModal, setShowProfileModal] = useState(false);
   const [displayName, setDisplayName] = useState('');
-  const [exporting, setExporting] = useState(false);
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [exportRangeDays, setExportRangeDays] = useState<number | null>(90);
+  const [showExportRangeModal, setShowExportRangeModal] = useState(false);
+  const [importing, setImporting] = useState(false);
 
   useEffect(() => {
     if (user) {
@@ -98,9 +133,10 @@ export default function SettingsScreen() {
       if (data) {
         setPreferences({
           theme: data.theme as 'light' | 'dark' | 'auto',
-          timezone: data.timezone,
+          timezone: data.timezone || deviceTimeZone(),
           display_name: data.display_name,
           profile_picture_url: data.profile_picture_url,
+          baseline_alerts_enabled: data.baseline_alerts_enabled ?? true,
         });
         setDisplayName(data.display_name || '');
       } else {
@@ -140,6 +176,19 @@ export default function SettingsScreen() {
     }
   };
 
+  const switchToDeviceTimeZone = async () => {
+    if (!user) return;
+
+    const timezone = deviceTimeZone();
+    try {
+      await updateUserTimeZone(user.id, timezone);
+      setPreferences((prev) => ({ ...prev, timezone }));
+    } catch (error) {
+      console.error('Error updating timezone:', error);
+      Alert.alert('Error', 'Failed to update timezone');
+    }
+  };
+
   const updateTheme = async (theme: 'light' | 'dark' | 'auto') => {
     if (!user) return;
 
@@ -185,6 +234,25 @@ export default function SettingsScreen() {
     }
   };
 
+  const toggleBaselineAlerts = async (enabled: boolean) => {
+    if (!user) return;
+
+    setPreferences((prev) => ({ ...prev, baseline_alerts_enabled: enabled }));
+    try {
+      await setBaselineAlertsEnabled(user.id, enabled);
+    } catch (error) {
+      console.error('Error updating baseline alerts:', error);
+      setPreferences((prev) => ({ ...prev, baseline_alerts_enabled: !enabled }));
+    }
+  };
+
+  const resyncReminders = () => {
+    if (!user) return;
+    syncNotificationSchedule(user.id).catch((error) =>
+      console.error('Error scheduling notifications:', error)
+    );
+  };
+
   const toggleNotification = async (id: string, isEnabled: boolean) => {
     try {
       const { error } = await supabase
@@ -200,6 +268,7 @@ export default function SettingsScreen() {
       setNotifications((prev) =>
         prev.map((n) => (n.id === id ? { ...n, is_enabled: isEnabled } : n))
       );
+      resyncReminders();
     } catch (error) {
       console.error('Error toggling notification:', error);
     }
@@ -224,6 +293,7 @@ export default function SettingsScreen() {
             }
 
             setNotifications((prev) => prev.filter((n) => n.id !== id));
+            resyncReminders();
           } catch (error) {
             console.error('Error deleting notification:', error);
           }
@@ -232,18 +302,20 @@ export default function SettingsScreen() {
     ]);
   };
 
-  const exportDataToPDF = async () => {
-    setExporting(true);
+  const exportData = async (format: ExportFormat) => {
+    if (!user) return;
+
+    setExporting(format);
     try {
-      Alert.alert(
-        'Export Data',
-        'PDF export will be available soon. For now, you can view your data in the History tab.',
-        [{ text: 'OK' }]
-      );
+      const result = await exportUserData(user.id, format, getExportRange(exportRangeDays));
+      if (result.dailyLogs === 0 && result.momentLogs === 0) {
+        Alert.alert('Export Data', 'No logs found in the selected date range.');
+      }
     } catch (error) {
       console.error('Error exporting data:', error);
+      Alert.alert('Error', 'Failed to export data. Please try again.');
     } finally {
-      setExporting(false);
+      setExporting(null);
     }
   };
 
@@ -277,6 +349,47 @@ export default function SettingsScreen() {
     );
   };
 
+  const handleImport = async () => {
+    if (!user) return;
+
+    let archive: ExportArchive;
+    try {
+      const text = await pickImportFile();
+      if (!text) return;
+      archive = parseImportArchive(text);
+    } catch (error: any) {
+      console.error('Error reading import file:', error);
+      Alert.alert('Import Failed', error?.message || 'Could not read this file.');
+      return;
+    }
+
+    const runImport = async (restorePreferences: boolean) => {
+      setImporting(true);
+      try {
+        const report = await importArchive(user.id, archive, { restorePreferences });
+        Alert.alert('Import Complete', summarizeImportReport(report));
+      } catch (error: any) {
+        console.error('Error importing data:', error);
+        Alert.alert('Import Failed', error?.message || 'Failed to import data. Please try again.');
+      } finally {
+        setImporting(false);
+      }
+    };
+
+    Alert.alert(
+      'Import Data',
+      `Merge ${archive.daily_logs.length} daily logs and ${archive.moment_logs.length} moment logs into your account? Entries you already have are kept.` +
+        (archive.preferences ? '\n\nRestoring settings replaces your current ones.' : ''),
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Import', onPress: () => runImport(false) },
+        ...(archive.preferences
+          ? [{ text: 'Import and restore settings', onPress: () => runImport(true) }]
+          : []),
+      ]
+    );
+  };
+
   const handleBackup = async () => {
     Alert.alert(
       'Backup Data',
@@ -427,12 +540,21 @@ export default function SettingsScreen() {
               </View>
             </View>
             <View style={styles.divider} />
-            <View style={styles.settingRow}>
+            <TouchableOpacity
+              style={styles.settingRow}
+              onPress={switchToDeviceTimeZone}
+              disabled={preferences.timezone === deviceTimeZone()}
+            >
               <View style={styles.settingLeft}>
                 <Text style={styles.settingLabel}>Timezone</Text>
                 <Text style={styles.settingValue}>{preferences.timezone}</Text>
+                {preferences.timezone !== deviceTimeZone() && (
+                  <Text style={styles.settingSubtext}>
+                    Tap to use this device's timezone ({deviceTimeZone()})
+                  </Text>
+                )}
               </View>
-            </View>
+            </TouchableOpacity>
           </View>
         </View>
 
@@ -442,6 +564,22 @@ export default function SettingsScreen() {
             <Text style={styles.sectionTitle}>Notifications & Reminders</Text>
           </View>
           <View style={styles.card}>
+            <View style={styles.settingRow}>
+              <View style={styles.settingLeft}>
+                <Text style={styles.settingLabel}>Above-Usual Alerts</Text>
+                <Text style={styles.settingValue}>
+                  Show an alert on the dashboard when severity stays above your usual for{' '}
+                  {ALERT_CONSECUTIVE_DAYS}+ days in a row
+                </Text>
+              </View>
+              <Switch
+                value={preferences.baseline_alerts_enabled}
+                onValueChange={toggleBaselineAlerts}
+                trackColor={{ false: '#d1d5db', true: '#c7d2fe' }}
+                thumbColor={preferences.baseline_alerts_enabled ? '#6366f1' : '#f3f4f6'}
+              />
+            </View>
+            <View style={styles.divider} />
             {notifications.length === 0 ? (
               <View style={styles.emptyState}>
                 <Bell size={32} color="#d1d5db" strokeWidth={1.5} />
@@ -525,21 +663,36 @@ export default function SettingsScreen() {
           <View style={styles.card}>
             <TouchableOpacity
               style={styles.settingRow}
-              onPress={exportDataToPDF}
-              disabled={exporting}
+              onPress={() => setShowExportRangeModal(true)}
             >
               <View style={styles.settingLeft}>
-                <Text style={styles.settingLabel}>Export to PDF</Text>
-                <Text style={styles.settingSubtext}>
-                  Generate a medical report for appointments
+                <Text style={styles.settingLabel}>Date Range</Text>
+                <Text style={styles.settingValue}>
+                  {EXPORT_RANGE_PRESETS.find((p) => p.days === exportRangeDays)?.label}
                 </Text>
               </View>
-              {exporting ? (
-                <ActivityIndicator size="small" color="#6366f1" />
-              ) : (
-                <Download size={20} color="#6366f1" strokeWidth={2} />
-              )}
+              <ChevronRight size={20} color="#9ca3af" />
             </TouchableOpacity>
+            {EXPORT_OPTIONS.map((option) => (
+              <View key={option.format}>
+                <View style={styles.divider} />
+                <TouchableOpacity
+                  style={styles.settingRow}
+                  onPress={() => exportData(option.format)}
+                  disabled={exporting !== null}
+                >
+                  <View style={styles.settingLeft}>
+                    <Text style={styles.settingLabel}>{option.label}</Text>
+                    <Text style={styles.settingSubtext}>{option.description}</Text>
+                  </View>
+                  {exporting === option.format ? (
+                    <ActivityIndicator size="small" color="#6366f1" />
+                  ) : (
+                    <Download size={20} color="#6366f1" strokeWidth={2} />
+                  )}
+                </TouchableOpacity>
+              </View>
+            ))}
           </View>
         </View>
 
@@ -558,6 +711,24 @@ export default function SettingsScreen() {
               </View>
               <ChevronRight size={20} color="#9ca3af" />
             </TouchableOpacity>
+            <View style={styles.divider} />
+            <TouchableOpacity
+              style={styles.settingRow}
+              onPress={handleImport}
+              disabled={importing}
+            >
+              <View style={styles.settingLeft}>
+                <Text style={styles.settingLabel}>Import Data</Text>
+                <Text style={styles.settingSubtext}>
+                  Restore from a JSON archive export
+                </Text>
+              </View>
+              {importing ? (
+                <ActivityIndicator size="small" color="#6366f1" />
+              ) : (
+                <Upload size={20} color="#6366f1" strokeWidth={2} />
+              )}
+            </TouchableOpacity>
           </View>
         </View>
 
@@ -733,6 +904,47 @@ export default function SettingsScreen() {
           </View>
         </View>
       </Modal>
+
+      <Modal
+        visible={showExportRangeModal}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setShowExportRangeModal(false)}
+      >
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <TouchableOpacity onPress={() => setShowExportRangeModal(false)}>
+              <X size={24} color="#1f2937" />
+            </TouchableOpacity>
+            <Text style={styles.modalTitle}>Date Range</Text>
+            <View style={{ width: 24 }} />
+          </View>
+          <View style={styles.modalContent}>
+            {EXPORT_RANGE_PRESETS.map((preset) => (
+              <TouchableOpacity
+                key={preset.label}
+                style={[
+                  styles.themeOption,
+                  exportRangeDays === preset.days && styles.themeOptionSelected,
+                ]}
+                onPress={() => {
+                  setExportRangeDays(preset.days);
+                  setShowExportRangeModal(false);
+                }}
+              >
+                <Text
+                  style={[
+                    styles.themeOptionText,
+                    exportRangeDays === preset.days && styles.themeOptionTextSelected,
+                  ]}
+                >
+                  {preset.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      </Modal>
     </View>
   );
 }
@@ -2,12 +2,16 @@ import { Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import { useFrameworkReady } from '@/hooks/useFrameworkReady';
 import { AuthProvider } from '@/context/AuthContext';
+import { OutboxSync } from '@/components/OutboxSync';
+import { NotificationSync } from '@/components/NotificationSync';
 
 export default function RootLayout() {
   useFrameworkReady();
 
   return (
     <AuthProvider>
+      <OutboxSync />
+      <NotificationSync />
       <Stack screenOptions={{ headerShown: false }}>
         <Stack.Screen name="index" />
         <Stack.Screen name="(tabs)" />
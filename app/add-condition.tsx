@@ -7,11 +7,15 @@ import {
   TouchableOpacity,
   TextInput,
   ActivityIndicator,
+  Alert,
 } from 'react-native';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { X } from 'lucide-react-native';
 import { useAuth } from '@/context/AuthContext';
 import { supabase } from '@/lib/supabase';
+import { todayISODate } from '@/lib/dates';
+import { changeConditionStatus, isValidChangeDate, recordStatusEvent } from '@/lib/condition-status';
+import { RecommendedTrigger, enableTriggers, fetchRecommendedTriggers } from '@/lib/trigger-presets';
 import { ConditionStatus } from '@/lib/types';
 
 const STATUS_OPTIONS: { value: ConditionStatus; label: string; description: string }[] = [
@@ -47,8 +51,14 @@ export default function AddConditionScreen() {
 
   const [status, setStatus] = useState<ConditionStatus>('exploring');
   const [notes, setNotes] = useState('');
+  // status when the screen opened, so an edit only records a change when there is one
+  const [originalStatus, setOriginalStatus] = useState<ConditionStatus | null>(null);
+  const [changedOn, setChangedOn] = useState(todayISODate());
+  const [changeNote, setChangeNote] = useState('');
   const [loading, setLoading] = useState(false);
   const [initialLoading, setInitialLoading] = useState(!!editId);
+  const [suggestedTriggers, setSuggestedTriggers] = useState<RecommendedTrigger[]>([]);
+  const [selectedTriggerIds, setSelectedTriggerIds] = useState<Set<string>>(new Set());
 
   useEffect(() => {
     if (editId && user) {
@@ -56,6 +66,31 @@ export default function AddConditionScreen() {
     }
   }, [editId, user]);
 
+  useEffect(() => {
+    if (!editId && user && conditionName) {
+      loadSuggestedTriggers();
+    }
+  }, [editId, user, conditionName]);
+
+  const loadSuggestedTriggers = async () => {
+    try {
+      const suggested = await fetchRecommendedTriggers(user!.id, conditionName);
+      setSuggestedTriggers(suggested);
+      setSelectedTriggerIds(new Set(suggested.filter((r) => !r.tracked).map((r) => r.trigger.id)));
+    } catch (error) {
+      console.error('Error loading suggested triggers:', error);
+    }
+  };
+
+  const toggleSuggestedTrigger = (triggerId: string) => {
+    setSelectedTriggerIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(triggerId)) next.delete(triggerId);
+      else next.add(triggerId);
+      return next;
+    });
+  };
+
   const loadExistingCondition = async () => {
     try {
       const { data } = await supabase
@@ -67,6 +102,7 @@ export default function AddConditionScreen() {
 
       if (data) {
         setStatus(data.status);
+        setOriginalStatus(data.status);
         setNotes(data.notes || '');
       }
     } catch (error) {
@@ -76,20 +112,31 @@ export default function AddConditionScreen() {
     }
   };
 
+  const recordsChange = !editId || status !== originalStatus;
+
   const handleSave = async () => {
     if (!user) return;
 
+    if (recordsChange && !isValidChangeDate(changedOn)) {
+      Alert.alert('Check the date', 'Use YYYY-MM-DD, no later than today.');
+      return;
+    }
+
     setLoading(true);
     try {
       if (editId) {
         await supabase
           .from('user_conditions')
-          .update({
-            status: status,
-            notes: notes || null,
-          })
+          .update({ notes: notes || null })
           .eq('id', editId)
           .eq('user_id', user.id);
+
+        if (originalStatus) {
+          await changeConditionStatus({ id: editId, status: originalStatus }, status, {
+            changedOn,
+            note: changeNote,
+          });
+        }
       } else {
         let globalConditionId: string | null = null;
 
@@ -120,13 +167,32 @@ export default function AddConditionScreen() {
             .eq('id', globalConditionId)
             .maybeSingle();
 
-          await supabase.from('user_conditions').insert({
-            user_id: user.id,
-            condition_id: globalConditionId,
-            status: status,
-            notes: notes || null,
-            is_cycle: conditionData?.is_cycle || false,
+          const { data: added, error: addErr } = await supabase
+            .from('user_conditions')
+            .insert({
+              user_id: user.id,
+              condition_id: globalConditionId,
+              status: status,
+              notes: notes || null,
+              is_cycle: conditionData?.is_cycle || false,
+            })
+            .select('id')
+            .single();
+
+          if (addErr) throw addErr;
+
+          await recordStatusEvent(user.id, added.id, status, null, {
+            changedOn,
+            note: changeNote,
           });
+
+          // the condition is saved either way; triggers can still be enabled in settings
+          await enableTriggers(
+            user.id,
+            suggestedTriggers
+              .filter((r) => !r.tracked && selectedTriggerIds.has(r.trigger.id))
+              .map((r) => r.trigger)
+          ).catch((error) => console.error('Error enabling suggested triggers:', error));
         }
       }
 
@@ -209,6 +275,58 @@ export default function AddConditionScreen() {
           </View>
         </View>
 
+        {recordsChange && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>
+              {editId ? 'When did this change?' : 'Since when?'}
+            </Text>
+            <TextInput
+              style={styles.dateInput}
+              placeholder="YYYY-MM-DD"
+              value={changedOn}
+              onChangeText={setChangedOn}
+              autoCapitalize="none"
+              keyboardType="numbers-and-punctuation"
+              maxLength={10}
+            />
+            <TextInput
+              style={[styles.notesInput, styles.changeNoteInput]}
+              placeholder="e.g., diagnosed by rheumatologist"
+              value={changeNote}
+              onChangeText={setChangeNote}
+              multiline
+            />
+            <Text style={styles.helperText}>Shown in this condition's status history.</Text>
+          </View>
+        )}
+
+        {suggestedTriggers.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Suggested triggers</Text>
+            <Text style={styles.suggestionIntro}>
+              Often linked with {conditionName}. Selected ones are turned on when you add the condition.
+            </Text>
+            <View style={styles.suggestionRow}>
+              {suggestedTriggers.map(({ trigger, tracked }) => {
+                const selected = tracked || selectedTriggerIds.has(trigger.id);
+                return (
+                  <TouchableOpacity
+                    key={trigger.id}
+                    style={[styles.suggestionChip, selected && styles.suggestionChipActive]}
+                    onPress={() => toggleSuggestedTrigger(trigger.id)}
+                    disabled={tracked}
+                  >
+                    <Text style={[styles.suggestionText, selected && styles.suggestionTextActive]}>
+                      {trigger.label}
+                      {tracked ? ' · tracking' : ''}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+        )}
+
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Notes (Optional)</Text>
           <TextInput
@@ -358,6 +476,57 @@ const styles = StyleSheet.create({
     minHeight: 120,
     textAlignVertical: 'top',
   },
+  dateInput: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#1f2937',
+    backgroundColor: 'white',
+    marginBottom: 12,
+  },
+  changeNoteInput: {
+    minHeight: 72,
+  },
+  suggestionIntro: {
+    fontSize: 14,
+    color: '#6b7280',
+    lineHeight: 20,
+    marginTop: -8,
+    marginBottom: 12,
+  },
+  suggestionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  suggestionChip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    backgroundColor: 'white',
+  },
+  suggestionChipActive: {
+    borderColor: '#6366f1',
+    backgroundColor: '#eef2ff',
+  },
+  suggestionText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  suggestionTextActive: {
+    color: '#4f46e5',
+    fontWeight: '600',
+  },
+  helperText: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginTop: 8,
+  },
   footer: {
     position: 'absolute',
     bottom: 0,
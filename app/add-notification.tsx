@@ -12,6 +12,8 @@ import { useRouter, useLocalSearchParams } from 'expo-router';
 import { ChevronLeft, Check } from 'lucide-react-native';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/context/AuthContext';
+import { REMINDER_TARGETS, syncNotificationSchedule } from '@/lib/notifications';
+import { ReminderTarget } from '@/lib/types';
 
 const FREQUENCY_OPTIONS = [
   { value: 'daily', label: 'Daily' },
@@ -51,6 +53,8 @@ export default function AddNotificationScreen() {
   const [time, setTime] = useState('09:00');
   const [frequency, setFrequency] = useState<string>('daily');
   const [customDays, setCustomDays] = useState<number[]>([]);
+  const [weeklyDay, setWeeklyDay] = useState<number>(new Date().getDay());
+  const [target, setTarget] = useState<ReminderTarget>('daily_log');
   const [saving, setSaving] = useState(false);
 
   const toggleDay = (day: number) => {
@@ -71,9 +75,15 @@ export default function AddNotificationScreen() {
       return;
     }
 
+    if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(time)) {
+      alert('Please enter a time like 09:00.');
+      return;
+    }
+
     setSaving(true);
     try {
-      const daysToSave = frequency === 'custom' ? customDays : [];
+      const daysToSave =
+        frequency === 'custom' ? customDays : frequency === 'weekly' ? [weeklyDay] : [];
 
       const { error } = await supabase.from('custom_notifications').insert({
         user_id: user.id,
@@ -81,6 +91,7 @@ export default function AddNotificationScreen() {
         time: time,
         frequency: frequency,
         days_of_week: daysToSave,
+        target,
         is_enabled: true,
       });
 
@@ -90,6 +101,9 @@ export default function AddNotificationScreen() {
         return;
       }
 
+      syncNotificationSchedule(user.id).catch((e) =>
+        console.error('Error scheduling notifications:', e)
+      );
       router.back();
     } catch (error) {
       console.error('Error saving notification:', error);
@@ -192,6 +206,27 @@ export default function AddNotificationScreen() {
           </View>
         </View>
 
+        {frequency === 'weekly' && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Day</Text>
+            <View style={styles.daysGrid}>
+              {DAYS_OF_WEEK.map((day) => (
+                <TouchableOpacity
+                  key={day.value}
+                  style={[styles.dayChip, weeklyDay === day.value && styles.dayChipSelected]}
+                  onPress={() => setWeeklyDay(day.value)}
+                >
+                  <Text
+                    style={[styles.dayChipText, weeklyDay === day.value && styles.dayChipTextSelected]}
+                  >
+                    {day.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        )}
+
         {frequency === 'custom' && (
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Select Days</Text>
@@ -219,6 +254,40 @@ export default function AddNotificationScreen() {
           </View>
         )}
 
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Opens</Text>
+          <Text style={styles.sectionSubtitle}>Where tapping the reminder takes you:</Text>
+          <View style={styles.frequencyOptions}>
+            {REMINDER_TARGETS.map((option) => (
+              <TouchableOpacity
+                key={option.value}
+                style={[
+                  styles.frequencyOption,
+                  target === option.value && styles.frequencyOptionSelected,
+                ]}
+                onPress={() => setTarget(option.value)}
+              >
+                {target === option.value && (
+                  <View style={styles.checkIcon}>
+                    <Check size={16} color="#6366f1" strokeWidth={3} />
+                  </View>
+                )}
+                <View>
+                  <Text
+                    style={[
+                      styles.frequencyOptionText,
+                      target === option.value && styles.frequencyOptionTextSelected,
+                    ]}
+                  >
+                    {option.label}
+                  </Text>
+                  <Text style={styles.targetDescription}>{option.description}</Text>
+                </View>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
         <View style={styles.previewSection}>
           <Text style={styles.previewTitle}>Preview</Text>
           <View style={styles.previewCard}>
@@ -378,6 +447,11 @@ const styles = StyleSheet.create({
   frequencyOptionTextSelected: {
     color: '#6366f1',
   },
+  targetDescription: {
+    fontSize: 12,
+    color: '#9ca3af',
+    marginTop: 2,
+  },
   daysGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -11,10 +11,69 @@ import {
   Platform,
 } from 'react-native';
 import { useRouter, useLocalSearchParams, useFocusEffect } from 'expo-router';
-import { ChevronLeft, Plus, Activity, X } from 'lucide-react-native';
+import {
+  ChevronLeft,
+  Plus,
+  Activity,
+  X,
+  Pill,
+  BarChart3,
+  Archive,
+  RotateCcw,
+  Flame,
+} from 'lucide-react-native';
 import { useAuth } from '@/context/AuthContext';
 import { supabase } from '@/lib/supabase';
-import { UserCondition, SubSymptom, ConditionStatus } from '@/lib/types';
+import { parseISODate, todayISODate } from '@/lib/dates';
+import { fetchMedicationAdherence, formatDose, MedicationAdherence } from '@/lib/medications';
+import {
+  describeCorrelation,
+  describeCorrelationStats,
+  fetchTriggerCorrelations,
+  strongestPerTrigger,
+  TriggerCorrelation,
+} from '@/lib/trigger-correlations';
+import { ConditionHistory, fetchConditionHistory, HISTORY_RANGES } from '@/lib/condition-history';
+import {
+  archiveCondition,
+  fetchStatusEvents,
+  isValidChangeDate,
+  restoreCondition,
+  TIMELINE_STATUS_LABELS,
+} from '@/lib/condition-status';
+import {
+  confirmFlare,
+  describeFlare,
+  dismissFlare,
+  FLARE_SEVERITY_THRESHOLD,
+  flareRecoveryDays,
+  flareTrends,
+  formatFlareDate,
+  isFlareOngoing,
+  loadFlareEpisodes,
+  MIN_FLARE_DAYS,
+} from '@/lib/flares';
+import {
+  UserCondition,
+  SubSymptom,
+  ConditionStatus,
+  ConditionStatusEvent,
+  ConditionTimelineStatus,
+  FlareEpisode,
+  Medication,
+} from '@/lib/types';
+import {
+  ANOMALY_COLORS,
+  ChartOverlays,
+  OVERLAY_COLORS,
+  PHASE_COLORS,
+  SeverityHistoryChart,
+} from '@/components/SeverityHistoryChart';
+
+const ADHERENCE_WINDOW_DAYS = 30;
+const CORRELATION_WINDOW_DAYS = 90;
+const FLARE_TREND_DAYS = 90;
+const FLARE_LIST_LIMIT = 5;
 
 const STATUS_LABELS: Record<ConditionStatus, string> = {
   diagnosed: 'Diagnosed',
@@ -30,6 +89,27 @@ const STATUS_COLORS: Record<ConditionStatus, string> = {
   monitoring: '#8b5cf6',
 };
 
+const TIMELINE_COLORS: Record<ConditionTimelineStatus, string> = {
+  ...STATUS_COLORS,
+  resolved: '#6b7280',
+};
+
+function formatMonth(month: string) {
+  return parseISODate(`${month}-01`).toLocaleDateString('en-US', { month: 'short' });
+}
+
+function formatAverageDays(days: number | null) {
+  return days === null ? '–' : `${Math.round(days * 10) / 10}d avg`;
+}
+
+function formatEventDate(date: string) {
+  return parseISODate(date).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
 export default function ConditionDetailScreen() {
   const router = useRouter();
   const { user } = useAuth();
@@ -44,6 +124,30 @@ export default function ConditionDetailScreen() {
   const [newSymptomName, setNewSymptomName] = useState('');
   const [savingSymptom, setSavingSymptom] = useState(false);
   const [todaySeverity, setTodaySeverity] = useState<number | null>(null);
+  const [medications, setMedications] = useState<Medication[]>([]);
+  const [adherence, setAdherence] = useState<Record<string, MedicationAdherence>>({});
+  const [correlations, setCorrelations] = useState<TriggerCorrelation[]>([]);
+  const [correlationsLoading, setCorrelationsLoading] = useState(true);
+  const [historyRange, setHistoryRange] = useState(HISTORY_RANGES[0].days);
+  const [history, setHistory] = useState<ConditionHistory | null>(null);
+  const [historyLoading, setHistoryLoading] = useState(true);
+  const [overlays, setOverlays] = useState<ChartOverlays>({
+    cycle: true,
+    sleep: false,
+    stress: false,
+    baseline: true,
+  });
+  const [statusEvents, setStatusEvents] = useState<ConditionStatusEvent[]>([]);
+  const [showResolve, setShowResolve] = useState(false);
+  const [resolveDate, setResolveDate] = useState(todayISODate());
+  const [resolveNote, setResolveNote] = useState('');
+  const [archiving, setArchiving] = useState(false);
+  const [flares, setFlares] = useState<FlareEpisode[]>([]);
+  const [flaresLoading, setFlaresLoading] = useState(true);
+  const [reviewingFlareId, setReviewingFlareId] = useState<string | null>(null);
+  const [flareLabel, setFlareLabel] = useState('');
+  const [flareNote, setFlareNote] = useState('');
+  const [savingFlare, setSavingFlare] = useState(false);
 
   const userId = user?.id;
 
@@ -71,8 +175,10 @@ export default function ConditionDetailScreen() {
       if (subSymptomsData) {
         setSubSymptoms(subSymptomsData);
       }
+
+      setStatusEvents(await fetchStatusEvents(conditionId));
   
-      const today = new Date().toISOString().split('T')[0];
+      const today = todayISODate();
       const { data: todayMoments } = await supabase
         .from('moment_log_conditions')
         .select('severity, moment_logs!inner(date)')
@@ -83,6 +189,12 @@ export default function ConditionDetailScreen() {
         const maxSeverity = Math.max(...todayMoments.map((m: any) => m.severity || 0));
         setTodaySeverity(maxSeverity);
       }
+
+      const medicationData = await fetchMedicationAdherence(userId, ADHERENCE_WINDOW_DAYS);
+      setMedications(
+        medicationData.medications.filter((m) => m.active && m.user_condition_id === conditionId)
+      );
+      setAdherence(Object.fromEntries(medicationData.adherence.map((a) => [a.medicationId, a])));
     } catch (e) {
       console.error('loadConditionDetail error:', e);
     } finally {
@@ -90,15 +202,66 @@ export default function ConditionDetailScreen() {
     }
   };
 
+  // the correlation engine reads 90 days of logs, so it loads after the rest of the screen
+  const loadCorrelations = async (userId: string) => {
+    setCorrelationsLoading(true);
+    try {
+      const report = await fetchTriggerCorrelations(userId, CORRELATION_WINDOW_DAYS);
+      const forCondition = report.conditions.find((c) => c.userConditionId === conditionId);
+      setCorrelations(
+        strongestPerTrigger((forCondition?.results ?? []).filter((r) => r.reliable)).slice(0, 5)
+      );
+    } catch (e) {
+      console.error('loadCorrelations error:', e);
+    } finally {
+      setCorrelationsLoading(false);
+    }
+  };
+
+  // detection re-reads a year of logs, so it only reruns after logs change
+  const loadFlares = async (userId: string) => {
+    setFlaresLoading(true);
+    try {
+      setFlares(await loadFlareEpisodes(userId, conditionId));
+    } catch (e) {
+      console.error('loadFlares error:', e);
+    } finally {
+      setFlaresLoading(false);
+    }
+  };
+
+  const loadHistory = async (userId: string, rangeDays: number) => {
+    setHistoryLoading(true);
+    try {
+      setHistory(await fetchConditionHistory(userId, conditionId, rangeDays));
+    } catch (e) {
+      console.error('loadHistory error:', e);
+    } finally {
+      setHistoryLoading(false);
+    }
+  };
+
 useFocusEffect(
   useCallback(() => {
     if (!userId || !conditionId) return;
 
     loadConditionDetail(userId);
+    loadCorrelations(userId);
+    loadFlares(userId);
 
   }, [userId, conditionId])
 );
 
+  useFocusEffect(
+    useCallback(() => {
+      if (!userId || !conditionId) return;
+      loadHistory(userId, historyRange);
+    }, [userId, conditionId, historyRange])
+  );
+
+  const toggleOverlay = (key: keyof ChartOverlays) =>
+    setOverlays((prev) => ({ ...prev, [key]: !prev[key] }));
+
   const handleAddSubSymptom = async () => {
     if (!newSymptomName.trim() || !conditionId) return;
 
@@ -152,6 +315,77 @@ useFocusEffect(
       .eq('id', conditionId);
   };
 
+  const startFlareReview = (episode: FlareEpisode) => {
+    setReviewingFlareId(episode.id);
+    setFlareLabel(episode.label || '');
+    setFlareNote(episode.note || '');
+  };
+
+  const handleConfirmFlare = async () => {
+    if (!userId || !reviewingFlareId) return;
+
+    setSavingFlare(true);
+    try {
+      await confirmFlare(userId, reviewingFlareId, { label: flareLabel, note: flareNote });
+      setReviewingFlareId(null);
+      await loadFlares(userId);
+    } catch (e: any) {
+      console.error('Confirm flare failed:', e);
+      Alert.alert('Error', e?.message || 'Failed to save flare.');
+    } finally {
+      setSavingFlare(false);
+    }
+  };
+
+  const handleDismissFlare = async (episode: FlareEpisode) => {
+    if (!userId) return;
+
+    try {
+      await dismissFlare(userId, episode.id);
+      setFlares((prev) => prev.map((f) => (f.id === episode.id ? { ...f, status: 'dismissed' } : f)));
+    } catch (e: any) {
+      console.error('Dismiss flare failed:', e);
+      Alert.alert('Error', e?.message || 'Failed to update flare.');
+    }
+  };
+
+  const handleResolve = async () => {
+    if (!userId || !condition) return;
+
+    if (!isValidChangeDate(resolveDate)) {
+      Alert.alert('Check the date', 'Use YYYY-MM-DD, no later than today.');
+      return;
+    }
+
+    setArchiving(true);
+    try {
+      await archiveCondition(condition, { changedOn: resolveDate, note: resolveNote });
+      setShowResolve(false);
+      setResolveNote('');
+      await loadConditionDetail(userId);
+    } catch (e: any) {
+      console.error('Resolve condition failed:', e);
+      Alert.alert('Error', e?.message || 'Failed to resolve condition.');
+    } finally {
+      setArchiving(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!userId || !condition) return;
+
+    setArchiving(true);
+    try {
+      await restoreCondition(condition);
+      await loadConditionDetail(userId);
+    } catch (e: any) {
+      console.error('Restore condition failed:', e);
+      Alert.alert('Error', e?.message || 'Failed to restore condition.');
+    } finally {
+      setArchiving(false);
+    }
+  };
+
   const handleDeleteCondition = () => {
     console.log('🧨 handleDeleteCondition called', { userId, conditionId });
 
@@ -163,7 +397,7 @@ useFocusEffect(
     const label =
       condition?.condition?.name || condition?.custom_label || 'this condition';
 
-    const message = `Are you sure you want to delete "${label}"? This will remove all associated logs and data.`;
+    const message = `Are you sure you want to delete "${label}"? This will remove all associated logs and data. To stop tracking it but keep its history, mark it resolved instead.`;
 
     const runDelete = async () => {
       console.log('✅ confirmed delete, starting...', { userId, conditionId });
@@ -254,6 +488,10 @@ useFocusEffect(
     );
   }
 
+  const trends = flareTrends(flares, FLARE_TREND_DAYS);
+  const listedFlares = flares.filter((f) => f.status !== 'dismissed').slice(0, FLARE_LIST_LIMIT);
+  const busiestMonth = Math.max(1, ...trends.monthly.map((m) => m.count));
+
   return (
     <View style={styles.container}>
       <View style={styles.header}>
@@ -294,10 +532,65 @@ useFocusEffect(
             </View>
           )}
 
-          <TouchableOpacity style={styles.logButton} onPress={handleLogMoment}>
-            <Activity size={20} color="white" strokeWidth={2} />
-            <Text style={styles.logButtonText}>Log a Moment for This Condition</Text>
-          </TouchableOpacity>
+          {condition.archived_at ? (
+            <View style={styles.archivedBanner}>
+              <Text style={styles.archivedText}>
+                Resolved. Hidden from logging; its logs and history are kept.
+              </Text>
+            </View>
+          ) : (
+            <TouchableOpacity style={styles.logButton} onPress={handleLogMoment}>
+              <Activity size={20} color="white" strokeWidth={2} />
+              <Text style={styles.logButtonText}>Log a Moment for This Condition</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Status History</Text>
+          <View style={styles.timeline}>
+            {statusEvents.length > 0 ? (
+              statusEvents.map((event, index) => (
+                <View key={event.id} style={styles.timelineItem}>
+                  <View style={styles.timelineRail}>
+                    <View
+                      style={[styles.timelineDot, { backgroundColor: TIMELINE_COLORS[event.status] }]}
+                    />
+                    {index < statusEvents.length - 1 && <View style={styles.timelineLine} />}
+                  </View>
+                  <View style={styles.timelineBody}>
+                    <Text style={styles.timelineTitle}>
+                      {event.previous_status
+                        ? `${TIMELINE_STATUS_LABELS[event.previous_status]} → ${TIMELINE_STATUS_LABELS[event.status]}`
+                        : `Added as ${TIMELINE_STATUS_LABELS[event.status]}`}
+                    </Text>
+                    <Text style={styles.timelineDate}>{formatEventDate(event.changed_on)}</Text>
+                    {event.note && <Text style={styles.timelineNote}>{event.note}</Text>}
+                  </View>
+                </View>
+              ))
+            ) : (
+              // conditions added outside the app's add flow may have no recorded history
+              <View style={styles.timelineItem}>
+                <View style={styles.timelineRail}>
+                  <View
+                    style={[styles.timelineDot, { backgroundColor: STATUS_COLORS[condition.status] }]}
+                  />
+                </View>
+                <View style={styles.timelineBody}>
+                  <Text style={styles.timelineTitle}>
+                    Added as {TIMELINE_STATUS_LABELS[condition.status]}
+                  </Text>
+                  <Text style={styles.timelineDate}>
+                    {formatEventDate(condition.created_at.split('T')[0])}
+                  </Text>
+                </View>
+              </View>
+            )}
+          </View>
+          <Text style={styles.chartFootnote}>
+            Tap the status badge above to record a change.
+          </Text>
         </View>
 
         <View style={styles.section}>
@@ -373,13 +666,300 @@ useFocusEffect(
         </View>
 
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Trend Chart</Text>
-          <View style={styles.chartPlaceholder}>
-            <Activity size={32} color="#d1d5db" strokeWidth={1.5} />
-            <Text style={styles.chartPlaceholderText}>
-              Chart coming soon - track symptoms to see trends
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Medications</Text>
+            <TouchableOpacity style={styles.addButton} onPress={() => router.push('/medications')}>
+              <Text style={styles.addButtonText}>Manage</Text>
+            </TouchableOpacity>
+          </View>
+
+          {medications.length > 0 ? (
+            <View style={styles.symptomsList}>
+              {medications.map((med) => {
+                const stats = adherence[med.id];
+                return (
+                  <View key={med.id} style={styles.symptomItem}>
+                    <View style={styles.medRowLeft}>
+                      <Pill size={16} color="#6366f1" strokeWidth={2} />
+                      <View>
+                        <Text style={styles.symptomName}>{med.name}</Text>
+                        {!!formatDose(med) && <Text style={styles.medDose}>{formatDose(med)}</Text>}
+                      </View>
+                    </View>
+                    <Text style={styles.medAdherence}>
+                      {stats?.percent !== null && stats?.percent !== undefined
+                        ? `${Math.round(stats.percent * 100)}% taken`
+                        : `${stats?.prnDoses ?? 0} as-needed doses`}
+                    </Text>
+                  </View>
+                );
+              })}
+              <Text style={styles.medFootnote}>Last {ADHERENCE_WINDOW_DAYS} days</Text>
+            </View>
+          ) : (
+            <Text style={styles.emptyText}>
+              No medications linked to this condition. Link one from Manage.
+            </Text>
+          )}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Patterns</Text>
+          <Text style={styles.sectionSubtitle}>
+            Triggers and missed doses that went with changes in severity over the last{' '}
+            {CORRELATION_WINDOW_DAYS} days. Associations, not proof of cause.
+          </Text>
+          {correlationsLoading ? (
+            <ActivityIndicator size="small" color="#6366f1" style={{ paddingVertical: 24 }} />
+          ) : correlations.length > 0 ? (
+            <View style={styles.symptomsList}>
+              {correlations.map((finding) => (
+                <View key={`${finding.triggerId}-${finding.lag}`} style={styles.correlationItem}>
+                  <BarChart3 size={16} color="#6366f1" strokeWidth={2} />
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.correlationHeadline}>{describeCorrelation(finding)}</Text>
+                    <Text style={styles.correlationStats}>{describeCorrelationStats(finding)}</Text>
+                  </View>
+                </View>
+              ))}
+            </View>
+          ) : (
+            <Text style={styles.emptyText}>
+              No clear patterns yet. Keep logging severity, triggers and doses.
             </Text>
+          )}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Flares</Text>
+          <Text style={styles.sectionSubtitle}>
+            {MIN_FLARE_DAYS}+ days in a row rated {FLARE_SEVERITY_THRESHOLD}/10 or higher. Confirm the
+            ones that were real flares; dismissed ones don't count towards trends.
+          </Text>
+          {flaresLoading && flares.length === 0 ? (
+            <ActivityIndicator size="small" color="#6366f1" style={{ paddingVertical: 24 }} />
+          ) : flares.length === 0 ? (
+            <Text style={styles.emptyText}>No flares detected in the last year.</Text>
+          ) : (
+            <>
+              {trends.ongoing && (
+                <View style={styles.flareOngoing}>
+                  <Flame size={16} color="#dc2626" strokeWidth={2} />
+                  <Text style={styles.flareOngoingText}>
+                    Flare ongoing since {formatFlareDate(trends.ongoing.start_date)}
+                  </Text>
+                </View>
+              )}
+
+              <View style={styles.flareStatsRow}>
+                <View style={styles.flareStat}>
+                  <Text style={styles.flareStatValue}>{trends.recent.count}</Text>
+                  <Text style={styles.flareStatLabel}>
+                    last {FLARE_TREND_DAYS} days · {formatAverageDays(trends.recent.averageDays)}
+                  </Text>
+                </View>
+                <View style={styles.flareStat}>
+                  <Text style={styles.flareStatValue}>{trends.previous.count}</Text>
+                  <Text style={styles.flareStatLabel}>
+                    {FLARE_TREND_DAYS} days before · {formatAverageDays(trends.previous.averageDays)}
+                  </Text>
+                </View>
+              </View>
+
+              <View style={styles.flareMonths}>
+                {trends.monthly.map((m) => (
+                  <View key={m.month} style={styles.flareMonth}>
+                    <View style={styles.flareMonthTrack}>
+                      <View
+                        style={[
+                          styles.flareMonthFill,
+                          { height: `${(m.count / busiestMonth) * 100}%` },
+                        ]}
+                      />
+                    </View>
+                    <Text style={styles.flareMonthCount}>{m.count}</Text>
+                    <Text style={styles.flareMonthLabel}>{formatMonth(m.month)}</Text>
+                  </View>
+                ))}
+              </View>
+
+              <View style={styles.symptomsList}>
+                {listedFlares.map((episode) => {
+                  const recoveryDays = flareRecoveryDays(episode);
+                  return (
+                    <View key={episode.id} style={styles.flareItem}>
+                      <View style={styles.flareItemHeader}>
+                        <Text style={styles.symptomName}>{episode.label || 'Flare'}</Text>
+                        <Text
+                          style={[
+                            styles.flareStatus,
+                            episode.status === 'confirmed' && styles.flareStatusConfirmed,
+                          ]}
+                        >
+                          {episode.status === 'confirmed' ? 'Confirmed' : 'Needs review'}
+                        </Text>
+                      </View>
+                      <Text style={styles.correlationStats}>{describeFlare(episode)}</Text>
+                      <Text style={styles.correlationStats}>
+                        {isFlareOngoing(episode)
+                          ? 'Ongoing'
+                          : recoveryDays !== null
+                            ? `Back below ${FLARE_SEVERITY_THRESHOLD} ${recoveryDays} day${recoveryDays !== 1 ? 's' : ''} later`
+                            : 'No recovery logged'}
+                      </Text>
+                      {!!episode.note && <Text style={styles.timelineNote}>{episode.note}</Text>}
+
+                      {reviewingFlareId === episode.id ? (
+                        <View style={styles.flareReview}>
+                          <TextInput
+                            style={styles.addSymptomInput}
+                            placeholder="Label (optional), e.g. after travel"
+                            value={flareLabel}
+                            onChangeText={setFlareLabel}
+                            autoFocus
+                          />
+                          <TextInput
+                            style={styles.addSymptomInput}
+                            placeholder="Note (optional)"
+                            value={flareNote}
+                            onChangeText={setFlareNote}
+                            multiline
+                          />
+                          <View style={styles.addSymptomActions}>
+                            <TouchableOpacity
+                              style={styles.cancelSymptomButton}
+                              onPress={() => setReviewingFlareId(null)}
+                            >
+                              <Text style={styles.cancelSymptomText}>Cancel</Text>
+                            </TouchableOpacity>
+                            <TouchableOpacity
+                              style={[
+                                styles.saveSymptomButton,
+                                savingFlare && styles.saveSymptomButtonDisabled,
+                              ]}
+                              onPress={handleConfirmFlare}
+                              disabled={savingFlare}
+                            >
+                              {savingFlare ? (
+                                <ActivityIndicator size="small" color="white" />
+                              ) : (
+                                <Text style={styles.saveSymptomText}>Save</Text>
+                              )}
+                            </TouchableOpacity>
+                          </View>
+                        </View>
+                      ) : (
+                        <View style={styles.flareActions}>
+                          <TouchableOpacity
+                            style={styles.addButton}
+                            onPress={() => startFlareReview(episode)}
+                          >
+                            <Text style={styles.addButtonText}>
+                              {episode.status === 'confirmed' ? 'Edit' : 'Confirm'}
+                            </Text>
+                          </TouchableOpacity>
+                          {episode.status === 'detected' && (
+                            <TouchableOpacity
+                              style={styles.flareDismissButton}
+                              onPress={() => handleDismissFlare(episode)}
+                            >
+                              <Text style={styles.cancelSymptomText}>Not a flare</Text>
+                            </TouchableOpacity>
+                          )}
+                        </View>
+                      )}
+                    </View>
+                  );
+                })}
+              </View>
+            </>
+          )}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Severity History</Text>
+          <View style={styles.chipRow}>
+            {HISTORY_RANGES.map((range) => (
+              <TouchableOpacity
+                key={range.days}
+                style={[styles.chip, historyRange === range.days && styles.chipActive]}
+                onPress={() => setHistoryRange(range.days)}
+              >
+                <Text
+                  style={[styles.chipText, historyRange === range.days && styles.chipTextActive]}
+                >
+                  {range.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={styles.chartCard}>
+            {historyLoading && !history ? (
+              <ActivityIndicator size="small" color="#6366f1" style={{ paddingVertical: 80 }} />
+            ) : history ? (
+              <SeverityHistoryChart
+                days={history.days}
+                overlays={{ ...overlays, cycle: overlays.cycle && history.hasCycle }}
+              />
+            ) : (
+              <Text style={styles.emptyText}>Couldn't load history.</Text>
+            )}
           </View>
+
+          <View style={styles.chipRow}>
+            {history?.hasCycle && (
+              <TouchableOpacity
+                style={[styles.chip, overlays.cycle && styles.chipActive]}
+                onPress={() => toggleOverlay('cycle')}
+              >
+                <View style={[styles.legendSwatch, { backgroundColor: PHASE_COLORS.menstrual }]} />
+                <Text style={[styles.chipText, overlays.cycle && styles.chipTextActive]}>
+                  Cycle phase
+                </Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={[styles.chip, overlays.sleep && styles.chipActive]}
+              onPress={() => toggleOverlay('sleep')}
+            >
+              <View style={[styles.legendSwatch, { backgroundColor: OVERLAY_COLORS.sleep }]} />
+              <Text style={[styles.chipText, overlays.sleep && styles.chipTextActive]}>
+                Sleep (hours)
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.chip, overlays.stress && styles.chipActive]}
+              onPress={() => toggleOverlay('stress')}
+            >
+              <View style={[styles.legendSwatch, { backgroundColor: OVERLAY_COLORS.stress }]} />
+              <Text style={[styles.chipText, overlays.stress && styles.chipTextActive]}>
+                Stress (×2)
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.chip, overlays.baseline && styles.chipActive]}
+              onPress={() => toggleOverlay('baseline')}
+            >
+              <View style={[styles.legendSwatch, { backgroundColor: OVERLAY_COLORS.baseline }]} />
+              <Text style={[styles.chipText, overlays.baseline && styles.chipTextActive]}>
+                Your usual
+              </Text>
+            </TouchableOpacity>
+          </View>
+          {overlays.baseline && (
+            <Text style={styles.chartFootnote}>
+              Dotted: your usual severity (the 4 weeks before the last week).{' '}
+              <Text style={{ color: ANOMALY_COLORS.high }}>●</Text> well above usual,{' '}
+              <Text style={{ color: ANOMALY_COLORS.low }}>●</Text> well below.
+            </Text>
+          )}
+          {overlays.cycle && history?.hasCycle && (
+            <Text style={styles.chartFootnote}>
+              Shaded: period (pink), fertile window (green), luteal phase (lavender). Future and
+              unlogged cycles are estimates.
+            </Text>
+          )}
         </View>
 
         <View style={styles.section}>
@@ -395,6 +975,74 @@ useFocusEffect(
           />
         </View>
 
+        {condition.archived_at ? (
+          <TouchableOpacity
+            style={[styles.resolveButton, archiving && styles.saveSymptomButtonDisabled]}
+            onPress={handleRestore}
+            disabled={archiving}
+          >
+            <RotateCcw size={18} color="#6366f1" strokeWidth={2} />
+            <Text style={styles.resolveButtonText}>Resume Tracking</Text>
+          </TouchableOpacity>
+        ) : showResolve ? (
+          <View style={[styles.addSymptomBox, styles.resolveBox]}>
+            <Text style={styles.resolveTitle}>Mark as resolved</Text>
+            <Text style={styles.sectionSubtitle}>
+              It stops appearing when you log. Past logs, sub-symptoms and charts are kept, and you
+              can resume tracking at any time.
+            </Text>
+            <TextInput
+              style={styles.addSymptomInput}
+              placeholder="Resolved on (YYYY-MM-DD)"
+              value={resolveDate}
+              onChangeText={setResolveDate}
+              autoCapitalize="none"
+              keyboardType="numbers-and-punctuation"
+              maxLength={10}
+            />
+            <TextInput
+              style={styles.addSymptomInput}
+              placeholder="Note (optional), e.g. in remission after treatment"
+              value={resolveNote}
+              onChangeText={setResolveNote}
+              multiline
+            />
+            <View style={styles.addSymptomActions}>
+              <TouchableOpacity
+                style={styles.cancelSymptomButton}
+                onPress={() => {
+                  setShowResolve(false);
+                  setResolveNote('');
+                }}
+              >
+                <Text style={styles.cancelSymptomText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.saveSymptomButton, archiving && styles.saveSymptomButtonDisabled]}
+                onPress={handleResolve}
+                disabled={archiving}
+              >
+                {archiving ? (
+                  <ActivityIndicator size="small" color="white" />
+                ) : (
+                  <Text style={styles.saveSymptomText}>Resolve</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        ) : (
+          <TouchableOpacity
+            style={styles.resolveButton}
+            onPress={() => {
+              setResolveDate(todayISODate());
+              setShowResolve(true);
+            }}
+          >
+            <Archive size={18} color="#6366f1" strokeWidth={2} />
+            <Text style={styles.resolveButtonText}>Mark as Resolved</Text>
+          </TouchableOpacity>
+        )}
+
         <TouchableOpacity
           style={styles.deleteButton}
           onPress={() => {
@@ -599,6 +1247,163 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     color: '#1f2937',
   },
+  sectionSubtitle: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  medRowLeft: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  medDose: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  medAdherence: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6366f1',
+  },
+  medFootnote: {
+    fontSize: 12,
+    color: '#9ca3af',
+    textAlign: 'right',
+  },
+  correlationItem: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 10,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    backgroundColor: 'white',
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  correlationHeadline: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  correlationStats: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 4,
+  },
+  flareOngoing: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    backgroundColor: '#fef2f2',
+    borderRadius: 10,
+    marginBottom: 12,
+  },
+  flareOngoingText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#b91c1c',
+  },
+  flareStatsRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  flareStat: {
+    flex: 1,
+    paddingVertical: 12,
+    paddingHorizontal: 14,
+    backgroundColor: 'white',
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  flareStatValue: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: '#1f2937',
+  },
+  flareStatLabel: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  flareMonths: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 14,
+    marginVertical: 12,
+    backgroundColor: 'white',
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  flareMonth: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  flareMonthTrack: {
+    width: 14,
+    height: 48,
+    justifyContent: 'flex-end',
+    backgroundColor: '#f3f4f6',
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  flareMonthFill: {
+    width: '100%',
+    backgroundColor: '#f87171',
+  },
+  flareMonthCount: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#1f2937',
+    marginTop: 4,
+  },
+  flareMonthLabel: {
+    fontSize: 11,
+    color: '#9ca3af',
+  },
+  flareItem: {
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    backgroundColor: 'white',
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  flareItemHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  flareStatus: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#f59e0b',
+  },
+  flareStatusConfirmed: {
+    color: '#10b981',
+  },
+  flareActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 10,
+  },
+  flareDismissButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    backgroundColor: '#f3f4f6',
+    borderRadius: 8,
+  },
+  flareReview: {
+    marginTop: 12,
+  },
   emptyText: {
     fontSize: 14,
     color: '#9ca3af',
@@ -606,19 +1411,52 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     paddingVertical: 24,
   },
-  chartPlaceholder: {
+  chartCard: {
     backgroundColor: 'white',
     borderRadius: 12,
-    padding: 48,
-    alignItems: 'center',
+    padding: 12,
     borderWidth: 1,
     borderColor: '#e5e7eb',
+    marginVertical: 12,
   },
-  chartPlaceholderText: {
-    fontSize: 14,
+  chartFootnote: {
+    fontSize: 12,
     color: '#9ca3af',
-    marginTop: 12,
-    textAlign: 'center',
+    marginTop: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 999,
+    backgroundColor: 'white',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  chipActive: {
+    backgroundColor: '#eef2ff',
+    borderColor: '#6366f1',
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#6b7280',
+  },
+  chipTextActive: {
+    color: '#6366f1',
+  },
+  legendSwatch: {
+    width: 10,
+    height: 10,
+    borderRadius: 3,
   },
   notesInput: {
     backgroundColor: 'white',
@@ -631,6 +1469,87 @@ const styles = StyleSheet.create({
     minHeight: 150,
     textAlignVertical: 'top',
   },
+  archivedBanner: {
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    backgroundColor: '#f3f4f6',
+    borderRadius: 12,
+  },
+  archivedText: {
+    fontSize: 14,
+    color: '#4b5563',
+  },
+  timeline: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    marginTop: 12,
+  },
+  timelineItem: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  timelineRail: {
+    alignItems: 'center',
+    width: 12,
+  },
+  timelineDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    marginTop: 4,
+  },
+  timelineLine: {
+    flex: 1,
+    width: 2,
+    backgroundColor: '#e5e7eb',
+    marginTop: 4,
+  },
+  timelineBody: {
+    flex: 1,
+    paddingBottom: 16,
+  },
+  timelineTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  timelineDate: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  timelineNote: {
+    fontSize: 14,
+    color: '#4b5563',
+    marginTop: 6,
+  },
+  resolveBox: {
+    marginHorizontal: 20,
+  },
+  resolveTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1f2937',
+  },
+  resolveButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#eef2ff',
+    borderRadius: 12,
+    paddingVertical: 14,
+    marginHorizontal: 20,
+  },
+  resolveButtonText: {
+    color: '#6366f1',
+    fontSize: 16,
+    fontWeight: '600',
+  },
   deleteButton: {
     backgroundColor: '#dc2626',
     borderRadius: 12,
@@ -11,15 +11,22 @@ import {
   Platform,
 } from 'react-native';
 import { useRouter } from 'expo-router';
-import { ChevronLeft, Send, Sparkles } from 'lucide-react-native';
+import { ChevronLeft, Send, Sparkles, Square, SquarePen } from 'lucide-react-native';
 import { useAuth } from '@/context/AuthContext';
-import { supabase } from '@/lib/supabase';
+import {
+  AIInsightsError,
+  AMA_WINDOW_OPTIONS,
+  fetchLatestConversation,
+  streamInsightsQuestion,
+} from '@/lib/ai-insights';
 
 interface Message {
   id: string;
   role: 'user' | 'assistant';
   content: string;
   timestamp: Date;
+  // answer was cut short by the user
+  stopped?: boolean;
 }
 
 const SUGGESTED_QUESTIONS = [
@@ -31,21 +38,63 @@ const SUGGESTED_QUESTIONS = [
   'Which days have I felt best?',
 ];
 
+const WELCOME_MESSAGE: Message = {
+  id: 'welcome',
+  role: 'assistant',
+  content:
+    "Hi! I'm your AI health insights assistant. I can analyze your logs to help identify patterns, correlations, and potential triggers. What would you like to know?",
+  timestamp: new Date(),
+};
+
 export default function InsightsAMAScreen() {
   const router = useRouter();
   const { user } = useAuth();
   const scrollViewRef = useRef<ScrollView>(null);
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: 'welcome',
-      role: 'assistant',
-      content:
-        "Hi! I'm your AI health insights assistant. I can analyze your logs to help identify patterns, correlations, and potential triggers. What would you like to know?",
-      timestamp: new Date(),
-    },
-  ]);
+  const [messages, setMessages] = useState<Message[]>([WELCOME_MESSAGE]);
   const [inputText, setInputText] = useState('');
   const [loading, setLoading] = useState(false);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [windowDays, setWindowDays] = useState<number>(30);
+  // true once the first chunk of an answer has arrived
+  const [streaming, setStreaming] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, []);
+
+  // pick up the most recent conversation so follow-ups keep their context
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+
+    fetchLatestConversation(user.id)
+      .then((latest) => {
+        if (cancelled || !latest) return;
+        setConversationId(latest.conversation.id);
+        setMessages([
+          WELCOME_MESSAGE,
+          ...latest.messages.map((m) => ({
+            id: m.id,
+            role: m.role,
+            content: m.content,
+            timestamp: new Date(m.created_at),
+          })),
+        ]);
+        const lastWindow = latest.messages[latest.messages.length - 1]?.window_days;
+        if (lastWindow) setWindowDays(lastWindow);
+      })
+      .catch((error) => console.error('Error loading conversation:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  const startNewConversation = () => {
+    setConversationId(null);
+    setMessages([WELCOME_MESSAGE]);
+  };
 
   useEffect(() => {
     setTimeout(() => scrollToBottom(), 100);
@@ -68,121 +117,75 @@ export default function InsightsAMAScreen() {
     setMessages((prev) => [...prev, userMessage]);
     setInputText('');
     setLoading(true);
+    setStreaming(false);
 
-    try {
-      const thirtyDaysAgo = new Date();
-      thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-      const formattedDate = thirtyDaysAgo.toISOString().split('T')[0];
-
-      const { data: dailyLogs } = await supabase
-        .from('daily_logs')
-        .select(
-          `
-          date,
-          overall_severity,
-          sleep_hours,
-          sleep_quality,
-          stress_level,
-          activity_level,
-          food_notes,
-          meds_notes,
-          triggers,
-          daily_log_conditions(
-            severity,
-            notes,
-            user_condition:user_conditions(
-              condition:conditions(name)
-            )
-          )
-        `
-        )
-        .eq('user_id', user.id)
-        .gte('date', formattedDate)
-        .order('date', { ascending: false });
-
-      const { data: momentLogs } = await supabase
-        .from('moment_logs')
-        .select(
-          `
-          timestamp,
-          date,
-          overall_severity,
-          activity,
-          triggers,
-          notes,
-          moment_log_conditions(
-            severity,
-            user_condition:user_conditions(
-              condition:conditions(name)
-            )
-          )
-        `
-        )
-        .eq('user_id', user.id)
-        .gte('date', formattedDate)
-        .order('timestamp', { ascending: false });
-
-      const { data: conditions } = await supabase
-        .from('user_conditions')
-        .select('*, condition:conditions(name), sub_symptoms(*)')
-        .eq('user_id', user.id);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const assistantId = (Date.now() + 1).toString();
+    let started = false;
 
-      const contextData = {
-        dailyLogs: dailyLogs || [],
-        momentLogs: momentLogs || [],
-        conditions: conditions || [],
-        userQuestion: text.trim(),
-      };
-
-      const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL;
-      const anonKey = process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY;
+    const updateAssistant = (update: (message: Message) => Message) => {
+      setMessages((prev) => prev.map((m) => (m.id === assistantId ? update(m) : m)));
+    };
 
-      const response = await fetch(`${supabaseUrl}/functions/v1/ai-insights`, {
-        method: 'POST',
-        headers: {
-          Authorization: `Bearer ${anonKey}`,
-          'Content-Type': 'application/json',
+    try {
+      const result = await streamInsightsQuestion(text.trim(), {
+        conversationId,
+        days: windowDays,
+        signal: controller.signal,
+        onMeta: (meta) => setConversationId(meta.conversationId),
+        onDelta: (chunk) => {
+          if (!started) {
+            started = true;
+            setStreaming(true);
+            setMessages((prev) => [
+              ...prev,
+              { id: assistantId, role: 'assistant', content: chunk, timestamp: new Date() },
+            ]);
+          } else {
+            updateAssistant((m) => ({ ...m, content: m.content + chunk }));
+          }
         },
-        body: JSON.stringify({
-          userId: user.id,
-          days: 30,
-          question: text.trim(),
-          contextData,
-        }),
       });
 
-      if (!response.ok) {
-        throw new Error('Failed to get AI response');
+      const finalText =
+        result.answer || "I couldn't generate an answer at this time. Please try again.";
+      if (started) {
+        updateAssistant((m) => ({ ...m, content: finalText }));
+      } else {
+        setMessages((prev) => [
+          ...prev,
+          { id: assistantId, role: 'assistant', content: finalText, timestamp: new Date() },
+        ]);
       }
-
-      const result = await response.json();
-
-      const assistantMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content:
-          result.answer ||
-          result.insights ||
-          "I couldn't generate an answer at this time. Please try again.",
-        timestamp: new Date(),
-      };
-
-      setMessages((prev) => [...prev, assistantMessage]);
     } catch (error) {
+      if (controller.signal.aborted) {
+        if (started) updateAssistant((m) => ({ ...m, stopped: true }));
+        return;
+      }
+
       console.error('Error getting AI response:', error);
+      const rateLimited = error instanceof AIInsightsError && error.status === 429;
       const errorMessage: Message = {
-        id: (Date.now() + 1).toString(),
+        id: (Date.now() + 2).toString(),
         role: 'assistant',
-        content:
-          "I'm having trouble connecting right now. Please make sure you have an internet connection and try again.",
+        content: rateLimited
+          ? `${error.message}${error.retryAfter ? ` You can ask again in about ${Math.ceil(error.retryAfter / 60)} min.` : ''}`
+          : "I'm having trouble connecting right now. Please make sure you have an internet connection and try again.",
         timestamp: new Date(),
       };
       setMessages((prev) => [...prev, errorMessage]);
     } finally {
+      if (abortRef.current === controller) abortRef.current = null;
       setLoading(false);
+      setStreaming(false);
     }
   };
 
+  const stopAnswer = () => {
+    abortRef.current?.abort();
+  };
+
   const handleSuggestedQuestion = (question: string) => {
     sendMessage(question);
   };
@@ -201,7 +204,29 @@ export default function InsightsAMAScreen() {
           <Sparkles size={24} color="#6366f1" strokeWidth={2} />
           <Text style={styles.headerTitle}>Ask Me Anything</Text>
         </View>
-        <View style={{ width: 24 }} />
+        <TouchableOpacity
+          onPress={startNewConversation}
+          style={styles.backButton}
+          disabled={loading || messages.length === 1}
+        >
+          <SquarePen size={22} color={messages.length === 1 ? '#d1d5db' : '#1f2937'} />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.windowPicker}>
+        <Text style={styles.windowLabel}>Look at my last</Text>
+        {AMA_WINDOW_OPTIONS.map((days) => (
+          <TouchableOpacity
+            key={days}
+            style={[styles.windowChip, windowDays === days && styles.windowChipActive]}
+            onPress={() => setWindowDays(days)}
+            disabled={loading}
+          >
+            <Text style={[styles.windowChipText, windowDays === days && styles.windowChipTextActive]}>
+              {days} days
+            </Text>
+          </TouchableOpacity>
+        ))}
       </View>
 
       <ScrollView
@@ -239,11 +264,12 @@ export default function InsightsAMAScreen() {
               >
                 {message.content}
               </Text>
+              {message.stopped && <Text style={styles.stoppedText}>Stopped</Text>}
             </View>
           </View>
         ))}
 
-        {loading && (
+        {loading && !streaming && (
           <View style={styles.typingIndicator}>
             <View style={styles.avatarContainer}>
               <Sparkles size={16} color="#6366f1" strokeWidth={2} />
@@ -285,17 +311,19 @@ export default function InsightsAMAScreen() {
           maxLength={500}
           editable={!loading}
         />
-        <TouchableOpacity
-          style={[styles.sendButton, (!inputText.trim() || loading) && styles.sendButtonDisabled]}
-          onPress={() => sendMessage(inputText)}
-          disabled={!inputText.trim() || loading}
-        >
-          {loading ? (
-            <ActivityIndicator size="small" color="white" />
-          ) : (
+        {loading ? (
+          <TouchableOpacity style={styles.sendButton} onPress={stopAnswer}>
+            <Square size={16} color="white" fill="white" strokeWidth={2} />
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity
+            style={[styles.sendButton, !inputText.trim() && styles.sendButtonDisabled]}
+            onPress={() => sendMessage(inputText)}
+            disabled={!inputText.trim()}
+          >
             <Send size={20} color="white" strokeWidth={2} />
-          )}
-        </TouchableOpacity>
+          </TouchableOpacity>
+        )}
       </View>
     </KeyboardAvoidingView>
   );
@@ -330,6 +358,41 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: '#1f2937',
   },
+  windowPicker: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  windowLabel: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginRight: 4,
+  },
+  windowChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#f9fafb',
+  },
+  windowChipActive: {
+    backgroundColor: '#eef2ff',
+    borderColor: '#6366f1',
+  },
+  windowChipText: {
+    fontSize: 13,
+    color: '#4b5563',
+  },
+  windowChipTextActive: {
+    color: '#4f46e5',
+    fontWeight: '600',
+  },
   messagesContainer: {
     flex: 1,
   },
@@ -382,6 +445,11 @@ const styles = StyleSheet.create({
   messageTextAssistant: {
     color: '#1f2937',
   },
+  stoppedText: {
+    fontSize: 12,
+    color: '#9ca3af',
+    marginTop: 6,
+  },
   typingIndicator: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -12,6 +12,7 @@ import { useRouter, useLocalSearchParams } from 'expo-router';
 import { ChevronLeft, Pencil } from 'lucide-react-native';
 import { useAuth } from '@/context/AuthContext';
 import { supabase } from '@/lib/supabase';
+import { formatTriggerValue } from '@/lib/trigger-values';
 import { colors, typography, spacing, borderRadius, shadows } from '@/lib/design-system';
 
 function formatDate(dateStr: string): string {
@@ -35,6 +36,7 @@ export default function LogDetailScreen() {
   const [log, setLog] = useState<any>(null);
   const [conditions, setConditions] = useState<any[]>([]);
   const [triggers, setTriggers] = useState<any[]>([]);
+  const [subSymptoms, setSubSymptoms] = useState<any[]>([]);
 
   useEffect(() => {
     if (user && logId) loadLogDetails();
@@ -67,6 +69,14 @@ export default function LogDetailScreen() {
           if (condErr) throw condErr;
           setConditions(conditionsData ?? []);
 
+          const { data: subData, error: subErr } = await supabase
+            .from('daily_log_sub_symptoms')
+            .select('*, sub_symptom:sub_symptoms(name, user_condition_id)')
+            .eq('daily_log_id', logId);
+
+          if (subErr) throw subErr;
+          setSubSymptoms(subData ?? []);
+
           const { data: triggersData, error: trigErr } = await supabase
             .from('daily_log_triggers')
             .select('*, trigger:triggers(*)')
@@ -96,6 +106,14 @@ export default function LogDetailScreen() {
           if (condErr) throw condErr;
           setConditions(conditionsData ?? []);
 
+          const { data: subData, error: subErr } = await supabase
+            .from('moment_log_sub_symptoms')
+            .select('*, sub_symptom:sub_symptoms(name, user_condition_id)')
+            .eq('moment_log_id', logId);
+
+          if (subErr) throw subErr;
+          setSubSymptoms(subData ?? []);
+
           const { data: triggersData, error: trigErr } = await supabase
             .from('moment_log_triggers')
             .select('*, trigger:triggers(*)')
@@ -201,6 +219,16 @@ export default function LogDetailScreen() {
                 {c.severity !== null && (
                   <Text style={styles.conditionSeverity}>Severity: {c.severity}/10</Text>
                 )}
+                {subSymptoms
+                  .filter((s: any) => s.sub_symptom?.user_condition_id === c.user_condition_id)
+                  .map((s: any) => (
+                    <View key={s.id} style={styles.subSymptomItem}>
+                      <Text style={styles.subSymptomName}>{s.sub_symptom.name}</Text>
+                      <Text style={styles.subSymptomValue}>
+                        {s.severity !== null ? `${s.severity}/10` : 'Present'}
+                      </Text>
+                    </View>
+                  ))}
                 {c.notes && <Text style={styles.conditionNotes}>{c.notes}</Text>}
               </View>
             ))}
@@ -213,11 +241,9 @@ export default function LogDetailScreen() {
             {triggers.map((t: any) => (
               <View key={t.id} style={styles.triggerItem}>
                 <Text style={styles.triggerLabel}>{t.trigger?.label}</Text>
-                {t.value_text ? (
-                  <Text style={styles.triggerValue}>{t.value_text}</Text>
-                ) : t.value !== null ? (
-                  <Text style={styles.triggerValue}>{t.value}</Text>
-                ) : null}
+                {(t.value_text || t.value !== null) && (
+                  <Text style={styles.triggerValue}>{formatTriggerValue(t.trigger, t)}</Text>
+                )}
               </View>
             ))}
           </View>
@@ -340,6 +366,20 @@ const styles = StyleSheet.create({
     color: colors.neutral.gray600,
     marginBottom: spacing.xs,
   },
+  subSymptomItem: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingLeft: spacing.md,
+    marginBottom: spacing.xs,
+  },
+  subSymptomName: {
+    ...typography.small,
+    color: colors.neutral.gray700,
+  },
+  subSymptomValue: {
+    ...typography.small,
+    color: colors.accent.purple,
+  },
   conditionNotes: {
     ...typography.small,
     color: colors.neutral.gray700,
@@ -360,6 +400,10 @@ const styles = StyleSheet.create({
   triggerValue: {
     ...typography.bodyBold,
     color: colors.accent.purple,
+    // tags and multi-select values can run long
+    flexShrink: 1,
+    textAlign: 'right',
+    marginLeft: spacing.md,
   },
   errorText: {
     ...typography.body,
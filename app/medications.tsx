@@ -0,0 +1,710 @@
+import { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  ActivityIndicator,
+  Alert,
+  Platform,
+} from 'react-native';
+import { useRouter, useFocusEffect } from 'expo-router';
+import { ChevronLeft, Plus, Pill, X } from 'lucide-react-native';
+import { useAuth } from '@/context/AuthContext';
+import { supabase } from '@/lib/supabase';
+import { addDays, todayISODate } from '@/lib/dates';
+import {
+  MedicationAdherence,
+  MedicationInput,
+  computeAdherence,
+  deleteMedication,
+  fetchDoses,
+  fetchMedications,
+  formatDose,
+  formatDoseTime,
+  isValidDoseTime,
+  saveMedication,
+  setMedicationActive,
+} from '@/lib/medications';
+import { Medication, MedicationDose, MedicationScheduleType, UserCondition } from '@/lib/types';
+import { colors, typography, spacing, borderRadius, shadows } from '@/lib/design-system';
+
+const ADHERENCE_WINDOW_DAYS = 30;
+
+const EMPTY_FORM: MedicationInput = {
+  name: '',
+  dose_amount: null,
+  dose_unit: null,
+  schedule_type: 'scheduled',
+  schedule_times: ['08:00'],
+  user_condition_id: null,
+  notes: null,
+};
+
+function conditionLabel(uc: UserCondition) {
+  return uc.custom_label || uc.condition?.name || 'Unnamed condition';
+}
+
+export default function MedicationsScreen() {
+  const router = useRouter();
+  const { user } = useAuth();
+  const userId = user?.id as string | undefined;
+
+  const [loading, setLoading] = useState(true);
+  const [medications, setMedications] = useState<Medication[]>([]);
+  const [doses, setDoses] = useState<MedicationDose[]>([]);
+  const [adherence, setAdherence] = useState<Record<string, MedicationAdherence>>({});
+  const [conditions, setConditions] = useState<UserCondition[]>([]);
+
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<MedicationInput>(EMPTY_FORM);
+  const [doseAmountText, setDoseAmountText] = useState('');
+  const [newTime, setNewTime] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(async (uid: string) => {
+    setLoading(true);
+    try {
+      const endDate = todayISODate();
+      const startDate = addDays(endDate, -(ADHERENCE_WINDOW_DAYS - 1));
+
+      const [meds, windowDoses] = await Promise.all([
+        fetchMedications(uid, { includeInactive: true }),
+        fetchDoses(uid, startDate, endDate),
+      ]);
+
+      const { data: conditionsData, error } = await supabase
+        .from('user_conditions')
+        .select('*, condition:conditions(*)')
+        .eq('user_id', uid)
+        .order('created_at', { ascending: true });
+      if (error) throw error;
+
+      setMedications(meds);
+      setDoses(windowDoses);
+      setConditions((conditionsData ?? []) as any);
+      setAdherence(
+        Object.fromEntries(
+          computeAdherence(meds, windowDoses, startDate, endDate).map((a) => [a.medicationId, a])
+        )
+      );
+    } catch (e) {
+      console.error('Error loading medications:', e);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      if (userId) load(userId);
+    }, [userId, load])
+  );
+
+  const openForm = (med?: Medication) => {
+    if (med) {
+      setEditingId(med.id);
+      setForm({
+        name: med.name,
+        dose_amount: med.dose_amount,
+        dose_unit: med.dose_unit,
+        schedule_type: med.schedule_type,
+        schedule_times: med.schedule_times,
+        user_condition_id: med.user_condition_id,
+        notes: med.notes,
+      });
+      setDoseAmountText(med.dose_amount !== null ? String(med.dose_amount) : '');
+    } else {
+      setEditingId(null);
+      setForm(EMPTY_FORM);
+      setDoseAmountText('');
+    }
+    setNewTime('');
+    setShowForm(true);
+  };
+
+  const addTime = () => {
+    const time = newTime.trim().padStart(5, '0');
+    if (!isValidDoseTime(time)) {
+      Alert.alert('Invalid time', 'Use 24-hour HH:MM, e.g. 08:00 or 20:30.');
+      return;
+    }
+    if (!form.schedule_times.includes(time)) {
+      setForm((prev) => ({ ...prev, schedule_times: [...prev.schedule_times, time].sort() }));
+    }
+    setNewTime('');
+  };
+
+  const handleSave = async () => {
+    if (!userId || !form.name.trim()) return;
+
+    const amount = doseAmountText.trim() ? Number(doseAmountText.replace(',', '.')) : null;
+    if (amount !== null && !Number.isFinite(amount)) {
+      Alert.alert('Invalid dose', 'Enter the dose as a number, e.g. 200 or 0.5.');
+      return;
+    }
+    if (form.schedule_type === 'scheduled' && form.schedule_times.length === 0) {
+      Alert.alert('Add a time', 'Scheduled medications need at least one dose time.');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveMedication(
+        userId,
+        { ...form, dose_amount: amount, dose_unit: form.dose_unit?.trim() || null, notes: form.notes?.trim() || null },
+        editingId ?? undefined
+      );
+      setShowForm(false);
+      await load(userId);
+    } catch (e) {
+      console.error('Error saving medication:', e);
+      Alert.alert('Error', 'Failed to save medication.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (med: Medication) => {
+    if (!userId) return;
+    try {
+      await setMedicationActive(med.id, !med.active);
+      await load(userId);
+    } catch (e) {
+      console.error('Error updating medication:', e);
+    }
+  };
+
+  const handleDelete = (med: Medication) => {
+    const message = `Delete "${med.name}" and all of its logged doses? Stopping it instead keeps its history.`;
+
+    const runDelete = async () => {
+      if (!userId) return;
+      try {
+        await deleteMedication(med.id);
+        setShowForm(false);
+        await load(userId);
+      } catch (e) {
+        console.error('Error deleting medication:', e);
+        Alert.alert('Error', 'Failed to delete medication.');
+      }
+    };
+
+    if (Platform.OS === 'web') {
+      if (window.confirm(message)) runDelete();
+      return;
+    }
+
+    Alert.alert('Delete Medication', message, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: runDelete },
+    ]);
+  };
+
+  const active = medications.filter((m) => m.active);
+  const stopped = medications.filter((m) => !m.active);
+
+  const renderMedication = (med: Medication) => {
+    const stats = adherence[med.id];
+    const linked = conditions.find((c) => c.id === med.user_condition_id);
+    const prnDoses = doses
+      .filter((d) => d.medication_id === med.id && d.is_prn)
+      .slice(-3)
+      .reverse();
+
+    return (
+      <TouchableOpacity key={med.id} style={styles.medCard} onPress={() => openForm(med)}>
+        <View style={styles.medHeader}>
+          <View style={styles.medIcon}>
+            <Pill size={18} color={colors.accent.purple} strokeWidth={2} />
+          </View>
+          <View style={styles.medInfo}>
+            <Text style={styles.medName}>{med.name}</Text>
+            <Text style={styles.medMeta}>
+              {[
+                formatDose(med),
+                med.schedule_type === 'prn'
+                  ? 'As needed'
+                  : med.schedule_times.map(formatDoseTime).join(', '),
+              ]
+                .filter(Boolean)
+                .join(' · ')}
+            </Text>
+            {linked && <Text style={styles.medCondition}>For {conditionLabel(linked)}</Text>}
+          </View>
+          {stats?.percent !== null && stats?.percent !== undefined ? (
+            <View style={styles.adherenceBadge}>
+              <Text style={styles.adherenceValue}>{Math.round(stats.percent * 100)}%</Text>
+              <Text style={styles.adherenceLabel}>taken</Text>
+            </View>
+          ) : med.schedule_type === 'prn' ? (
+            <View style={styles.adherenceBadge}>
+              <Text style={styles.adherenceValue}>{stats?.prnDoses ?? 0}</Text>
+              <Text style={styles.adherenceLabel}>doses</Text>
+            </View>
+          ) : null}
+        </View>
+
+        {prnDoses.length > 0 && (
+          <View style={styles.prnList}>
+            {prnDoses.map((d) => (
+              <Text key={d.id} style={styles.prnItem}>
+                {new Date(d.taken_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                {d.reason ? ` · ${d.reason}` : ''}
+              </Text>
+            ))}
+          </View>
+        )}
+
+        <TouchableOpacity onPress={() => handleToggleActive(med)}>
+          <Text style={styles.medAction}>{med.active ? 'Stop taking' : 'Resume'}</Text>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <ChevronLeft size={24} color={colors.neutral.gray900} strokeWidth={2} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Medications</Text>
+        <TouchableOpacity onPress={() => openForm()} style={styles.backButton}>
+          <Plus size={24} color={colors.accent.purple} strokeWidth={2} />
+        </TouchableOpacity>
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.accent.purple} />
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.scrollContent}>
+          <Text style={styles.pageDescription}>
+            Log doses from your check-in. Percentages show scheduled doses taken over the last{' '}
+            {ADHERENCE_WINDOW_DAYS} days.
+          </Text>
+
+          {active.length === 0 ? (
+            <View style={styles.emptyState}>
+              <Text style={styles.emptyText}>No medications yet.</Text>
+              <TouchableOpacity style={styles.addButton} onPress={() => openForm()}>
+                <Plus size={18} color={colors.neutral.white} strokeWidth={2.5} />
+                <Text style={styles.addButtonText}>Add a medication</Text>
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <View style={styles.list}>{active.map(renderMedication)}</View>
+          )}
+
+          {stopped.length > 0 && (
+            <>
+              <Text style={styles.groupTitle}>Stopped</Text>
+              <View style={styles.list}>{stopped.map(renderMedication)}</View>
+            </>
+          )}
+        </ScrollView>
+      )}
+
+      <Modal visible={showForm} animationType="slide" transparent onRequestClose={() => setShowForm(false)}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>{editingId ? 'Edit Medication' : 'Add Medication'}</Text>
+              <TouchableOpacity onPress={() => setShowForm(false)}>
+                <X size={24} color={colors.neutral.gray600} />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView keyboardShouldPersistTaps="handled">
+              <Text style={styles.fieldLabel}>Name</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="e.g., Propranolol"
+                value={form.name}
+                onChangeText={(name) => setForm((prev) => ({ ...prev, name }))}
+              />
+
+              <Text style={styles.fieldLabel}>Dose</Text>
+              <View style={styles.doseRow}>
+                <TextInput
+                  style={[styles.input, styles.doseAmount]}
+                  placeholder="200"
+                  keyboardType="decimal-pad"
+                  value={doseAmountText}
+                  onChangeText={setDoseAmountText}
+                />
+                <TextInput
+                  style={[styles.input, styles.doseUnit]}
+                  placeholder="mg"
+                  value={form.dose_unit ?? ''}
+                  onChangeText={(dose_unit) => setForm((prev) => ({ ...prev, dose_unit }))}
+                />
+              </View>
+
+              <Text style={styles.fieldLabel}>Schedule</Text>
+              <View style={styles.chipRow}>
+                {(['scheduled', 'prn'] as MedicationScheduleType[]).map((type) => (
+                  <TouchableOpacity
+                    key={type}
+                    style={[styles.chip, form.schedule_type === type && styles.chipActive]}
+                    onPress={() => setForm((prev) => ({ ...prev, schedule_type: type }))}
+                  >
+                    <Text style={[styles.chipText, form.schedule_type === type && styles.chipTextActive]}>
+                      {type === 'scheduled' ? 'On a schedule' : 'As needed (PRN)'}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              {form.schedule_type === 'scheduled' && (
+                <>
+                  <View style={styles.chipRow}>
+                    {form.schedule_times.map((time) => (
+                      <TouchableOpacity
+                        key={time}
+                        style={[styles.chip, styles.chipActive]}
+                        onPress={() =>
+                          setForm((prev) => ({
+                            ...prev,
+                            schedule_times: prev.schedule_times.filter((t) => t !== time),
+                          }))
+                        }
+                      >
+                        <Text style={[styles.chipText, styles.chipTextActive]}>
+                          {formatDoseTime(time)} ✕
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                  <View style={styles.doseRow}>
+                    <TextInput
+                      style={[styles.input, styles.doseAmount]}
+                      placeholder="HH:MM (24h)"
+                      value={newTime}
+                      onChangeText={setNewTime}
+                      onSubmitEditing={addTime}
+                    />
+                    <TouchableOpacity style={styles.smallButton} onPress={addTime}>
+                      <Text style={styles.smallButtonText}>Add time</Text>
+                    </TouchableOpacity>
+                  </View>
+                </>
+              )}
+
+              {conditions.length > 0 && (
+                <>
+                  <Text style={styles.fieldLabel}>Taken for</Text>
+                  <View style={styles.chipRow}>
+                    {conditions
+                      .filter((c) => !c.archived_at || form.user_condition_id === c.id)
+                      .map((c) => {
+                        const selected = form.user_condition_id === c.id;
+                        return (
+                          <TouchableOpacity
+                            key={c.id}
+                            style={[styles.chip, selected && styles.chipActive]}
+                            onPress={() =>
+                              setForm((prev) => ({ ...prev, user_condition_id: selected ? null : c.id }))
+                            }
+                          >
+                            <Text style={[styles.chipText, selected && styles.chipTextActive]}>
+                              {conditionLabel(c)}
+                            </Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                  </View>
+                </>
+              )}
+
+              <Text style={styles.fieldLabel}>Notes</Text>
+              <TextInput
+                style={[styles.input, { minHeight: 80 }]}
+                placeholder="Optional"
+                value={form.notes ?? ''}
+                onChangeText={(notes) => setForm((prev) => ({ ...prev, notes }))}
+                multiline
+              />
+
+              <TouchableOpacity
+                style={[styles.saveButton, (!form.name.trim() || saving) && styles.saveButtonDisabled]}
+                onPress={handleSave}
+                disabled={!form.name.trim() || saving}
+              >
+                {saving ? (
+                  <ActivityIndicator color={colors.neutral.white} />
+                ) : (
+                  <Text style={styles.saveButtonText}>Save</Text>
+                )}
+              </TouchableOpacity>
+
+              {editingId && (
+                <TouchableOpacity
+                  style={styles.deleteButton}
+                  onPress={() => {
+                    const med = medications.find((m) => m.id === editingId);
+                    if (med) handleDelete(med);
+                  }}
+                >
+                  <Text style={styles.deleteButtonText}>Delete Medication</Text>
+                </TouchableOpacity>
+              )}
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.primary.cream,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.lg,
+    paddingTop: Platform.OS === 'ios' ? 60 : spacing.lg,
+    paddingBottom: spacing.md,
+    backgroundColor: colors.primary.cream,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    ...typography.title3,
+    color: colors.neutral.gray900,
+    flex: 1,
+    textAlign: 'center',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollContent: {
+    paddingHorizontal: spacing.lg,
+    paddingBottom: spacing.xxl,
+  },
+  pageDescription: {
+    ...typography.body,
+    color: colors.neutral.gray600,
+    marginBottom: spacing.lg,
+    textAlign: 'center',
+  },
+  list: {
+    gap: spacing.md,
+  },
+  groupTitle: {
+    ...typography.bodyBold,
+    fontSize: 18,
+    color: colors.neutral.gray900,
+    marginTop: spacing.xl,
+    marginBottom: spacing.md,
+  },
+  medCard: {
+    backgroundColor: colors.neutral.white,
+    borderRadius: borderRadius.lg,
+    padding: spacing.md,
+    ...shadows.sm,
+  },
+  medHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+  },
+  medIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: colors.primary.lavender,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  medInfo: {
+    flex: 1,
+  },
+  medName: {
+    ...typography.bodyBold,
+    color: colors.neutral.gray900,
+  },
+  medMeta: {
+    ...typography.caption,
+    color: colors.neutral.gray600,
+    marginTop: 2,
+  },
+  medCondition: {
+    ...typography.caption,
+    color: colors.accent.purple,
+    marginTop: 2,
+  },
+  adherenceBadge: {
+    alignItems: 'center',
+    paddingHorizontal: spacing.sm,
+  },
+  adherenceValue: {
+    ...typography.title3,
+    color: colors.neutral.gray900,
+  },
+  adherenceLabel: {
+    ...typography.small,
+    color: colors.neutral.gray600,
+  },
+  prnList: {
+    marginTop: spacing.sm,
+    paddingTop: spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: colors.neutral.gray100,
+    gap: 2,
+  },
+  prnItem: {
+    ...typography.caption,
+    color: colors.neutral.gray700,
+  },
+  medAction: {
+    ...typography.captionBold,
+    color: colors.accent.purple,
+    marginTop: spacing.sm,
+    alignSelf: 'flex-end',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: spacing.xl,
+    gap: spacing.md,
+  },
+  emptyText: {
+    ...typography.body,
+    color: colors.neutral.gray600,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.lg,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.accent.purple,
+  },
+  addButtonText: {
+    ...typography.bodyBold,
+    color: colors.neutral.white,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: colors.neutral.white,
+    borderTopLeftRadius: borderRadius.xl,
+    borderTopRightRadius: borderRadius.xl,
+    padding: spacing.lg,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: spacing.md,
+  },
+  modalTitle: {
+    ...typography.title3,
+    color: colors.neutral.gray900,
+  },
+  fieldLabel: {
+    ...typography.captionBold,
+    color: colors.neutral.gray700,
+    marginTop: spacing.md,
+    marginBottom: spacing.xs,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: colors.neutral.gray300,
+    borderRadius: borderRadius.md,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    ...typography.body,
+    color: colors.neutral.gray900,
+    backgroundColor: colors.neutral.white,
+  },
+  doseRow: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    alignItems: 'center',
+  },
+  doseAmount: {
+    flex: 2,
+  },
+  doseUnit: {
+    flex: 1,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: spacing.md,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.neutral.gray100,
+  },
+  chipActive: {
+    backgroundColor: colors.primary.lavender,
+  },
+  chipText: {
+    ...typography.caption,
+    color: colors.neutral.gray700,
+  },
+  chipTextActive: {
+    color: colors.accent.purple,
+    fontWeight: '600',
+  },
+  smallButton: {
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    borderRadius: borderRadius.md,
+    backgroundColor: colors.primary.lavender,
+  },
+  smallButtonText: {
+    ...typography.captionBold,
+    color: colors.accent.purple,
+  },
+  saveButton: {
+    backgroundColor: colors.neutral.gray900,
+    borderRadius: borderRadius.lg,
+    paddingVertical: spacing.md,
+    alignItems: 'center',
+    marginTop: spacing.lg,
+  },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    ...typography.bodyBold,
+    color: colors.neutral.white,
+  },
+  deleteButton: {
+    paddingVertical: spacing.md,
+    alignItems: 'center',
+    marginTop: spacing.sm,
+    marginBottom: spacing.lg,
+  },
+  deleteButtonText: {
+    ...typography.bodyBold,
+    color: colors.accent.red,
+  },
+});
@@ -10,15 +10,18 @@ import {
   Switch,
   ActivityIndicator,
   Platform,
+  Alert,
 } from 'react-native';
 import { useRouter, useLocalSearchParams, useFocusEffect } from 'expo-router';
 import { X } from 'lucide-react-native';
 import { useAuth } from '@/context/AuthContext';
 import { supabase } from '@/lib/supabase';
-import { updateStreak } from '@/lib/streak';
+import { submitMomentLog, generateLocalId } from '@/lib/log-outbox';
+import { toISODate } from '@/lib/dates';
 import { UserCondition } from '@/lib/types';
 import { colors, typography, spacing, borderRadius, shadows } from '@/lib/design-system';
 import { TriggerInput } from '@/components/TriggerInput';
+import { SubSymptomInputs, SubSymptomValues, subSymptomRows } from '@/components/logging/SubSymptomInputs';
 import { Trigger } from '@/lib/trigger-types';
 
 function SimpleSlider({
@@ -86,11 +89,16 @@ export default function MomentLogScreen() {
   const [conditionData, setConditionData] = useState<
     Record<string, { active: boolean; severity: number | null; notes: string }>
   >({});
+  const [subSymptomValues, setSubSymptomValues] = useState<SubSymptomValues>({});
 
   const [enabledTriggers, setEnabledTriggers] = useState<Trigger[]>([]);
   const [triggerValues, setTriggerValues] = useState<TriggerValueMap>({});
   const [triggersLoading, setTriggersLoading] = useState(false);
 
+  // kept from the original row when editing so the log stays on its day
+  const [originalTimestamp, setOriginalTimestamp] = useState<string | null>(null);
+  const [originalDate, setOriginalDate] = useState<string | null>(null);
+
   const [formData, setFormData] = useState({
     overall_severity: null as number | null,
     activity: '',
@@ -126,8 +134,8 @@ export default function MomentLogScreen() {
 
       const triggers = (data ?? []).map((ut: any) => ut.trigger as any);
 
-      // filter out group triggers (UI-only)
-      const leafTriggers = triggers.filter((t: any) => t.input_type !== 'group');
+      // filter out group triggers (UI-only) and retired catalog triggers
+      const leafTriggers = triggers.filter((t: any) => t?.is_active && t.input_type !== 'group');
 
       setEnabledTriggers(leafTriggers);
 
@@ -163,7 +171,7 @@ export default function MomentLogScreen() {
         // 1) load all user conditions first (build base conditionData map)
         const { data, error } = await supabase
           .from('user_conditions')
-          .select('*, condition:conditions(*)')
+          .select('*, condition:conditions(*), sub_symptoms(*)')
           .eq('user_id', userId);
 
         if (error) throw error;
@@ -188,7 +196,7 @@ export default function MomentLogScreen() {
           // parent row
           const { data: logRow, error: logErr } = await supabase
             .from('moment_logs')
-            .select('id, overall_severity, activity, notes')
+            .select('id, timestamp, date, overall_severity, activity, notes')
             .eq('id', editId)
             .eq('user_id', userId)
             .single();
@@ -197,6 +205,8 @@ export default function MomentLogScreen() {
 
           if (cancelled) return;
 
+          setOriginalTimestamp(logRow.timestamp);
+          setOriginalDate(logRow.date);
           setFormData({
             overall_severity: logRow.overall_severity ?? null,
             activity: logRow.activity ?? '',
@@ -219,6 +229,14 @@ export default function MomentLogScreen() {
 
           if (trigErr) throw trigErr;
 
+          // children: sub-symptoms
+          const { data: subRows, error: subErr } = await supabase
+            .from('moment_log_sub_symptoms')
+            .select('sub_symptom_id, severity')
+            .eq('moment_log_id', editId);
+
+          if (subErr) throw subErr;
+
           if (cancelled) return;
 
           // apply conditions to baseMap
@@ -247,6 +265,10 @@ export default function MomentLogScreen() {
             tv[row.trigger_id] = { value: row.value ?? null, valueText: row.value_text ?? null };
           }
           setTriggerValues(tv);
+
+          const sv: SubSymptomValues = {};
+          for (const row of subRows ?? []) sv[row.sub_symptom_id] = row.severity ?? null;
+          setSubSymptomValues(sv);
         }
       } catch (e) {
         console.error('[MomentLogScreen] hydrate failed', e);
@@ -282,91 +304,54 @@ export default function MomentLogScreen() {
     setLoading(true);
     try {
       const now = new Date();
-      const dateStr = now.toISOString().split('T')[0];
-
-      let momentLogId: string;
-
-      if (isEdit) {
-        // Update parent row
-        const { error: updErr } = await supabase
-          .from('moment_logs')
-          .update({
-            overall_severity: formData.overall_severity,
-            activity: formData.activity || null,
-            notes: formData.notes || null,
-            // updated_at: now.toISOString(), // only if you have this column
-          })
-          .eq('id', editId!)
-          .eq('user_id', userId);
-
-        if (updErr) throw updErr;
-        momentLogId = editId!;
-      } else {
-        // Insert parent row
-        const { data: created, error: createErr } = await supabase
-          .from('moment_logs')
-          .insert({
-            user_id: userId,
-            timestamp: now.toISOString(),
-            date: dateStr,
-            overall_severity: formData.overall_severity,
-            activity: formData.activity || null,
-            notes: formData.notes || null,
-          })
-          .select('id')
-          .single();
-
-        if (createErr) throw createErr;
-        momentLogId = created!.id;
-      }
-
-      // Replace children: conditions
-      const { error: delC } = await supabase
-        .from('moment_log_conditions')
-        .delete()
-        .eq('moment_log_id', momentLogId);
-      if (delC) throw delC;
 
       const activeConditions = Object.entries(conditionData)
         .filter(([_, data]) => data.active)
         .map(([conditionId, data]) => ({
-          moment_log_id: momentLogId,
           user_condition_id: conditionId,
           severity: data.severity,
           notes: data.notes || null,
         }));
 
-      if (activeConditions.length > 0) {
-        const { error: insC } = await supabase.from('moment_log_conditions').insert(activeConditions);
-        if (insC) throw insC;
-      }
-
-      // Replace children: triggers
-      const { error: delT } = await supabase
-        .from('moment_log_triggers')
-        .delete()
-        .eq('moment_log_id', momentLogId);
-      if (delT) throw delT;
+      // sub-symptoms of a condition switched off are dropped rather than saved
+      const subSymptomEntries = subSymptomRows(
+        subSymptomValues,
+        conditions,
+        activeConditions.map((c) => c.user_condition_id)
+      );
 
       const triggerEntries = Object.entries(triggerValues)
         .filter(([_, data]) => data.value !== null)
         .map(([triggerId, data]) => ({
-          moment_log_id: momentLogId,
           trigger_id: triggerId,
           value: data.value!,
           value_text: data.valueText || null,
         }));
 
-      if (triggerEntries.length > 0) {
-        const { error: insT } = await supabase.from('moment_log_triggers').insert(triggerEntries);
-        if (insT) throw insT;
-      }
+      // edits keep the original timestamp; new logs get an id up front so a replay can't duplicate them
+      const result = await submitMomentLog(userId, {
+        id: editId ?? generateLocalId(),
+        timestamp: originalTimestamp ?? now.toISOString(),
+        date: originalDate ?? toISODate(now),
+        overall_severity: formData.overall_severity,
+        activity: formData.activity || null,
+        notes: formData.notes || null,
+        conditions: activeConditions,
+        sub_symptoms: subSymptomEntries,
+        triggers: triggerEntries,
+      });
 
-      await updateStreak(userId);
+      if (result.status === 'queued') {
+        Alert.alert(
+          "You're offline",
+          'Your moment is saved on this device and will sync automatically.'
+        );
+      }
 
       router.back();
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error saving moment log:', error);
+      Alert.alert('Save failed', error?.message || 'Check console logs.');
     } finally {
       setLoading(false);
     }
@@ -404,49 +389,58 @@ export default function MomentLogScreen() {
             Select which conditions you're experiencing right now
           </Text>
 
-          {conditions.map((condition) => (
-            <View key={condition.id} style={styles.conditionBlock}>
-              <View style={styles.conditionHeader}>
-                <Text style={styles.conditionLabel}>
-                  {condition.condition?.name || condition.custom_label || 'Unnamed'}
-                </Text>
-
-                <Switch
-                  value={conditionData[condition.id]?.active || false}
-                  onValueChange={(value) => updateConditionField(condition.id, 'active', value)}
-                  trackColor={{ false: '#d1d5db', true: '#a5b4fc' }}
-                  thumbColor={conditionData[condition.id]?.active ? '#6366f1' : '#f3f4f6'}
-                />
-              </View>
-
-              {conditionData[condition.id]?.active && (
-                <View style={styles.conditionDetails}>
-                  <View style={styles.sectionHeader}>
-                    <Text style={styles.label}>Severity</Text>
-                    <Text style={styles.sliderValue}>
-                      {conditionData[condition.id]?.severity ?? '-'}
-                    </Text>
-                  </View>
-
-                  <SimpleSlider
-                    min={0}
-                    max={10}
-                    value={conditionData[condition.id]?.severity ?? null}
-                    onChange={(value) => updateConditionField(condition.id, 'severity', value)}
-                  />
-
-                  <TextInput
-                    style={styles.notesInput}
-                    placeholder="Notes about this condition..."
-                    value={conditionData[condition.id]?.notes || ''}
-                    onChangeText={(text) => updateConditionField(condition.id, 'notes', text)}
-                    multiline
-                    numberOfLines={2}
+          {/* resolved conditions stay visible only if the moment being edited includes them */}
+          {conditions
+            .filter((c) => !c.archived_at || conditionData[c.id]?.active)
+            .map((condition) => (
+              <View key={condition.id} style={styles.conditionBlock}>
+                <View style={styles.conditionHeader}>
+                  <Text style={styles.conditionLabel}>
+                    {condition.condition?.name || condition.custom_label || 'Unnamed'}
+                  </Text>
+
+                  <Switch
+                    value={conditionData[condition.id]?.active || false}
+                    onValueChange={(value) => updateConditionField(condition.id, 'active', value)}
+                    trackColor={{ false: '#d1d5db', true: '#a5b4fc' }}
+                    thumbColor={conditionData[condition.id]?.active ? '#6366f1' : '#f3f4f6'}
                   />
                 </View>
-              )}
-            </View>
-          ))}
+
+                {conditionData[condition.id]?.active && (
+                  <View style={styles.conditionDetails}>
+                    <View style={styles.sectionHeader}>
+                      <Text style={styles.label}>Severity</Text>
+                      <Text style={styles.sliderValue}>
+                        {conditionData[condition.id]?.severity ?? '-'}
+                      </Text>
+                    </View>
+
+                    <SimpleSlider
+                      min={0}
+                      max={10}
+                      value={conditionData[condition.id]?.severity ?? null}
+                      onChange={(value) => updateConditionField(condition.id, 'severity', value)}
+                    />
+
+                    <SubSymptomInputs
+                      subSymptoms={condition.sub_symptoms ?? []}
+                      values={subSymptomValues}
+                      onChange={setSubSymptomValues}
+                    />
+
+                    <TextInput
+                      style={styles.notesInput}
+                      placeholder="Notes about this condition..."
+                      value={conditionData[condition.id]?.notes || ''}
+                      onChangeText={(text) => updateConditionField(condition.id, 'notes', text)}
+                      multiline
+                      numberOfLines={2}
+                    />
+                  </View>
+                )}
+              </View>
+            ))}
         </View>
 
         <View style={styles.section}>
@@ -477,6 +471,7 @@ export default function MomentLogScreen() {
                   key={trigger.id}
                   trigger={trigger}
                   value={triggerValues[trigger.id]?.value ?? null}
+                  valueText={triggerValues[trigger.id]?.valueText ?? null}
                   onValueChange={(value, valueText) => {
                     setTriggerValues((prev) => ({
                       ...prev,
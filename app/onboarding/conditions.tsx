@@ -15,6 +15,8 @@ import { Search, Plus, X, ChevronLeft } from 'lucide-react-native';
 import { useAuth } from '@/context/AuthContext';
 import { supabase } from '@/lib/supabase';
 import { searchConditions } from '@/lib/conditions-data';
+import { enableTriggers, fetchRecommendedTriggers } from '@/lib/trigger-presets';
+import { recordStatusEvent } from '@/lib/condition-status';
 import { colors, typography, spacing, borderRadius, shadows } from '@/lib/design-system';
 
 export default function OnboardingConditions() {
@@ -23,6 +25,8 @@ export default function OnboardingConditions() {
 
   const [searchQuery, setSearchQuery] = useState('');
   const [addedConditions, setAddedConditions] = useState<string[]>([]);
+  // condition name -> labels of the triggers switched on for it
+  const [presetTriggers, setPresetTriggers] = useState<Record<string, string[]>>({});
   const [loading, setLoading] = useState(false);
 
   const [showSkipModal, setShowSkipModal] = useState(false);
@@ -52,14 +56,24 @@ export default function OnboardingConditions() {
       }
 
       if (conditionId) {
-        await supabase.from('user_conditions').insert({
-          user_id: user.id,
-          condition_id: conditionId,
-          status: 'exploring',
-        });
+        const { data: added, error: addErr } = await supabase
+          .from('user_conditions')
+          .insert({
+            user_id: user.id,
+            condition_id: conditionId,
+            status: 'exploring',
+          })
+          .select('id')
+          .single();
+
+        if (addErr) throw addErr;
+
+        await recordStatusEvent(user.id, added.id, 'exploring', null);
 
         setAddedConditions([...addedConditions, name]);
         setSearchQuery('');
+
+        await enablePresetTriggers(name);
       }
     } catch (error) {
       console.error('Error adding condition:', error);
@@ -68,6 +82,23 @@ export default function OnboardingConditions() {
     }
   };
 
+  // the previous step picked triggers by hand; this adds the ones usually
+  // relevant to the condition that aren't tracked yet
+  const enablePresetTriggers = async (name: string) => {
+    if (!user) return;
+
+    try {
+      const recommended = await fetchRecommendedTriggers(user.id, name);
+      const toEnable = recommended.filter((r) => !r.tracked).map((r) => r.trigger);
+      if (toEnable.length === 0) return;
+
+      await enableTriggers(user.id, toEnable);
+      setPresetTriggers((prev) => ({ ...prev, [name]: toEnable.map((t) => t.label) }));
+    } catch (error) {
+      console.error('Error enabling recommended triggers:', error);
+    }
+  };
+
   const handleContinue = () => {
     router.push('/onboarding/notifications');
   };
@@ -122,8 +153,16 @@ export default function OnboardingConditions() {
               {addedConditions.map((condition, index) => (
                 <View key={index} style={styles.addedItem}>
                   <Text style={styles.addedItemText}>{condition}</Text>
+                  {presetTriggers[condition] && (
+                    <Text style={styles.addedItemTriggers}>
+                      Also tracking {presetTriggers[condition].join(', ')}
+                    </Text>
+                  )}
                 </View>
               ))}
+              {Object.keys(presetTriggers).length > 0 && (
+                <Text style={styles.addedHint}>You can change triggers anytime in Settings → Manage Triggers.</Text>
+              )}
             </View>
           )}
 
@@ -284,6 +323,15 @@ const styles = StyleSheet.create({
     ...typography.body,
     color: colors.neutral.gray900,
   },
+  addedItemTriggers: {
+    ...typography.caption,
+    color: colors.neutral.gray600,
+    marginTop: spacing.xs,
+  },
+  addedHint: {
+    ...typography.caption,
+    color: colors.neutral.gray600,
+  },
   searchResults: {
     backgroundColor: colors.neutral.white,
     borderRadius: borderRadius.lg,
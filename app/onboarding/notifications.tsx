@@ -13,10 +13,10 @@ import { useRouter } from 'expo-router';
 import { ChevronLeft } from 'lucide-react-native';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/context/AuthContext';
+import { syncNotificationSchedule } from '@/lib/notifications';
+import { NotificationPreference } from '@/lib/types';
 import { colors, typography, spacing, borderRadius, shadows } from '@/lib/design-system';
 
-type NotificationPreference = 'daily' | 'occasional' | 'none';
-
 export default function OnboardingNotifications() {
   const router = useRouter();
   const { user } = useAuth();
@@ -36,10 +36,14 @@ export default function OnboardingNotifications() {
           {
             user_id: user.id,
             onboarding_completed: true,
+            notification_preference: pref,
             updated_at: new Date().toISOString(),
           },
           { onConflict: 'user_id' }
         );
+      syncNotificationSchedule(user.id).catch((e) =>
+        console.error('[OnboardingNotifications] reminder sync failed', e)
+      );
     }
   };
 
@@ -12,6 +12,7 @@ import {
 import { useRouter } from 'expo-router';
 import { ChevronLeft } from 'lucide-react-native';
 import { supabase } from '@/lib/supabase';
+import { markCatalogSeen } from '@/lib/trigger-catalog';
 import { useAuth } from '@/context/AuthContext';
 import { colors, typography, spacing, borderRadius, shadows } from '@/lib/design-system';
 import { Trigger, TRIGGER_CATEGORIES } from '@/lib/trigger-types';
@@ -72,6 +73,11 @@ export default function OnboardingTracking() {
         .upsert(userTriggers, { onConflict: 'user_id,trigger_id' });
     }
 
+    // everything in the catalog was just on offer, so none of it is "new" later
+    if (user) {
+      markCatalogSeen(user.id).catch((error) => console.error('Error saving trigger catalog version:', error));
+    }
+
     router.push('/onboarding/conditions');
   };
 
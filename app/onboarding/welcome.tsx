@@ -14,6 +14,7 @@ import {
 import { useRouter } from 'expo-router';
 import { Lock } from 'lucide-react-native';
 import { supabase } from '@/lib/supabase';
+import { deviceTimeZone } from '@/lib/dates';
 import { useAuth } from '@/context/AuthContext';
 import { colors, typography, spacing, borderRadius, shadows } from '@/lib/design-system';
 
@@ -39,6 +40,7 @@ export default function OnboardingWelcome() {
           {
             user_id: user.id,
             display_name: name,
+            timezone: deviceTimeZone(),
             updated_at: new Date().toISOString(),
           },
           { onConflict: 'user_id' }
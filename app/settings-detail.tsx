@@ -29,10 +29,23 @@ import {
   Calendar,
   Trash2,
   Download,
+  Upload,
   ChevronLeft,
 } from 'lucide-react-native';
 import { supabase } from '@/lib/supabase';
+import { deviceTimeZone, updateUserTimeZone } from '@/lib/dates';
+import { syncNotificationSchedule } from '@/lib/notifications';
+import { NotificationPreference } from '@/lib/types';
+import { recordStatusEvent } from '@/lib/condition-status';
 import { seedDemoData, clearAllUserData } from '@/lib/seed-demo-data';
+import {
+  exportUserData,
+  getExportRange,
+  EXPORT_RANGE_PRESETS,
+  ExportFormat,
+  ExportArchive,
+} from '@/lib/data-export';
+import { pickImportFile, parseImportArchive, importArchive, summarizeImportReport } from '@/lib/data-import';
 import { colors, typography, spacing, borderRadius, shadows } from '@/lib/design-system';
 
 interface UserPreferences {
@@ -41,6 +54,7 @@ interface UserPreferences {
   display_name?: string;
   profile_picture_url?: string;
   track_menstrual_cycle?: boolean;
+  notification_preference?: NotificationPreference;
 }
 
 interface CustomNotification {
@@ -52,6 +66,30 @@ interface CustomNotification {
   is_enabled: boolean;
 }
 
+const REMINDER_PREFERENCE_OPTIONS: { value: NotificationPreference; label: string; description: string }[] = [
+  { value: 'daily', label: 'Daily check-in', description: 'Around the time you usually log' },
+  { value: 'occasional', label: 'Occasional', description: 'Only after a couple of days without a log' },
+  { value: 'none', label: 'Off', description: 'No check-in or streak reminders' },
+];
+
+const EXPORT_OPTIONS: { format: ExportFormat; label: string; description: string }[] = [
+  {
+    format: 'pdf',
+    label: 'Clinician Report (PDF)',
+    description: 'Printable summary for appointments',
+  },
+  {
+    format: 'csv',
+    label: 'Spreadsheet (CSV)',
+    description: 'One row per log, for spreadsheets and analysis',
+  },
+  {
+    format: 'json',
+    label: 'Full Archive (JSON)',
+    description: 'Everything, including conditions and triggers',
+  },
+];
+
 export default function SettingsDetailScreen() {
   const { user } = useAuth();
   const router = useRouter();
@@ -63,8 +101,12 @@ export default function SettingsDetailScreen() {
   const [loading, setLoading] = useState(true);
   const [showThemeModal, setShowThemeModal] = useState(false);
   const [showProfileModal, setShowProfileModal] = useState(false);
+  const [showReminderModal, setShowReminderModal] = useState(false);
   const [displayName, setDisplayName] = useState('');
-  const [exporting, setExporting] = useState(false);
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [exportRangeDays, setExportRangeDays] = useState<number | null>(90);
+  const [showExportRangeModal, setShowExportRangeModal] = useState(false);
+  const [importing, setImporting] = useState(false);
 
   useEffect(() => {
     if (user) {
@@ -91,10 +133,11 @@ export default function SettingsDetailScreen() {
       if (data) {
         setPreferences({
           theme: data.theme as 'light' | 'dark' | 'auto',
-          timezone: data.timezone,
+          timezone: data.timezone || deviceTimeZone(),
           display_name: data.display_name,
           profile_picture_url: data.profile_picture_url,
           track_menstrual_cycle: data.track_menstrual_cycle || false,
+          notification_preference: data.notification_preference || 'none',
         });
         setDisplayName(data.display_name || '');
       } else {
@@ -134,6 +177,19 @@ export default function SettingsDetailScreen() {
     }
   };
 
+  const switchToDeviceTimeZone = async () => {
+    if (!user) return;
+
+    const timezone = deviceTimeZone();
+    try {
+      await updateUserTimeZone(user.id, timezone);
+      setPreferences((prev) => ({ ...prev, timezone }));
+    } catch (error) {
+      console.error('Error updating timezone:', error);
+      Alert.alert('Error', 'Failed to update timezone');
+    }
+  };
+
   const updateTheme = async (theme: 'light' | 'dark' | 'auto') => {
     if (!user) return;
 
@@ -153,6 +209,26 @@ export default function SettingsDetailScreen() {
     }
   };
 
+  const updateReminderPreference = async (notification_preference: NotificationPreference) => {
+    if (!user) return;
+
+    try {
+      const { error } = await supabase
+        .from('user_preferences')
+        .update({ notification_preference, updated_at: new Date().toISOString() })
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+
+      setPreferences({ ...preferences, notification_preference });
+      setShowReminderModal(false);
+      resyncReminders();
+    } catch (error) {
+      console.error('Error updating reminder preference:', error);
+      Alert.alert('Error', 'Failed to update reminders');
+    }
+  };
+
   const updateDisplayName = async () => {
     if (!user) return;
 
@@ -207,14 +283,20 @@ export default function SettingsDetailScreen() {
             .maybeSingle();
 
           if (!existingUserCondition) {
-            await supabase
+            const { data: added, error: addErr } = await supabase
               .from('user_conditions')
               .insert({
                 user_id: user.id,
                 condition_id: menstrualCondition.id,
                 status: 'monitoring',
                 is_cycle: true,
-              });
+              })
+              .select('id')
+              .single();
+
+            if (addErr) throw addErr;
+
+            await recordStatusEvent(user.id, added.id, 'monitoring', null);
           }
         }
       } else {
@@ -240,6 +322,13 @@ export default function SettingsDetailScreen() {
     }
   };
 
+  const resyncReminders = () => {
+    if (!user) return;
+    syncNotificationSchedule(user.id).catch((error) =>
+      console.error('Error scheduling notifications:', error)
+    );
+  };
+
   const toggleNotification = async (id: string, value: boolean) => {
     try {
       const { error } = await supabase
@@ -252,6 +341,7 @@ export default function SettingsDetailScreen() {
       setNotifications(
         notifications.map((n) => (n.id === id ? { ...n, is_enabled: value } : n))
       );
+      resyncReminders();
     } catch (error) {
       console.error('Error toggling notification:', error);
     }
@@ -279,6 +369,7 @@ export default function SettingsDetailScreen() {
               if (error) throw error;
 
               setNotifications(notifications.filter((n) => n.id !== id));
+              resyncReminders();
             } catch (error) {
               console.error('Error deleting notification:', error);
               Alert.alert('Error', 'Failed to delete notification. Please try again.');
@@ -289,14 +380,62 @@ export default function SettingsDetailScreen() {
     );
   };
 
-  const exportDataToPDF = async () => {
-    setExporting(true);
+  const exportData = async (format: ExportFormat) => {
+    if (!user) return;
+
+    setExporting(format);
+    try {
+      const result = await exportUserData(user.id, format, getExportRange(exportRangeDays));
+      if (result.dailyLogs === 0 && result.momentLogs === 0) {
+        Alert.alert('Export Data', 'No logs found in the selected date range.');
+      }
+    } catch (error) {
+      console.error('Error exporting data:', error);
+      Alert.alert('Error', 'Failed to export data. Please try again.');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!user) return;
+
+    let archive: ExportArchive;
+    try {
+      const text = await pickImportFile();
+      if (!text) return;
+      archive = parseImportArchive(text);
+    } catch (error: any) {
+      console.error('Error reading import file:', error);
+      Alert.alert('Import Failed', error?.message || 'Could not read this file.');
+      return;
+    }
+
+    const runImport = async (restorePreferences: boolean) => {
+      setImporting(true);
+      try {
+        const report = await importArchive(user.id, archive, { restorePreferences });
+        Alert.alert('Import Complete', summarizeImportReport(report));
+      } catch (error: any) {
+        console.error('Error importing data:', error);
+        Alert.alert('Import Failed', error?.message || 'Failed to import data. Please try again.');
+      } finally {
+        setImporting(false);
+      }
+    };
+
     Alert.alert(
-      'Export Data',
-      'This feature will generate a PDF report of your health data. Coming soon!',
-      [{ text: 'OK' }]
+      'Import Data',
+      `Merge ${archive.daily_logs.length} daily logs and ${archive.moment_logs.length} moment logs into your account? Entries you already have are kept.` +
+        (archive.preferences ? '\n\nRestoring settings replaces your current ones.' : ''),
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Import', onPress: () => runImport(false) },
+        ...(archive.preferences
+          ? [{ text: 'Import and restore settings', onPress: () => runImport(true) }]
+          : []),
+      ]
     );
-    setExporting(false);
   };
 
   const handleBackup = () => {
@@ -426,12 +565,21 @@ export default function SettingsDetailScreen() {
               </View>
             </View>
             <View style={styles.divider} />
-            <View style={styles.settingRow}>
+            <TouchableOpacity
+              style={styles.settingRow}
+              onPress={switchToDeviceTimeZone}
+              disabled={preferences.timezone === deviceTimeZone()}
+            >
               <View style={styles.settingLeft}>
                 <Text style={styles.settingLabel}>Timezone</Text>
                 <Text style={styles.settingValue}>{preferences.timezone}</Text>
+                {preferences.timezone !== deviceTimeZone() && (
+                  <Text style={styles.settingSubtext}>
+                    Tap to use this device's timezone ({deviceTimeZone()})
+                  </Text>
+                )}
               </View>
-            </View>
+            </TouchableOpacity>
           </View>
         </View>
 
@@ -441,6 +589,23 @@ export default function SettingsDetailScreen() {
             <Text style={styles.sectionTitle}>Notifications & Reminders</Text>
           </View>
           <View style={styles.card}>
+            <TouchableOpacity
+              style={styles.settingRow}
+              onPress={() => setShowReminderModal(true)}
+            >
+              <View style={styles.settingLeft}>
+                <Text style={styles.settingLabel}>Check-in Reminders</Text>
+                <Text style={styles.settingValue}>
+                  {REMINDER_PREFERENCE_OPTIONS.find(
+                    (o) => o.value === (preferences.notification_preference ?? 'none')
+                  )?.label}
+                </Text>
+              </View>
+              <ChevronRight size={20} color="#9ca3af" />
+            </TouchableOpacity>
+
+            <View style={styles.divider} />
+
             {notifications.length === 0 ? (
               <View style={styles.emptyState}>
                 <Bell size={32} color="#d1d5db" strokeWidth={1.5} />
@@ -515,6 +680,21 @@ export default function SettingsDetailScreen() {
 
             <View style={styles.divider} />
 
+            <TouchableOpacity
+              style={styles.settingRow}
+              onPress={() => router.push('/medications')}
+            >
+              <View style={styles.settingLeft}>
+                <Text style={styles.settingLabel}>Medications</Text>
+                <Text style={styles.settingSubtext}>
+                  Doses, schedules and as-needed medications
+                </Text>
+              </View>
+              <ChevronRight size={20} color="#9ca3af" />
+            </TouchableOpacity>
+
+            <View style={styles.divider} />
+
             {/*
             <View style={styles.settingRow}>
               <View style={styles.settingLeft}>
@@ -563,21 +743,36 @@ export default function SettingsDetailScreen() {
           <View style={styles.card}>
             <TouchableOpacity
               style={styles.settingRow}
-              onPress={exportDataToPDF}
-              disabled={exporting}
+              onPress={() => setShowExportRangeModal(true)}
             >
               <View style={styles.settingLeft}>
-                <Text style={styles.settingLabel}>Export to PDF</Text>
-                <Text style={styles.settingSubtext}>
-                  Generate a medical report for appointments
+                <Text style={styles.settingLabel}>Date Range</Text>
+                <Text style={styles.settingValue}>
+                  {EXPORT_RANGE_PRESETS.find((p) => p.days === exportRangeDays)?.label}
                 </Text>
               </View>
-              {exporting ? (
-                <ActivityIndicator size="small" color="#6366f1" />
-              ) : (
-                <Download size={20} color="#6366f1" strokeWidth={2} />
-              )}
+              <ChevronRight size={20} color="#9ca3af" />
             </TouchableOpacity>
+            {EXPORT_OPTIONS.map((option) => (
+              <View key={option.format}>
+                <View style={styles.divider} />
+                <TouchableOpacity
+                  style={styles.settingRow}
+                  onPress={() => exportData(option.format)}
+                  disabled={exporting !== null}
+                >
+                  <View style={styles.settingLeft}>
+                    <Text style={styles.settingLabel}>{option.label}</Text>
+                    <Text style={styles.settingSubtext}>{option.description}</Text>
+                  </View>
+                  {exporting === option.format ? (
+                    <ActivityIndicator size="small" color="#6366f1" />
+                  ) : (
+                    <Download size={20} color="#6366f1" strokeWidth={2} />
+                  )}
+                </TouchableOpacity>
+              </View>
+            ))}
           </View>
         </View>
 
@@ -596,6 +791,24 @@ export default function SettingsDetailScreen() {
               </View>
               <ChevronRight size={20} color="#9ca3af" />
             </TouchableOpacity>
+            <View style={styles.divider} />
+            <TouchableOpacity
+              style={styles.settingRow}
+              onPress={handleImport}
+              disabled={importing}
+            >
+              <View style={styles.settingLeft}>
+                <Text style={styles.settingLabel}>Import Data</Text>
+                <Text style={styles.settingSubtext}>
+                  Restore from a JSON archive export
+                </Text>
+              </View>
+              {importing ? (
+                <ActivityIndicator size="small" color="#6366f1" />
+              ) : (
+                <Upload size={20} color="#6366f1" strokeWidth={2} />
+              )}
+            </TouchableOpacity>
           </View>
         </View>
 
@@ -769,6 +982,89 @@ export default function SettingsDetailScreen() {
           </View>
         </View>
       </Modal>
+
+      <Modal
+        visible={showReminderModal}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setShowReminderModal(false)}
+      >
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <TouchableOpacity onPress={() => setShowReminderModal(false)}>
+              <X size={24} color="#1f2937" />
+            </TouchableOpacity>
+            <Text style={styles.modalTitle}>Check-in Reminders</Text>
+            <View style={{ width: 24 }} />
+          </View>
+          <View style={styles.modalContent}>
+            {REMINDER_PREFERENCE_OPTIONS.map((option) => {
+              const active = (preferences.notification_preference ?? 'none') === option.value;
+              return (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[styles.themeOption, active && styles.themeOptionActive]}
+                  onPress={() => updateReminderPreference(option.value)}
+                >
+                  <Text style={[styles.themeOptionText, active && styles.themeOptionTextActive]}>
+                    {option.label}
+                  </Text>
+                  <Text
+                    style={[styles.reminderOptionSubtext, active && styles.themeOptionTextActive]}
+                  >
+                    {option.description}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+            <Text style={styles.reminderFootnote}>
+              Reminders skip days you've already logged. If you'd lose a streak today, you'll get
+              one nudge in the evening.
+            </Text>
+          </View>
+        </View>
+      </Modal>
+
+      <Modal
+        visible={showExportRangeModal}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setShowExportRangeModal(false)}
+      >
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <TouchableOpacity onPress={() => setShowExportRangeModal(false)}>
+              <X size={24} color="#1f2937" />
+            </TouchableOpacity>
+            <Text style={styles.modalTitle}>Date Range</Text>
+            <View style={{ width: 24 }} />
+          </View>
+          <View style={styles.modalContent}>
+            {EXPORT_RANGE_PRESETS.map((preset) => (
+              <TouchableOpacity
+                key={preset.label}
+                style={[
+                  styles.themeOption,
+                  exportRangeDays === preset.days && styles.themeOptionActive,
+                ]}
+                onPress={() => {
+                  setExportRangeDays(preset.days);
+                  setShowExportRangeModal(false);
+                }}
+              >
+                <Text
+                  style={[
+                    styles.themeOptionText,
+                    exportRangeDays === preset.days && styles.themeOptionTextActive,
+                  ]}
+                >
+                  {preset.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      </Modal>
     </View>
   );
 }
@@ -986,6 +1282,16 @@ const styles = StyleSheet.create({
     backgroundColor: colors.neutral.gray100,
     marginBottom: spacing.md,
   },
+  reminderOptionSubtext: {
+    ...typography.caption,
+    color: colors.neutral.gray600,
+    marginTop: 2,
+  },
+  reminderFootnote: {
+    ...typography.caption,
+    color: colors.neutral.gray500,
+    marginTop: spacing.sm,
+  },
   themeOptionActive: {
     backgroundColor: colors.accent.purple,
   },
@@ -8,32 +8,106 @@ import {
   Switch,
   ActivityIndicator,
   Platform,
+  Modal,
+  TextInput,
+  Alert,
 } from 'react-native';
 import { useRouter } from 'expo-router';
-import { ChevronLeft } from 'lucide-react-native';
+import { ChevronLeft, Plus, Sparkles, X } from 'lucide-react-native';
 import { useAuth } from '@/context/AuthContext';
 import { supabase } from '@/lib/supabase';
 import { colors, typography, spacing, borderRadius, shadows } from '@/lib/design-system';
-import { Trigger, TRIGGER_CATEGORIES } from '@/lib/trigger-types';
+import { Trigger, TRIGGER_CATEGORIES, triggerCategoryLabel } from '@/lib/trigger-types';
+import {
+  CustomTriggerInput,
+  CustomTriggerInputType,
+  EMPTY_CUSTOM_TRIGGER,
+  SCALE_MAX_CHOICES,
+  createCustomTrigger,
+  customTriggerToInput,
+  isCustomTrigger,
+  removeCustomTrigger,
+  updateCustomTrigger,
+  validateCustomTrigger,
+} from '@/lib/custom-triggers';
+import { CatalogUpdate, fetchCatalogUpdate, markCatalogSeen } from '@/lib/trigger-catalog';
 
 interface TriggerWithStatus extends Trigger {
   enabled: boolean;
   userTriggerId?: string;
 }
 
+const INPUT_TYPE_LABELS: Record<CustomTriggerInputType, string> = {
+  binary: 'Yes/No',
+  scale: 'Scale',
+  enum: 'Multiple options',
+  multi_select: 'Pick several',
+  numeric: 'Number',
+  duration: 'Duration',
+  tags: 'Tags',
+};
+
+function describeTrigger(trigger: Trigger) {
+  let type = INPUT_TYPE_LABELS[trigger.input_type];
+  if (trigger.input_type === 'scale') {
+    type = `Scale ${trigger.options_json?.min ?? 0}-${trigger.options_json?.max ?? 5}`;
+  } else if (trigger.input_type === 'numeric' && trigger.options_json?.unit) {
+    type = `Number (${trigger.options_json.unit})`;
+  }
+  return isCustomTrigger(trigger) ? `${type} · Custom` : type;
+}
+
 export default function SettingsTriggersScreen() {
   const router = useRouter();
   const { user } = useAuth();
   const [loading, setLoading] = useState(true);
   const [triggers, setTriggers] = useState<TriggerWithStatus[]>([]);
   const [subTriggers, setSubTriggers] = useState<Record<string, TriggerWithStatus[]>>({});
+  const [showForm, setShowForm] = useState(false);
+  const [editing, setEditing] = useState<Trigger | null>(null);
+  const [form, setForm] = useState<CustomTriggerInput>(EMPTY_CUSTOM_TRIGGER);
+  const [customCategory, setCustomCategory] = useState(false);
+  const [newOption, setNewOption] = useState('');
+  const [numericMinText, setNumericMinText] = useState('');
+  const [numericMaxText, setNumericMaxText] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [catalogUpdate, setCatalogUpdate] = useState<CatalogUpdate | null>(null);
 
   useEffect(() => {
     if (user) {
       loadTriggers();
+      loadCatalogUpdate();
     }
   }, [user]);
 
+  const loadCatalogUpdate = async () => {
+    if (!user) return;
+
+    try {
+      const update = await fetchCatalogUpdate(user.id);
+      // a release with nothing relevant to this user is marked seen straight away
+      if (update && update.newTriggers.length === 0 && update.replaced.length === 0) {
+        await markCatalogSeen(user.id, update.version);
+        setCatalogUpdate(null);
+      } else {
+        setCatalogUpdate(update);
+      }
+    } catch (error) {
+      console.error('Error loading trigger catalog updates:', error);
+    }
+  };
+
+  const dismissCatalogUpdate = async () => {
+    if (!user || !catalogUpdate) return;
+
+    setCatalogUpdate(null);
+    try {
+      await markCatalogSeen(user.id, catalogUpdate.version);
+    } catch (error) {
+      console.error('Error saving trigger catalog version:', error);
+    }
+  };
+
   const loadTriggers = async () => {
     if (!user) return;
 
@@ -108,6 +182,109 @@ export default function SettingsTriggersScreen() {
     }
   };
 
+  const openForm = (trigger?: Trigger) => {
+    if (trigger) {
+      const input = customTriggerToInput(trigger);
+      setEditing(trigger);
+      setForm(input);
+      setCustomCategory(!(input.category in TRIGGER_CATEGORIES));
+      setNumericMinText(input.numericMin !== null ? String(input.numericMin) : '');
+      setNumericMaxText(input.numericMax !== null ? String(input.numericMax) : '');
+    } else {
+      setEditing(null);
+      setForm(EMPTY_CUSTOM_TRIGGER);
+      setCustomCategory(false);
+      setNumericMinText('');
+      setNumericMaxText('');
+    }
+    setNewOption('');
+    setShowForm(true);
+  };
+
+  const addOption = () => {
+    const option = newOption.trim();
+    if (!option) return;
+    setForm((prev) => ({ ...prev, options: [...prev.options, option] }));
+    setNewOption('');
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    const parseLimit = (text: string) => (text.trim() ? Number(text.replace(',', '.')) : null);
+    const numericMin = parseLimit(numericMinText);
+    const numericMax = parseLimit(numericMaxText);
+    if ([numericMin, numericMax].some((n) => n !== null && !Number.isFinite(n))) {
+      Alert.alert('Check your trigger', 'Enter the limits as numbers, e.g. 0 or 2.5.');
+      return;
+    }
+
+    const input = { ...form, numericMin, numericMax };
+    const problem = validateCustomTrigger(input, editing ?? undefined);
+    if (problem) {
+      Alert.alert('Check your trigger', problem);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (editing) {
+        await updateCustomTrigger(user.id, editing.id, input);
+      } else {
+        await createCustomTrigger(user.id, input);
+      }
+      setShowForm(false);
+      await loadTriggers();
+    } catch (error) {
+      console.error('Error saving custom trigger:', error);
+      Alert.alert('Error', 'Failed to save trigger.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = (trigger: Trigger) => {
+    const message = `Remove "${trigger.label}"? It will no longer appear when logging, but values you've already logged are kept.`;
+
+    const runRemove = async () => {
+      if (!user) return;
+      try {
+        await removeCustomTrigger(user.id, trigger.id);
+        setShowForm(false);
+        await loadTriggers();
+      } catch (error) {
+        console.error('Error removing custom trigger:', error);
+        Alert.alert('Error', 'Failed to remove trigger.');
+      }
+    };
+
+    if (Platform.OS === 'web') {
+      if (window.confirm(message)) runRemove();
+      return;
+    }
+
+    Alert.alert('Remove Trigger', message, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Remove', style: 'destructive', onPress: runRemove },
+    ]);
+  };
+
+  // a trigger with children of its own can't be nested under another one
+  const parentChoices = triggers.filter(
+    (t) => t.id !== editing?.id && !(editing && subTriggers[editing.id]?.length)
+  );
+  const customCategories = Array.from(
+    new Set(
+      triggers
+        .map((t) => t.category)
+        .filter((c) => !(c in TRIGGER_CATEGORIES))
+    )
+  );
+
+  const statusById = new Map(
+    [...triggers, ...Object.values(subTriggers).flat()].map((t) => [t.id, t])
+  );
+
   const groupedTriggers = triggers.reduce((acc, trigger) => {
     if (!acc[trigger.category]) {
       acc[trigger.category] = [];
@@ -148,24 +325,79 @@ export default function SettingsTriggersScreen() {
           Choose which triggers you want to track. You can always adjust these later.
         </Text>
 
+        {catalogUpdate && (
+          <View style={styles.updateCard}>
+            <View style={styles.updateHeader}>
+              <Sparkles size={18} color={colors.accent.purple} strokeWidth={2} />
+              <Text style={styles.updateTitle}>New triggers available</Text>
+            </View>
+
+            {catalogUpdate.summaries.map((summary, index) => (
+              <Text key={index} style={styles.updateText}>
+                {summary}
+              </Text>
+            ))}
+
+            {catalogUpdate.replaced.map((note) => (
+              <Text key={note.from.id} style={styles.updateText}>
+                {note.from.label} is now tracked as {note.to.map((t) => t.label).join(' and ')}. Your past entries
+                are kept.
+              </Text>
+            ))}
+
+            {catalogUpdate.newTriggers.map((trigger) => {
+              const status = statusById.get(trigger.id);
+              return (
+                <View key={trigger.id} style={styles.updateRow}>
+                  <View style={styles.triggerInfo}>
+                    <Text style={styles.subTriggerLabel}>{trigger.label}</Text>
+                    <Text style={styles.triggerType}>
+                      {triggerCategoryLabel(trigger.category)} · {describeTrigger(trigger)}
+                    </Text>
+                  </View>
+                  {status?.enabled ? (
+                    <Text style={styles.updateTracking}>Tracking</Text>
+                  ) : (
+                    <TouchableOpacity
+                      style={styles.smallButton}
+                      onPress={() => toggleTrigger(trigger.id, false, status?.userTriggerId)}
+                    >
+                      <Text style={styles.smallButtonText}>Track</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              );
+            })}
+
+            <TouchableOpacity style={styles.updateDismiss} onPress={dismissCatalogUpdate}>
+              <Text style={styles.updateDismissText}>Got it</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        <TouchableOpacity style={styles.createButton} onPress={() => openForm()}>
+          <Plus size={18} color={colors.accent.purple} strokeWidth={2} />
+          <Text style={styles.createButtonText}>Create your own trigger</Text>
+        </TouchableOpacity>
+
         {Object.entries(groupedTriggers).map(([category, categoryTriggers]) => (
           <View key={category} style={styles.categorySection}>
             <Text style={styles.categoryTitle}>
-              {TRIGGER_CATEGORIES[category as keyof typeof TRIGGER_CATEGORIES]}
+              {triggerCategoryLabel(category)}
             </Text>
             <View style={styles.triggersCard}>
               {categoryTriggers.map((trigger, index) => (
                 <View key={trigger.id}>
                   {index > 0 && <View style={styles.divider} />}
                   <View style={styles.triggerRow}>
-                    <View style={styles.triggerInfo}>
+                    <TouchableOpacity
+                      style={styles.triggerInfo}
+                      disabled={!isCustomTrigger(trigger)}
+                      onPress={() => openForm(trigger)}
+                    >
                       <Text style={styles.triggerLabel}>{trigger.label}</Text>
-                      <Text style={styles.triggerType}>
-                        {trigger.input_type === 'binary' ? 'Yes/No' :
-                         trigger.input_type === 'scale' ? 'Scale 0-5' :
-                         'Multiple options'}
-                      </Text>
-                    </View>
+                      <Text style={styles.triggerType}>{describeTrigger(trigger)}</Text>
+                    </TouchableOpacity>
                     <Switch
                       value={trigger.enabled}
                       onValueChange={() => toggleTrigger(trigger.id, trigger.enabled, trigger.userTriggerId)}
@@ -180,12 +412,14 @@ export default function SettingsTriggersScreen() {
                         <View key={subTrigger.id}>
                           {subIndex > 0 && <View style={styles.subDivider} />}
                           <View style={styles.subTriggerRow}>
-                            <View style={styles.triggerInfo}>
+                            <TouchableOpacity
+                              style={styles.triggerInfo}
+                              disabled={!isCustomTrigger(subTrigger)}
+                              onPress={() => openForm(subTrigger)}
+                            >
                               <Text style={styles.subTriggerLabel}>{subTrigger.label}</Text>
-                              <Text style={styles.triggerType}>
-                                {subTrigger.input_type === 'scale' ? 'Scale 0-5' : 'Multiple options'}
-                              </Text>
-                            </View>
+                              <Text style={styles.triggerType}>{describeTrigger(subTrigger)}</Text>
+                            </TouchableOpacity>
                             <Switch
                               value={subTrigger.enabled}
                               onValueChange={() => toggleTrigger(subTrigger.id, subTrigger.enabled, subTrigger.userTriggerId)}
@@ -205,6 +439,251 @@ export default function SettingsTriggersScreen() {
 
         <View style={{ height: 50 }} />
       </ScrollView>
+
+      <Modal visible={showForm} animationType="slide" transparent onRequestClose={() => setShowForm(false)}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>{editing ? 'Edit Trigger' : 'New Trigger'}</Text>
+              <TouchableOpacity onPress={() => setShowForm(false)}>
+                <X size={24} color={colors.neutral.gray600} />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView keyboardShouldPersistTaps="handled">
+              <Text style={styles.fieldLabel}>Name</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="e.g., Screen time before bed"
+                value={form.label}
+                onChangeText={(label) => setForm((prev) => ({ ...prev, label }))}
+              />
+
+              <Text style={styles.fieldLabel}>Category</Text>
+              <View style={styles.chipRow}>
+                {[...Object.keys(TRIGGER_CATEGORIES), ...customCategories].map((category) => {
+                  const selected = !customCategory && form.category === category;
+                  return (
+                    <TouchableOpacity
+                      key={category}
+                      style={[styles.chip, selected && styles.chipActive]}
+                      onPress={() => {
+                        setCustomCategory(false);
+                        setForm((prev) => ({ ...prev, category }));
+                      }}
+                    >
+                      <Text style={[styles.chipText, selected && styles.chipTextActive]}>
+                        {triggerCategoryLabel(category)}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+                <TouchableOpacity
+                  style={[styles.chip, customCategory && styles.chipActive]}
+                  onPress={() => {
+                    setCustomCategory(true);
+                    setForm((prev) => ({ ...prev, category: '' }));
+                  }}
+                >
+                  <Text style={[styles.chipText, customCategory && styles.chipTextActive]}>Other…</Text>
+                </TouchableOpacity>
+              </View>
+              {customCategory && (
+                <TextInput
+                  style={styles.input}
+                  placeholder="Category name"
+                  value={form.category}
+                  onChangeText={(category) => setForm((prev) => ({ ...prev, category }))}
+                />
+              )}
+
+              <Text style={styles.fieldLabel}>Type</Text>
+              <View style={styles.chipRow}>
+                {(Object.keys(INPUT_TYPE_LABELS) as CustomTriggerInputType[]).map((type) => {
+                  const selected = form.input_type === type;
+                  // logged values depend on the type, so it's fixed once created
+                  if (editing && !selected) return null;
+                  return (
+                    <TouchableOpacity
+                      key={type}
+                      style={[styles.chip, selected && styles.chipActive]}
+                      disabled={!!editing}
+                      onPress={() => setForm((prev) => ({ ...prev, input_type: type }))}
+                    >
+                      <Text style={[styles.chipText, selected && styles.chipTextActive]}>
+                        {INPUT_TYPE_LABELS[type]}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+
+              {(form.input_type === 'enum' || form.input_type === 'multi_select') && (
+                <>
+                  <Text style={styles.fieldLabel}>Options</Text>
+                  {form.options.map((option, index) => {
+                    const saved = index < (editing?.options_json?.options?.length ?? 0);
+                    return (
+                      <View key={index} style={styles.optionRow}>
+                        <TextInput
+                          style={[styles.input, styles.optionInput]}
+                          value={option}
+                          onChangeText={(text) =>
+                            setForm((prev) => ({
+                              ...prev,
+                              options: prev.options.map((o, i) => (i === index ? text : o)),
+                            }))
+                          }
+                        />
+                        {!saved && (
+                          <TouchableOpacity
+                            onPress={() =>
+                              setForm((prev) => ({
+                                ...prev,
+                                options: prev.options.filter((_, i) => i !== index),
+                              }))
+                            }
+                          >
+                            <X size={18} color={colors.neutral.gray600} />
+                          </TouchableOpacity>
+                        )}
+                      </View>
+                    );
+                  })}
+                  <View style={styles.optionRow}>
+                    <TextInput
+                      style={[styles.input, styles.optionInput]}
+                      placeholder="Add an option"
+                      value={newOption}
+                      onChangeText={setNewOption}
+                      onSubmitEditing={addOption}
+                    />
+                    <TouchableOpacity style={styles.smallButton} onPress={addOption}>
+                      <Text style={styles.smallButtonText}>Add</Text>
+                    </TouchableOpacity>
+                  </View>
+                </>
+              )}
+
+              {form.input_type === 'scale' && (
+                <>
+                  <Text style={styles.fieldLabel}>Scale</Text>
+                  <View style={styles.chipRow}>
+                    {SCALE_MAX_CHOICES.map((max) => {
+                      const selected = form.scaleMax === max;
+                      return (
+                        <TouchableOpacity
+                          key={max}
+                          style={[styles.chip, selected && styles.chipActive]}
+                          onPress={() => setForm((prev) => ({ ...prev, scaleMax: max }))}
+                        >
+                          <Text style={[styles.chipText, selected && styles.chipTextActive]}>0-{max}</Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                  <View style={styles.optionRow}>
+                    <TextInput
+                      style={[styles.input, styles.optionInput]}
+                      placeholder="Label for 0 (e.g., None)"
+                      value={form.scaleMinLabel}
+                      onChangeText={(scaleMinLabel) => setForm((prev) => ({ ...prev, scaleMinLabel }))}
+                    />
+                    <TextInput
+                      style={[styles.input, styles.optionInput]}
+                      placeholder={`Label for ${form.scaleMax} (e.g., A lot)`}
+                      value={form.scaleMaxLabel}
+                      onChangeText={(scaleMaxLabel) => setForm((prev) => ({ ...prev, scaleMaxLabel }))}
+                    />
+                  </View>
+                </>
+              )}
+
+              {form.input_type === 'numeric' && (
+                <>
+                  <Text style={styles.fieldLabel}>Unit</Text>
+                  <TextInput
+                    style={styles.input}
+                    placeholder="e.g., mg, steps, cups"
+                    value={form.unit}
+                    onChangeText={(unit) => setForm((prev) => ({ ...prev, unit }))}
+                  />
+                  <Text style={styles.fieldLabel}>Allowed range (optional)</Text>
+                  <View style={styles.optionRow}>
+                    <TextInput
+                      style={[styles.input, styles.optionInput]}
+                      placeholder="Min"
+                      keyboardType="decimal-pad"
+                      value={numericMinText}
+                      onChangeText={setNumericMinText}
+                    />
+                    <TextInput
+                      style={[styles.input, styles.optionInput]}
+                      placeholder="Max"
+                      keyboardType="decimal-pad"
+                      value={numericMaxText}
+                      onChangeText={setNumericMaxText}
+                    />
+                  </View>
+                </>
+              )}
+
+              {form.input_type === 'duration' && (
+                <Text style={styles.fieldHint}>Logged as hours and minutes.</Text>
+              )}
+
+              {form.input_type === 'tags' && (
+                <Text style={styles.fieldHint}>
+                  Logged as comma-separated words, e.g. what you ate. Tags are kept in your logs and exports but
+                  aren't part of trigger patterns.
+                </Text>
+              )}
+
+              {parentChoices.length > 0 && (
+                <>
+                  <Text style={styles.fieldLabel}>Show under (optional)</Text>
+                  <View style={styles.chipRow}>
+                    {parentChoices.map((parent) => {
+                      const selected = form.parent_trigger_id === parent.id;
+                      return (
+                        <TouchableOpacity
+                          key={parent.id}
+                          style={[styles.chip, selected && styles.chipActive]}
+                          onPress={() =>
+                            setForm((prev) => ({ ...prev, parent_trigger_id: selected ? null : parent.id }))
+                          }
+                        >
+                          <Text style={[styles.chipText, selected && styles.chipTextActive]}>
+                            {parent.label}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                </>
+              )}
+
+              <TouchableOpacity
+                style={[styles.saveButton, (!form.label.trim() || saving) && styles.saveButtonDisabled]}
+                onPress={handleSave}
+                disabled={!form.label.trim() || saving}
+              >
+                {saving ? (
+                  <ActivityIndicator color={colors.neutral.white} />
+                ) : (
+                  <Text style={styles.saveButtonText}>Save</Text>
+                )}
+              </TouchableOpacity>
+
+              {editing && (
+                <TouchableOpacity style={styles.deleteButton} onPress={() => handleRemove(editing)}>
+                  <Text style={styles.deleteButtonText}>Remove Trigger</Text>
+                </TouchableOpacity>
+              )}
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
     </View>
   );
 }
@@ -253,6 +732,63 @@ const styles = StyleSheet.create({
     marginBottom: spacing.xl,
     textAlign: 'center',
   },
+  updateCard: {
+    backgroundColor: colors.neutral.white,
+    borderRadius: borderRadius.lg,
+    padding: spacing.lg,
+    marginBottom: spacing.lg,
+    borderWidth: 1,
+    borderColor: colors.primary.lavender,
+    ...shadows.sm,
+  },
+  updateHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  updateTitle: {
+    ...typography.bodyBold,
+    color: colors.neutral.gray900,
+  },
+  updateText: {
+    ...typography.caption,
+    color: colors.neutral.gray700,
+    marginBottom: spacing.sm,
+  },
+  updateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: spacing.sm,
+  },
+  updateTracking: {
+    ...typography.captionBold,
+    color: colors.neutral.gray600,
+  },
+  updateDismiss: {
+    alignSelf: 'flex-end',
+    paddingVertical: spacing.sm,
+    marginTop: spacing.xs,
+  },
+  updateDismissText: {
+    ...typography.captionBold,
+    color: colors.accent.purple,
+  },
+  createButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.sm,
+    paddingVertical: spacing.md,
+    borderRadius: borderRadius.lg,
+    backgroundColor: colors.primary.lavender,
+    marginBottom: spacing.xl,
+  },
+  createButtonText: {
+    ...typography.bodyBold,
+    color: colors.accent.purple,
+  },
   categorySection: {
     marginBottom: spacing.lg,
   },
@@ -315,4 +851,113 @@ const styles = StyleSheet.create({
     backgroundColor: colors.neutral.gray200,
     marginHorizontal: spacing.md,
   },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: colors.neutral.white,
+    borderTopLeftRadius: borderRadius.xl,
+    borderTopRightRadius: borderRadius.xl,
+    padding: spacing.lg,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: spacing.md,
+  },
+  modalTitle: {
+    ...typography.title3,
+    color: colors.neutral.gray900,
+  },
+  fieldLabel: {
+    ...typography.captionBold,
+    color: colors.neutral.gray700,
+    marginTop: spacing.md,
+    marginBottom: spacing.xs,
+  },
+  fieldHint: {
+    ...typography.caption,
+    color: colors.neutral.gray600,
+    marginBottom: spacing.sm,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: colors.neutral.gray300,
+    borderRadius: borderRadius.md,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    ...typography.body,
+    color: colors.neutral.gray900,
+    backgroundColor: colors.neutral.white,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  optionInput: {
+    flex: 1,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: spacing.md,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.neutral.gray100,
+  },
+  chipActive: {
+    backgroundColor: colors.primary.lavender,
+  },
+  chipText: {
+    ...typography.caption,
+    color: colors.neutral.gray700,
+  },
+  chipTextActive: {
+    color: colors.accent.purple,
+    fontWeight: '600',
+  },
+  smallButton: {
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    borderRadius: borderRadius.md,
+    backgroundColor: colors.primary.lavender,
+  },
+  smallButtonText: {
+    ...typography.captionBold,
+    color: colors.accent.purple,
+  },
+  saveButton: {
+    backgroundColor: colors.neutral.gray900,
+    borderRadius: borderRadius.lg,
+    paddingVertical: spacing.md,
+    alignItems: 'center',
+    marginTop: spacing.lg,
+  },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    ...typography.bodyBold,
+    color: colors.neutral.white,
+  },
+  deleteButton: {
+    paddingVertical: spacing.md,
+    alignItems: 'center',
+    marginTop: spacing.sm,
+    marginBottom: spacing.lg,
+  },
+  deleteButtonText: {
+    ...typography.bodyBold,
+    color: colors.accent.red,
+  },
 });
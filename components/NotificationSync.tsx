@@ -0,0 +1,64 @@
+import { useEffect } from 'react';
+import { AppState, Platform } from 'react-native';
+import { Href, useRouter } from 'expo-router';
+import * as Notifications from 'expo-notifications';
+import { useAuth } from '@/context/AuthContext';
+import { useTimeZone } from '@/hooks/useTimeZone';
+import {
+  cancelScheduledReminders,
+  configureNotifications,
+  syncNotificationSchedule,
+} from '@/lib/notifications';
+
+// Keeps scheduled reminders in step with the user's settings and opens the
+// right logging screen when one is tapped.
+export function NotificationSync() {
+  const router = useRouter();
+  const { user } = useAuth();
+  const userId = user?.id as string | undefined;
+  const timeZone = useTimeZone();
+
+  useEffect(() => {
+    if (Platform.OS === 'web') return;
+
+    if (!userId) {
+      cancelScheduledReminders().catch((e) => console.error('[NotificationSync] cancel failed', e));
+      return;
+    }
+
+    const sync = () => {
+      syncNotificationSchedule(userId).catch((e) => console.error('[NotificationSync] sync failed', e));
+    };
+
+    configureNotifications()
+      .catch((e) => console.error('[NotificationSync] configure failed', e))
+      .finally(sync);
+
+    const appStateSub = AppState.addEventListener('change', (next) => {
+      if (next === 'active') sync();
+    });
+
+    return () => appStateSub.remove();
+  }, [userId, timeZone]);
+
+  useEffect(() => {
+    if (Platform.OS === 'web' || !userId) return;
+
+    const open = (response: Notifications.NotificationResponse) => {
+      const url = response.notification.request.content.data?.url;
+      if (typeof url === 'string') router.push(url as Href);
+    };
+
+    // Covers a tap that launched the app from a cold start.
+    const launchResponse = Notifications.getLastNotificationResponse();
+    if (launchResponse) {
+      open(launchResponse);
+      Notifications.clearLastNotificationResponse();
+    }
+
+    const responseSub = Notifications.addNotificationResponseReceivedListener(open);
+    return () => responseSub.remove();
+  }, [userId, router]);
+
+  return null;
+}
@@ -0,0 +1,36 @@
+import { useEffect } from 'react';
+import { AppState } from 'react-native';
+import NetInfo from '@react-native-community/netinfo';
+import { useAuth } from '@/context/AuthContext';
+import { flushOutbox } from '@/lib/log-outbox';
+
+// Replays logs saved while offline whenever the app is online and in the foreground.
+export function OutboxSync() {
+  const { user } = useAuth();
+  const userId = user?.id as string | undefined;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const flush = () => {
+      flushOutbox(userId).catch((e) => console.error('[OutboxSync] flush failed', e));
+    };
+
+    flush();
+
+    const unsubscribeNet = NetInfo.addEventListener((state) => {
+      if (state.isConnected && state.isInternetReachable !== false) flush();
+    });
+
+    const appStateSub = AppState.addEventListener('change', (next) => {
+      if (next === 'active') flush();
+    });
+
+    return () => {
+      unsubscribeNet();
+      appStateSub.remove();
+    };
+  }, [userId]);
+
+  return null;
+}
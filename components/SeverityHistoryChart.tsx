@@ -0,0 +1,217 @@
+import { useState } from 'react';
+import { View, Text, StyleSheet, LayoutChangeEvent } from 'react-native';
+import Svg, { Circle, Line, Path, Rect, Text as SvgText } from 'react-native-svg';
+import { colors, typography, spacing } from '@/lib/design-system';
+import { parseISODate } from '@/lib/dates';
+import { CyclePhase } from '@/lib/cycle';
+import { ConditionHistoryDay } from '@/lib/condition-history';
+
+export interface ChartOverlays {
+  cycle: boolean;
+  sleep: boolean;
+  stress: boolean;
+  baseline: boolean;
+}
+
+const HEIGHT = 180;
+const PAD_LEFT = 22;
+const PAD_RIGHT = 6;
+const PAD_TOP = 8;
+const PAD_BOTTOM = 20;
+const MAX_VALUE = 10;
+// dots get too dense to read on long ranges
+const MAX_DAYS_WITH_DOTS = 60;
+
+export const OVERLAY_COLORS = {
+  severity: colors.accent.purple,
+  sleep: colors.accent.blue,
+  stress: colors.accent.orange,
+  baseline: colors.neutral.gray500,
+};
+
+// days that stood out from the personal baseline
+export const ANOMALY_COLORS = {
+  high: colors.accent.red,
+  low: colors.accent.green,
+};
+
+export const PHASE_COLORS: Partial<Record<CyclePhase, string>> = {
+  menstrual: colors.primary.pink,
+  fertile: colors.primary.mint,
+  luteal: colors.primary.lavender,
+};
+
+function formatTick(date: string) {
+  return parseISODate(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+/** Builds an SVG path through the points, lifting the pen over days without a value. */
+function linePath(values: (number | null)[], x: (i: number) => number, y: (v: number) => number) {
+  let path = '';
+  let penDown = false;
+  values.forEach((value, i) => {
+    if (value === null) {
+      penDown = false;
+      return;
+    }
+    path += `${penDown ? 'L' : 'M'}${x(i).toFixed(1)},${y(value).toFixed(1)}`;
+    penDown = true;
+  });
+  return path;
+}
+
+// Severity (0–10) on the shared axis; sleep is plotted in hours and stress (0–5) doubled to fit.
+// The baseline overlay draws the rolling personal baseline and marks days that stood out from it.
+export function SeverityHistoryChart({
+  days,
+  overlays,
+}: {
+  days: ConditionHistoryDay[];
+  overlays: ChartOverlays;
+}) {
+  const [width, setWidth] = useState(0);
+
+  const onLayout = (e: LayoutChangeEvent) => setWidth(e.nativeEvent.layout.width);
+
+  const plotWidth = Math.max(0, width - PAD_LEFT - PAD_RIGHT);
+  const plotHeight = HEIGHT - PAD_TOP - PAD_BOTTOM;
+  const step = days.length > 1 ? plotWidth / (days.length - 1) : 0;
+  const x = (i: number) => PAD_LEFT + i * step;
+  const y = (v: number) => PAD_TOP + plotHeight * (1 - Math.min(MAX_VALUE, Math.max(0, v)) / MAX_VALUE);
+
+  const severities = days.map((d) => d.severity);
+  const tickIndexes = days.length > 1 ? [0, Math.floor((days.length - 1) / 2), days.length - 1] : [0];
+
+  return (
+    <View onLayout={onLayout} style={styles.container}>
+      {width > 0 && days.length > 0 && (
+        <Svg width={width} height={HEIGHT}>
+          {overlays.cycle &&
+            days.map((d, i) => {
+              const fill = d.cyclePhase ? PHASE_COLORS[d.cyclePhase] : undefined;
+              if (!fill) return null;
+              return (
+                <Rect
+                  key={`phase-${d.date}`}
+                  x={x(i) - step / 2}
+                  y={PAD_TOP}
+                  width={Math.max(step, 1)}
+                  height={plotHeight}
+                  fill={fill}
+                  opacity={0.6}
+                />
+              );
+            })}
+
+          {[0, 5, 10].map((v) => (
+            <Line
+              key={`grid-${v}`}
+              x1={PAD_LEFT}
+              x2={PAD_LEFT + plotWidth}
+              y1={y(v)}
+              y2={y(v)}
+              stroke={colors.neutral.gray200}
+              strokeWidth={1}
+            />
+          ))}
+          {[0, 5, 10].map((v) => (
+            <SvgText
+              key={`label-${v}`}
+              x={PAD_LEFT - 6}
+              y={y(v) + 3}
+              fontSize={9}
+              fill={colors.neutral.gray500}
+              textAnchor="end"
+            >
+              {v}
+            </SvgText>
+          ))}
+
+          {overlays.sleep && (
+            <Path
+              d={linePath(days.map((d) => d.sleepHours), x, y)}
+              stroke={OVERLAY_COLORS.sleep}
+              strokeWidth={1.5}
+              strokeDasharray="4,3"
+              fill="none"
+            />
+          )}
+          {overlays.stress && (
+            <Path
+              d={linePath(days.map((d) => (d.stress === null ? null : d.stress * 2)), x, y)}
+              stroke={OVERLAY_COLORS.stress}
+              strokeWidth={1.5}
+              strokeDasharray="4,3"
+              fill="none"
+            />
+          )}
+
+          {overlays.baseline && (
+            <Path
+              d={linePath(days.map((d) => d.baseline), x, y)}
+              stroke={OVERLAY_COLORS.baseline}
+              strokeWidth={1.5}
+              strokeDasharray="2,3"
+              fill="none"
+            />
+          )}
+
+          <Path
+            d={linePath(severities, x, y)}
+            stroke={OVERLAY_COLORS.severity}
+            strokeWidth={2}
+            fill="none"
+          />
+          {days.length <= MAX_DAYS_WITH_DOTS &&
+            severities.map((v, i) =>
+              v === null ? null : (
+                <Circle key={`dot-${i}`} cx={x(i)} cy={y(v)} r={2.5} fill={OVERLAY_COLORS.severity} />
+              )
+            )}
+          {overlays.baseline &&
+            days.map((d, i) =>
+              d.anomaly && d.severity !== null ? (
+                <Circle
+                  key={`anomaly-${d.date}`}
+                  cx={x(i)}
+                  cy={y(d.severity)}
+                  r={4}
+                  fill={ANOMALY_COLORS[d.anomaly]}
+                />
+              ) : null
+            )}
+
+          {tickIndexes.map((i, n) => (
+            <SvgText
+              key={`tick-${i}`}
+              x={x(i)}
+              y={HEIGHT - 4}
+              fontSize={9}
+              fill={colors.neutral.gray500}
+              textAnchor={n === 0 ? 'start' : n === tickIndexes.length - 1 ? 'end' : 'middle'}
+            >
+              {formatTick(days[i].date)}
+            </SvgText>
+          ))}
+        </Svg>
+      )}
+
+      {severities.every((v) => v === null) && (
+        <Text style={styles.emptyText}>No severity logged for this condition in this range.</Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    minHeight: HEIGHT,
+    justifyContent: 'center',
+  },
+  emptyText: {
+    ...typography.caption,
+    color: colors.neutral.gray500,
+    textAlign: 'center',
+    marginTop: spacing.sm,
+  },
+});
@@ -1,14 +1,28 @@
-import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput } from 'react-native';
 import { Trigger } from '@/lib/trigger-types';
+import {
+  MAX_TAGS,
+  ParsedTriggerValue,
+  formatNumber,
+  multiSelectIndexes,
+  parseDurationTriggerValue,
+  parseNumericTriggerValue,
+  parseTags,
+  tagsTriggerValue,
+  toggleMultiSelect,
+} from '@/lib/trigger-values';
 import { colors, typography, spacing, borderRadius } from '@/lib/design-system';
 
 interface TriggerInputProps {
   trigger: Trigger;
   value: number | null;
+  // the stored display text; tags are only recoverable from here
+  valueText?: string | null;
   onValueChange: (value: number | null, valueText?: string | null) => void;
 }
 
-export function TriggerInput({ trigger, value, onValueChange }: TriggerInputProps) {
+export function TriggerInput({ trigger, value, valueText, onValueChange }: TriggerInputProps) {
   if (trigger.input_type === 'binary') {
     return (
       <View style={styles.container}>
@@ -107,9 +121,199 @@ export function TriggerInput({ trigger, value, onValueChange }: TriggerInputProp
     );
   }
 
+  if (trigger.input_type === 'multi_select') {
+    const options = trigger.options_json?.options ?? [];
+    const selected = multiSelectIndexes(value);
+
+    return (
+      <View style={styles.container}>
+        <Text style={styles.label}>{trigger.label}</Text>
+        <View style={styles.enumContainer}>
+          {options.map((option, index) => {
+            const active = selected.includes(index);
+            return (
+              <TouchableOpacity
+                key={index}
+                style={[styles.enumButton, active && styles.enumButtonActive]}
+                onPress={() => {
+                  const next = toggleMultiSelect(trigger, value, index);
+                  onValueChange(next.value, next.valueText);
+                }}
+              >
+                <Text style={[styles.enumButtonText, active && styles.enumButtonTextActive]}>
+                  {option}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </View>
+    );
+  }
+
+  if (trigger.input_type === 'numeric') {
+    return <NumericTriggerInput trigger={trigger} value={value} onValueChange={onValueChange} />;
+  }
+
+  if (trigger.input_type === 'duration') {
+    return <DurationTriggerInput trigger={trigger} value={value} onValueChange={onValueChange} />;
+  }
+
+  if (trigger.input_type === 'tags') {
+    return <TagsTriggerInput trigger={trigger} valueText={valueText ?? null} onValueChange={onValueChange} />;
+  }
+
   return null;
 }
 
+// Text inputs keep what was typed locally so a half-entered or invalid value
+// isn't overwritten; only a valid value (or null) is reported upwards.
+function NumericTriggerInput({ trigger, value, onValueChange }: TriggerInputProps) {
+  const [text, setText] = useState(value !== null ? formatNumber(value) : '');
+  const [error, setError] = useState<string | null>(null);
+
+  const [syncedValue, setSyncedValue] = useState(value);
+
+  // pick up values that arrive after mount (drafts, editing an existing log)
+  if (value !== syncedValue) {
+    setSyncedValue(value);
+    const parsed = parseNumericTriggerValue(trigger, text);
+    if (!parsed.error && parsed.value !== value) setText(value !== null ? formatNumber(value) : '');
+  }
+
+  const handleChange = (next: string) => {
+    setText(next);
+    report(parseNumericTriggerValue(trigger, next), setError, onValueChange);
+  };
+
+  const unit = trigger.options_json?.unit;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>{trigger.label}</Text>
+      <View style={styles.fieldRow}>
+        <TextInput
+          style={[styles.textField, styles.numberField, error && styles.textFieldError]}
+          keyboardType="decimal-pad"
+          placeholder="0"
+          value={text}
+          onChangeText={handleChange}
+        />
+        {!!unit && <Text style={styles.unitText}>{unit}</Text>}
+      </View>
+      {error && <Text style={styles.errorText}>{error}</Text>}
+    </View>
+  );
+}
+
+function DurationTriggerInput({ trigger, value, onValueChange }: TriggerInputProps) {
+  const [hours, setHours] = useState(value !== null ? String(Math.floor(value / 60)) : '');
+  const [minutes, setMinutes] = useState(value !== null ? String(value % 60) : '');
+  const [error, setError] = useState<string | null>(null);
+
+  const [syncedValue, setSyncedValue] = useState(value);
+
+  if (value !== syncedValue) {
+    setSyncedValue(value);
+    const parsed = parseDurationTriggerValue(trigger, hours, minutes);
+    if (!parsed.error && parsed.value !== value) {
+      setHours(value !== null ? String(Math.floor(value / 60)) : '');
+      setMinutes(value !== null ? String(value % 60) : '');
+    }
+  }
+
+  const handleChange = (nextHours: string, nextMinutes: string) => {
+    setHours(nextHours);
+    setMinutes(nextMinutes);
+    report(parseDurationTriggerValue(trigger, nextHours, nextMinutes), setError, onValueChange);
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>{trigger.label}</Text>
+      <View style={styles.fieldRow}>
+        <TextInput
+          style={[styles.textField, styles.numberField, error && styles.textFieldError]}
+          keyboardType="number-pad"
+          placeholder="0"
+          value={hours}
+          onChangeText={(h) => handleChange(h, minutes)}
+        />
+        <Text style={styles.unitText}>h</Text>
+        <TextInput
+          style={[styles.textField, styles.numberField, error && styles.textFieldError]}
+          keyboardType="number-pad"
+          placeholder="0"
+          value={minutes}
+          onChangeText={(m) => handleChange(hours, m)}
+        />
+        <Text style={styles.unitText}>min</Text>
+      </View>
+      {error && <Text style={styles.errorText}>{error}</Text>}
+    </View>
+  );
+}
+
+function TagsTriggerInput({
+  trigger,
+  valueText,
+  onValueChange,
+}: Pick<TriggerInputProps, 'trigger' | 'onValueChange'> & { valueText: string | null }) {
+  const [text, setText] = useState(valueText ?? '');
+  const [error, setError] = useState<string | null>(null);
+
+  const [syncedText, setSyncedText] = useState(valueText);
+
+  if (valueText !== syncedText) {
+    setSyncedText(valueText);
+    const current = parseTags(text).join(', ');
+    if ((valueText ?? '') !== current && !error) setText(valueText ?? '');
+  }
+
+  const handleChange = (next: string) => {
+    setText(next);
+    report(tagsTriggerValue(parseTags(next)), setError, onValueChange);
+  };
+
+  const tags = parseTags(text);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>{trigger.label}</Text>
+      <TextInput
+        style={[styles.textField, error && styles.textFieldError]}
+        placeholder="Separate with commas, e.g. pasta, cheese"
+        value={text}
+        onChangeText={handleChange}
+        autoCapitalize="none"
+      />
+      {tags.length > 0 && !error && (
+        <View style={styles.tagRow}>
+          {tags.map((tag) => (
+            <View key={tag} style={styles.tag}>
+              <Text style={styles.tagText}>{tag}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+      {error ? (
+        <Text style={styles.errorText}>{error}</Text>
+      ) : (
+        <Text style={styles.hintText}>Up to {MAX_TAGS} tags</Text>
+      )}
+    </View>
+  );
+}
+
+function report(
+  parsed: ParsedTriggerValue,
+  setError: (error: string | null) => void,
+  onValueChange: TriggerInputProps['onValueChange']
+) {
+  setError(parsed.error);
+  onValueChange(parsed.value, parsed.valueText);
+}
+
 const styles = StyleSheet.create({
   container: {
     marginBottom: spacing.lg,
@@ -216,4 +420,56 @@ const styles = StyleSheet.create({
   enumButtonTextActive: {
     color: colors.neutral.white,
   },
+  fieldRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  textField: {
+    borderWidth: 1,
+    borderColor: colors.neutral.gray300,
+    borderRadius: borderRadius.md,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    ...typography.body,
+    color: colors.neutral.gray900,
+    backgroundColor: colors.neutral.white,
+  },
+  numberField: {
+    minWidth: 72,
+    textAlign: 'center',
+  },
+  textFieldError: {
+    borderColor: colors.accent.red,
+  },
+  unitText: {
+    ...typography.body,
+    color: colors.neutral.gray600,
+  },
+  errorText: {
+    ...typography.caption,
+    color: colors.accent.red,
+    marginTop: spacing.xs,
+  },
+  hintText: {
+    ...typography.caption,
+    color: colors.neutral.gray600,
+    marginTop: spacing.xs,
+  },
+  tagRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+    marginTop: spacing.sm,
+  },
+  tag: {
+    paddingVertical: 4,
+    paddingHorizontal: spacing.sm,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.primary.lavender,
+  },
+  tagText: {
+    ...typography.caption,
+    color: colors.accent.purple,
+  },
 });
@@ -0,0 +1,283 @@
+import { useCallback, useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, ActivityIndicator, Alert } from 'react-native';
+import { useRouter } from 'expo-router';
+import { Pill, Settings } from 'lucide-react-native';
+import { colors, typography, spacing, borderRadius, shadows } from '@/lib/design-system';
+import {
+  deleteDose,
+  fetchDoses,
+  fetchMedications,
+  formatDose,
+  formatDoseTime,
+  recordPrnDose,
+  recordScheduledDose,
+} from '@/lib/medications';
+import { DoseStatus, Medication, MedicationDose } from '@/lib/types';
+
+// Doses are written as soon as they are tapped, independently of the check-in's Save.
+export function MedicationDoseSection({ userId, date }: { userId: string; date: string }) {
+  const router = useRouter();
+  const [loading, setLoading] = useState(true);
+  const [medications, setMedications] = useState<Medication[]>([]);
+  const [doses, setDoses] = useState<MedicationDose[]>([]);
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+  const [prnOpenFor, setPrnOpenFor] = useState<string | null>(null);
+  const [prnReason, setPrnReason] = useState('');
+
+  const load = useCallback(async () => {
+    try {
+      const [meds, todayDoses] = await Promise.all([
+        fetchMedications(userId),
+        fetchDoses(userId, date, date),
+      ]);
+      setMedications(meds);
+      setDoses(todayDoses);
+    } catch (e) {
+      console.error('[MedicationDoseSection] load failed', e);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, date]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const doseFor = (medId: string, time: string) =>
+    doses.find((d) => d.medication_id === medId && !d.is_prn && d.scheduled_time === time);
+
+  const toggleScheduled = async (med: Medication, time: string, status: DoseStatus) => {
+    const key = `${med.id}:${time}`;
+    const existing = doseFor(med.id, time);
+    setSavingKey(key);
+    try {
+      if (existing?.status === status) {
+        await deleteDose(existing.id);
+        setDoses((prev) => prev.filter((d) => d.id !== existing.id));
+      } else {
+        const saved = await recordScheduledDose(userId, med, date, time, status);
+        setDoses((prev) => [...prev.filter((d) => d.id !== existing?.id), saved]);
+      }
+    } catch (e) {
+      console.error('[MedicationDoseSection] dose update failed', e);
+      Alert.alert('Error', 'Could not save this dose. Please try again.');
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  const savePrnDose = async (med: Medication) => {
+    setSavingKey(med.id);
+    try {
+      const saved = await recordPrnDose(userId, med, { reason: prnReason });
+      setDoses((prev) => [...prev, saved]);
+      setPrnOpenFor(null);
+      setPrnReason('');
+    } catch (e) {
+      console.error('[MedicationDoseSection] PRN dose failed', e);
+      Alert.alert('Error', 'Could not save this dose. Please try again.');
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  const scheduled = medications.filter((m) => m.schedule_type === 'scheduled' && m.schedule_times.length > 0);
+  const prn = medications.filter((m) => m.schedule_type === 'prn');
+
+  return (
+    <View style={styles.section}>
+      <View style={styles.titleRow}>
+        <Text style={styles.sectionTitle}>Medications</Text>
+        <TouchableOpacity onPress={() => router.push('/medications')}>
+          <Settings size={18} color={colors.accent.purple} strokeWidth={2} />
+        </TouchableOpacity>
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator color={colors.accent.purple} />
+        </View>
+      ) : medications.length === 0 ? (
+        <TouchableOpacity onPress={() => router.push('/medications')}>
+          <Text style={styles.emptyText}>No medications yet. Tap to add the ones you take.</Text>
+        </TouchableOpacity>
+      ) : (
+        <View style={{ gap: spacing.sm }}>
+          {scheduled.flatMap((med) =>
+            med.schedule_times.map((time) => {
+              const dose = doseFor(med.id, time);
+              const busy = savingKey === `${med.id}:${time}`;
+              return (
+                <View key={`${med.id}:${time}`} style={styles.doseRow}>
+                  <View style={styles.doseInfo}>
+                    <Text style={styles.medName}>{med.name}</Text>
+                    <Text style={styles.medMeta}>
+                      {[formatDoseTime(time), formatDose(med)].filter(Boolean).join(' · ')}
+                    </Text>
+                  </View>
+                  {busy ? (
+                    <ActivityIndicator color={colors.accent.purple} />
+                  ) : (
+                    <View style={styles.pillRow}>
+                      <TouchableOpacity
+                        style={[styles.pill, dose?.status === 'taken' && styles.pillTaken]}
+                        onPress={() => toggleScheduled(med, time, 'taken')}
+                      >
+                        <Text style={[styles.pillText, dose?.status === 'taken' && styles.pillTextActive]}>
+                          Taken
+                        </Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={[styles.pill, dose?.status === 'skipped' && styles.pillSkipped]}
+                        onPress={() => toggleScheduled(med, time, 'skipped')}
+                      >
+                        <Text style={[styles.pillText, dose?.status === 'skipped' && styles.pillTextActive]}>
+                          Skipped
+                        </Text>
+                      </TouchableOpacity>
+                    </View>
+                  )}
+                </View>
+              );
+            })
+          )}
+
+          {prn.map((med) => {
+            const taken = doses.filter((d) => d.medication_id === med.id && d.is_prn);
+            const open = prnOpenFor === med.id;
+            return (
+              <View key={med.id} style={styles.prnBlock}>
+                <View style={styles.doseRow}>
+                  <View style={styles.doseInfo}>
+                    <Text style={styles.medName}>{med.name}</Text>
+                    <Text style={styles.medMeta}>
+                      {['As needed', formatDose(med)].filter(Boolean).join(' · ')}
+                      {taken.length > 0 ? ` · ${taken.length} today` : ''}
+                    </Text>
+                  </View>
+                  {!open && (
+                    <TouchableOpacity
+                      style={styles.prnButton}
+                      onPress={() => {
+                        setPrnOpenFor(med.id);
+                        setPrnReason('');
+                      }}
+                    >
+                      <Pill size={14} color={colors.accent.purple} strokeWidth={2} />
+                      <Text style={styles.prnButtonText}>Took a dose</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+
+                {taken.map((d) => (
+                  <Text key={d.id} style={styles.prnHistory}>
+                    {new Date(d.taken_at).toLocaleTimeString('en-US', {
+                      hour: 'numeric',
+                      minute: '2-digit',
+                    })}
+                    {d.reason ? ` · ${d.reason}` : ''}
+                  </Text>
+                ))}
+
+                {open && (
+                  <View style={styles.prnForm}>
+                    <TextInput
+                      style={styles.input}
+                      placeholder="Why? e.g., headache starting, pain flare…"
+                      value={prnReason}
+                      onChangeText={setPrnReason}
+                      autoFocus
+                    />
+                    <View style={styles.pillRow}>
+                      <TouchableOpacity style={styles.pill} onPress={() => setPrnOpenFor(null)}>
+                        <Text style={styles.pillText}>Cancel</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={[styles.pill, styles.pillTaken]}
+                        onPress={() => savePrnDose(med)}
+                        disabled={savingKey === med.id}
+                      >
+                        {savingKey === med.id ? (
+                          <ActivityIndicator size="small" color={colors.neutral.white} />
+                        ) : (
+                          <Text style={[styles.pillText, styles.pillTextActive]}>Save dose</Text>
+                        )}
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                )}
+              </View>
+            );
+          })}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    backgroundColor: colors.neutral.white,
+    borderRadius: borderRadius.lg,
+    padding: spacing.md,
+    marginBottom: spacing.md,
+    ...shadows.sm,
+  },
+  titleRow: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
+  sectionTitle: { ...typography.bodyBold, color: colors.neutral.gray900, marginBottom: spacing.sm },
+  loadingContainer: { paddingVertical: spacing.md, alignItems: 'center' },
+  emptyText: { ...typography.body, color: colors.neutral.gray600 },
+
+  doseRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: spacing.sm,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    borderRadius: borderRadius.lg,
+    backgroundColor: colors.neutral.gray50,
+  },
+  doseInfo: { flex: 1 },
+  medName: { ...typography.bodyBold, color: colors.neutral.gray900 },
+  medMeta: { ...typography.caption, color: colors.neutral.gray600 },
+
+  pillRow: { flexDirection: 'row', gap: spacing.xs },
+  pill: {
+    paddingVertical: 6,
+    paddingHorizontal: spacing.sm,
+    borderRadius: 999,
+    backgroundColor: colors.neutral.white,
+    borderWidth: 1,
+    borderColor: colors.neutral.gray200,
+    alignItems: 'center',
+  },
+  pillTaken: { backgroundColor: colors.accent.green, borderColor: colors.accent.green },
+  pillSkipped: { backgroundColor: colors.neutral.gray500, borderColor: colors.neutral.gray500 },
+  pillText: { ...typography.captionBold, color: colors.neutral.gray700 },
+  pillTextActive: { color: colors.neutral.white },
+
+  prnBlock: { gap: spacing.xs },
+  prnButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 6,
+    paddingHorizontal: spacing.sm,
+    borderRadius: 999,
+    backgroundColor: colors.primary.lavender,
+  },
+  prnButtonText: { ...typography.captionBold, color: colors.accent.purple },
+  prnHistory: { ...typography.caption, color: colors.neutral.gray600, paddingHorizontal: spacing.md },
+  prnForm: { gap: spacing.sm, paddingHorizontal: spacing.xs },
+  input: {
+    borderWidth: 1,
+    borderColor: colors.neutral.gray300,
+    borderRadius: borderRadius.md,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    ...typography.body,
+    color: colors.neutral.gray900,
+    backgroundColor: colors.neutral.white,
+  },
+});
@@ -0,0 +1,124 @@
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { colors, typography, spacing, borderRadius } from '@/lib/design-system';
+import { SubSymptom } from '@/lib/types';
+
+// sub_symptom_id → severity; a key being present means the sub-symptom was, severity is optional
+export type SubSymptomValues = Record<string, number | null>;
+
+const SEVERITIES = Array.from({ length: 11 }, (_, i) => i);
+
+/** Keeps only the values for sub-symptoms of the given conditions, as rows for the outbox payload. */
+export function subSymptomRows(
+  values: SubSymptomValues,
+  conditions: { id: string; sub_symptoms?: SubSymptom[] }[],
+  activeConditionIds: string[]
+) {
+  const active = new Set(activeConditionIds);
+  return conditions
+    .filter((c) => active.has(c.id))
+    .flatMap((c) => c.sub_symptoms ?? [])
+    .filter((s) => s.id in values)
+    .map((s) => ({ sub_symptom_id: s.id, severity: values[s.id] }));
+}
+
+// Tap a sub-symptom to mark it present, then optionally rate it; tapping the rating again clears it.
+export function SubSymptomInputs({
+  subSymptoms,
+  values,
+  onChange,
+}: {
+  subSymptoms: SubSymptom[];
+  values: SubSymptomValues;
+  onChange: (next: SubSymptomValues) => void;
+}) {
+  if (subSymptoms.length === 0) return null;
+
+  const togglePresent = (id: string) => {
+    const next = { ...values };
+    if (id in next) delete next[id];
+    else next[id] = null;
+    onChange(next);
+  };
+
+  const setSeverity = (id: string, severity: number) => {
+    onChange({ ...values, [id]: values[id] === severity ? null : severity });
+  };
+
+  const present = subSymptoms.filter((s) => s.id in values);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>Sub-symptoms</Text>
+
+      <View style={styles.chipRow}>
+        {subSymptoms.map((s) => {
+          const active = s.id in values;
+          return (
+            <TouchableOpacity
+              key={s.id}
+              style={[styles.chip, active && styles.chipActive]}
+              onPress={() => togglePresent(s.id)}
+            >
+              <Text style={[styles.chipText, active && styles.chipTextActive]}>{s.name}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {present.map((s) => (
+        <View key={s.id} style={styles.severityRow}>
+          <Text style={styles.severityName}>
+            {s.name}
+            {values[s.id] !== null ? ` · ${values[s.id]}/10` : ''}
+          </Text>
+          <View style={styles.buttonRow}>
+            {SEVERITIES.map((v) => (
+              <TouchableOpacity
+                key={v}
+                style={[styles.button, values[s.id] === v && styles.buttonActive]}
+                onPress={() => setSeverity(s.id, v)}
+              >
+                <Text style={[styles.buttonText, values[s.id] === v && styles.buttonTextActive]}>
+                  {v}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { marginTop: spacing.sm, gap: spacing.sm },
+  label: { ...typography.captionBold, color: colors.neutral.gray700 },
+
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: spacing.xs },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: spacing.sm,
+    borderRadius: 999,
+    backgroundColor: colors.neutral.white,
+    borderWidth: 1,
+    borderColor: colors.neutral.gray200,
+  },
+  chipActive: { backgroundColor: colors.primary.lavender, borderColor: colors.accent.purple },
+  chipText: { ...typography.caption, color: colors.neutral.gray700 },
+  chipTextActive: { ...typography.captionBold, color: colors.accent.purple },
+
+  severityRow: { gap: spacing.xs },
+  severityName: { ...typography.caption, color: colors.neutral.gray700 },
+  buttonRow: { flexDirection: 'row', columnGap: 2 },
+  button: {
+    paddingHorizontal: 2,
+    paddingVertical: 4,
+    borderRadius: borderRadius.sm,
+    backgroundColor: colors.neutral.gray100,
+    alignItems: 'center',
+    flex: 1,
+  },
+  buttonActive: { backgroundColor: colors.accent.purple },
+  buttonText: { fontSize: 10, fontWeight: '600', color: colors.neutral.gray700 },
+  buttonTextActive: { color: colors.neutral.white },
+});
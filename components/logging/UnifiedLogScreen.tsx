@@ -17,20 +17,19 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 
 import { useAuth } from '@/context/AuthContext';
 import { supabase } from '@/lib/supabase';
-import { updateStreak } from '@/lib/streak';
+import { submitDailyLog, submitMomentLog, generateLocalId } from '@/lib/log-outbox';
+import { syncNotificationSchedule } from '@/lib/notifications';
+import { todayISODate } from '@/lib/dates';
+import { useTimeZone } from '@/hooks/useTimeZone';
 import { UserCondition } from '@/lib/types';
 import { colors, typography, spacing, borderRadius, shadows } from '@/lib/design-system';
 import { TriggerInput } from '@/components/TriggerInput';
+import { MedicationDoseSection } from '@/components/logging/MedicationDoseSection';
+import { SubSymptomInputs, SubSymptomValues, subSymptomRows } from '@/components/logging/SubSymptomInputs';
 import { Trigger } from '@/lib/trigger-types';
 
 type Mode = 'moment' | 'daily';
 
-function getLocalISODate(d = new Date()) {
-  // convert "now" to local date, then format as YYYY-MM-DD
-  const tzOffsetMs = d.getTimezoneOffset() * 60 * 1000;
-  return new Date(d.getTime() - tzOffsetMs).toISOString().slice(0, 10);
-}
-
 function SimpleSlider({
   min,
   max,
@@ -83,9 +82,13 @@ type Draft = {
   overallSeverity: number | null;
   selectedConditions: string[];
   conditionSeverities: Record<string, number>;
+  // missing in drafts saved before sub-symptoms were logged
+  subSymptomValues?: SubSymptomValues;
   whatDoing?: string;
   notes: string;
   triggerValues: Record<string, { value: number | null; valueText?: string | null }>;
+  // the daily log's server updated_at when this draft was started (see DailyLogPayload.base_updated_at)
+  baseUpdatedAt?: string | null;
   updatedAt: string;
 };
 
@@ -104,12 +107,14 @@ export default function UnifiedLogScreen({
 
   const [loading, setLoading] = useState(false);
   const [saved, setSaved] = useState(false);
+  const [savedOffline, setSavedOffline] = useState(false);
 
   // Shared core fields
   const [overallSeverity, setOverallSeverity] = useState<number | null>(null);
   const [conditions, setConditions] = useState<UserCondition[]>([]);
   const [selectedConditions, setSelectedConditions] = useState<string[]>([]);
   const [conditionSeverities, setConditionSeverities] = useState<Record<string, number>>({});
+  const [subSymptomValues, setSubSymptomValues] = useState<SubSymptomValues>({});
 
   // Moment-only
   const [whatDoing, setWhatDoing] = useState('');
@@ -124,10 +129,16 @@ export default function UnifiedLogScreen({
   // Notes (shared)
   const [notes, setNotes] = useState('');
 
+  // Server updated_at of today's daily log when editing started; undefined when it couldn't be read
+  const [baseUpdatedAt, setBaseUpdatedAt] = useState<string | null | undefined>(undefined);
+
   // Draft hydration guards
   const [hydrated, setHydrated] = useState(false);
+  // bumped to re-hydrate from the server after a conflicting save
+  const [reloadCount, setReloadCount] = useState(0);
 
-  const today = useMemo(() => getLocalISODate(), []);
+  const timeZone = useTimeZone();
+  const today = useMemo(() => todayISODate(timeZone), [timeZone]);
 
   const draftKey = useMemo(() => {
     // per-user, per-day, per-mode
@@ -142,8 +153,10 @@ export default function UnifiedLogScreen({
       overallSeverity,
       selectedConditions,
       conditionSeverities,
+      subSymptomValues,
       notes,
       triggerValues,
+      baseUpdatedAt,
       updatedAt: new Date().toISOString(),
       ...(mode === 'moment' ? { whatDoing } : {}), // ✅ only for moment
     };
@@ -156,9 +169,11 @@ export default function UnifiedLogScreen({
     overallSeverity,
     selectedConditions,
     conditionSeverities,
+    subSymptomValues,
     whatDoing,
     notes,
     triggerValues,
+    baseUpdatedAt,
   ]);
 
   const loadDraft = useCallback(async (): Promise<Draft | null> => {
@@ -182,7 +197,7 @@ export default function UnifiedLogScreen({
   const loadConditions = useCallback(async (uid: string) => {
     const { data, error } = await supabase
       .from('user_conditions')
-      .select('*, condition:conditions(*)')
+      .select('*, condition:conditions(*), sub_symptoms(*)')
       .eq('user_id', uid);
 
     if (error) {
@@ -208,8 +223,9 @@ export default function UnifiedLogScreen({
 
       const triggers = (data ?? []).map((ut: any) => ut.trigger as any);
 
-      // parent/group triggers are UI-only: don’t render or log them
-      const leafTriggers = triggers.filter((t: any) => t.input_type !== 'group');
+      // parent/group triggers are UI-only: don’t render or log them; retired
+      // catalog triggers keep their history but aren't offered any more
+      const leafTriggers = triggers.filter((t: any) => t?.is_active && t.input_type !== 'group');
 
       setEnabledTriggers(leafTriggers);
 
@@ -240,6 +256,12 @@ export default function UnifiedLogScreen({
         delete next[conditionId];
         return next;
       });
+      const subIds = conditions.find((c) => c.id === conditionId)?.sub_symptoms?.map((s) => s.id) ?? [];
+      setSubSymptomValues((prev) => {
+        const next = { ...prev };
+        for (const id of subIds) delete next[id];
+        return next;
+      });
     } else {
       setSelectedConditions([...selectedConditions, conditionId]);
     }
@@ -263,9 +285,11 @@ export default function UnifiedLogScreen({
     setOverallSeverity(null);
     setSelectedConditions([]);
     setConditionSeverities({});
+    setSubSymptomValues({});
     setWhatDoing('');
     setNotes('');
     setTriggerValues({});
+    setBaseUpdatedAt(undefined);
   }, []);
 
   // HYDRATE: Draft wins; if no draft and mode === daily, autofill from today's DB log.
@@ -283,9 +307,11 @@ export default function UnifiedLogScreen({
         setOverallSeverity(draft.overallSeverity);
         setSelectedConditions(draft.selectedConditions);
         setConditionSeverities(draft.conditionSeverities);
+        setSubSymptomValues(draft.subSymptomValues ?? {});
         setWhatDoing(draft.mode === 'moment' ? (draft.whatDoing ?? '') : '');
         setNotes(draft.notes);
         setTriggerValues(draft.triggerValues);
+        setBaseUpdatedAt(draft.baseUpdatedAt);
         setHydrated(true);
         return;
       }
@@ -296,13 +322,15 @@ export default function UnifiedLogScreen({
         try {
           const { data: daily, error: dailyErr } = await supabase
             .from('daily_logs')
-            .select('id, overall_severity, notes')
+            .select('id, overall_severity, notes, updated_at')
             .eq('user_id', userId)
             .eq('date', today)
             .maybeSingle();
 
           if (dailyErr) throw dailyErr;
 
+          if (!cancelled) setBaseUpdatedAt(daily?.updated_at ?? null);
+
           if (!cancelled && daily?.id) {
             setOverallSeverity(daily.overall_severity ?? null);
             setNotes(daily.notes ?? '');
@@ -325,6 +353,17 @@ export default function UnifiedLogScreen({
             setSelectedConditions(selected);
             setConditionSeverities(severities);
 
+            const { data: ds, error: dsErr } = await supabase
+              .from('daily_log_sub_symptoms')
+              .select('sub_symptom_id, severity')
+              .eq('daily_log_id', daily.id);
+
+            if (dsErr) throw dsErr;
+
+            const subValues: SubSymptomValues = {};
+            for (const row of ds ?? []) subValues[row.sub_symptom_id] = row.severity ?? null;
+            setSubSymptomValues(subValues);
+
             const { data: dt, error: dtErr } = await supabase
               .from('daily_log_triggers')
               .select('trigger_id, value, value_text')
@@ -351,7 +390,7 @@ export default function UnifiedLogScreen({
     return () => {
       cancelled = true;
     };
-  }, [userId, mode, today, loadDraft, resetForm]);
+  }, [userId, mode, today, reloadCount, loadDraft, resetForm]);
 
   // Autosave draft when user edits (after hydration)
   useEffect(() => {
@@ -368,9 +407,11 @@ export default function UnifiedLogScreen({
     overallSeverity,
     selectedConditions,
     conditionSeverities,
+    subSymptomValues,
     whatDoing,
     notes,
     triggerValues,
+    baseUpdatedAt,
     saveDraft,
   ]);
 
@@ -410,133 +451,70 @@ export default function UnifiedLogScreen({
           value_text: data.valueText || null,
         }));
 
-      if (mode === 'daily') {
-        const { data: existing, error: exErr } = await supabase
-          .from('daily_logs')
-          .select('id')
-          .eq('user_id', userId)
-          .eq('date', today)
-          .maybeSingle();
-        if (exErr) throw exErr;
-
-        let dailyLogId: string;
-
-        if (existing) {
-          const { error: updErr } = await supabase
-            .from('daily_logs')
-            .update({
+      const conditionEntries = selectedConditions.map((user_condition_id) => ({
+        user_condition_id,
+        severity: conditionSeverities[user_condition_id] ?? null,
+      }));
+
+      const subSymptomEntries = subSymptomRows(subSymptomValues, conditions, selectedConditions);
+
+      // writes go through the outbox so a save while offline is kept and synced later
+      const result =
+        mode === 'daily'
+          ? await submitDailyLog(userId, {
+              date: today,
               overall_severity: finalOverallSeverity,
               notes: notes || null,
-              updated_at: nowIso,
+              ...(baseUpdatedAt !== undefined ? { base_updated_at: baseUpdatedAt } : {}),
+              conditions: conditionEntries,
+              sub_symptoms: subSymptomEntries,
+              triggers: triggerEntries,
             })
-            .eq('id', existing.id);
-          if (updErr) throw updErr;
-
-          dailyLogId = existing.id;
-
-          const { error: delC } = await supabase
-            .from('daily_log_conditions')
-            .delete()
-            .eq('daily_log_id', dailyLogId);
-          if (delC) throw delC;
-
-          const { error: delT } = await supabase
-            .from('daily_log_triggers')
-            .delete()
-            .eq('daily_log_id', dailyLogId);
-          if (delT) throw delT;
-        } else {
-          const { data: created, error: createErr } = await supabase
-            .from('daily_logs')
-            .insert({
-              user_id: userId,
+          : await submitMomentLog(userId, {
+              id: generateLocalId(),
+              timestamp: nowIso,
               date: today,
               overall_severity: finalOverallSeverity,
+              activity: whatDoing || null,
               notes: notes || null,
-            })
-            .select()
-            .single();
-          if (createErr) throw createErr;
-
-          dailyLogId = created!.id;
-        }
-
-        if (selectedConditions.length > 0) {
-          const { error: insC } = await supabase.from('daily_log_conditions').insert(
-            selectedConditions.map((user_condition_id) => ({
-              daily_log_id: dailyLogId,
-              user_condition_id,
-              severity: conditionSeverities[user_condition_id] ?? null,
-            }))
-          );
-          if (insC) throw insC;
-        }
-
-        if (triggerEntries.length > 0) {
-          const { error: insT } = await supabase.from('daily_log_triggers').insert(
-            triggerEntries.map((t) => ({
-              daily_log_id: dailyLogId,
-              ...t,
-            }))
-          );
-          if (insT) throw insT;
-        }
-
-        await updateStreak(userId);
-
-        // ✅ only reset draft/data after a successful save
-        await clearDraft();
-        resetForm();
-
-        setSaved(true);
-        return;
-      }
-
-      // moment mode
-      const { data: moment, error: momentErr } = await supabase
-        .from('moment_logs')
-        .insert({
-          user_id: userId,
-          date: today,
-          overall_severity: finalOverallSeverity,
-          activity: whatDoing || null,
-          notes: notes || null,
-        })
-        .select()
-        .single();
-
-      if (momentErr) throw momentErr;
-
-      const momentId = moment!.id;
-
-      if (selectedConditions.length > 0) {
-        const { error: insMC } = await supabase.from('moment_log_conditions').insert(
-          selectedConditions.map((user_condition_id) => ({
-            moment_log_id: momentId,
-            user_condition_id,
-            severity: conditionSeverities[user_condition_id] ?? null,
-          }))
+              conditions: conditionEntries,
+              sub_symptoms: subSymptomEntries,
+              triggers: triggerEntries,
+            });
+
+      if (result.status === 'conflict') {
+        // keep the form and draft; saving again now replaces the other copy
+        setBaseUpdatedAt(result.serverUpdatedAt);
+        Alert.alert(
+          'Changed on another device',
+          "Today's check-in was updated somewhere else after you started this one. Your entries are still here: save again to replace that version, or load it instead.",
+          [
+            { text: 'Keep mine', style: 'cancel' },
+            {
+              text: 'Load latest',
+              style: 'destructive',
+              onPress: () => {
+                clearDraft()
+                  .then(() => setReloadCount((n) => n + 1))
+                  .catch((e) => console.error('[UnifiedLogScreen] reload failed', e));
+              },
+            },
+          ]
         );
-        if (insMC) throw insMC;
-      }
-
-      if (triggerEntries.length > 0) {
-        const { error: insMT } = await supabase.from('moment_log_triggers').insert(
-          triggerEntries.map((t) => ({
-            moment_log_id: momentId,
-            ...t,
-          }))
-        );
-        if (insMT) throw insMT;
+        return;
       }
 
-      await updateStreak(userId);
-
-      // ✅ only reset draft/data after a successful save
+      // ✅ only reset draft/data after a successful save (or once it's safely queued)
       await clearDraft();
       resetForm();
 
+      setSavedOffline(result.status === 'queued');
       setSaved(true);
+
+      // re-plan reminders so today's check-in reminder and streak nudge are dropped
+      syncNotificationSchedule(userId).catch((e) =>
+        console.error('[UnifiedLogScreen] reminder sync failed', e)
+      );
     } catch (e: any) {
       console.error('[UnifiedLogScreen] save failed', e);
       Alert.alert('Save failed', e?.message || 'Check console logs.');
@@ -550,9 +528,12 @@ export default function UnifiedLogScreen({
     notes,
     whatDoing,
     overallSeverity,
+    conditions,
     selectedConditions,
     conditionSeverities,
+    subSymptomValues,
     triggerValues,
+    baseUpdatedAt,
     clearDraft,
     resetForm,
   ]);
@@ -638,41 +619,52 @@ export default function UnifiedLogScreen({
           <Text style={styles.sectionTitle}>Conditions / Symptoms</Text>
 
           <View style={{ gap: spacing.sm }}>
-            {conditions.map((c) => (
-              <View key={c.id}>
-                <TouchableOpacity
-                  style={[
-                    styles.conditionOption,
-                    selectedConditions.includes(c.id) && styles.conditionOptionActive,
-                  ]}
-                  onPress={() => toggleCondition(c.id)}
-                >
-                  <Text
+            {/* resolved conditions stay visible only if this log already includes them */}
+            {conditions
+              .filter((c) => !c.archived_at || selectedConditions.includes(c.id))
+              .map((c) => (
+                <View key={c.id}>
+                  <TouchableOpacity
                     style={[
-                      styles.conditionText,
-                      selectedConditions.includes(c.id) && styles.conditionTextActive,
+                      styles.conditionOption,
+                      selectedConditions.includes(c.id) && styles.conditionOptionActive,
                     ]}
+                    onPress={() => toggleCondition(c.id)}
                   >
-                    {c.condition?.name ?? c.custom_label ?? 'Unnamed'}
-                  </Text>
-                </TouchableOpacity>
-
-                {selectedConditions.includes(c.id) && (
-                  <View style={styles.inlineSeverity}>
-                    <Text style={styles.inlineSeverityLabel}>Severity</Text>
-                    <SimpleSlider
-                      min={0}
-                      max={10}
-                      value={conditionSeverities[c.id] ?? null}
-                      onChange={(v) => setConditionSeverities((prev) => ({ ...prev, [c.id]: v }))}
-                    />
-                  </View>
-                )}
-              </View>
-            ))}
+                    <Text
+                      style={[
+                        styles.conditionText,
+                        selectedConditions.includes(c.id) && styles.conditionTextActive,
+                      ]}
+                    >
+                      {c.condition?.name ?? c.custom_label ?? 'Unnamed'}
+                    </Text>
+                  </TouchableOpacity>
+
+                  {selectedConditions.includes(c.id) && (
+                    <View style={styles.inlineSeverity}>
+                      <Text style={styles.inlineSeverityLabel}>Severity</Text>
+                      <SimpleSlider
+                        min={0}
+                        max={10}
+                        value={conditionSeverities[c.id] ?? null}
+                        onChange={(v) => setConditionSeverities((prev) => ({ ...prev, [c.id]: v }))}
+                      />
+                      <SubSymptomInputs
+                        subSymptoms={c.sub_symptoms ?? []}
+                        values={subSymptomValues}
+                        onChange={setSubSymptomValues}
+                      />
+                    </View>
+                  )}
+                </View>
+              ))}
           </View>
         </View>
 
+        {/* Medications */}
+        <MedicationDoseSection userId={userId} date={today} />
+
         {/* Moment-only */}
         {mode === 'moment' && (
           <View style={styles.section}>
@@ -708,6 +700,7 @@ export default function UnifiedLogScreen({
                   key={t.id}
                   trigger={t}
                   value={triggerValues[t.id]?.value ?? null}
+                  valueText={triggerValues[t.id]?.valueText ?? null}
                   onValueChange={(value, valueText) => {
                     setTriggerValues((prev) => ({
                       ...prev,
@@ -755,7 +748,11 @@ export default function UnifiedLogScreen({
             </View>
 
             <Text style={styles.savedTitle}>Saved</Text>
-            <Text style={styles.savedSubtitle}>Your log has been recorded.</Text>
+            <Text style={styles.savedSubtitle}>
+              {savedOffline
+                ? "You're offline. Your log is saved on this device and will sync automatically."
+                : 'Your log has been recorded.'}
+            </Text>
 
             <TouchableOpacity
               style={styles.savedButton}
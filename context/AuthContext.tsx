@@ -1,6 +1,7 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { Session } from '@supabase/supabase-js';
 import { onAuthStateChange, getCurrentUser } from '@/lib/auth';
+import { loadUserTimeZone, setTimeZone } from '@/lib/dates';
 
 interface AuthContextType {
   session: Session | null;
@@ -44,6 +45,17 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     };
   }, []);
 
+  const userId = user?.id as string | undefined;
+
+  // log dates and streak days follow the timezone saved in user_preferences
+  useEffect(() => {
+    if (!userId) {
+      setTimeZone(null);
+      return;
+    }
+    loadUserTimeZone(userId).catch((e) => console.error('Error loading timezone:', e));
+  }, [userId]);
+
   return (
     <AuthContext.Provider value={{ session, user, loading }}>
       {children}
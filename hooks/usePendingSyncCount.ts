@@ -0,0 +1,39 @@
+import { useEffect, useState } from 'react';
+import { getFailedCount, getPendingCount, subscribeToOutbox } from '@/lib/log-outbox';
+
+function useOutboxCount(userId: string | undefined, read: (userId: string) => Promise<number>) {
+  const [count, setCount] = useState(0);
+
+  useEffect(() => {
+    if (!userId) {
+      setCount(0);
+      return;
+    }
+
+    let mounted = true;
+    const refresh = () => {
+      read(userId).then((n) => {
+        if (mounted) setCount(n);
+      });
+    };
+
+    refresh();
+    const unsubscribe = subscribeToOutbox(refresh);
+
+    return () => {
+      mounted = false;
+      unsubscribe();
+    };
+  }, [userId, read]);
+
+  return count;
+}
+
+export function usePendingSyncCount(userId: string | undefined) {
+  return useOutboxCount(userId, getPendingCount);
+}
+
+// logs the outbox gave up on; they stay stored until retried or discarded
+export function useFailedSyncCount(userId: string | undefined) {
+  return useOutboxCount(userId, getFailedCount);
+}
@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+import { getTimeZone, subscribeToTimeZone } from '@/lib/dates';
+
+export function useTimeZone() {
+  const [timeZone, setTimeZone] = useState(getTimeZone);
+
+  useEffect(() => {
+    setTimeZone(getTimeZone());
+    return subscribeToTimeZone(() => setTimeZone(getTimeZone()));
+  }, []);
+
+  return timeZone;
+}
@@ -1,37 +1,239 @@
+import { fetch as streamingFetch } from 'expo/fetch';
 import { supabase } from './supabase';
+import { AmaConversation, AmaMessage, InsightReport } from './types';
 
-export async function generateAIInsights(userId: string, days: number = 30) {
-  try {
-    const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL;
-    const anonKey = process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY;
+/**
+ * Returns the structured report for an ai_insights row. Rows written before
+ * insights_json existed only have text, so they become a featured insight with
+ * no patterns rather than being re-parsed.
+ */
+export function insightReportFromRow(row: {
+  insights_text: string;
+  insights_json?: InsightReport | null;
+}): InsightReport {
+  if (row.insights_json?.featured) return row.insights_json;
 
-    if (!supabaseUrl || !anonKey) {
-      throw new Error('Supabase configuration missing');
-    }
+  const firstLine = row.insights_text.split('\n').find((l) => l.trim()) ?? '';
+  return {
+    version: 0,
+    featured: { title: firstLine.replace(/^[-•*]\s*/, ''), body: '' },
+    patterns: [],
+    experiments: [],
+    confidence: 'low',
+    confidence_reason: '',
+  };
+}
 
-    const response = await fetch(
-      `${supabaseUrl}/functions/v1/ai-insights`,
-      {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${anonKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          userId,
-          days,
-        }),
-      }
-    );
+export class AIInsightsError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    // seconds until another request is allowed, when rate limited
+    public retryAfter: number | null = null
+  ) {
+    super(message);
+    this.name = 'AIInsightsError';
+  }
+}
 
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || 'Failed to generate insights');
-    }
+/**
+ * Calls the ai-insights edge function as the signed-in user. The function
+ * identifies the caller from the session token, so there has to be one.
+ */
+async function functionRequest(body: Record<string, unknown>) {
+  const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL;
+  const anonKey = process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY;
+
+  if (!supabaseUrl || !anonKey) {
+    throw new Error('Supabase configuration missing');
+  }
+
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  if (!session) {
+    throw new AIInsightsError('You need to be signed in to use insights', 401);
+  }
+
+  return {
+    url: `${supabaseUrl}/functions/v1/ai-insights`,
+    init: {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${session.access_token}`,
+        apikey: anonKey,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    },
+  };
+}
 
-    return await response.json();
+async function toInsightsError(response: { status: number; headers: Headers; json(): Promise<any> }) {
+  const error = await response.json().catch(() => ({}));
+  const retryAfter = Number(response.headers.get('Retry-After'));
+  return new AIInsightsError(
+    error.error || 'Failed to generate insights',
+    response.status,
+    Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : null
+  );
+}
+
+async function invokeInsightsFunction<T>(body: Record<string, unknown>): Promise<T> {
+  const { url, init } = await functionRequest(body);
+  const response = await fetch(url, init);
+
+  if (!response.ok) {
+    throw await toInsightsError(response);
+  }
+
+  return await response.json();
+}
+
+export interface GenerateInsightsResult {
+  insights: string;
+  report: InsightReport;
+  logsAnalyzed: number;
+  daysAnalyzed?: number;
+}
+
+export async function generateAIInsights(days: number = 30): Promise<GenerateInsightsResult> {
+  try {
+    return await invokeInsightsFunction<GenerateInsightsResult>({ days });
   } catch (err) {
     console.error('AI Insights error:', err);
     throw err;
   }
 }
+
+export const AMA_WINDOW_OPTIONS = [7, 30, 90] as const;
+
+export interface AskQuestionResult {
+  answer: string;
+  question: string;
+  conversationId: string;
+  windowDays: number;
+}
+
+/**
+ * Asks a question against the user's last `days` of data. The edge function
+ * builds the data context itself; pass the conversationId from a previous
+ * answer to continue that thread.
+ */
+export async function askInsightsQuestion(
+  question: string,
+  options: { conversationId?: string | null; days?: number } = {}
+): Promise<AskQuestionResult> {
+  return await invokeInsightsFunction<AskQuestionResult>({
+    question,
+    conversationId: options.conversationId ?? null,
+    days: options.days ?? 30,
+  });
+}
+
+export async function fetchLatestConversation(
+  userId: string
+): Promise<{ conversation: AmaConversation; messages: AmaMessage[] } | null> {
+  const { data: conversation, error } = await supabase
+    .from('ama_conversations')
+    .select('*')
+    .eq('user_id', userId)
+    .order('updated_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  if (!conversation) return null;
+
+  const { data: messages, error: msgError } = await supabase
+    .from('ama_messages')
+    .select('*')
+    .eq('conversation_id', conversation.id)
+    .order('created_at', { ascending: true });
+  if (msgError) throw msgError;
+
+  return { conversation, messages: messages ?? [] };
+}
+
+export interface StreamQuestionOptions {
+  conversationId?: string | null;
+  days?: number;
+  signal?: AbortSignal;
+  onMeta?: (meta: { conversationId: string; windowDays: number }) => void;
+  onDelta: (text: string) => void;
+}
+
+/**
+ * Streaming version of askInsightsQuestion: the answer arrives as server-sent
+ * events and onDelta fires for each chunk. Aborting the signal stops the
+ * request; the server keeps whatever was generated so far in the conversation.
+ */
+export async function streamInsightsQuestion(
+  question: string,
+  options: StreamQuestionOptions
+): Promise<AskQuestionResult> {
+  const { url, init } = await functionRequest({
+    question,
+    conversationId: options.conversationId ?? null,
+    days: options.days ?? 30,
+    stream: true,
+  });
+
+  const response = await streamingFetch(url, { ...init, signal: options.signal });
+  if (!response.ok) {
+    throw await toInsightsError(response);
+  }
+  if (!response.body) {
+    throw new AIInsightsError('Streaming is not supported on this device', 0);
+  }
+
+  let conversationId = options.conversationId ?? '';
+  let windowDays = options.days ?? 30;
+  let answer = '';
+  let streamError: string | null = null;
+
+  const handleEvent = (event: string, data: any) => {
+    if (event === 'meta') {
+      conversationId = data.conversationId;
+      windowDays = data.windowDays;
+      options.onMeta?.(data);
+    } else if (event === 'delta') {
+      answer += data.text;
+      options.onDelta(data.text);
+    } else if (event === 'done') {
+      answer = data.answer;
+    } else if (event === 'error') {
+      streamError = data.error;
+    }
+  };
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    // events are separated by a blank line
+    let boundary: number;
+    while ((boundary = buffer.indexOf('\n\n')) >= 0) {
+      const raw = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      let event = 'message';
+      let data = '';
+      for (const line of raw.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) data += line.slice(5).trim();
+      }
+      if (data) handleEvent(event, JSON.parse(data));
+    }
+  }
+
+  if (streamError) {
+    throw new AIInsightsError(streamError, 500);
+  }
+
+  return { answer, question, conversationId, windowDays };
+}
@@ -0,0 +1,239 @@
+import { supabase } from './supabase';
+import { addDays, daysBetween, todayISODate } from './dates';
+import { mean, standardDeviation } from './stats';
+import { buildDays } from './trigger-correlations';
+
+/**
+ * A personal baseline is what a rating usually is for this user: the mean
+ * and spread of the previous four weeks. It skips the most recent week, so a
+ * slow climb is measured against how things were before it started instead
+ * of being absorbed into "usual".
+ */
+
+export const BASELINE_WINDOW_DAYS = 28;
+// days right before the rated day that are left out of its baseline
+export const BASELINE_GAP_DAYS = 7;
+// total days of history a baseline reaches back
+export const BASELINE_LOOKBACK_DAYS = BASELINE_WINDOW_DAYS + BASELINE_GAP_DAYS;
+export const MIN_BASELINE_DAYS = 7;
+// ratings are whole numbers, so a very steady history would otherwise flag every 1-point change
+const MIN_BASELINE_SD = 1;
+// z-scores for the bands; beyond ±ANOMALY_Z a day is flagged
+const ABOVE_Z = 1;
+export const ANOMALY_Z = 2;
+export const ALERT_CONSECUTIVE_DAYS = 3;
+
+export type BaselineBand = 'low' | 'below' | 'typical' | 'above' | 'high';
+
+export interface BaselineDay {
+  date: string;
+  value: number;
+  // null until there are MIN_BASELINE_DAYS ratings in the window
+  mean: number | null;
+  sd: number | null;
+  z: number | null;
+  band: BaselineBand | null;
+  anomaly: boolean;
+}
+
+export interface AboveBaselineRun {
+  startDate: string;
+  endDate: string;
+  days: number;
+}
+
+export interface BaselineAlert {
+  // null for overall severity
+  userConditionId: string | null;
+  label: string;
+  run: AboveBaselineRun;
+}
+
+function bandFor(z: number): BaselineBand {
+  if (z >= ANOMALY_Z) return 'high';
+  if (z >= ABOVE_Z) return 'above';
+  if (z <= -ANOMALY_Z) return 'low';
+  if (z <= -ABOVE_Z) return 'below';
+  return 'typical';
+}
+
+/** Rolling baseline for every rated date in `series` (date -> rating). */
+export function computeBaselines(series: Map<string, number>): Map<string, BaselineDay> {
+  const result = new Map<string, BaselineDay>();
+
+  for (const [date, value] of series) {
+    const window: number[] = [];
+    for (let offset = BASELINE_GAP_DAYS + 1; offset <= BASELINE_LOOKBACK_DAYS; offset++) {
+      const v = series.get(addDays(date, -offset));
+      if (v !== undefined) window.push(v);
+    }
+
+    if (window.length < MIN_BASELINE_DAYS) {
+      result.set(date, { date, value, mean: null, sd: null, z: null, band: null, anomaly: false });
+      continue;
+    }
+
+    const m = mean(window);
+    const sd = Math.max(MIN_BASELINE_SD, standardDeviation(window));
+    const z = (value - m) / sd;
+    result.set(date, { date, value, mean: m, sd, z, band: bandFor(z), anomaly: Math.abs(z) >= ANOMALY_Z });
+  }
+
+  return result;
+}
+
+/**
+ * The run of consecutive days above baseline that reaches today (or
+ * yesterday, if today isn't rated yet), or null when it's shorter than
+ * ALERT_CONSECUTIVE_DAYS. An unrated day ends a run.
+ */
+export function currentAboveBaselineRun(
+  baselines: Map<string, BaselineDay>,
+  today: string = todayISODate()
+): AboveBaselineRun | null {
+  let endDate = today;
+  if (!baselines.has(endDate)) endDate = addDays(today, -1);
+
+  let startDate: string | null = null;
+  for (let date = endDate; ; date = addDays(date, -1)) {
+    const z = baselines.get(date)?.z;
+    if (z === null || z === undefined || z < ABOVE_Z) break;
+    startDate = date;
+  }
+
+  if (!startDate) return null;
+  const days = daysBetween(startDate, endDate) + 1;
+  return days >= ALERT_CONSECUTIVE_DAYS ? { startDate, endDate, days } : null;
+}
+
+interface BaselineSeries {
+  overall: Map<string, number>;
+  // user_condition_id -> date -> rating
+  conditions: Map<string, Map<string, number>>;
+}
+
+/**
+ * Ratings per date between the two dates: `overall_severity` from check-ins,
+ * and each condition's rating (the check-in's, or the mean of that day's
+ * moment logs).
+ */
+async function fetchSeverities(userId: string, startDate: string, endDate: string): Promise<BaselineSeries> {
+  const [dailyRes, momentRes] = await Promise.all([
+    supabase
+      .from('daily_logs')
+      .select('date, overall_severity, daily_log_conditions(user_condition_id, severity)')
+      .eq('user_id', userId)
+      .gte('date', startDate)
+      .lte('date', endDate),
+    supabase
+      .from('moment_logs')
+      .select('date, timestamp, moment_log_conditions(user_condition_id, severity)')
+      .eq('user_id', userId)
+      .gte('date', startDate)
+      .lte('date', endDate)
+      .order('timestamp', { ascending: true }),
+  ]);
+
+  if (dailyRes.error) throw dailyRes.error;
+  if (momentRes.error) throw momentRes.error;
+
+  const overall = new Map<string, number>();
+  for (const log of dailyRes.data ?? []) {
+    if (log.overall_severity !== null && log.overall_severity !== undefined) {
+      overall.set(log.date, Number(log.overall_severity));
+    }
+  }
+
+  const conditions = new Map<string, Map<string, number>>();
+  for (const [date, day] of buildDays(dailyRes.data ?? [], momentRes.data ?? [], new Map())) {
+    for (const [ucId, severity] of day.severities) {
+      const byDate = conditions.get(ucId) ?? new Map<string, number>();
+      byDate.set(date, severity);
+      conditions.set(ucId, byDate);
+    }
+  }
+
+  return { overall, conditions };
+}
+
+/** Baselines for `overall_severity` on each rated day between the two dates. */
+export async function fetchOverallBaselines(
+  userId: string,
+  startDate: string,
+  endDate: string
+): Promise<Map<string, BaselineDay>> {
+  const { overall } = await fetchSeverities(userId, addDays(startDate, -BASELINE_LOOKBACK_DAYS), endDate);
+  const baselines = computeBaselines(overall);
+  for (const date of Array.from(baselines.keys())) {
+    if (date < startDate) baselines.delete(date);
+  }
+  return baselines;
+}
+
+export async function fetchBaselineAlertSettings(userId: string) {
+  const { data, error } = await supabase
+    .from('user_preferences')
+    .select('baseline_alerts_enabled, baseline_alert_dismissed_on')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return {
+    enabled: data?.baseline_alerts_enabled ?? true,
+    dismissedOn: (data?.baseline_alert_dismissed_on as string | null) ?? null,
+  };
+}
+
+export async function setBaselineAlertsEnabled(userId: string, enabled: boolean) {
+  const { error } = await supabase
+    .from('user_preferences')
+    .upsert(
+      { user_id: userId, baseline_alerts_enabled: enabled, updated_at: new Date().toISOString() },
+      { onConflict: 'user_id' }
+    );
+
+  if (error) throw error;
+}
+
+/** Hides the current alerts; a run that starts after today raises a new one. */
+export async function dismissBaselineAlerts(userId: string) {
+  const { error } = await supabase
+    .from('user_preferences')
+    .upsert(
+      { user_id: userId, baseline_alert_dismissed_on: todayISODate(), updated_at: new Date().toISOString() },
+      { onConflict: 'user_id' }
+    );
+
+  if (error) throw error;
+}
+
+/**
+ * Overall severity and every tracked condition that has been above baseline
+ * for ALERT_CONSECUTIVE_DAYS or more days in a row up to today. Empty when
+ * the user turned alerts off or dismissed these runs.
+ */
+export async function fetchBaselineAlerts(
+  userId: string,
+  conditions: { id: string; label: string }[]
+): Promise<BaselineAlert[]> {
+  const { enabled, dismissedOn } = await fetchBaselineAlertSettings(userId);
+  if (!enabled) return [];
+
+  const today = todayISODate();
+  // long enough for a run of up to two weeks to still have its own baselines
+  const series = await fetchSeverities(userId, addDays(today, -(BASELINE_LOOKBACK_DAYS + 14)), today);
+
+  const alerts: BaselineAlert[] = [];
+  const consider = (userConditionId: string | null, label: string, values: Map<string, number> | undefined) => {
+    if (!values) return;
+    const run = currentAboveBaselineRun(computeBaselines(values), today);
+    if (!run || (dismissedOn && run.startDate <= dismissedOn)) return;
+    alerts.push({ userConditionId, label, run });
+  };
+
+  consider(null, 'Overall severity', series.overall);
+  for (const c of conditions) consider(c.id, c.label, series.conditions.get(c.id));
+
+  return alerts;
+}
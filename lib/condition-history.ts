@@ -0,0 +1,108 @@
+import { supabase } from './supabase';
+import { Trigger } from './trigger-types';
+import { addDays, daysBetween, todayISODate } from './dates';
+import { buildDays } from './trigger-correlations';
+import { CyclePhase, cycleDayFor, fetchCycleModel } from './cycle';
+import { BASELINE_LOOKBACK_DAYS, computeBaselines } from './baseline';
+
+export const HISTORY_RANGES = [
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 180, label: '6 months' },
+];
+
+const SLEEP_TRIGGER_KEY = 'sleep_duration';
+const STRESS_TRIGGER_KEY = 'stress_level';
+// approximate hours for the sleep_duration options ("≤4", "5-6", "7-8", "9+")
+const SLEEP_OPTION_HOURS = [4, 5.5, 7.5, 9];
+
+export interface ConditionHistoryDay {
+  date: string;
+  // the daily check-in's rating, or the mean of that day's moment logs
+  severity: number | null;
+  sleepHours: number | null;
+  // stress_level on its 0–5 scale
+  stress: number | null;
+  cyclePhase: CyclePhase | null;
+  // the rolling personal baseline (mean) for this day, and whether the rating stood out from it
+  baseline: number | null;
+  anomaly: 'high' | 'low' | null;
+}
+
+export interface ConditionHistory {
+  startDate: string;
+  endDate: string;
+  days: ConditionHistoryDay[];
+  hasCycle: boolean;
+}
+
+/** One row per day in the range for a single user_condition, with the values the chart can overlay. */
+export async function fetchConditionHistory(
+  userId: string,
+  userConditionId: string,
+  rangeDays: number
+): Promise<ConditionHistory> {
+  const endDate = todayISODate();
+  const startDate = addDays(endDate, -(rangeDays - 1));
+  // earlier logs are only read so the first days in range have a baseline
+  const fetchStart = addDays(startDate, -BASELINE_LOOKBACK_DAYS);
+
+  const [triggerRes, dailyRes, momentRes, cycleModel] = await Promise.all([
+    supabase.from('triggers').select('*').in('key', [SLEEP_TRIGGER_KEY, STRESS_TRIGGER_KEY]),
+    supabase
+      .from('daily_logs')
+      .select(
+        'date, daily_log_conditions(user_condition_id, severity), daily_log_triggers(trigger_id, value)'
+      )
+      .eq('user_id', userId)
+      .gte('date', fetchStart)
+      .lte('date', endDate),
+    supabase
+      .from('moment_logs')
+      .select(
+        'date, timestamp, moment_log_conditions(user_condition_id, severity), moment_log_triggers(trigger_id, value)'
+      )
+      .eq('user_id', userId)
+      .gte('date', fetchStart)
+      .lte('date', endDate)
+      .order('timestamp', { ascending: true }),
+    fetchCycleModel(userId),
+  ]);
+
+  if (triggerRes.error) throw triggerRes.error;
+  if (dailyRes.error) throw dailyRes.error;
+  if (momentRes.error) throw momentRes.error;
+
+  const triggers = (triggerRes.data ?? []) as Trigger[];
+  const sleepId = triggers.find((t) => t.key === SLEEP_TRIGGER_KEY)?.id;
+  const stressId = triggers.find((t) => t.key === STRESS_TRIGGER_KEY)?.id;
+  const logged = buildDays(dailyRes.data ?? [], momentRes.data ?? [], new Map(triggers.map((t) => [t.id, t])));
+
+  const series = new Map<string, number>();
+  logged.forEach((day, date) => {
+    const severity = day.severities.get(userConditionId);
+    if (severity !== undefined) series.set(date, severity);
+  });
+  const baselines = computeBaselines(series);
+
+  const days: ConditionHistoryDay[] = [];
+  for (let i = 0; i <= daysBetween(startDate, endDate); i++) {
+    const date = addDays(startDate, i);
+    const day = logged.get(date);
+    const sleepOption = sleepId ? day?.triggers.get(sleepId) : undefined;
+    const stress = stressId ? day?.triggers.get(stressId) : undefined;
+    const baseline = baselines.get(date);
+
+    days.push({
+      date,
+      severity: day?.severities.get(userConditionId) ?? null,
+      sleepHours: sleepOption !== undefined ? SLEEP_OPTION_HOURS[Math.round(sleepOption)] ?? null : null,
+      stress: stress ?? null,
+      cyclePhase: cycleModel ? cycleDayFor(cycleModel, date, endDate)?.phase ?? null : null,
+      baseline: baseline?.mean ?? null,
+      anomaly: baseline?.anomaly ? (baseline.value > (baseline.mean ?? 0) ? 'high' : 'low') : null,
+    });
+  }
+
+  return { startDate, endDate, days, hasCycle: !!cycleModel };
+}
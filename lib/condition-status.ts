@@ -0,0 +1,118 @@
+import { supabase } from './supabase';
+import { parseISODate, toLocalISODate, todayISODate } from './dates';
+import {
+  ConditionStatus,
+  ConditionStatusEvent,
+  ConditionTimelineStatus,
+  UserCondition,
+} from './types';
+
+/**
+ * Status changes are written here rather than straight to `user_conditions`
+ * so each one also lands in `condition_status_events`; the RPCs update the
+ * condition and record the event in one transaction. Archiving (resolving)
+ * a condition hides it from logging without touching its logs.
+ */
+
+export interface StatusChangeInput {
+  // the day the change happened; defaults to today
+  changedOn?: string;
+  note?: string | null;
+}
+
+export const TIMELINE_STATUS_LABELS: Record<ConditionTimelineStatus, string> = {
+  diagnosed: 'Diagnosed',
+  likely: 'Likely',
+  exploring: 'Exploring',
+  monitoring: 'Monitoring',
+  resolved: 'Resolved',
+};
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** A YYYY-MM-DD date that exists and isn't in the future. */
+export function isValidChangeDate(date: string, today: string = todayISODate()) {
+  if (!ISO_DATE_PATTERN.test(date)) return false;
+  // the round trip rejects rollovers like 2026-02-31
+  return toLocalISODate(parseISODate(date)) === date && date <= today;
+}
+
+export async function fetchStatusEvents(userConditionId: string): Promise<ConditionStatusEvent[]> {
+  const { data, error } = await supabase
+    .from('condition_status_events')
+    .select('*')
+    .eq('user_condition_id', userConditionId)
+    .order('changed_on', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  return (data ?? []) as ConditionStatusEvent[];
+}
+
+export async function recordStatusEvent(
+  userId: string,
+  userConditionId: string,
+  status: ConditionTimelineStatus,
+  previousStatus: ConditionTimelineStatus | null,
+  { changedOn, note }: StatusChangeInput = {}
+) {
+  const { error } = await supabase.from('condition_status_events').insert({
+    user_id: userId,
+    user_condition_id: userConditionId,
+    status,
+    previous_status: previousStatus,
+    changed_on: changedOn ?? todayISODate(),
+    note: note?.trim() || null,
+  });
+
+  if (error) throw error;
+}
+
+/** Updates the signed-in user's condition status and records the change. Saving the same status is a no-op. */
+export async function changeConditionStatus(
+  condition: Pick<UserCondition, 'id' | 'status'>,
+  status: ConditionStatus,
+  { changedOn, note }: StatusChangeInput = {}
+) {
+  if (status === condition.status) return;
+
+  const { error } = await supabase.rpc('change_condition_status', {
+    p_user_condition_id: condition.id,
+    p_status: status,
+    p_changed_on: changedOn ?? todayISODate(),
+    p_note: note?.trim() || null,
+  });
+
+  if (error) throw error;
+}
+
+async function setConditionArchived(
+  conditionId: string,
+  archived: boolean,
+  { changedOn, note }: StatusChangeInput
+) {
+  const { error } = await supabase.rpc('set_condition_archived', {
+    p_user_condition_id: conditionId,
+    p_archived: archived,
+    p_changed_on: changedOn ?? todayISODate(),
+    p_note: note?.trim() || null,
+  });
+
+  if (error) throw error;
+}
+
+export function archiveCondition(
+  condition: Pick<UserCondition, 'id'>,
+  input: StatusChangeInput = {}
+) {
+  return setConditionArchived(condition.id, true, input);
+}
+
+/** Brings an archived condition back with the status it had before. */
+export function restoreCondition(
+  condition: Pick<UserCondition, 'id'>,
+  input: StatusChangeInput = {}
+) {
+  return setConditionArchived(condition.id, false, input);
+}
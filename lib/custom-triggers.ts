@@ -0,0 +1,237 @@
+import { supabase } from './supabase';
+import { Trigger } from './trigger-types';
+import { MAX_MULTI_SELECT_OPTIONS } from './trigger-values';
+
+/**
+ * Triggers a user defines themselves. They're ordinary rows in `triggers`
+ * with `owner_user_id` set, so logging, correlations, exports and insights
+ * pick them up without special cases.
+ */
+
+export type CustomTriggerInputType = Trigger['input_type'];
+
+export interface CustomTriggerInput {
+  label: string;
+  // a TRIGGER_CATEGORIES key or any custom category text
+  category: string;
+  input_type: CustomTriggerInputType;
+  // enum/multi-select choices, in order; logged values are indexes into this list
+  options: string[];
+  // scale range is always 0..scaleMax
+  scaleMax: number;
+  scaleMinLabel: string;
+  scaleMaxLabel: string;
+  // numeric only
+  unit: string;
+  numericMin: number | null;
+  numericMax: number | null;
+  parent_trigger_id: string | null;
+}
+
+export const SCALE_MAX_CHOICES = [3, 5, 10];
+
+export const EMPTY_CUSTOM_TRIGGER: CustomTriggerInput = {
+  label: '',
+  category: 'lifestyle',
+  input_type: 'binary',
+  options: [],
+  scaleMax: 5,
+  scaleMinLabel: '',
+  scaleMaxLabel: '',
+  unit: '',
+  numericMin: null,
+  numericMax: null,
+  parent_trigger_id: null,
+};
+
+function hasOptions(type: CustomTriggerInputType) {
+  return type === 'enum' || type === 'multi_select';
+}
+
+export function isCustomTrigger(trigger: Pick<Trigger, 'owner_user_id'>) {
+  return !!trigger.owner_user_id;
+}
+
+/** The form values for an existing custom trigger. */
+export function customTriggerToInput(trigger: Trigger): CustomTriggerInput {
+  const labels = trigger.options_json?.labels ?? {};
+  const scaleMax = trigger.options_json?.max ?? 5;
+  return {
+    label: trigger.label,
+    category: trigger.category,
+    input_type: trigger.input_type,
+    options: trigger.options_json?.options ?? [],
+    scaleMax,
+    scaleMinLabel: labels['0'] ?? '',
+    scaleMaxLabel: labels[String(scaleMax)] ?? '',
+    unit: trigger.options_json?.unit ?? '',
+    numericMin: trigger.input_type === 'numeric' ? trigger.options_json?.min ?? null : null,
+    numericMax: trigger.input_type === 'numeric' ? trigger.options_json?.max ?? null : null,
+    parent_trigger_id: trigger.parent_trigger_id,
+  };
+}
+
+function buildOptionsJson(input: CustomTriggerInput): Trigger['options_json'] {
+  if (hasOptions(input.input_type)) {
+    return { options: input.options.map((o) => o.trim()) };
+  }
+  if (input.input_type === 'scale') {
+    const labels: Record<string, string> = {};
+    if (input.scaleMinLabel.trim()) labels['0'] = input.scaleMinLabel.trim();
+    if (input.scaleMaxLabel.trim()) labels[String(input.scaleMax)] = input.scaleMaxLabel.trim();
+    return { min: 0, max: input.scaleMax, labels };
+  }
+  if (input.input_type === 'numeric') {
+    const json: Trigger['options_json'] = {};
+    if (input.unit.trim()) json.unit = input.unit.trim();
+    if (input.numericMin !== null) json.min = input.numericMin;
+    if (input.numericMax !== null) json.max = input.numericMax;
+    return json;
+  }
+  if (input.input_type === 'binary') return { options: ['No', 'Yes'] };
+  return {};
+}
+
+/**
+ * Returns a message describing what's wrong with the input, or null if it
+ * can be saved. Logged values are stored by index/number, so an existing
+ * trigger can't change type, drop options or shrink its scale.
+ */
+export function validateCustomTrigger(input: CustomTriggerInput, existing?: Trigger): string | null {
+  if (!input.label.trim()) return 'Give the trigger a name.';
+  if (!input.category.trim()) return 'Choose or enter a category.';
+
+  if (hasOptions(input.input_type)) {
+    const options = input.options.map((o) => o.trim());
+    if (options.length < 2) return 'Add at least two options.';
+    if (input.input_type === 'multi_select' && options.length > MAX_MULTI_SELECT_OPTIONS) {
+      return `Up to ${MAX_MULTI_SELECT_OPTIONS} options.`;
+    }
+    if (options.some((o) => !o)) return "Options can't be blank.";
+    if (new Set(options.map((o) => o.toLowerCase())).size !== options.length) {
+      return 'Options must be different from each other.';
+    }
+  }
+
+  if (
+    input.input_type === 'numeric' &&
+    input.numericMin !== null &&
+    input.numericMax !== null &&
+    input.numericMin >= input.numericMax
+  ) {
+    return 'The maximum has to be larger than the minimum.';
+  }
+
+  if (existing) {
+    if (existing.input_type !== input.input_type) {
+      return "The type of a trigger can't change once it has been created.";
+    }
+    if (hasOptions(input.input_type) && input.options.length < (existing.options_json?.options?.length ?? 0)) {
+      return "Options can't be removed once created, since past logs refer to them.";
+    }
+    if (input.input_type === 'scale' && input.scaleMax < (existing.options_json?.max ?? 5)) {
+      return "The scale can't get shorter once created, since past logs may use higher values.";
+    }
+  }
+
+  return null;
+}
+
+function slugify(label: string) {
+  return (
+    label
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '_')
+      .replace(/^_+|_+$/g, '')
+      .slice(0, 32) || 'trigger'
+  );
+}
+
+// keys are unique across every user's triggers, hence the random suffix
+export function customTriggerKey(label: string) {
+  return `custom_${slugify(label)}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/** Creates the trigger and switches it on for the user. */
+export async function createCustomTrigger(userId: string, input: CustomTriggerInput): Promise<Trigger> {
+  const { data, error } = await supabase
+    .from('triggers')
+    .insert({
+      key: customTriggerKey(input.label),
+      label: input.label.trim(),
+      category: input.category.trim(),
+      input_type: input.input_type,
+      options_json: buildOptionsJson(input),
+      parent_trigger_id: input.parent_trigger_id,
+      owner_user_id: userId,
+      is_active: true,
+      sort_order: 1000,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  const { error: utErr } = await supabase.from('user_triggers').upsert(
+    {
+      user_id: userId,
+      trigger_id: data.id,
+      enabled: true,
+      sort_order: 0,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: 'user_id,trigger_id' }
+  );
+
+  if (utErr) throw utErr;
+
+  return data as Trigger;
+}
+
+export async function updateCustomTrigger(userId: string, id: string, input: CustomTriggerInput) {
+  const { error } = await supabase
+    .from('triggers')
+    .update({
+      label: input.label.trim(),
+      category: input.category.trim(),
+      options_json: buildOptionsJson(input),
+      parent_trigger_id: input.parent_trigger_id,
+    })
+    .eq('id', id)
+    .eq('owner_user_id', userId);
+
+  if (error) throw error;
+}
+
+/**
+ * Retires a custom trigger (and any custom children under it). The rows are
+ * kept inactive so values already logged against them still show up in
+ * history and insights.
+ */
+export async function removeCustomTrigger(userId: string, id: string) {
+  const { data: children, error: childErr } = await supabase
+    .from('triggers')
+    .select('id')
+    .eq('parent_trigger_id', id)
+    .eq('owner_user_id', userId);
+
+  if (childErr) throw childErr;
+
+  const ids = [id, ...(children ?? []).map((c) => c.id)];
+
+  const { error } = await supabase
+    .from('triggers')
+    .update({ is_active: false })
+    .in('id', ids)
+    .eq('owner_user_id', userId);
+
+  if (error) throw error;
+
+  const { error: utErr } = await supabase
+    .from('user_triggers')
+    .update({ enabled: false, updated_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .in('trigger_id', ids);
+
+  if (utErr) throw utErr;
+}
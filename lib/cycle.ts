@@ -0,0 +1,331 @@
+import { supabase } from './supabase';
+import { addDays, daysBetween, todayISODate } from './dates';
+import { buildDays } from './trigger-correlations';
+import { compareGroups, excludesZero, GroupComparison, mean } from './stats';
+
+/**
+ * Period starts are derived from days logged with the `on_period` trigger
+ * (daily check-ins or moment logs); nothing cycle-specific is stored. Phases
+ * use the usual calendar model: ovulation ~14 days before the next period,
+ * a fertile window from 5 days before ovulation to the day after, and the
+ * luteal phase from then until the next period.
+ */
+
+export type CyclePhase = 'menstrual' | 'follicular' | 'fertile' | 'luteal';
+
+export const CYCLE_PHASES: { phase: CyclePhase; label: string }[] = [
+  { phase: 'menstrual', label: 'Period' },
+  { phase: 'follicular', label: 'Follicular' },
+  { phase: 'fertile', label: 'Fertile window' },
+  { phase: 'luteal', label: 'Luteal' },
+];
+
+export const ON_PERIOD_TRIGGER_KEY = 'on_period';
+
+const DEFAULT_CYCLE_LENGTH = 28;
+const DEFAULT_PERIOD_LENGTH = 5;
+// gaps between period starts outside this range are treated as missed logging, not a cycle
+const MIN_CYCLE_LENGTH = 15;
+const MAX_CYCLE_LENGTH = 60;
+// cycle length is averaged over this many recent cycles
+const RECENT_CYCLES = 6;
+// period days this close together belong to the same period (one unlogged day in between)
+const PERIOD_GAP_TOLERANCE_DAYS = 2;
+const LUTEAL_LENGTH = 14;
+const FERTILE_DAYS_BEFORE_OVULATION = 5;
+const PREDICTED_CYCLES = 3;
+const CYCLE_LOOKBACK_DAYS = 365;
+// each phase needs this many rated days before it is compared with the rest of the cycle
+const MIN_PHASE_DAYS = 3;
+
+export interface PeriodRun {
+  start: string;
+  end: string;
+}
+
+export interface CycleModel {
+  periods: PeriodRun[];
+  // observed lengths between consecutive period starts, oldest first
+  cycleLengths: number[];
+  averageCycleLength: number;
+  averagePeriodLength: number;
+  // upcoming period starts, the first of which is the next expected period
+  predictedStarts: string[];
+}
+
+export interface CycleDayInfo {
+  cycleDay: number;
+  phase: CyclePhase;
+  // true when the day is in the future or in a predicted cycle
+  predicted: boolean;
+}
+
+export interface PhaseSeverity {
+  phase: CyclePhase;
+  days: number;
+  mean: number | null;
+}
+
+export interface ConditionPhaseSeverity {
+  userConditionId: string;
+  conditionName: string;
+  phases: PhaseSeverity[];
+  // phase whose severity differs most from the rest of the cycle, if its interval excludes zero
+  standout: { phase: CyclePhase; comparison: GroupComparison } | null;
+}
+
+export interface CycleInsights {
+  model: CycleModel | null;
+  conditions: ConditionPhaseSeverity[];
+}
+
+export function phaseLabel(phase: CyclePhase) {
+  return CYCLE_PHASES.find((p) => p.phase === phase)?.label ?? phase;
+}
+
+/** Groups logged period days into periods, tolerating a single unlogged day in between. */
+export function periodRuns(periodDates: string[]): PeriodRun[] {
+  const dates = Array.from(new Set(periodDates)).sort();
+  const runs: PeriodRun[] = [];
+
+  for (const date of dates) {
+    const last = runs[runs.length - 1];
+    if (last && daysBetween(last.end, date) <= PERIOD_GAP_TOLERANCE_DAYS) {
+      last.end = date;
+    } else {
+      runs.push({ start: date, end: date });
+    }
+  }
+
+  return runs;
+}
+
+function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+export function buildCycleModel(periodDates: string[], today: string = todayISODate()): CycleModel | null {
+  const periods = periodRuns(periodDates.filter((d) => d <= today));
+  if (periods.length === 0) return null;
+
+  const cycleLengths: number[] = [];
+  for (let i = 1; i < periods.length; i++) {
+    const length = daysBetween(periods[i - 1].start, periods[i].start);
+    if (length >= MIN_CYCLE_LENGTH && length <= MAX_CYCLE_LENGTH) cycleLengths.push(length);
+  }
+
+  const recent = cycleLengths.slice(-RECENT_CYCLES);
+  const averageCycleLength = recent.length > 0 ? Math.round(mean(recent)) : DEFAULT_CYCLE_LENGTH;
+
+  // the latest period may still be going, so it doesn't count towards the usual length
+  const finished = periods.filter((p) => p.end < addDays(today, -1));
+  const averagePeriodLength =
+    finished.length > 0
+      ? Math.min(10, Math.max(2, Math.round(median(finished.map((p) => daysBetween(p.start, p.end) + 1)))))
+      : DEFAULT_PERIOD_LENGTH;
+
+  // A late period rolls the prediction forward rather than predicting a date already past.
+  const lastStart = periods[periods.length - 1].start;
+  const predictedStarts: string[] = [];
+  for (let k = 1; predictedStarts.length < PREDICTED_CYCLES; k++) {
+    const start = addDays(lastStart, k * averageCycleLength);
+    if (addDays(start, averagePeriodLength - 1) >= today) predictedStarts.push(start);
+  }
+
+  return { periods, cycleLengths, averageCycleLength, averagePeriodLength, predictedStarts };
+}
+
+/** Cycle day (1 = first day of the period) and phase for a date, or null outside the modelled range. */
+export function cycleDayFor(
+  model: CycleModel,
+  date: string,
+  today: string = todayISODate()
+): CycleDayInfo | null {
+  const starts = [
+    ...model.periods.map((p) => ({ start: p.start, run: p as PeriodRun | null })),
+    ...model.predictedStarts.map((start) => ({ start, run: null })),
+  ];
+
+  let index = -1;
+  for (let i = 0; i < starts.length; i++) {
+    if (starts[i].start <= date) index = i;
+  }
+  if (index === -1) return null;
+
+  const { start, run } = starts[index];
+  const next = starts[index + 1]?.start ?? null;
+  const cycleLength = next ? daysBetween(start, next) : model.averageCycleLength;
+  const cycleDay = daysBetween(start, date) + 1;
+  if (cycleDay > cycleLength) return null;
+
+  const predicted = !run || date > today;
+  const ovulationDay = cycleLength - LUTEAL_LENGTH;
+
+  let phase: CyclePhase;
+  if (run && date <= run.end) phase = 'menstrual';
+  else if ((!run || (date > today && run.end >= addDays(today, -1))) && cycleDay <= model.averagePeriodLength)
+    phase = 'menstrual';
+  else if (cycleDay >= ovulationDay - FERTILE_DAYS_BEFORE_OVULATION && cycleDay <= ovulationDay + 1)
+    phase = 'fertile';
+  else if (cycleDay > ovulationDay + 1) phase = 'luteal';
+  else phase = 'follicular';
+
+  return { cycleDay, phase, predicted };
+}
+
+/** Days until the next expected period; 0 while a predicted period is due today or under way. */
+export function daysUntilNextPeriod(model: CycleModel, today: string = todayISODate()) {
+  const next = model.predictedStarts[0];
+  return next ? Math.max(0, daysBetween(today, next)) : null;
+}
+
+async function fetchOnPeriodTriggerId() {
+  const { data, error } = await supabase
+    .from('triggers')
+    .select('id')
+    .eq('key', ON_PERIOD_TRIGGER_KEY)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return (data?.id as string | undefined) ?? null;
+}
+
+/** Dates logged with "On Period" = Yes in either a daily check-in or a moment log. */
+export async function fetchPeriodDates(userId: string, startDate: string, endDate: string) {
+  const triggerId = await fetchOnPeriodTriggerId();
+  if (!triggerId) return [];
+
+  const [dailyRes, momentRes] = await Promise.all([
+    supabase
+      .from('daily_logs')
+      .select('date, daily_log_triggers!inner(trigger_id, value)')
+      .eq('user_id', userId)
+      .eq('daily_log_triggers.trigger_id', triggerId)
+      .gte('date', startDate)
+      .lte('date', endDate),
+    supabase
+      .from('moment_logs')
+      .select('date, moment_log_triggers!inner(trigger_id, value)')
+      .eq('user_id', userId)
+      .eq('moment_log_triggers.trigger_id', triggerId)
+      .gte('date', startDate)
+      .lte('date', endDate),
+  ]);
+
+  if (dailyRes.error) throw dailyRes.error;
+  if (momentRes.error) throw momentRes.error;
+
+  const dates = new Set<string>();
+  for (const log of dailyRes.data ?? []) {
+    if ((log.daily_log_triggers as any[]).some((t) => Number(t.value) === 1)) dates.add(log.date);
+  }
+  for (const log of momentRes.data ?? []) {
+    if ((log.moment_log_triggers as any[]).some((t) => Number(t.value) === 1)) dates.add(log.date);
+  }
+
+  return Array.from(dates).sort();
+}
+
+export async function fetchCycleModel(userId: string) {
+  const today = todayISODate();
+  const periodDates = await fetchPeriodDates(userId, addDays(today, -CYCLE_LOOKBACK_DAYS), today);
+  return buildCycleModel(periodDates, today);
+}
+
+/**
+ * Mean severity per cycle phase for every tracked condition. Only completed
+ * cycles (between two logged period starts) are used, so phases never rest
+ * on a prediction; a phase is flagged when its days differ from the rest of
+ * the cycle with an interval that excludes zero. The interval is 95% widened
+ * for the number of phases tested, since the standout is the best of them.
+ */
+export function computePhaseSeverity(
+  model: CycleModel,
+  userConditions: any[],
+  dailyLogs: any[],
+  momentLogs: any[],
+  today: string = todayISODate()
+): ConditionPhaseSeverity[] {
+  const days = buildDays(dailyLogs, momentLogs, new Map());
+  const lastStart = model.periods[model.periods.length - 1].start;
+
+  const phaseByDate = new Map<string, CyclePhase>();
+  days.forEach((_, date) => {
+    if (date >= lastStart) return;
+    const info = cycleDayFor(model, date, today);
+    if (info) phaseByDate.set(date, info.phase);
+  });
+
+  return userConditions.map((uc) => {
+    const byPhase = new Map<CyclePhase, number[]>(CYCLE_PHASES.map((p) => [p.phase, []]));
+    days.forEach((day, date) => {
+      const phase = phaseByDate.get(date);
+      const severity = day.severities.get(uc.id);
+      if (!phase || severity === undefined) return;
+      byPhase.get(phase)!.push(severity);
+    });
+
+    const tested = CYCLE_PHASES.filter((p) => byPhase.get(p.phase)!.length >= MIN_PHASE_DAYS);
+    let standout: ConditionPhaseSeverity['standout'] = null;
+    for (const { phase } of tested) {
+      const inPhase = byPhase.get(phase)!;
+      const rest = CYCLE_PHASES.filter((p) => p.phase !== phase).flatMap((p) => byPhase.get(p.phase)!);
+      const comparison = compareGroups(inPhase, rest, tested.length);
+      if (!comparison || !excludesZero(comparison.differenceInterval)) continue;
+      if (!standout || Math.abs(comparison.difference) > Math.abs(standout.comparison.difference)) {
+        standout = { phase, comparison };
+      }
+    }
+
+    return {
+      userConditionId: uc.id,
+      conditionName: uc.custom_label || uc.condition?.name || 'Unnamed condition',
+      phases: CYCLE_PHASES.map(({ phase }) => {
+        const values = byPhase.get(phase)!;
+        return { phase, days: values.length, mean: values.length > 0 ? mean(values) : null };
+      }),
+      standout,
+    };
+  });
+}
+
+export async function fetchCycleInsights(userId: string, days: number = 180): Promise<CycleInsights> {
+  const endDate = todayISODate();
+  const startDate = addDays(endDate, -(days - 1));
+
+  const model = await fetchCycleModel(userId);
+  if (!model) return { model: null, conditions: [] };
+
+  const [ucRes, dailyRes, momentRes] = await Promise.all([
+    supabase
+      .from('user_conditions')
+      .select('id, custom_label, condition:conditions(name)')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true }),
+    supabase
+      .from('daily_logs')
+      .select('date, daily_log_conditions(user_condition_id, severity)')
+      .eq('user_id', userId)
+      .gte('date', startDate)
+      .lte('date', endDate),
+    supabase
+      .from('moment_logs')
+      .select('date, timestamp, moment_log_conditions(user_condition_id, severity)')
+      .eq('user_id', userId)
+      .gte('date', startDate)
+      .lte('date', endDate)
+      .order('timestamp', { ascending: true }),
+  ]);
+
+  if (ucRes.error) throw ucRes.error;
+  if (dailyRes.error) throw dailyRes.error;
+  if (momentRes.error) throw momentRes.error;
+
+  return {
+    model,
+    conditions: computePhaseSeverity(model, ucRes.data ?? [], dailyRes.data ?? [], momentRes.data ?? []),
+  };
+}
@@ -0,0 +1,419 @@
+import { Platform } from 'react-native';
+import { File, Paths } from 'expo-file-system';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { supabase } from './supabase';
+import {
+  DailyLog,
+  DailyLogCondition,
+  DailyLogSubSymptom,
+  MomentLog,
+  MomentLogCondition,
+  MomentLogSubSymptom,
+  SubSymptom,
+  UserCondition,
+  UserPreferences,
+} from './types';
+import { DailyLogTrigger, MomentLogTrigger, Trigger, TriggerLogValue, UserTrigger } from './trigger-types';
+import { formatTriggerValue } from './trigger-values';
+import { addDays, todayISODate } from './dates';
+
+export type ExportFormat = 'csv' | 'json' | 'pdf';
+
+export const EXPORT_ARCHIVE_VERSION = 1;
+
+export interface ExportRange {
+  startDate: string;
+  endDate: string;
+}
+
+export const EXPORT_RANGE_PRESETS = [
+  { label: 'Last 30 days', days: 30 },
+  { label: 'Last 90 days', days: 90 },
+  { label: 'Last year', days: 365 },
+  { label: 'All time', days: null },
+] as const;
+
+// sub-symptoms are exported as their own table
+export type ExportedUserCondition = Omit<UserCondition, 'sub_symptoms'>;
+
+export interface ExportArchive {
+  version: number;
+  exported_at: string;
+  range: ExportRange;
+  user_id: string;
+  user_conditions: ExportedUserCondition[];
+  sub_symptoms: SubSymptom[];
+  triggers: Trigger[];
+  user_triggers: UserTrigger[];
+  preferences: UserPreferences | null;
+  daily_logs: DailyLog[];
+  daily_log_conditions: DailyLogCondition[];
+  daily_log_sub_symptoms: DailyLogSubSymptom[];
+  daily_log_triggers: DailyLogTrigger[];
+  moment_logs: MomentLog[];
+  moment_log_conditions: MomentLogCondition[];
+  moment_log_sub_symptoms: MomentLogSubSymptom[];
+  moment_log_triggers: MomentLogTrigger[];
+}
+
+export function getExportRange(days: number | null): ExportRange {
+  const endDate = todayISODate();
+  if (days === null) {
+    return { startDate: '1970-01-01', endDate };
+  }
+
+  return { startDate: addDays(endDate, -(days - 1)), endDate };
+}
+
+export async function fetchExportArchive(
+  userId: string,
+  range: ExportRange
+): Promise<ExportArchive> {
+  const { data: userConditions, error: ucErr } = await supabase
+    .from('user_conditions')
+    .select('*, condition:conditions(*), sub_symptoms(*)')
+    .eq('user_id', userId);
+  if (ucErr) throw ucErr;
+
+  const { data: dailyLogs, error: dlErr } = await supabase
+    .from('daily_logs')
+    .select('*, daily_log_conditions(*), daily_log_sub_symptoms(*), daily_log_triggers(*)')
+    .eq('user_id', userId)
+    .gte('date', range.startDate)
+    .lte('date', range.endDate)
+    .order('date', { ascending: true });
+  if (dlErr) throw dlErr;
+
+  const { data: momentLogs, error: mlErr } = await supabase
+    .from('moment_logs')
+    .select('*, moment_log_conditions(*), moment_log_sub_symptoms(*), moment_log_triggers(*)')
+    .eq('user_id', userId)
+    .gte('date', range.startDate)
+    .lte('date', range.endDate)
+    .order('timestamp', { ascending: true });
+  if (mlErr) throw mlErr;
+
+  const { data: triggers, error: tErr } = await supabase
+    .from('triggers')
+    .select('*')
+    .order('sort_order');
+  if (tErr) throw tErr;
+
+  const { data: userTriggers, error: utErr } = await supabase
+    .from('user_triggers')
+    .select('*')
+    .eq('user_id', userId);
+  if (utErr) throw utErr;
+
+  const { data: preferences, error: prefErr } = await supabase
+    .from('user_preferences')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (prefErr) throw prefErr;
+
+  // split nested rows back into flat tables so the archive mirrors the schema
+  const conditions: ExportedUserCondition[] = (userConditions ?? []).map(
+    ({ sub_symptoms, ...uc }) => uc
+  );
+  const subSymptoms: SubSymptom[] = (userConditions ?? []).flatMap((uc) => uc.sub_symptoms ?? []);
+
+  const daily: DailyLog[] = (dailyLogs ?? []).map(
+    ({ daily_log_conditions, daily_log_sub_symptoms, daily_log_triggers, ...log }) => log
+  );
+  const moment: MomentLog[] = (momentLogs ?? []).map(
+    ({ moment_log_conditions, moment_log_sub_symptoms, moment_log_triggers, ...log }) => log
+  );
+
+  return {
+    version: EXPORT_ARCHIVE_VERSION,
+    exported_at: new Date().toISOString(),
+    range,
+    user_id: userId,
+    user_conditions: conditions,
+    sub_symptoms: subSymptoms,
+    triggers: (triggers ?? []) as Trigger[],
+    user_triggers: (userTriggers ?? []) as UserTrigger[],
+    preferences: preferences ?? null,
+    daily_logs: daily,
+    daily_log_conditions: (dailyLogs ?? []).flatMap((l) => l.daily_log_conditions ?? []),
+    daily_log_sub_symptoms: (dailyLogs ?? []).flatMap((l) => l.daily_log_sub_symptoms ?? []),
+    daily_log_triggers: (dailyLogs ?? []).flatMap((l) => l.daily_log_triggers ?? []),
+    moment_logs: moment,
+    moment_log_conditions: (momentLogs ?? []).flatMap((l) => l.moment_log_conditions ?? []),
+    moment_log_sub_symptoms: (momentLogs ?? []).flatMap((l) => l.moment_log_sub_symptoms ?? []),
+    moment_log_triggers: (momentLogs ?? []).flatMap((l) => l.moment_log_triggers ?? []),
+  };
+}
+
+export function conditionName(uc: ExportedUserCondition | undefined): string {
+  return uc?.custom_label || uc?.condition?.name || 'Unnamed condition';
+}
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const str = String(value);
+  if (/[",\n\r]/.test(str)) {
+    return `"${str.replace(/"/g, '""')}"`;
+  }
+  return str;
+}
+
+/**
+ * One row per daily or moment log, with a column per tracked condition and
+ * per logged trigger, so the file loads straight into a spreadsheet or dataframe.
+ */
+export function buildCsv(archive: ExportArchive): string {
+  const triggersById = new Map(archive.triggers.map((t) => [t.id, t]));
+
+  const loggedTriggerIds = new Set([
+    ...archive.daily_log_triggers.map((t) => t.trigger_id),
+    ...archive.moment_log_triggers.map((t) => t.trigger_id),
+  ]);
+  const triggerColumns = archive.triggers.filter((t) => loggedTriggerIds.has(t.id));
+
+  const header = [
+    'log_type',
+    'date',
+    'timestamp',
+    'overall_severity',
+    'mood_tag',
+    'activity',
+    'notes',
+    ...archive.user_conditions.map((uc) => `condition: ${conditionName(uc)}`),
+    ...triggerColumns.map((t) => `trigger: ${t.label}`),
+  ];
+
+  const rowFor = (
+    type: 'daily' | 'moment',
+    log: DailyLog | MomentLog,
+    conditionRows: (DailyLogCondition | MomentLogCondition)[],
+    triggerRows: TriggerLogValue[]
+  ) => {
+    const severities = new Map(conditionRows.map((c) => [c.user_condition_id, c.severity]));
+    const values = new Map(
+      triggerRows.map((t) => [t.trigger_id, formatTriggerValue(triggersById.get(t.trigger_id), t)])
+    );
+
+    return [
+      type,
+      log.date,
+      'timestamp' in log ? log.timestamp : log.created_at,
+      log.overall_severity,
+      'mood_tag' in log ? log.mood_tag ?? '' : '',
+      'activity' in log ? log.activity ?? '' : '',
+      log.notes ?? '',
+      ...archive.user_conditions.map((uc) => severities.get(uc.id) ?? ''),
+      ...triggerColumns.map((t) => values.get(t.id) ?? ''),
+    ];
+  };
+
+  const rows = [
+    ...archive.daily_logs.map((log) =>
+      rowFor(
+        'daily',
+        log,
+        archive.daily_log_conditions.filter((c) => c.daily_log_id === log.id),
+        archive.daily_log_triggers.filter((t) => t.daily_log_id === log.id)
+      )
+    ),
+    ...archive.moment_logs.map((log) =>
+      rowFor(
+        'moment',
+        log,
+        archive.moment_log_conditions.filter((c) => c.moment_log_id === log.id),
+        archive.moment_log_triggers.filter((t) => t.moment_log_id === log.id)
+      )
+    ),
+  ].sort((a, b) => `${a[1]} ${a[2]}`.localeCompare(`${b[1]} ${b[2]}`));
+
+  return [header, ...rows].map((r) => r.map(csvCell).join(',')).join('\n');
+}
+
+export function buildJsonArchive(archive: ExportArchive): string {
+  return JSON.stringify(archive, null, 2);
+}
+
+function escapeHtml(str: string) {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function average(values: number[]) {
+  if (values.length === 0) return null;
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function formatAvg(value: number | null) {
+  return value === null ? '–' : value.toFixed(1);
+}
+
+/**
+ * Printable summary for appointments: per-condition severity stats, the most
+ * frequently logged triggers, and a day-by-day table with notes.
+ */
+export function buildClinicianHtml(archive: ExportArchive): string {
+  const triggersById = new Map(archive.triggers.map((t) => [t.id, t]));
+  const subSymptomsByCondition = new Map<string, string[]>();
+  for (const s of archive.sub_symptoms) {
+    const list = subSymptomsByCondition.get(s.user_condition_id) ?? [];
+    list.push(s.name);
+    subSymptomsByCondition.set(s.user_condition_id, list);
+  }
+
+  const conditionRows = archive.user_conditions
+    .map((uc) => {
+      const severities = [...archive.daily_log_conditions, ...archive.moment_log_conditions]
+        .filter((c) => c.user_condition_id === uc.id && c.severity !== null)
+        .map((c) => c.severity as number);
+
+      return `<tr>
+        <td>${escapeHtml(conditionName(uc))}</td>
+        <td>${escapeHtml(uc.status ?? '')}</td>
+        <td>${severities.length}</td>
+        <td>${formatAvg(average(severities))}</td>
+        <td>${severities.length ? Math.max(...severities) : '–'}</td>
+        <td>${escapeHtml((subSymptomsByCondition.get(uc.id) ?? []).join(', '))}</td>
+      </tr>`;
+    })
+    .join('');
+
+  const triggerCounts = new Map<string, number>();
+  for (const t of [...archive.daily_log_triggers, ...archive.moment_log_triggers]) {
+    if (t.value === null || t.value === 0) continue;
+    triggerCounts.set(t.trigger_id, (triggerCounts.get(t.trigger_id) ?? 0) + 1);
+  }
+  const triggerRows = [...triggerCounts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 10)
+    .map(
+      ([id, count]) =>
+        `<tr><td>${escapeHtml(triggersById.get(id)?.label ?? 'Unknown')}</td><td>${count}</td></tr>`
+    )
+    .join('');
+
+  const conditionsById = new Map(archive.user_conditions.map((uc) => [uc.id, uc]));
+  const dayRows = archive.daily_logs
+    .map((log) => {
+      const conds = archive.daily_log_conditions
+        .filter((c) => c.daily_log_id === log.id)
+        .map((c) => `${conditionName(conditionsById.get(c.user_condition_id))} ${c.severity ?? '–'}/10`)
+        .join(', ');
+      const moments = archive.moment_logs.filter((m) => m.date === log.date).length;
+
+      return `<tr>
+        <td>${log.date}</td>
+        <td>${log.overall_severity ?? '–'}</td>
+        <td>${escapeHtml(conds)}</td>
+        <td>${moments}</td>
+        <td>${escapeHtml(log.notes ?? '')}</td>
+      </tr>`;
+    })
+    .join('');
+
+  const overall = archive.daily_logs
+    .filter((l) => l.overall_severity !== null)
+    .map((l) => l.overall_severity as number);
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<title>My Body Told Me – Health Summary</title>
+<style>
+  body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #212121; padding: 24px; }
+  h1 { font-size: 22px; margin-bottom: 4px; }
+  h2 { font-size: 16px; margin-top: 28px; border-bottom: 1px solid #e0e0e0; padding-bottom: 4px; }
+  .meta { color: #757575; font-size: 12px; }
+  table { width: 100%; border-collapse: collapse; font-size: 12px; margin-top: 8px; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #eeeeee; vertical-align: top; }
+  th { background: #f5f5f5; }
+</style>
+</head>
+<body>
+  <h1>Health Summary</h1>
+  <div class="meta">${archive.range.startDate} to ${archive.range.endDate} · ${archive.daily_logs.length} daily logs · ${archive.moment_logs.length} moment logs · average overall severity ${formatAvg(average(overall))}/10</div>
+
+  <h2>Conditions</h2>
+  <table>
+    <tr><th>Condition</th><th>Status</th><th>Entries</th><th>Avg severity</th><th>Peak</th><th>Sub-symptoms</th></tr>
+    ${conditionRows || '<tr><td colspan="6">No conditions tracked</td></tr>'}
+  </table>
+
+  <h2>Most frequent triggers</h2>
+  <table>
+    <tr><th>Trigger</th><th>Times logged</th></tr>
+    ${triggerRows || '<tr><td colspan="2">No triggers logged</td></tr>'}
+  </table>
+
+  <h2>Daily log</h2>
+  <table>
+    <tr><th>Date</th><th>Overall</th><th>Conditions</th><th>Moments</th><th>Notes</th></tr>
+    ${dayRows || '<tr><td colspan="5">No daily logs in this range</td></tr>'}
+  </table>
+</body>
+</html>`;
+}
+
+function downloadOnWeb(content: string, filename: string, mimeType: string) {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+async function shareText(content: string, filename: string, mimeType: string) {
+  if (Platform.OS === 'web') {
+    downloadOnWeb(content, filename, mimeType);
+    return;
+  }
+
+  const file = new File(Paths.cache, filename);
+  file.create({ overwrite: true });
+  file.write(content);
+
+  await Sharing.shareAsync(file.uri, { mimeType, dialogTitle: filename });
+}
+
+export async function exportUserData(
+  userId: string,
+  format: ExportFormat,
+  range: ExportRange
+) {
+  const archive = await fetchExportArchive(userId, range);
+  const stamp = `${range.startDate}_${range.endDate}`;
+
+  if (format === 'csv') {
+    await shareText(buildCsv(archive), `my-body-told-me_${stamp}.csv`, 'text/csv');
+  } else if (format === 'json') {
+    await shareText(
+      buildJsonArchive(archive),
+      `my-body-told-me_${stamp}.json`,
+      'application/json'
+    );
+  } else {
+    const html = buildClinicianHtml(archive);
+    if (Platform.OS === 'web') {
+      await Print.printAsync({ html });
+    } else {
+      const { uri } = await Print.printToFileAsync({ html });
+      await Sharing.shareAsync(uri, {
+        mimeType: 'application/pdf',
+        UTI: 'com.adobe.pdf',
+        dialogTitle: 'Health Summary',
+      });
+    }
+  }
+
+  return {
+    dailyLogs: archive.daily_logs.length,
+    momentLogs: archive.moment_logs.length,
+  };
+}
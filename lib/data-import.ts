@@ -0,0 +1,480 @@
+import { Platform } from 'react-native';
+import { File } from 'expo-file-system';
+import * as DocumentPicker from 'expo-document-picker';
+import { supabase } from './supabase';
+import { ExportArchive, EXPORT_ARCHIVE_VERSION } from './data-export';
+import {
+  DailyLogCondition,
+  DailyLogSubSymptom,
+  MomentLogCondition,
+  MomentLogSubSymptom,
+  UserPreferences,
+} from './types';
+import { TriggerLogValue, UserTrigger } from './trigger-types';
+import { customTriggerKey } from './custom-triggers';
+import { generateLocalId, noteLogsWritten } from './log-outbox';
+
+export interface ImportCounts {
+  merged: number;
+  skipped: number;
+}
+
+export interface ImportReport {
+  conditions: ImportCounts;
+  subSymptoms: ImportCounts;
+  userTriggers: ImportCounts;
+  customTriggers: ImportCounts;
+  dailyLogs: ImportCounts;
+  momentLogs: ImportCounts;
+  // trigger values dropped because their trigger key doesn't exist in this project
+  unknownTriggerValues: number;
+  preferencesRestored: boolean;
+}
+
+const ARCHIVE_TABLES: (keyof ExportArchive)[] = [
+  'user_conditions',
+  'sub_symptoms',
+  'triggers',
+  'user_triggers',
+  'daily_logs',
+  'daily_log_conditions',
+  'daily_log_sub_symptoms',
+  'daily_log_triggers',
+  'moment_logs',
+  'moment_log_conditions',
+  'moment_log_sub_symptoms',
+  'moment_log_triggers',
+];
+
+export function parseImportArchive(text: string): ExportArchive {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not valid JSON.');
+  }
+
+  if (!parsed || typeof parsed !== 'object' || typeof parsed.version !== 'number') {
+    throw new Error('This file is not a My Body Told Me export.');
+  }
+
+  if (parsed.version > EXPORT_ARCHIVE_VERSION) {
+    throw new Error('This export was made by a newer version of the app. Please update first.');
+  }
+
+  for (const table of ARCHIVE_TABLES) {
+    if (parsed[table] === undefined) parsed[table] = [];
+    if (!Array.isArray(parsed[table])) {
+      throw new Error(`Export is missing a valid "${table}" list.`);
+    }
+  }
+
+  if (!parsed.range?.startDate || !parsed.range?.endDate) {
+    const dates = [...parsed.daily_logs, ...parsed.moment_logs]
+      .map((log: any) => log.date)
+      .filter(Boolean)
+      .sort();
+    parsed.range = {
+      startDate: dates[0] ?? '1970-01-01',
+      endDate: dates[dates.length - 1] ?? '1970-01-01',
+    };
+  }
+
+  return parsed as ExportArchive;
+}
+
+export async function pickImportFile(): Promise<string | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: 'application/json',
+    copyToCacheDirectory: true,
+  });
+
+  if (result.canceled || !result.assets?.length) return null;
+
+  const asset = result.assets[0];
+  if (Platform.OS === 'web') {
+    const response = await fetch(asset.uri);
+    return await response.text();
+  }
+
+  return await new File(asset.uri).text();
+}
+
+function stripRowMeta<T extends Record<string, any>>(row: T, extra: string[] = []) {
+  const copy: Record<string, any> = { ...row };
+  for (const key of ['id', 'user_id', 'created_at', ...extra]) delete copy[key];
+  return copy;
+}
+
+// rows for the import_archive RPC, already matched to this account
+interface ImportRows {
+  conditions: { id: string; name: string; description: string | null; is_cycle: boolean }[];
+  user_conditions: Record<string, unknown>[];
+  sub_symptoms: { id: string; user_condition_id: string; name: string }[];
+  triggers: Record<string, unknown>[];
+  user_triggers: Pick<UserTrigger, 'trigger_id' | 'enabled' | 'sort_order' | 'config_json'>[];
+  preferences: UserPreferences | null;
+  daily_logs: Record<string, unknown>[];
+  daily_log_conditions: (ImportConditionRow & { daily_log_id: string })[];
+  daily_log_sub_symptoms: (ImportSubSymptomRow & { daily_log_id: string })[];
+  daily_log_triggers: (ImportTriggerRow & { daily_log_id: string })[];
+  moment_logs: Record<string, unknown>[];
+  moment_log_conditions: (ImportConditionRow & { moment_log_id: string })[];
+  moment_log_sub_symptoms: (ImportSubSymptomRow & { moment_log_id: string })[];
+  moment_log_triggers: (ImportTriggerRow & { moment_log_id: string })[];
+}
+
+type ImportConditionRow = { user_condition_id: string; severity: number | null; notes: string | null };
+type ImportSubSymptomRow = { sub_symptom_id: string; severity: number | null };
+type ImportTriggerRow = { trigger_id: string; value: number | null; value_text: string | null };
+
+/**
+ * Merges an archive produced by `exportUserData(..., 'json', ...)` into the
+ * signed-in account. Conditions are matched by name and triggers by `key`, so
+ * archives move cleanly between Supabase projects; custom triggers that don't
+ * exist yet are recreated for the account. Existing data always wins:
+ * a daily log is skipped when the account already has one for that date, and a
+ * moment log when one exists with the same timestamp. The archive's
+ * preferences replace the account's current ones, so they are only restored
+ * when `restorePreferences` is set.
+ *
+ * Matching happens here; new rows get their ids up front and are written by
+ * the import_archive RPC in one transaction, so a failed import changes nothing.
+ */
+export async function importArchive(
+  userId: string,
+  archive: ExportArchive,
+  { restorePreferences = false }: { restorePreferences?: boolean } = {}
+): Promise<ImportReport> {
+  const report: ImportReport = {
+    conditions: { merged: 0, skipped: 0 },
+    subSymptoms: { merged: 0, skipped: 0 },
+    userTriggers: { merged: 0, skipped: 0 },
+    customTriggers: { merged: 0, skipped: 0 },
+    dailyLogs: { merged: 0, skipped: 0 },
+    momentLogs: { merged: 0, skipped: 0 },
+    unknownTriggerValues: 0,
+    preferencesRestored: false,
+  };
+
+  const rows: ImportRows = {
+    conditions: [],
+    user_conditions: [],
+    sub_symptoms: [],
+    triggers: [],
+    user_triggers: [],
+    preferences: null,
+    daily_logs: [],
+    daily_log_conditions: [],
+    daily_log_sub_symptoms: [],
+    daily_log_triggers: [],
+    moment_logs: [],
+    moment_log_conditions: [],
+    moment_log_sub_symptoms: [],
+    moment_log_triggers: [],
+  };
+
+  // --- conditions -> old user_condition id : new user_condition id
+  const { data: existingUCs, error: ucErr } = await supabase
+    .from('user_conditions')
+    .select('id, condition_id')
+    .eq('user_id', userId);
+  if (ucErr) throw ucErr;
+
+  const names = [
+    ...new Set(
+      archive.user_conditions
+        .map((uc) => uc.condition?.name ?? uc.custom_label)
+        .filter((name): name is string => !!name)
+    ),
+  ];
+  const { data: catalog, error: catErr } = names.length
+    ? await supabase.from('conditions').select('id, name').in('name', names)
+    : { data: [], error: null };
+  if (catErr) throw catErr;
+
+  const conditionIdByName = new Map((catalog ?? []).map((c) => [c.name, c.id]));
+  const ucByConditionId = new Map((existingUCs ?? []).map((uc) => [uc.condition_id, uc.id]));
+  const userConditionMap = new Map<string, string>();
+
+  for (const uc of archive.user_conditions) {
+    const name = uc.condition?.name ?? uc.custom_label;
+    if (!name) {
+      report.conditions.skipped++;
+      continue;
+    }
+
+    let conditionId = conditionIdByName.get(name);
+    if (!conditionId) {
+      conditionId = generateLocalId();
+      conditionIdByName.set(name, conditionId);
+      rows.conditions.push({
+        id: conditionId,
+        name,
+        description: uc.condition?.description ?? null,
+        is_cycle: !!(uc.is_cycle ?? uc.condition?.is_cycle),
+      });
+    }
+
+    const existingId = ucByConditionId.get(conditionId);
+    if (existingId) {
+      userConditionMap.set(uc.id, existingId);
+      report.conditions.skipped++;
+      continue;
+    }
+
+    const newId = generateLocalId();
+    rows.user_conditions.push({
+      ...stripRowMeta(uc, ['condition']),
+      id: newId,
+      condition_id: conditionId,
+    });
+    userConditionMap.set(uc.id, newId);
+    ucByConditionId.set(conditionId, newId);
+    report.conditions.merged++;
+  }
+
+  // --- sub-symptoms (matched by name within a condition)
+  const mappedUCIds = [...new Set(userConditionMap.values())];
+  const { data: existingSubs, error: subErr } = mappedUCIds.length
+    ? await supabase
+        .from('sub_symptoms')
+        .select('id, user_condition_id, name')
+        .in('user_condition_id', mappedUCIds)
+    : { data: [], error: null };
+  if (subErr) throw subErr;
+
+  const subKey = (ucId: string, name: string) => `${ucId}:${name.trim().toLowerCase()}`;
+  // this account's sub-symptom ids by key, so logged ratings follow
+  const subIdByKey = new Map(
+    (existingSubs ?? []).map((s) => [subKey(s.user_condition_id, s.name), s.id])
+  );
+
+  const subSymptomMap = new Map<string, string>();
+  for (const sub of archive.sub_symptoms) {
+    const ucId = userConditionMap.get(sub.user_condition_id);
+    if (!ucId) {
+      report.subSymptoms.skipped++;
+      continue;
+    }
+
+    const existingId = subIdByKey.get(subKey(ucId, sub.name));
+    if (existingId) {
+      subSymptomMap.set(sub.id, existingId);
+      report.subSymptoms.skipped++;
+      continue;
+    }
+
+    const newId = generateLocalId();
+    rows.sub_symptoms.push({ id: newId, user_condition_id: ucId, name: sub.name });
+    subIdByKey.set(subKey(ucId, sub.name), newId);
+    subSymptomMap.set(sub.id, newId);
+    report.subSymptoms.merged++;
+  }
+
+  // --- triggers: archive trigger id -> this project's trigger id, by key
+  const { data: targetTriggers, error: trigErr } = await supabase
+    .from('triggers')
+    .select('id, key, label, input_type, owner_user_id');
+  if (trigErr) throw trigErr;
+
+  const triggerIdByKey = new Map((targetTriggers ?? []).map((t) => [t.key, t.id]));
+  const triggerMap = new Map<string, string>();
+  for (const t of archive.triggers) {
+    const targetId = triggerIdByKey.get(t.key);
+    if (targetId) triggerMap.set(t.id, targetId);
+  }
+
+  // custom triggers the account doesn't have yet are recreated, parents first.
+  // Keys are project-wide, so one re-imported into another account gets a new
+  // key; matching on label and type keeps a second import from duplicating it.
+  const ownTriggerKey = (label: string, inputType: string) => `${label.trim().toLowerCase()}|${inputType}`;
+  const ownTriggerIds = new Map(
+    (targetTriggers ?? [])
+      .filter((t) => t.owner_user_id === userId)
+      .map((t) => [ownTriggerKey(t.label, t.input_type), t.id])
+  );
+  const customTriggers = archive.triggers
+    .filter((t) => t.owner_user_id && !triggerMap.has(t.id))
+    .sort((a, b) => Number(!!a.parent_trigger_id) - Number(!!b.parent_trigger_id));
+
+  for (const t of customTriggers) {
+    const existingId = ownTriggerIds.get(ownTriggerKey(t.label, t.input_type));
+    if (existingId) {
+      triggerMap.set(t.id, existingId);
+      report.customTriggers.skipped++;
+      continue;
+    }
+
+    const newId = generateLocalId();
+    rows.triggers.push({
+      id: newId,
+      key: customTriggerKey(t.label),
+      label: t.label,
+      category: t.category,
+      input_type: t.input_type,
+      options_json: t.options_json,
+      parent_trigger_id: t.parent_trigger_id ? triggerMap.get(t.parent_trigger_id) ?? null : null,
+      is_active: t.is_active,
+      sort_order: t.sort_order,
+    });
+    triggerMap.set(t.id, newId);
+    report.customTriggers.merged++;
+  }
+
+  const { data: existingUTs, error: utErr } = await supabase
+    .from('user_triggers')
+    .select('trigger_id')
+    .eq('user_id', userId);
+  if (utErr) throw utErr;
+
+  const existingTriggerIds = new Set((existingUTs ?? []).map((ut) => ut.trigger_id));
+  for (const ut of archive.user_triggers) {
+    const triggerId = triggerMap.get(ut.trigger_id);
+    if (!triggerId || existingTriggerIds.has(triggerId)) {
+      report.userTriggers.skipped++;
+      continue;
+    }
+    existingTriggerIds.add(triggerId);
+    rows.user_triggers.push({
+      trigger_id: triggerId,
+      enabled: ut.enabled,
+      sort_order: ut.sort_order,
+      config_json: ut.config_json,
+    });
+    report.userTriggers.merged++;
+  }
+
+  // --- preferences
+  if (restorePreferences && archive.preferences) {
+    rows.preferences = archive.preferences;
+    report.preferencesRestored = true;
+  }
+
+  const mapConditionRows = (logRows: (DailyLogCondition | MomentLogCondition)[]): ImportConditionRow[] =>
+    logRows.flatMap((c) => {
+      const ucId = userConditionMap.get(c.user_condition_id);
+      return ucId ? [{ user_condition_id: ucId, severity: c.severity, notes: c.notes ?? null }] : [];
+    });
+
+  const mapSubSymptomRows = (
+    logRows: (DailyLogSubSymptom | MomentLogSubSymptom)[]
+  ): ImportSubSymptomRow[] =>
+    logRows.flatMap((s) => {
+      const subId = subSymptomMap.get(s.sub_symptom_id);
+      return subId ? [{ sub_symptom_id: subId, severity: s.severity ?? null }] : [];
+    });
+
+  const mapTriggerRows = (logRows: TriggerLogValue[]): ImportTriggerRow[] =>
+    logRows.flatMap((t) => {
+      const triggerId = triggerMap.get(t.trigger_id);
+      if (!triggerId) {
+        report.unknownTriggerValues++;
+        return [];
+      }
+      return [{ trigger_id: triggerId, value: t.value, value_text: t.value_text ?? null }];
+    });
+
+  // --- daily logs (one per user per date, see daily_logs_user_id_date_key)
+  const { data: existingDaily, error: edErr } = await supabase
+    .from('daily_logs')
+    .select('date')
+    .eq('user_id', userId)
+    .gte('date', archive.range.startDate)
+    .lte('date', archive.range.endDate);
+  if (edErr) throw edErr;
+
+  const existingDates = new Set((existingDaily ?? []).map((l) => l.date));
+  for (const log of archive.daily_logs) {
+    if (existingDates.has(log.date)) {
+      report.dailyLogs.skipped++;
+      continue;
+    }
+    existingDates.add(log.date);
+
+    const dailyLogId = generateLocalId();
+    const conditions = archive.daily_log_conditions.filter((c) => c.daily_log_id === log.id);
+    const subSymptoms = archive.daily_log_sub_symptoms.filter((s) => s.daily_log_id === log.id);
+    const triggers = archive.daily_log_triggers.filter((t) => t.daily_log_id === log.id);
+
+    rows.daily_logs.push({ ...stripRowMeta(log), id: dailyLogId });
+    rows.daily_log_conditions.push(
+      ...mapConditionRows(conditions).map((c) => ({ ...c, daily_log_id: dailyLogId }))
+    );
+    rows.daily_log_sub_symptoms.push(
+      ...mapSubSymptomRows(subSymptoms).map((s) => ({ ...s, daily_log_id: dailyLogId }))
+    );
+    rows.daily_log_triggers.push(
+      ...mapTriggerRows(triggers).map((t) => ({ ...t, daily_log_id: dailyLogId }))
+    );
+    report.dailyLogs.merged++;
+  }
+
+  // --- moment logs (no unique constraint; an identical timestamp counts as a duplicate)
+  const { data: existingMoments, error: emErr } = await supabase
+    .from('moment_logs')
+    .select('timestamp')
+    .eq('user_id', userId)
+    .gte('date', archive.range.startDate)
+    .lte('date', archive.range.endDate);
+  if (emErr) throw emErr;
+
+  const existingTimestamps = new Set(
+    (existingMoments ?? []).map((m) => new Date(m.timestamp).getTime())
+  );
+  for (const log of archive.moment_logs) {
+    const ts = new Date(log.timestamp).getTime();
+    if (existingTimestamps.has(ts)) {
+      report.momentLogs.skipped++;
+      continue;
+    }
+    existingTimestamps.add(ts);
+
+    const momentLogId = generateLocalId();
+    const conditions = archive.moment_log_conditions.filter((c) => c.moment_log_id === log.id);
+    const subSymptoms = archive.moment_log_sub_symptoms.filter((s) => s.moment_log_id === log.id);
+    const triggers = archive.moment_log_triggers.filter((t) => t.moment_log_id === log.id);
+
+    rows.moment_logs.push({ ...stripRowMeta(log), id: momentLogId });
+    rows.moment_log_conditions.push(
+      ...mapConditionRows(conditions).map((c) => ({ ...c, moment_log_id: momentLogId }))
+    );
+    rows.moment_log_sub_symptoms.push(
+      ...mapSubSymptomRows(subSymptoms).map((s) => ({ ...s, moment_log_id: momentLogId }))
+    );
+    rows.moment_log_triggers.push(
+      ...mapTriggerRows(triggers).map((t) => ({ ...t, moment_log_id: momentLogId }))
+    );
+    report.momentLogs.merged++;
+  }
+
+  const { error } = await supabase.rpc('import_archive', { p_rows: rows });
+  if (error) throw error;
+
+  if (report.dailyLogs.merged + report.momentLogs.merged > 0) noteLogsWritten();
+
+  return report;
+}
+
+export function summarizeImportReport(report: ImportReport): string {
+  const line = (label: string, counts: ImportCounts) =>
+    `${label}: ${counts.merged} merged, ${counts.skipped} skipped`;
+
+  const lines = [
+    line('Daily logs', report.dailyLogs),
+    line('Moment logs', report.momentLogs),
+    line('Conditions', report.conditions),
+    line('Sub-symptoms', report.subSymptoms),
+    line('Trigger settings', report.userTriggers),
+    line('Custom triggers', report.customTriggers),
+  ];
+
+  if (report.unknownTriggerValues > 0) {
+    lines.push(`${report.unknownTriggerValues} trigger values skipped (unknown trigger)`);
+  }
+  if (report.preferencesRestored) {
+    lines.push('Preferences restored');
+  }
+
+  return lines.join('\n');
+}
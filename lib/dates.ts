@@ -0,0 +1,188 @@
+import { supabase } from './supabase';
+
+/**
+ * Calendar dates (log `date` columns, streak days, calendar cells) are plain
+ * YYYY-MM-DD strings in the user's configured timezone, never UTC. Compute
+ * them through this module so a late-evening log lands on the day the user
+ * lived it.
+ */
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+
+export function deviceTimeZone() {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+}
+
+export function isValidTimeZone(timeZone: string | null | undefined): timeZone is string {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+let activeTimeZone = deviceTimeZone();
+
+export function getTimeZone() {
+  return activeTimeZone;
+}
+
+export function setTimeZone(timeZone: string | null | undefined) {
+  const next = isValidTimeZone(timeZone) ? timeZone : deviceTimeZone();
+  if (next === activeTimeZone) return;
+  activeTimeZone = next;
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeToTimeZone(listener: Listener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Reads `user_preferences.timezone` and makes it the active timezone. Users
+ * without a saved zone (or with an unknown one) fall back to the device, and
+ * the device zone is saved so streaks and server-side dates agree with it.
+ */
+export async function loadUserTimeZone(userId: string) {
+  const { data, error } = await supabase
+    .from('user_preferences')
+    .select('timezone')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  if (isValidTimeZone(data?.timezone)) {
+    setTimeZone(data.timezone);
+  } else {
+    await updateUserTimeZone(userId, deviceTimeZone());
+  }
+  return activeTimeZone;
+}
+
+export async function updateUserTimeZone(userId: string, timeZone: string) {
+  if (!isValidTimeZone(timeZone)) {
+    throw new Error(`Unknown timezone: ${timeZone}`);
+  }
+
+  const { error } = await supabase
+    .from('user_preferences')
+    .upsert(
+      { user_id: userId, timezone: timeZone, updated_at: new Date().toISOString() },
+      { onConflict: 'user_id' }
+    );
+
+  if (error) throw error;
+
+  setTimeZone(timeZone);
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string) {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/** The calendar date of `instant` in the given (default: active) timezone. */
+export function toISODate(instant: Date = new Date(), timeZone: string = activeTimeZone) {
+  try {
+    const parts = formatterFor(timeZone).formatToParts(instant);
+    const get = (type: string) => parts.find((p) => p.type === type)?.value ?? '';
+    return `${get('year')}-${get('month')}-${get('day')}`;
+  } catch {
+    return toLocalISODate(instant);
+  }
+}
+
+export function todayISODate(timeZone: string = activeTimeZone) {
+  return toISODate(new Date(), timeZone);
+}
+
+/** Minutes the timezone's wall clock is ahead of UTC at `instant` (e.g. -300 for New York in winter). */
+export function timeZoneOffsetMinutes(timeZone: string, instant: Date = new Date()) {
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    }).formatToParts(instant);
+    const get = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+    const wallClock = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'));
+    return Math.round((wallClock - Math.floor(instant.getTime() / 60000) * 60000) / 60000);
+  } catch {
+    return -instant.getTimezoneOffset();
+  }
+}
+
+/** Minutes since midnight of `instant` on the wall clock of the given (default: active) timezone. */
+export function minutesOfDay(instant: Date, timeZone: string = activeTimeZone) {
+  const local = new Date(instant.getTime() + timeZoneOffsetMinutes(timeZone, instant) * 60000);
+  return local.getUTCHours() * 60 + local.getUTCMinutes();
+}
+
+/** The instant at which the wall clock in `timeZone` reads `time` ("HH:MM") on `isoDate`. */
+export function zonedDateTime(isoDate: string, time: string, timeZone: string = activeTimeZone) {
+  const [y, m, d] = isoDate.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const wallClock = Date.UTC(y, m - 1, d, hour, minute);
+
+  // The offset at the guess can differ from the one at the answer around a DST change, so check twice.
+  let instant = wallClock - timeZoneOffsetMinutes(timeZone, new Date(wallClock)) * 60000;
+  instant = wallClock - timeZoneOffsetMinutes(timeZone, new Date(instant)) * 60000;
+  return new Date(instant);
+}
+
+/** Formats a date's own year/month/day fields, e.g. a calendar cell built with `new Date(y, m, d)`. */
+export function toLocalISODate(d: Date) {
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${y}-${m}-${day}`;
+}
+
+export function calendarISODate(year: number, monthIndex: number, day: number) {
+  return toLocalISODate(new Date(year, monthIndex, day));
+}
+
+export function addDays(isoDate: string, days: number) {
+  const [y, m, d] = isoDate.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d + days)).toISOString().split('T')[0];
+}
+
+/** Whole days from `from` to `to` (positive when `to` is later). */
+export function daysBetween(from: string, to: string) {
+  const [fy, fm, fd] = from.split('-').map(Number);
+  const [ty, tm, td] = to.split('-').map(Number);
+  return Math.round((Date.UTC(ty, tm - 1, td) - Date.UTC(fy, fm - 1, fd)) / 86400000);
+}
+
+/** Local-midnight Date for an ISO date, for display with toLocaleDateString. */
+export function parseISODate(isoDate: string) {
+  const [y, m, d] = isoDate.split('-').map(Number);
+  return new Date(y, m - 1, d);
+}
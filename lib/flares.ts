@@ -0,0 +1,374 @@
+import { supabase } from './supabase';
+import { addDays, daysBetween, parseISODate, todayISODate } from './dates';
+import { FlareEpisode } from './types';
+import { logWriteCount } from './log-outbox';
+
+/**
+ * Flares are runs of high-severity days for one condition. Detection reads
+ * the logs and is reconciled with `flare_episodes`, which keeps the user's
+ * confirmations and labels across re-detection.
+ */
+
+// the red band on the dashboard calendar
+export const FLARE_SEVERITY_THRESHOLD = 7;
+// one bad day isn't an episode
+export const MIN_FLARE_DAYS = 2;
+// unlogged days a flare can bridge; a logged day below the threshold always ends it
+const MAX_GAP_DAYS = 1;
+export const FLARE_HISTORY_DAYS = 365;
+
+export interface DetectedFlare {
+  userConditionId: string;
+  startDate: string;
+  endDate: string;
+  peakDate: string;
+  peakSeverity: number;
+  recoveryDate: string | null;
+}
+
+export interface FlareReview {
+  label?: string | null;
+  note?: string | null;
+}
+
+/** Highest rating per date for each condition, across the daily check-in and moment logs. */
+export function peakSeveritiesByCondition(dailyLogs: any[], momentLogs: any[]) {
+  const byCondition = new Map<string, Map<string, number>>();
+  const record = (ucId: string, date: string, severity: number | null | undefined) => {
+    if (severity === null || severity === undefined) return;
+    const byDate = byCondition.get(ucId) ?? new Map<string, number>();
+    byDate.set(date, Math.max(byDate.get(date) ?? 0, Number(severity)));
+    byCondition.set(ucId, byDate);
+  };
+
+  for (const log of dailyLogs) {
+    for (const c of log.daily_log_conditions ?? []) record(c.user_condition_id, log.date, c.severity);
+  }
+  for (const log of momentLogs) {
+    for (const c of log.moment_log_conditions ?? []) record(c.user_condition_id, log.date, c.severity);
+  }
+
+  return byCondition;
+}
+
+/** Groups a condition's high-severity days (date -> peak rating) into episodes. */
+export function detectFlares(userConditionId: string, severities: Map<string, number>): DetectedFlare[] {
+  const flares: DetectedFlare[] = [];
+  let current: DetectedFlare | null = null;
+  let highDays = 0;
+
+  const close = (recoveryDate: string | null) => {
+    if (current && highDays >= MIN_FLARE_DAYS) flares.push({ ...current, recoveryDate });
+    current = null;
+    highDays = 0;
+  };
+
+  for (const date of Array.from(severities.keys()).sort()) {
+    const severity = severities.get(date)!;
+
+    if (severity < FLARE_SEVERITY_THRESHOLD) {
+      close(date);
+      continue;
+    }
+
+    if (current && daysBetween(current.endDate, date) > MAX_GAP_DAYS + 1) close(null);
+
+    if (!current) {
+      current = {
+        userConditionId,
+        startDate: date,
+        endDate: date,
+        peakDate: date,
+        peakSeverity: severity,
+        recoveryDate: null,
+      };
+    } else {
+      current.endDate = date;
+      if (severity > current.peakSeverity) {
+        current.peakDate = date;
+        current.peakSeverity = severity;
+      }
+    }
+    highDays++;
+  }
+
+  close(null);
+  return flares;
+}
+
+export function flareDurationDays(episode: Pick<FlareEpisode, 'start_date' | 'end_date'>) {
+  return daysBetween(episode.start_date, episode.end_date) + 1;
+}
+
+/** Days from the last flare day to the first logged day back below the threshold. */
+export function flareRecoveryDays(episode: Pick<FlareEpisode, 'end_date' | 'recovery_date'>) {
+  return episode.recovery_date ? daysBetween(episode.end_date, episode.recovery_date) : null;
+}
+
+/** Still going: no recovery logged and the last high day is recent enough to continue it. */
+export function isFlareOngoing(episode: FlareEpisode, today: string = todayISODate()) {
+  return !episode.recovery_date && daysBetween(episode.end_date, today) <= MAX_GAP_DAYS + 1;
+}
+
+export async function fetchFlareEpisodes(
+  userId: string,
+  userConditionId?: string
+): Promise<FlareEpisode[]> {
+  let query = supabase
+    .from('flare_episodes')
+    .select('*')
+    .eq('user_id', userId)
+    .order('start_date', { ascending: false });
+  if (userConditionId) query = query.eq('user_condition_id', userConditionId);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return (data ?? []) as FlareEpisode[];
+}
+
+function overlaps(stored: FlareEpisode, detected: DetectedFlare) {
+  return (
+    stored.user_condition_id === detected.userConditionId &&
+    stored.start_date <= detected.endDate &&
+    stored.end_date >= detected.startDate
+  );
+}
+
+/**
+ * Re-detects flares over the last year and brings `flare_episodes` in line:
+ * new episodes are added as 'detected', stored ones take the latest dates and
+ * peak (keeping their status and label), and unreviewed episodes the logs no
+ * longer support are removed. Confirmed and dismissed episodes are never
+ * removed here. Returns every stored episode, newest first.
+ */
+export async function syncFlareEpisodes(userId: string): Promise<FlareEpisode[]> {
+  const endDate = todayISODate();
+  const startDate = addDays(endDate, -(FLARE_HISTORY_DAYS - 1));
+
+  const [dailyRes, momentRes, stored] = await Promise.all([
+    supabase
+      .from('daily_logs')
+      .select('date, daily_log_conditions(user_condition_id, severity)')
+      .eq('user_id', userId)
+      .gte('date', startDate)
+      .lte('date', endDate),
+    supabase
+      .from('moment_logs')
+      .select('date, moment_log_conditions(user_condition_id, severity)')
+      .eq('user_id', userId)
+      .gte('date', startDate)
+      .lte('date', endDate),
+    fetchFlareEpisodes(userId),
+  ]);
+
+  if (dailyRes.error) throw dailyRes.error;
+  if (momentRes.error) throw momentRes.error;
+
+  const detected: DetectedFlare[] = [];
+  for (const [ucId, severities] of peakSeveritiesByCondition(dailyRes.data ?? [], momentRes.data ?? [])) {
+    detected.push(...detectFlares(ucId, severities));
+  }
+
+  // episodes that started before the window can't be re-detected in full, so they're left alone.
+  // Matching the earliest-starting overlap first means moving its start can't collide with
+  // another stored episode (one per condition and start date).
+  const inWindow = stored
+    .filter((e) => e.start_date >= startDate)
+    .sort((a, b) => a.start_date.localeCompare(b.start_date));
+  const matched = new Set<string>();
+  const inserts: any[] = [];
+  const now = new Date().toISOString();
+
+  for (const flare of detected) {
+    const match = inWindow.find((e) => !matched.has(e.id) && overlaps(e, flare));
+    if (!match) {
+      inserts.push({
+        user_id: userId,
+        user_condition_id: flare.userConditionId,
+        start_date: flare.startDate,
+        end_date: flare.endDate,
+        peak_date: flare.peakDate,
+        peak_severity: flare.peakSeverity,
+        recovery_date: flare.recoveryDate,
+      });
+      continue;
+    }
+
+    matched.add(match.id);
+    // a detection spanning two stored episodes (the days between were filled in) absorbs the unreviewed one
+    for (const other of inWindow) {
+      if (!matched.has(other.id) && other.status === 'detected' && overlaps(other, flare)) {
+        matched.add(other.id);
+        const { error } = await supabase.from('flare_episodes').delete().eq('id', other.id);
+        if (error) throw error;
+      }
+    }
+
+    const unchanged =
+      match.start_date === flare.startDate &&
+      match.end_date === flare.endDate &&
+      match.peak_date === flare.peakDate &&
+      Number(match.peak_severity) === flare.peakSeverity &&
+      match.recovery_date === flare.recoveryDate;
+    if (unchanged) continue;
+
+    const { error } = await supabase
+      .from('flare_episodes')
+      .update({
+        start_date: flare.startDate,
+        end_date: flare.endDate,
+        peak_date: flare.peakDate,
+        peak_severity: flare.peakSeverity,
+        recovery_date: flare.recoveryDate,
+        updated_at: now,
+      })
+      .eq('id', match.id);
+    if (error) throw error;
+  }
+
+  const stale = inWindow.filter((e) => !matched.has(e.id) && e.status === 'detected').map((e) => e.id);
+  if (stale.length > 0) {
+    const { error } = await supabase.from('flare_episodes').delete().in('id', stale);
+    if (error) throw error;
+  }
+
+  if (inserts.length > 0) {
+    // another device may have inserted the same episode since we read them
+    const { error } = await supabase
+      .from('flare_episodes')
+      .upsert(inserts, { onConflict: 'user_condition_id,start_date', ignoreDuplicates: true });
+    if (error) throw error;
+  }
+
+  return fetchFlareEpisodes(userId);
+}
+
+// user -> logWriteCount() when their episodes were last synced
+const syncedAt = new Map<string, number>();
+const syncing = new Map<string, Promise<FlareEpisode[]>>();
+
+/**
+ * Stored episodes, synced first if logs were written from this device since
+ * the last sync (and once per session, for logs from other devices).
+ */
+export async function loadFlareEpisodes(
+  userId: string,
+  userConditionId?: string
+): Promise<FlareEpisode[]> {
+  const writes = logWriteCount();
+  let episodes: FlareEpisode[];
+
+  if (syncedAt.get(userId) === writes) {
+    episodes = await fetchFlareEpisodes(userId);
+  } else {
+    let sync = syncing.get(userId);
+    if (!sync) {
+      sync = syncFlareEpisodes(userId).finally(() => syncing.delete(userId));
+      syncing.set(userId, sync);
+    }
+    episodes = await sync;
+    syncedAt.set(userId, writes);
+  }
+
+  return userConditionId ? episodes.filter((e) => e.user_condition_id === userConditionId) : episodes;
+}
+
+export async function confirmFlare(userId: string, episodeId: string, { label, note }: FlareReview = {}) {
+  const { error } = await supabase
+    .from('flare_episodes')
+    .update({
+      status: 'confirmed',
+      label: label?.trim() || null,
+      note: note?.trim() || null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', episodeId)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+}
+
+/** Marks a detection as not a flare; it stays stored so it isn't suggested again. */
+export async function dismissFlare(userId: string, episodeId: string) {
+  const { error } = await supabase
+    .from('flare_episodes')
+    .update({ status: 'dismissed', updated_at: new Date().toISOString() })
+    .eq('id', episodeId)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+}
+
+export interface FlarePeriodStats {
+  startDate: string;
+  endDate: string;
+  count: number;
+  averageDays: number | null;
+}
+
+export interface FlareTrends {
+  recent: FlarePeriodStats;
+  previous: FlarePeriodStats;
+  // flares started per calendar month, oldest first
+  monthly: { month: string; count: number }[];
+  ongoing: FlareEpisode | null;
+  toReview: number;
+}
+
+function periodStats(episodes: FlareEpisode[], startDate: string, endDate: string): FlarePeriodStats {
+  const inPeriod = episodes.filter((e) => e.start_date >= startDate && e.start_date <= endDate);
+  const totalDays = inPeriod.reduce((sum, e) => sum + flareDurationDays(e), 0);
+  return {
+    startDate,
+    endDate,
+    count: inPeriod.length,
+    averageDays: inPeriod.length > 0 ? totalDays / inPeriod.length : null,
+  };
+}
+
+/**
+ * Frequency and duration of one condition's flares: the last `periodDays`
+ * against the period before, plus a per-month count. Dismissed episodes
+ * don't count; unreviewed ones do.
+ */
+export function flareTrends(
+  episodes: FlareEpisode[],
+  periodDays: number = 90,
+  months: number = 6,
+  today: string = todayISODate()
+): FlareTrends {
+  const counted = episodes.filter((e) => e.status !== 'dismissed');
+  const recentStart = addDays(today, -(periodDays - 1));
+  const previousStart = addDays(recentStart, -periodDays);
+
+  const [year, month] = today.split('-').map(Number);
+  const monthly: FlareTrends['monthly'] = [];
+  for (let i = months - 1; i >= 0; i--) {
+    const d = new Date(Date.UTC(year, month - 1 - i, 1));
+    const key = `${d.getUTCFullYear()}-${String(d.getUTCMonth() + 1).padStart(2, '0')}`;
+    monthly.push({ month: key, count: counted.filter((e) => e.start_date.startsWith(key)).length });
+  }
+
+  return {
+    recent: periodStats(counted, recentStart, today),
+    previous: periodStats(counted, previousStart, addDays(recentStart, -1)),
+    monthly,
+    ongoing: counted.find((e) => isFlareOngoing(e, today)) ?? null,
+    toReview: episodes.filter((e) => e.status === 'detected').length,
+  };
+}
+
+export function formatFlareDate(date: string) {
+  return parseISODate(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+/** "Mar 3 – Mar 7 · 5 days · peak 9/10" */
+export function describeFlare(episode: FlareEpisode) {
+  const days = flareDurationDays(episode);
+  const range =
+    episode.start_date === episode.end_date
+      ? formatFlareDate(episode.start_date)
+      : `${formatFlareDate(episode.start_date)} – ${formatFlareDate(episode.end_date)}`;
+  return `${range} · ${days} day${days !== 1 ? 's' : ''} · peak ${Number(episode.peak_severity)}/10`;
+}
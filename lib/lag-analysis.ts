@@ -0,0 +1,387 @@
+import { supabase } from './supabase';
+import { Trigger } from './trigger-types';
+import { addDays, todayISODate, zonedDateTime } from './dates';
+import { Interval, correlationToD, excludesZero } from './stats';
+import {
+  EffectKind,
+  EffectStrength,
+  MIN_PAIRED_DAYS,
+  analyzeTrigger,
+  combineTriggerValues,
+  strengthOf,
+} from './trigger-correlations';
+
+/**
+ * Delayed effects: how severity responds in windows of hours after a trigger
+ * was logged. Moment logs are placed at their timestamp; a daily check-in is
+ * placed at midday of its date, since it only says something happened that day.
+ * Each trigger has at most one event per day, so samples are days, as in
+ * Trigger Patterns.
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAILY_LOG_TIME = '12:00';
+
+export interface LagWindow {
+  // hours after the trigger, start inclusive, end exclusive
+  startHours: number;
+  endHours: number;
+}
+
+export interface LagWindowPreset {
+  id: string;
+  label: string;
+  windows: LagWindow[];
+}
+
+export const LAG_WINDOW_PRESETS: LagWindowPreset[] = [
+  {
+    id: 'three_days',
+    label: 'Up to 3 days',
+    windows: [
+      { startHours: 0, endHours: 12 },
+      { startHours: 12, endHours: 24 },
+      { startHours: 24, endHours: 48 },
+      { startHours: 48, endHours: 72 },
+    ],
+  },
+  {
+    id: 'same_day',
+    label: 'Within a day',
+    windows: [
+      { startHours: 0, endHours: 3 },
+      { startHours: 3, endHours: 6 },
+      { startHours: 6, endHours: 12 },
+      { startHours: 12, endHours: 24 },
+    ],
+  },
+  {
+    id: 'five_days',
+    label: 'Up to 5 days',
+    windows: [
+      { startHours: 0, endHours: 24 },
+      { startHours: 24, endHours: 48 },
+      { startHours: 48, endHours: 72 },
+      { startHours: 72, endHours: 96 },
+      { startHours: 96, endHours: 120 },
+    ],
+  },
+];
+
+export const DEFAULT_LAG_WINDOWS = LAG_WINDOW_PRESETS[0].windows;
+
+export interface LagResponse {
+  window: LagWindow;
+  // days with the trigger whose window after it has at least one severity
+  n: number;
+  // r for scale/numeric/duration triggers, Hedges' g for binary/enum/multi-select triggers
+  effectKind: EffectKind;
+  effect: number;
+  effectInterval: Interval;
+  // g only: mean severity after exposed days minus after the other days
+  meanDifference: number | null;
+  meanDifferenceInterval: Interval | null;
+  level: string | null;
+  exposedDays: number | null;
+  unexposedDays: number | null;
+  strength: EffectStrength;
+  // enough days and an interval, widened for the windows and options compared, that excludes zero
+  reliable: boolean;
+}
+
+export interface TriggerLagProfile {
+  triggerId: string;
+  triggerKey: string;
+  triggerLabel: string;
+  inputType: Trigger['input_type'];
+  // days the trigger was logged
+  days: number;
+  // one entry per window, null where there wasn't enough data
+  responses: (LagResponse | null)[];
+  // the strongest reliable window
+  peak: LagResponse | null;
+}
+
+export interface ConditionLagAnalysis {
+  userConditionId: string;
+  conditionName: string;
+  triggersTested: number;
+  profiles: TriggerLagProfile[];
+}
+
+export interface LagInputs {
+  userConditions: any[];
+  // enabled triggers only
+  triggers: Trigger[];
+  dailyLogs: any[];
+  momentLogs: any[];
+  // when the logs were fetched; a window ending after it isn't over yet
+  asOf: number;
+}
+
+interface TimedValue {
+  at: number;
+  value: number;
+}
+
+interface TimedSeverity {
+  at: number;
+  severity: number;
+}
+
+function push<T>(map: Map<string, T[]>, key: string, item: T) {
+  const list = map.get(key) ?? [];
+  list.push(item);
+  map.set(key, list);
+}
+
+/**
+ * Trigger events and severity readings on one timeline. A trigger's moment
+ * logs on one date become a single event at the first of them, with their
+ * values combined as in Trigger Patterns, and replace that day's check-in
+ * value for the trigger so the same exposure isn't counted twice.
+ */
+function buildTimeline(dailyLogs: any[], momentLogs: any[], triggersById: Map<string, Trigger>) {
+  const events = new Map<string, TimedValue[]>();
+  const severities = new Map<string, TimedSeverity[]>();
+  // `${trigger_id}|${date}` -> the day's moment values, in logged order
+  const momentTriggerDays = new Map<string, { triggerId: string; at: number; values: number[] }>();
+
+  // moment logs arrive ordered by timestamp, so the first entry of a day is the earliest
+  for (const log of momentLogs) {
+    const at = new Date(log.timestamp).getTime();
+    for (const c of log.moment_log_conditions ?? []) {
+      if (c.severity === null || c.severity === undefined) continue;
+      push(severities, c.user_condition_id, { at, severity: c.severity });
+    }
+    for (const t of log.moment_log_triggers ?? []) {
+      if (t.value === null || t.value === undefined) continue;
+      const key = `${t.trigger_id}|${log.date}`;
+      const day = momentTriggerDays.get(key);
+      if (day) day.values.push(Number(t.value));
+      else momentTriggerDays.set(key, { triggerId: t.trigger_id, at, values: [Number(t.value)] });
+    }
+  }
+
+  for (const { triggerId, at, values } of momentTriggerDays.values()) {
+    const value = combineTriggerValues(triggersById.get(triggerId)?.input_type, values);
+    push(events, triggerId, { at, value });
+  }
+
+  for (const log of dailyLogs) {
+    const at = zonedDateTime(log.date, DAILY_LOG_TIME).getTime();
+    for (const c of log.daily_log_conditions ?? []) {
+      if (c.severity === null || c.severity === undefined) continue;
+      push(severities, c.user_condition_id, { at, severity: c.severity });
+    }
+    for (const t of log.daily_log_triggers ?? []) {
+      if (t.value === null || t.value === undefined) continue;
+      if (momentTriggerDays.has(`${t.trigger_id}|${log.date}`)) continue;
+      push(events, t.trigger_id, { at, value: Number(t.value) });
+    }
+  }
+
+  severities.forEach((list) => list.sort((a, b) => a.at - b.at));
+
+  return { events, severities };
+}
+
+// index of the first reading at or after `at`
+function lowerBound(readings: TimedSeverity[], at: number) {
+  let lo = 0;
+  let hi = readings.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (readings[mid].at < at) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * Pairs each trigger event with the mean severity recorded in the window
+ * after it. Events whose window hasn't ended by `asOf` are left out, since
+ * only part of it could have been logged.
+ */
+function pairsForWindow(events: TimedValue[], readings: TimedSeverity[], window: LagWindow, asOf: number) {
+  const values: number[] = [];
+  const responses: number[] = [];
+
+  for (const event of events) {
+    const from = event.at + window.startHours * HOUR_MS;
+    const to = event.at + window.endHours * HOUR_MS;
+    if (to > asOf) continue;
+    let sum = 0;
+    let count = 0;
+    for (let i = lowerBound(readings, from); i < readings.length && readings[i].at < to; i++) {
+      sum += readings[i].severity;
+      count++;
+    }
+    if (count === 0) continue;
+    values.push(event.value);
+    responses.push(sum / count);
+  }
+
+  return { values, responses };
+}
+
+function magnitude(r: LagResponse) {
+  return Math.abs(r.effectKind === 'r' ? correlationToD(r.effect) : r.effect);
+}
+
+/** Pure computation over already-fetched rows; windows can be changed without refetching. */
+export function computeLagAnalysis(
+  inputs: LagInputs,
+  windows: LagWindow[] = DEFAULT_LAG_WINDOWS
+): ConditionLagAnalysis[] {
+  const triggersById = new Map(inputs.triggers.map((t) => [t.id, t]));
+  const { events, severities } = buildTimeline(inputs.dailyLogs, inputs.momentLogs, triggersById);
+  // a tag trigger's value is only how many tags were entered, so it isn't tested
+  const loggedTriggers = inputs.triggers.filter((t) => events.has(t.id) && t.input_type !== 'tags');
+
+  return inputs.userConditions.map((uc) => {
+    const name = uc.custom_label || uc.condition?.name || 'Unnamed condition';
+    const readings = severities.get(uc.id) ?? [];
+
+    const profiles: TriggerLagProfile[] = [];
+    for (const trigger of loggedTriggers) {
+      const triggerEvents = events.get(trigger.id) ?? [];
+
+      const responses = windows.map((window): LagResponse | null => {
+        const { values, responses: severityResponses } = pairsForWindow(
+          triggerEvents,
+          readings,
+          window,
+          inputs.asOf
+        );
+        if (values.length < 3) return null;
+
+        // the peak is picked across windows, so each window counts as a comparison
+        const analysis = analyzeTrigger(trigger, values, severityResponses, windows.length);
+        if (!analysis) return null;
+
+        return {
+          window,
+          n: values.length,
+          ...analysis,
+          strength: strengthOf(analysis.effectKind, analysis.effect),
+          reliable: values.length >= MIN_PAIRED_DAYS && excludesZero(analysis.effectInterval),
+        };
+      });
+
+      if (responses.every((r) => r === null)) continue;
+
+      const peak = responses
+        .filter((r): r is LagResponse => !!r && r.reliable)
+        .reduce<LagResponse | null>((best, r) => (!best || magnitude(r) > magnitude(best) ? r : best), null);
+
+      profiles.push({
+        triggerId: trigger.id,
+        triggerKey: trigger.key,
+        triggerLabel: trigger.label,
+        inputType: trigger.input_type,
+        days: triggerEvents.length,
+        responses,
+        peak,
+      });
+    }
+
+    profiles.sort(
+      (a, b) =>
+        Number(!!b.peak) - Number(!!a.peak) ||
+        (b.peak ? magnitude(b.peak) : 0) - (a.peak ? magnitude(a.peak) : 0)
+    );
+
+    return {
+      userConditionId: uc.id,
+      conditionName: name,
+      triggersTested: profiles.length,
+      profiles,
+    };
+  });
+}
+
+export async function fetchLagInputs(userId: string, days: number = 90): Promise<LagInputs> {
+  const asOf = Date.now();
+  const endDate = todayISODate();
+  // no extra days: lags run forward, so the windows of the most recent events
+  // are the ones cut short, and computeLagAnalysis leaves those out via `asOf`
+  const startDate = addDays(endDate, -(days - 1));
+
+  const { data: userConditions, error: ucErr } = await supabase
+    .from('user_conditions')
+    .select('id, custom_label, condition:conditions(name)')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+  if (ucErr) throw ucErr;
+
+  const { data: userTriggers, error: utErr } = await supabase
+    .from('user_triggers')
+    .select('*, trigger:triggers(*)')
+    .eq('user_id', userId)
+    .eq('enabled', true);
+  if (utErr) throw utErr;
+
+  const { data: dailyLogs, error: dlErr } = await supabase
+    .from('daily_logs')
+    .select(
+      'date, daily_log_conditions(user_condition_id, severity), daily_log_triggers(trigger_id, value)'
+    )
+    .eq('user_id', userId)
+    .gte('date', startDate)
+    .lte('date', endDate);
+  if (dlErr) throw dlErr;
+
+  const { data: momentLogs, error: mlErr } = await supabase
+    .from('moment_logs')
+    .select(
+      'date, timestamp, moment_log_conditions(user_condition_id, severity), moment_log_triggers(trigger_id, value)'
+    )
+    .eq('user_id', userId)
+    .gte('date', startDate)
+    .lte('date', endDate)
+    .order('timestamp', { ascending: true });
+  if (mlErr) throw mlErr;
+
+  return {
+    userConditions: userConditions ?? [],
+    triggers: (userTriggers ?? [])
+      .map((ut: any) => ut.trigger as Trigger | null)
+      .filter((t): t is Trigger => !!t),
+    dailyLogs: dailyLogs ?? [],
+    momentLogs: momentLogs ?? [],
+    asOf,
+  };
+}
+
+export function formatLagWindow(window: LagWindow) {
+  return `${window.startHours}–${window.endHours}h`;
+}
+
+function fmt(n: number, digits: number) {
+  const s = n.toFixed(digits);
+  return n > 0 ? `+${s}` : s;
+}
+
+/** Short value for one window: the severity difference, or r for amounts and scales. */
+export function formatLagEffect(r: LagResponse) {
+  return r.effectKind === 'r' ? `r ${r.effect.toFixed(2)}` : fmt(r.meanDifference ?? 0, 1);
+}
+
+/** Plain-language headline for a trigger's strongest delayed effect. */
+export function describeLagPeak(conditionName: string, profile: TriggerLagProfile) {
+  const peak = profile.peak;
+  if (!peak) return null;
+
+  const direction = peak.effect > 0 ? 'higher' : 'lower';
+  const when = `${peak.window.startHours}–${peak.window.endHours} hours`;
+  const label = profile.triggerLabel.toLowerCase();
+
+  if (peak.effectKind === 'r') {
+    return `More ${label} went with ${direction} ${conditionName} severity ${when} later`;
+  }
+
+  const diff = Math.abs(peak.meanDifference ?? 0).toFixed(1);
+  const exposure = profile.inputType === 'binary' ? label : `${label}: ${peak.level}`;
+  return `${conditionName} severity was ${diff} points ${direction} ${when} after ${exposure}`;
+}
@@ -0,0 +1,476 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { supabase } from './supabase';
+
+const OUTBOX_KEY = 'logOutbox:v1';
+const MAX_ATTEMPTS = 5;
+
+export interface LogConditionRow {
+  user_condition_id: string;
+  severity: number | null;
+  notes?: string | null;
+}
+
+// a row means the sub-symptom was present; severity is optional
+export interface LogSubSymptomRow {
+  sub_symptom_id: string;
+  severity: number | null;
+}
+
+export interface LogTriggerRow {
+  trigger_id: string;
+  value: number;
+  value_text: string | null;
+}
+
+export interface DailyLogPayload {
+  date: string;
+  overall_severity: number | null;
+  notes: string | null;
+  // the server's updated_at for this date's log when editing started, or null if there was none;
+  // left out when it couldn't be read, and then this save replaces whatever is there
+  base_updated_at?: string | null;
+  // device time of the save; only entries queued before base_updated_at existed carry it
+  updated_at?: string;
+  conditions: LogConditionRow[];
+  // optional so entries queued before sub-symptoms were logged still replay
+  sub_symptoms?: LogSubSymptomRow[];
+  triggers: LogTriggerRow[];
+}
+
+export interface MomentLogPayload {
+  // generated on the device so a replay after a partial write can't duplicate the log
+  id: string;
+  timestamp: string;
+  date: string;
+  overall_severity: number | null;
+  activity: string | null;
+  notes: string | null;
+  conditions: LogConditionRow[];
+  // optional so entries queued before sub-symptoms were logged still replay
+  sub_symptoms?: LogSubSymptomRow[];
+  triggers: LogTriggerRow[];
+}
+
+export type OutboxEntry =
+  | OutboxEntryBase & { kind: 'daily'; payload: DailyLogPayload }
+  | OutboxEntryBase & { kind: 'moment'; payload: MomentLogPayload };
+
+interface OutboxEntryBase {
+  id: string;
+  userId: string;
+  queuedAt: string;
+  attempts: number;
+  lastError: string | null;
+  // retired because the server copy changed after this log was started
+  conflicted?: boolean;
+}
+
+interface OutboxState {
+  pending: OutboxEntry[];
+  // entries that kept failing for non-network reasons; kept so nothing is silently lost
+  failed: OutboxEntry[];
+}
+
+type WriteResult = { status: 'saved' } | { status: 'conflict'; serverUpdatedAt: string };
+
+export type SubmitResult = WriteResult | { status: 'queued' };
+
+export interface FlushResult {
+  synced: number;
+  conflicts: number;
+  failed: number;
+  remaining: number;
+}
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+let flushing: { userId: string; promise: Promise<FlushResult> } | null = null;
+// bumped whenever logs reach the server from this device, so data derived from them knows to refresh
+let logWrites = 0;
+
+export function generateLocalId() {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
+    const r = (Math.random() * 16) | 0;
+    const v = c === 'x' ? r : (r & 0x3) | 0x8;
+    return v.toString(16);
+  });
+}
+
+export function isNetworkError(error: unknown) {
+  const message = (error as any)?.message ?? String(error ?? '');
+  return /network request failed|failed to fetch|fetch failed|network ?error|load failed|timed? ?out/i.test(
+    message
+  );
+}
+
+async function readState(): Promise<OutboxState> {
+  const raw = await AsyncStorage.getItem(OUTBOX_KEY);
+  if (!raw) return { pending: [], failed: [] };
+
+  try {
+    const parsed = JSON.parse(raw);
+    return { pending: parsed.pending ?? [], failed: parsed.failed ?? [] };
+  } catch {
+    return { pending: [], failed: [] };
+  }
+}
+
+async function writeState(state: OutboxState) {
+  await AsyncStorage.setItem(OUTBOX_KEY, JSON.stringify(state));
+  listeners.forEach((listener) => listener());
+}
+
+export function logWriteCount() {
+  return logWrites;
+}
+
+/** For writers outside the outbox (import, demo data) that add or change logs. */
+export function noteLogsWritten() {
+  logWrites++;
+}
+
+export function subscribeToOutbox(listener: Listener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export async function getPendingCount(userId: string) {
+  const state = await readState();
+  return state.pending.filter((e) => e.userId === userId).length;
+}
+
+/** Logs that kept failing for reasons other than the network and are no longer retried automatically. */
+export async function getFailedCount(userId: string) {
+  const state = await readState();
+  return state.failed.filter((e) => e.userId === userId).length;
+}
+
+/** Dates of logs still waiting to sync, so they can count as logged before they reach the server. */
+export async function getPendingLogDates(userId: string) {
+  const state = await readState();
+  return state.pending
+    .filter((e) => e.userId === userId)
+    .map((e) => ({ kind: e.kind, date: e.payload.date }));
+}
+
+async function enqueue(entry: OutboxEntry) {
+  const state = await readState();
+
+  // a newer daily save for the same date supersedes an older queued one
+  if (entry.kind === 'daily') {
+    state.pending = state.pending.filter(
+      (e) => !(e.kind === 'daily' && e.userId === entry.userId && e.payload.date === entry.payload.date)
+    );
+  }
+  // re-saving a queued moment log (edit while offline) replaces it in place
+  if (entry.kind === 'moment') {
+    state.pending = state.pending.filter(
+      (e) => !(e.kind === 'moment' && e.payload.id === entry.payload.id)
+    );
+  }
+
+  state.pending.push(entry);
+  await writeState(state);
+}
+
+/**
+ * Drops sub-symptoms deleted since the log was saved; their foreign key would
+ * otherwise fail the whole entry on every replay.
+ */
+async function existingSubSymptoms(rows: LogSubSymptomRow[] | undefined) {
+  if (!rows?.length) return [];
+
+  const { data, error } = await supabase
+    .from('sub_symptoms')
+    .select('id')
+    .in('id', rows.map((s) => s.sub_symptom_id));
+  if (error) throw error;
+
+  const ids = new Set((data ?? []).map((s) => s.id));
+  return rows.filter((s) => ids.has(s.sub_symptom_id));
+}
+
+/** Whether the server copy changed since the payload's log was started. */
+function isStale(serverUpdatedAt: string, payload: DailyLogPayload) {
+  if (payload.base_updated_at !== undefined) {
+    return (
+      payload.base_updated_at === null ||
+      new Date(serverUpdatedAt).getTime() !== new Date(payload.base_updated_at).getTime()
+    );
+  }
+  return !!payload.updated_at && new Date(serverUpdatedAt) > new Date(payload.updated_at);
+}
+
+/**
+ * Writes a daily log, honouring the one-log-per-day constraint. When the
+ * server copy changed since this payload's log was started, the server copy
+ * is kept and a conflict is returned.
+ */
+async function writeDailyLog(userId: string, payload: DailyLogPayload): Promise<WriteResult> {
+  const { data: existing, error: exErr } = await supabase
+    .from('daily_logs')
+    .select('id, updated_at')
+    .eq('user_id', userId)
+    .eq('date', payload.date)
+    .maybeSingle();
+  if (exErr) throw exErr;
+
+  if (existing?.updated_at && isStale(existing.updated_at, payload)) {
+    return { status: 'conflict', serverUpdatedAt: existing.updated_at };
+  }
+
+  const { data: saved, error: upErr } = await supabase
+    .from('daily_logs')
+    .upsert(
+      {
+        user_id: userId,
+        date: payload.date,
+        overall_severity: payload.overall_severity,
+        notes: payload.notes,
+      },
+      { onConflict: 'user_id,date' }
+    )
+    .select('id')
+    .single();
+  if (upErr) throw upErr;
+
+  const dailyLogId = saved.id;
+
+  const { error: delC } = await supabase
+    .from('daily_log_conditions')
+    .delete()
+    .eq('daily_log_id', dailyLogId);
+  if (delC) throw delC;
+
+  const { error: delS } = await supabase
+    .from('daily_log_sub_symptoms')
+    .delete()
+    .eq('daily_log_id', dailyLogId);
+  if (delS) throw delS;
+
+  const { error: delT } = await supabase
+    .from('daily_log_triggers')
+    .delete()
+    .eq('daily_log_id', dailyLogId);
+  if (delT) throw delT;
+
+  if (payload.conditions.length > 0) {
+    const { error } = await supabase
+      .from('daily_log_conditions')
+      .insert(payload.conditions.map((c) => ({ daily_log_id: dailyLogId, ...c })));
+    if (error) throw error;
+  }
+
+  const subSymptoms = await existingSubSymptoms(payload.sub_symptoms);
+  if (subSymptoms.length > 0) {
+    const { error } = await supabase
+      .from('daily_log_sub_symptoms')
+      .insert(subSymptoms.map((s) => ({ daily_log_id: dailyLogId, ...s })));
+    if (error) throw error;
+  }
+
+  if (payload.triggers.length > 0) {
+    const { error } = await supabase
+      .from('daily_log_triggers')
+      .insert(payload.triggers.map((t) => ({ daily_log_id: dailyLogId, ...t })));
+    if (error) throw error;
+  }
+
+  return { status: 'saved' };
+}
+
+async function writeMomentLog(userId: string, payload: MomentLogPayload): Promise<WriteResult> {
+  const { conditions, sub_symptoms, triggers, ...log } = payload;
+
+  const { error: upErr } = await supabase
+    .from('moment_logs')
+    .upsert({ ...log, user_id: userId }, { onConflict: 'id' });
+  if (upErr) throw upErr;
+
+  const { error: delC } = await supabase
+    .from('moment_log_conditions')
+    .delete()
+    .eq('moment_log_id', payload.id);
+  if (delC) throw delC;
+
+  const { error: delS } = await supabase
+    .from('moment_log_sub_symptoms')
+    .delete()
+    .eq('moment_log_id', payload.id);
+  if (delS) throw delS;
+
+  const { error: delT } = await supabase
+    .from('moment_log_triggers')
+    .delete()
+    .eq('moment_log_id', payload.id);
+  if (delT) throw delT;
+
+  if (conditions.length > 0) {
+    const { error } = await supabase
+      .from('moment_log_conditions')
+      .insert(conditions.map((c) => ({ moment_log_id: payload.id, ...c })));
+    if (error) throw error;
+  }
+
+  const subSymptoms = await existingSubSymptoms(sub_symptoms);
+  if (subSymptoms.length > 0) {
+    const { error } = await supabase
+      .from('moment_log_sub_symptoms')
+      .insert(subSymptoms.map((s) => ({ moment_log_id: payload.id, ...s })));
+    if (error) throw error;
+  }
+
+  if (triggers.length > 0) {
+    const { error } = await supabase
+      .from('moment_log_triggers')
+      .insert(triggers.map((t) => ({ moment_log_id: payload.id, ...t })));
+    if (error) throw error;
+  }
+
+  return { status: 'saved' };
+}
+
+function writeEntry(entry: OutboxEntry) {
+  return entry.kind === 'daily'
+    ? writeDailyLog(entry.userId, entry.payload)
+    : writeMomentLog(entry.userId, entry.payload);
+}
+
+async function submit(entry: OutboxEntry): Promise<SubmitResult> {
+  // keep ordering: if older logs are still waiting, this one waits behind them
+  const state = await readState();
+  if (state.pending.some((e) => e.userId === entry.userId)) {
+    await enqueue(entry);
+    flushOutbox(entry.userId).catch((e) => console.error('[outbox] flush failed', e));
+    return { status: 'queued' };
+  }
+
+  try {
+    const result = await writeEntry(entry);
+    if (result.status === 'saved') noteLogsWritten();
+    return result;
+  } catch (error) {
+    if (!isNetworkError(error)) throw error;
+    await enqueue(entry);
+    return { status: 'queued' };
+  }
+}
+
+function newEntryBase(userId: string) {
+  return {
+    id: generateLocalId(),
+    userId,
+    queuedAt: new Date().toISOString(),
+    attempts: 0,
+    lastError: null,
+  };
+}
+
+export function submitDailyLog(userId: string, payload: DailyLogPayload) {
+  return submit({ ...newEntryBase(userId), kind: 'daily', payload });
+}
+
+export function submitMomentLog(userId: string, payload: MomentLogPayload) {
+  return submit({ ...newEntryBase(userId), kind: 'moment', payload });
+}
+
+/**
+ * Replays queued logs for a user in the order they were saved. Stops at the
+ * first network failure so later logs never overtake earlier ones. A flush
+ * already running for the same user is shared; one for another user is
+ * waited out first, so the two never rewrite the queue at the same time.
+ */
+export async function flushOutbox(userId: string): Promise<FlushResult> {
+  while (flushing) {
+    if (flushing.userId === userId) return flushing.promise;
+    await flushing.promise.catch(() => undefined);
+  }
+
+  const promise = replayOutbox(userId).finally(() => {
+    flushing = null;
+  });
+  flushing = { userId, promise };
+  return promise;
+}
+
+async function replayOutbox(userId: string): Promise<FlushResult> {
+  const result: FlushResult = { synced: 0, conflicts: 0, failed: 0, remaining: 0 };
+  const mine = (await readState()).pending.filter((e) => e.userId === userId);
+  const done = new Set<string>();
+  const retired: OutboxEntry[] = [];
+  const touched = new Map<string, OutboxEntry>();
+
+  for (const entry of mine) {
+    try {
+      const written = await writeEntry(entry);
+      if (written.status === 'saved') {
+        result.synced++;
+      } else {
+        // kept with the failed logs so the user can still choose to save it over the server copy
+        retired.push({ ...entry, conflicted: true, lastError: 'Changed on another device' });
+        result.conflicts++;
+      }
+      done.add(entry.id);
+    } catch (error: any) {
+      if (isNetworkError(error)) break;
+
+      const updated = {
+        ...entry,
+        attempts: entry.attempts + 1,
+        lastError: error?.message ?? String(error),
+      };
+      if (updated.attempts >= MAX_ATTEMPTS) {
+        done.add(entry.id);
+        retired.push(updated);
+        result.failed++;
+      } else {
+        touched.set(entry.id, updated);
+        break;
+      }
+    }
+  }
+
+  // re-read so saves queued while we were flushing aren't overwritten
+  const state = await readState();
+  state.pending = state.pending
+    .filter((e) => !done.has(e.id))
+    .map((e) => touched.get(e.id) ?? e);
+  state.failed.push(...retired);
+  await writeState(state);
+  if (result.synced > 0) noteLogsWritten();
+
+  result.remaining = state.pending.filter((e) => e.userId === userId).length;
+  return result;
+}
+
+/**
+ * Moves a user's failed logs back into the queue, ahead of anything saved
+ * since (they were saved first), and replays them. Logs that conflicted with
+ * the server copy replace it this time.
+ */
+export async function retryFailed(userId: string): Promise<FlushResult> {
+  const state = await readState();
+  const mine = state.failed
+    .filter((e) => e.userId === userId)
+    .map((e): OutboxEntry => {
+      const retry = { ...e, attempts: 0, lastError: null, conflicted: false };
+      if (retry.kind !== 'daily' || !e.conflicted) return retry;
+      return { ...retry, payload: { ...retry.payload, base_updated_at: undefined, updated_at: undefined } };
+    });
+  if (mine.length > 0) {
+    state.failed = state.failed.filter((e) => e.userId !== userId);
+    state.pending = [...mine, ...state.pending];
+    await writeState(state);
+  }
+
+  return flushOutbox(userId);
+}
+
+/** Drops a user's failed logs for good. */
+export async function discardFailed(userId: string) {
+  const state = await readState();
+  state.failed = state.failed.filter((e) => e.userId !== userId);
+  await writeState(state);
+}
@@ -0,0 +1,304 @@
+import { supabase } from './supabase';
+import { addDays, daysBetween, toISODate, todayISODate } from './dates';
+import { Trigger } from './trigger-types';
+import { DoseStatus, Medication, MedicationDose, MedicationScheduleType } from './types';
+
+export interface MedicationInput {
+  name: string;
+  dose_amount: number | null;
+  dose_unit: string | null;
+  schedule_type: MedicationScheduleType;
+  schedule_times: string[];
+  user_condition_id: string | null;
+  notes: string | null;
+}
+
+export interface MedicationAdherence {
+  medicationId: string;
+  name: string;
+  scheduleType: MedicationScheduleType;
+  // scheduled doses due in the window, and how many were logged as taken
+  expected: number;
+  taken: number;
+  skipped: number;
+  // null for PRN medications or when nothing was due yet
+  percent: number | null;
+  prnDoses: number;
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export function isValidDoseTime(time: string) {
+  return TIME_PATTERN.test(time);
+}
+
+export function formatDose(med: Pick<Medication, 'dose_amount' | 'dose_unit'>) {
+  if (med.dose_amount === null || med.dose_amount === undefined) return med.dose_unit ?? '';
+  return [med.dose_amount, med.dose_unit].filter(Boolean).join(' ');
+}
+
+export function formatDoseTime(time: string) {
+  const [h, m] = time.split(':').map(Number);
+  const suffix = h >= 12 ? 'PM' : 'AM';
+  return `${h % 12 === 0 ? 12 : h % 12}:${String(m).padStart(2, '0')} ${suffix}`;
+}
+
+export async function fetchMedications(
+  userId: string,
+  { includeInactive = false }: { includeInactive?: boolean } = {}
+): Promise<Medication[]> {
+  let query = supabase
+    .from('medications')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+  if (!includeInactive) query = query.eq('active', true);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return (data ?? []) as Medication[];
+}
+
+export async function saveMedication(userId: string, input: MedicationInput, id?: string) {
+  const row = {
+    ...input,
+    name: input.name.trim(),
+    schedule_times: input.schedule_type === 'prn' ? [] : [...input.schedule_times].sort(),
+    updated_at: new Date().toISOString(),
+  };
+
+  const { data, error } = id
+    ? await supabase.from('medications').update(row).eq('id', id).select().single()
+    : await supabase
+        .from('medications')
+        .insert({ ...row, user_id: userId })
+        .select()
+        .single();
+
+  if (error) throw error;
+
+  return data as Medication;
+}
+
+export async function setMedicationActive(id: string, active: boolean) {
+  const { error } = await supabase
+    .from('medications')
+    .update({ active, updated_at: new Date().toISOString() })
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+export async function deleteMedication(id: string) {
+  const { error } = await supabase.from('medications').delete().eq('id', id);
+
+  if (error) throw error;
+}
+
+export async function fetchDoses(
+  userId: string,
+  startDate: string,
+  endDate: string
+): Promise<MedicationDose[]> {
+  const { data, error } = await supabase
+    .from('medication_doses')
+    .select('*')
+    .eq('user_id', userId)
+    .gte('date', startDate)
+    .lte('date', endDate)
+    .order('taken_at', { ascending: true });
+
+  if (error) throw error;
+
+  return (data ?? []) as MedicationDose[];
+}
+
+/** Records a scheduled slot as taken or skipped; re-recording the same slot overwrites it. */
+export async function recordScheduledDose(
+  userId: string,
+  medication: Medication,
+  date: string,
+  scheduledTime: string,
+  status: DoseStatus
+) {
+  const { data, error } = await supabase
+    .from('medication_doses')
+    .upsert(
+      {
+        user_id: userId,
+        medication_id: medication.id,
+        date,
+        scheduled_time: scheduledTime,
+        status,
+        is_prn: false,
+        dose_amount: medication.dose_amount,
+        taken_at: new Date().toISOString(),
+      },
+      { onConflict: 'medication_id,date,scheduled_time' }
+    )
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return data as MedicationDose;
+}
+
+export async function recordPrnDose(
+  userId: string,
+  medication: Medication,
+  { reason, doseAmount }: { reason: string | null; doseAmount?: number | null }
+) {
+  const takenAt = new Date();
+  const { data, error } = await supabase
+    .from('medication_doses')
+    .insert({
+      user_id: userId,
+      medication_id: medication.id,
+      date: toISODate(takenAt),
+      taken_at: takenAt.toISOString(),
+      status: 'taken',
+      is_prn: true,
+      dose_amount: doseAmount ?? medication.dose_amount,
+      reason: reason?.trim() || null,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return data as MedicationDose;
+}
+
+export async function deleteDose(id: string) {
+  const { error } = await supabase.from('medication_doses').delete().eq('id', id);
+
+  if (error) throw error;
+}
+
+function activeFrom(med: Medication, startDate: string) {
+  const created = toISODate(new Date(med.created_at));
+  return created > startDate ? created : startDate;
+}
+
+/**
+ * Scheduled doses due between startDate and endDate (from the day the
+ * medication was added) against those logged as taken. Today only counts the
+ * slots already logged, so a dose that isn't due yet doesn't read as missed.
+ */
+export function computeAdherence(
+  medications: Medication[],
+  doses: MedicationDose[],
+  startDate: string,
+  endDate: string
+): MedicationAdherence[] {
+  const today = todayISODate();
+
+  return medications.map((med) => {
+    const medDoses = doses.filter(
+      (d) => d.medication_id === med.id && d.date >= startDate && d.date <= endDate
+    );
+    const prnDoses = medDoses.filter((d) => d.is_prn && d.status === 'taken').length;
+
+    if (med.schedule_type === 'prn' || med.schedule_times.length === 0) {
+      return {
+        medicationId: med.id,
+        name: med.name,
+        scheduleType: med.schedule_type,
+        expected: 0,
+        taken: 0,
+        skipped: 0,
+        percent: null,
+        prnDoses,
+      };
+    }
+
+    const scheduled = medDoses.filter((d) => !d.is_prn);
+    const from = activeFrom(med, startDate);
+    const lastFullDay = endDate >= today ? addDays(today, -1) : endDate;
+    const fullDays = Math.max(0, daysBetween(from, lastFullDay) + 1);
+    const loggedToday = endDate >= today ? scheduled.filter((d) => d.date === today).length : 0;
+
+    const expected = fullDays * med.schedule_times.length + loggedToday;
+    const taken = scheduled.filter((d) => d.status === 'taken').length;
+    const skipped = scheduled.filter((d) => d.status === 'skipped').length;
+
+    return {
+      medicationId: med.id,
+      name: med.name,
+      scheduleType: med.schedule_type,
+      expected,
+      taken,
+      skipped,
+      percent: expected > 0 ? Math.min(1, taken / expected) : null,
+      prnDoses,
+    };
+  });
+}
+
+export async function fetchMedicationAdherence(userId: string, days: number = 30) {
+  const endDate = todayISODate();
+  const startDate = addDays(endDate, -(days - 1));
+
+  const [medications, doses] = await Promise.all([
+    fetchMedications(userId, { includeInactive: true }),
+    fetchDoses(userId, startDate, endDate),
+  ]);
+
+  return {
+    medications,
+    adherence: computeAdherence(medications, doses, startDate, endDate),
+  };
+}
+
+/**
+ * Turns dose logs into binary "missed a dose" series shaped like daily trigger
+ * rows, so the correlation engine can compare severity on days a scheduled
+ * medication was missed against fully-taken days. Days with no doses logged
+ * for a medication are left out rather than counted as missed.
+ */
+export function medicationCorrelationInputs(medications: Medication[], doses: MedicationDose[]) {
+  const scheduled = medications.filter(
+    (m) => m.schedule_type === 'scheduled' && m.schedule_times.length > 0
+  );
+
+  const triggers: Trigger[] = scheduled.map((med, i) => ({
+    id: `medication:${med.id}`,
+    key: `medication_missed_${med.id}`,
+    label: `Missed ${med.name}`,
+    category: 'medical',
+    input_type: 'binary',
+    options_json: { options: ['No', 'Yes'] },
+    is_active: true,
+    parent_trigger_id: null,
+    sort_order: 1000 + i,
+    created_at: med.created_at,
+  }));
+
+  const byDate = new Map<string, { trigger_id: string; value: number }[]>();
+  for (const med of scheduled) {
+    const takenByDate = new Map<string, number>();
+    for (const dose of doses) {
+      if (dose.medication_id !== med.id || dose.is_prn) continue;
+      takenByDate.set(dose.date, (takenByDate.get(dose.date) ?? 0) + (dose.status === 'taken' ? 1 : 0));
+    }
+
+    for (const [date, taken] of takenByDate) {
+      const rows = byDate.get(date) ?? [];
+      rows.push({
+        trigger_id: `medication:${med.id}`,
+        value: taken < med.schedule_times.length ? 1 : 0,
+      });
+      byDate.set(date, rows);
+    }
+  }
+
+  const dailyLogs = Array.from(byDate, ([date, rows]) => ({
+    date,
+    daily_log_conditions: [],
+    daily_log_triggers: rows,
+  }));
+
+  return { triggers, dailyLogs };
+}
@@ -0,0 +1,255 @@
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { supabase } from './supabase';
+import { deviceTimeZone, getTimeZone, timeZoneOffsetMinutes, zonedDateTime } from './dates';
+import { fetchReminderContext, planReminders, PlannedReminder } from './reminder-policy';
+import { CustomNotification, ReminderTarget } from './types';
+
+/**
+ * Reminders live in `custom_notifications` and the check-in reminder policy;
+ * the device only holds a copy. syncNotificationSchedule() throws away every
+ * reminder this app scheduled and re-schedules from the current state, so it
+ * is safe to call on launch, on resume, after any edit and after logging.
+ */
+
+const REMINDER_ID_PREFIX = 'custom-notification:';
+const CHECK_IN_ID_PREFIX = 'check-in-reminder:';
+const ANDROID_CHANNEL_ID = 'reminders';
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+const WEEKDAYS = [1, 2, 3, 4, 5];
+const WEEKEND = [0, 6];
+
+export const REMINDER_TARGETS: { value: ReminderTarget; label: string; description: string }[] = [
+  { value: 'daily_log', label: 'Daily check-in', description: 'Opens the full daily log' },
+  { value: 'moment_log', label: 'Quick log', description: 'Opens a quick moment log' },
+  { value: 'medications', label: 'Medications', description: 'Opens today\'s doses' },
+];
+
+export interface ReminderSlot {
+  // 0 = Sunday … 6 = Saturday, in the device's timezone
+  weekday: number;
+  hour: number;
+  minute: number;
+}
+
+/** Route a tapped reminder opens. Medication doses are logged from the daily check-in. */
+export function reminderUrl(target: ReminderTarget | null | undefined) {
+  switch (target) {
+    case 'moment_log':
+      return '/(tabs)/today?mode=moment';
+    case 'medications':
+    case 'daily_log':
+    default:
+      return '/(tabs)/today?mode=daily';
+  }
+}
+
+/** Days (0 = Sunday) a reminder fires on, in the user's timezone. */
+export function reminderDays(notification: Pick<CustomNotification, 'frequency' | 'days_of_week' | 'created_at'>) {
+  const chosen = (notification.days_of_week ?? []).filter((d) => d >= 0 && d <= 6);
+
+  switch (notification.frequency) {
+    case 'weekdays':
+      return WEEKDAYS;
+    case 'weekends':
+      return WEEKEND;
+    case 'weekly':
+      // Older weekly reminders were saved without a day; keep the day they were created.
+      return chosen.length > 0 ? chosen.slice(0, 1) : [new Date(notification.created_at).getDay()];
+    case 'custom':
+      return Array.from(new Set(chosen)).sort();
+    case 'daily':
+    default:
+      return ALL_DAYS;
+  }
+}
+
+/**
+ * Converts a reminder's days and "HH:MM" time in `timeZone` into device-local
+ * weekly slots. The OS schedules in device time, so a reminder for 9:00 in the
+ * user's configured zone moves (possibly to another weekday) when the phone is
+ * set to a different one. Offsets are taken from now; re-syncing on resume
+ * picks up DST changes.
+ */
+export function toDeviceSlots(
+  days: number[],
+  time: string,
+  timeZone: string,
+  now: Date = new Date()
+): ReminderSlot[] {
+  const [hour, minute] = time.split(':').map(Number);
+  if (Number.isNaN(hour) || Number.isNaN(minute)) return [];
+
+  const shift = timeZoneOffsetMinutes(deviceTimeZone(), now) - timeZoneOffsetMinutes(timeZone, now);
+
+  return days.map((day) => {
+    const total =
+      (((day * MINUTES_PER_DAY + hour * 60 + minute + shift) % MINUTES_PER_WEEK) + MINUTES_PER_WEEK) %
+      MINUTES_PER_WEEK;
+    return {
+      weekday: Math.floor(total / MINUTES_PER_DAY),
+      hour: Math.floor((total % MINUTES_PER_DAY) / 60),
+      minute: total % 60,
+    };
+  });
+}
+
+let handlerConfigured = false;
+
+/** Shows reminders while the app is open and sets up the Android channel. */
+export async function configureNotifications() {
+  if (Platform.OS === 'web') return;
+
+  if (!handlerConfigured) {
+    Notifications.setNotificationHandler({
+      handleNotification: async () => ({
+        shouldShowBanner: true,
+        shouldShowList: true,
+        shouldPlaySound: true,
+        shouldSetBadge: false,
+      }),
+    });
+    handlerConfigured = true;
+  }
+
+  if (Platform.OS === 'android') {
+    await Notifications.setNotificationChannelAsync(ANDROID_CHANNEL_ID, {
+      name: 'Reminders',
+      importance: Notifications.AndroidImportance.HIGH,
+    });
+  }
+}
+
+/** Asks for permission only if it hasn't been decided yet. */
+export async function ensureNotificationPermission() {
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted) return true;
+  if (!current.canAskAgain) return false;
+
+  const requested = await Notifications.requestPermissionsAsync();
+  return requested.granted;
+}
+
+export async function fetchEnabledReminders(userId: string): Promise<CustomNotification[]> {
+  const { data, error } = await supabase
+    .from('custom_notifications')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('is_enabled', true);
+
+  if (error) throw error;
+
+  return (data ?? []) as CustomNotification[];
+}
+
+/** Removes every reminder this app scheduled, e.g. on sign-out. */
+export async function cancelScheduledReminders() {
+  if (Platform.OS === 'web') return;
+
+  const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+  await Promise.all(
+    scheduled
+      .filter(
+        (n) =>
+          n.identifier.startsWith(REMINDER_ID_PREFIX) || n.identifier.startsWith(CHECK_IN_ID_PREFIX)
+      )
+      .map((n) => Notifications.cancelScheduledNotificationAsync(n.identifier))
+  );
+}
+
+async function scheduleReminder(notification: CustomNotification, timeZone: string) {
+  const slots = toDeviceSlots(reminderDays(notification), notification.time, timeZone);
+  const content: Notifications.NotificationContentInput = {
+    title: 'My Body Told Me',
+    body: notification.message,
+    data: { url: reminderUrl(notification.target), customNotificationId: notification.id },
+  };
+
+  // Daily reminders land on every weekday at the same device time, so one DAILY trigger covers them.
+  if (slots.length === 7 && slots.every((s) => s.hour === slots[0].hour && s.minute === slots[0].minute)) {
+    await Notifications.scheduleNotificationAsync({
+      identifier: `${REMINDER_ID_PREFIX}${notification.id}:daily`,
+      content,
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DAILY,
+        channelId: ANDROID_CHANNEL_ID,
+        hour: slots[0].hour,
+        minute: slots[0].minute,
+      },
+    });
+    return;
+  }
+
+  for (const slot of slots) {
+    await Notifications.scheduleNotificationAsync({
+      identifier: `${REMINDER_ID_PREFIX}${notification.id}:${slot.weekday}`,
+      content,
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.WEEKLY,
+        channelId: ANDROID_CHANNEL_ID,
+        // expo-notifications counts weekdays from 1 = Sunday
+        weekday: slot.weekday + 1,
+        hour: slot.hour,
+        minute: slot.minute,
+      },
+    });
+  }
+}
+
+async function schedulePlannedReminder(reminder: PlannedReminder, timeZone: string) {
+  const fireAt = zonedDateTime(reminder.date, reminder.time, timeZone);
+  if (fireAt.getTime() <= Date.now()) return;
+
+  await Notifications.scheduleNotificationAsync({
+    identifier: `${CHECK_IN_ID_PREFIX}${reminder.key}`,
+    content: {
+      title: reminder.title,
+      body: reminder.body,
+      data: { url: reminder.url },
+    },
+    trigger: {
+      type: Notifications.SchedulableTriggerInputTypes.DATE,
+      channelId: ANDROID_CHANNEL_ID,
+      date: fireAt,
+    },
+  });
+}
+
+let syncQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Reconciles the device's scheduled reminders with the user's enabled
+ * `custom_notifications` and planned check-in reminders. Calls are queued so overlapping syncs can't
+ * interleave their cancel and schedule steps.
+ */
+export function syncNotificationSchedule(userId: string) {
+  const run = async () => {
+    if (Platform.OS === 'web') return;
+
+    const timeZone = getTimeZone();
+    const [reminders, context] = await Promise.all([
+      fetchEnabledReminders(userId),
+      fetchReminderContext(userId, timeZone),
+    ]);
+    const planned = planReminders(context, { timeZone });
+
+    await cancelScheduledReminders();
+    if (reminders.length === 0 && planned.length === 0) return;
+
+    if (!(await ensureNotificationPermission())) return;
+
+    for (const reminder of reminders) {
+      await scheduleReminder(reminder, timeZone);
+    }
+    for (const reminder of planned) {
+      await schedulePlannedReminder(reminder, timeZone);
+    }
+  };
+
+  const next = syncQueue.then(run, run);
+  syncQueue = next.catch(() => undefined);
+  return next;
+}
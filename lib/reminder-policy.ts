@@ -0,0 +1,194 @@
+import { supabase } from './supabase';
+import { getPendingLogDates } from './log-outbox';
+import { recomputeStreak } from './streak';
+import { addDays, daysBetween, getTimeZone, minutesOfDay, toISODate } from './dates';
+import { NotificationPreference } from './types';
+
+/**
+ * Check-in reminders follow `user_preferences.notification_preference` and
+ * the time of day the user usually logs. Reminders are planned as one-off
+ * notifications for the next couple of weeks and re-planned whenever the app
+ * opens or a log is saved, which is how a day that's already logged drops its
+ * reminder.
+ */
+
+export const REMINDER_HORIZON_DAYS = 14;
+// how far back daily_logs.created_at is read to find the usual logging time
+const LOG_TIME_LOOKBACK_DAYS = 60;
+const MIN_LOGS_FOR_TYPICAL_TIME = 3;
+const DEFAULT_REMINDER_MINUTES = 20 * 60;
+const EARLIEST_REMINDER_MINUTES = 7 * 60;
+const LATEST_REMINDER_MINUTES = 22 * 60;
+const EARLIEST_NUDGE_MINUTES = 19 * 60;
+const LATEST_NUDGE_MINUTES = 22 * 60 + 30;
+const MIN_STREAK_TO_NUDGE = 2;
+// occasional reminders fire every other day once the user has gone this long without logging
+const OCCASIONAL_GAP_DAYS = 2;
+
+export type PlannedReminderKind = 'check_in' | 'streak';
+
+export interface ReminderContext {
+  preference: NotificationPreference;
+  // daily_logs.created_at for recent logs
+  logTimes: string[];
+  // dates with a daily check-in, including ones still queued offline
+  dailyLogDates: string[];
+  // latest date with any log (daily or moment)
+  lastLogDate: string | null;
+  currentStreak: number;
+  freezesAvailable: number;
+}
+
+export interface PlannedReminder {
+  key: string;
+  kind: PlannedReminderKind;
+  date: string;
+  // "HH:MM" in the user's timezone
+  time: string;
+  title: string;
+  body: string;
+  url: string;
+}
+
+function toTime(minutes: number) {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * The minute of the day the user typically saves their check-in (median,
+ * rounded to 15 minutes and kept to waking hours), or 20:00 without enough
+ * history.
+ */
+export function typicalReminderMinutes(logTimes: string[], timeZone: string = getTimeZone()) {
+  if (logTimes.length < MIN_LOGS_FOR_TYPICAL_TIME) return DEFAULT_REMINDER_MINUTES;
+
+  const minutes = logTimes.map((t) => minutesOfDay(new Date(t), timeZone)).sort((a, b) => a - b);
+  const mid = Math.floor(minutes.length / 2);
+  const median = minutes.length % 2 === 0 ? (minutes[mid - 1] + minutes[mid]) / 2 : minutes[mid];
+  const rounded = Math.round(median / 15) * 15;
+
+  return Math.min(LATEST_REMINDER_MINUTES, Math.max(EARLIEST_REMINDER_MINUTES, rounded));
+}
+
+export function planReminders(
+  context: ReminderContext,
+  { now = new Date(), timeZone = getTimeZone() }: { now?: Date; timeZone?: string } = {}
+): PlannedReminder[] {
+  if (context.preference === 'none') return [];
+
+  const today = toISODate(now, timeZone);
+  const nowMinutes = minutesOfDay(now, timeZone);
+  const reminderMinutes = typicalReminderMinutes(context.logTimes, timeZone);
+  const nudgeMinutes = Math.min(
+    LATEST_NUDGE_MINUTES,
+    Math.max(EARLIEST_NUDGE_MINUTES, reminderMinutes + 120)
+  );
+
+  const dailyLogged = new Set(context.dailyLogDates);
+  const loggedToday = dailyLogged.has(today) || context.lastLogDate === today;
+  const lastActivity = [context.lastLogDate, ...context.dailyLogDates]
+    .filter((d): d is string => !!d && d <= today)
+    .sort()
+    .pop();
+
+  const planned: PlannedReminder[] = [];
+
+  for (let i = 0; i < REMINDER_HORIZON_DAYS; i++) {
+    const date = addDays(today, i);
+    if (i === 0 && (dailyLogged.has(today) || nowMinutes >= reminderMinutes)) continue;
+
+    if (context.preference === 'occasional') {
+      // Days after today are planned as if nothing gets logged; the next sync re-plans.
+      const gap = lastActivity ? daysBetween(lastActivity, date) : i + OCCASIONAL_GAP_DAYS;
+      if (gap < OCCASIONAL_GAP_DAYS || (gap - OCCASIONAL_GAP_DAYS) % 2 !== 0) continue;
+
+      planned.push({
+        key: `check_in:${date}`,
+        kind: 'check_in',
+        date,
+        time: toTime(reminderMinutes),
+        title: 'How have you been?',
+        body: 'It\'s been a few days — a quick check-in keeps your patterns accurate.',
+        url: '/(tabs)/today?mode=daily',
+      });
+      continue;
+    }
+
+    planned.push({
+      key: `check_in:${date}`,
+      kind: 'check_in',
+      date,
+      time: toTime(reminderMinutes),
+      title: 'Time to check in',
+      body: 'How are you feeling today? It only takes a minute.',
+      url: '/(tabs)/today?mode=daily',
+    });
+  }
+
+  // A streak is only at risk when no freeze would cover the missed day.
+  const streakAlive =
+    !!context.lastLogDate && context.lastLogDate >= addDays(today, -1) && context.currentStreak > 0;
+  if (streakAlive && context.currentStreak >= MIN_STREAK_TO_NUDGE && context.freezesAvailable === 0) {
+    const nudge = (date: string) => ({
+      key: `streak:${date}`,
+      kind: 'streak' as const,
+      date,
+      time: toTime(nudgeMinutes),
+      title: 'Keep your streak going 🔥',
+      body: `Log anything today to keep your ${context.currentStreak}-day streak.`,
+      url: '/(tabs)/today?mode=moment',
+    });
+
+    if (!loggedToday && nowMinutes < nudgeMinutes) planned.push(nudge(today));
+    // Once today is logged, tomorrow is the next day the streak could be lost.
+    if (loggedToday) planned.push(nudge(addDays(today, 1)));
+  }
+
+  return planned;
+}
+
+export async function fetchReminderContext(
+  userId: string,
+  timeZone: string = getTimeZone()
+): Promise<ReminderContext> {
+  const since = addDays(toISODate(new Date(), timeZone), -LOG_TIME_LOOKBACK_DAYS);
+
+  const [prefsRes, logsRes, streak, pending] = await Promise.all([
+    supabase
+      .from('user_preferences')
+      .select('notification_preference')
+      .eq('user_id', userId)
+      .maybeSingle(),
+    supabase
+      .from('daily_logs')
+      .select('date, created_at')
+      .eq('user_id', userId)
+      .gte('date', since)
+      .order('date', { ascending: false }),
+    // recomputed rather than read from `users` so days missed since the last log are reflected
+    recomputeStreak(),
+    getPendingLogDates(userId),
+  ]);
+
+  if (prefsRes.error) throw prefsRes.error;
+  if (logsRes.error) throw logsRes.error;
+
+  const logs = logsRes.data ?? [];
+  const pendingDates = pending.map((p) => p.date);
+  const lastLogDate = [streak.last_log_date, ...pendingDates]
+    .filter((d): d is string => !!d)
+    .sort()
+    .pop() ?? null;
+
+  return {
+    preference: (prefsRes.data?.notification_preference as NotificationPreference) ?? 'none',
+    logTimes: logs.map((l) => l.created_at as string),
+    dailyLogDates: [
+      ...logs.map((l) => l.date as string),
+      ...pending.filter((p) => p.kind === 'daily').map((p) => p.date),
+    ],
+    lastLogDate,
+    currentStreak: streak.current_streak,
+    freezesAvailable: streak.freezes_available,
+  };
+}
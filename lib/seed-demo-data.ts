@@ -1,4 +1,6 @@
 import { supabase } from './supabase';
+import { toISODate } from './dates';
+import { noteLogsWritten } from './log-outbox';
 
 export async function seedDemoData() {
   console.log('[seedDemoData] starting');
@@ -120,7 +122,7 @@ export async function seedDemoData() {
     for (let i = 14; i >= 0; i--) {
       const date = new Date(today);
       date.setDate(date.getDate() - i);
-      const dateStr = date.toISOString().split('T')[0];
+      const dateStr = toISODate(date);
 
       const baseSeverity = 5 + Math.sin(i / 3) * 2;
       const severity = Math.max(1, Math.min(10, Math.round(baseSeverity + (Math.random() - 0.5) * 2)));
@@ -200,7 +202,7 @@ export async function seedDemoData() {
             triggers: selectedTriggers.join(', '),
             notes: Math.random() > 0.4 ? logNotes[Math.floor(Math.random() * logNotes.length)] : null,
             timestamp: logTime.toISOString(),
-            date: dateStr,
+            date: toISODate(logTime),
             created_at: logTime.toISOString(),
             linked_condition_id: userConditionIds[Math.floor(Math.random() * userConditionIds.length)],
           });
@@ -294,6 +296,8 @@ export async function seedDemoData() {
       notificationsData.length
     ); // ← put this here
 
+    noteLogsWritten();
+
     return {
       success: true,
       message: `Created ${userConditions?.length || 0} conditions, ${dailyLogs.length} daily logs, ${momentLogs.length} moment logs, and ${notificationsData.length} notifications`
@@ -0,0 +1,142 @@
+// Small, dependency-free statistics helpers used by the insights analytics.
+
+export type Interval = [number, number];
+
+const Z_975 = 1.959964;
+
+export function mean(xs: number[]) {
+  if (xs.length === 0) return NaN;
+  return xs.reduce((a, b) => a + b, 0) / xs.length;
+}
+
+// sample variance (n - 1)
+export function variance(xs: number[]) {
+  if (xs.length < 2) return NaN;
+  const m = mean(xs);
+  return xs.reduce((acc, x) => acc + (x - m) ** 2, 0) / (xs.length - 1);
+}
+
+export function standardDeviation(xs: number[]) {
+  return Math.sqrt(variance(xs));
+}
+
+/**
+ * Normal quantile for a two-sided 95% interval, Bonferroni-adjusted when it
+ * is one of `comparisons` intervals searched for the clearest result (1.96
+ * for a single one). Abramowitz & Stegun 26.2.23, accurate to about 5e-4.
+ */
+export function bonferroniZ(comparisons: number = 1) {
+  if (comparisons <= 1) return Z_975;
+  const t = Math.sqrt(-2 * Math.log(0.025 / comparisons));
+  return (
+    t -
+    (2.515517 + 0.802853 * t + 0.010328 * t ** 2) /
+      (1 + 1.432788 * t + 0.189269 * t ** 2 + 0.001308 * t ** 3)
+  );
+}
+
+/**
+ * Student's t quantile matching the normal quantile `z` (97.5% by default),
+ * via the Cornish-Fisher expansion. Accurate to about 0.01 for df >= 3, which
+ * is plenty for display intervals.
+ */
+export function tCritical(df: number, z: number = Z_975) {
+  if (!Number.isFinite(df) || df <= 0) return NaN;
+  const z3 = z ** 3;
+  const z5 = z ** 5;
+  const z7 = z ** 7;
+  return (
+    z +
+    (z3 + z) / (4 * df) +
+    (5 * z5 + 16 * z3 + 3 * z) / (96 * df ** 2) +
+    (3 * z7 + 19 * z5 + 17 * z3 - 15 * z) / (384 * df ** 3)
+  );
+}
+
+/** Pearson correlation; null when either series is constant. */
+export function pearson(xs: number[], ys: number[]): number | null {
+  const n = Math.min(xs.length, ys.length);
+  if (n < 3) return null;
+
+  const mx = mean(xs);
+  const my = mean(ys);
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = xs[i] - mx;
+    const dy = ys[i] - my;
+    sxy += dx * dy;
+    sxx += dx * dx;
+    syy += dy * dy;
+  }
+
+  if (sxx === 0 || syy === 0) return null;
+  return sxy / Math.sqrt(sxx * syy);
+}
+
+/** 95% interval for a correlation using the Fisher z-transform; see bonferroniZ for `comparisons`. */
+export function correlationInterval(r: number, n: number, comparisons: number = 1): Interval {
+  if (n <= 3) return [-1, 1];
+  const clamped = Math.max(-0.999999, Math.min(0.999999, r));
+  const z = Math.atanh(clamped);
+  const se = 1 / Math.sqrt(n - 3);
+  const crit = bonferroniZ(comparisons);
+  return [Math.tanh(z - crit * se), Math.tanh(z + crit * se)];
+}
+
+export interface GroupComparison {
+  difference: number;
+  differenceInterval: Interval;
+  hedgesG: number;
+  hedgesGInterval: Interval;
+}
+
+/**
+ * Compares group `a` against group `b`: Welch interval for the raw mean
+ * difference plus Hedges' g (bias-corrected standardized difference).
+ * Returns null if either group is too small or both have zero spread.
+ * Intervals are 95%, widened by bonferroniZ when `comparisons` > 1.
+ */
+export function compareGroups(a: number[], b: number[], comparisons: number = 1): GroupComparison | null {
+  const n1 = a.length;
+  const n2 = b.length;
+  if (n1 < 2 || n2 < 2) return null;
+
+  const m1 = mean(a);
+  const m2 = mean(b);
+  const v1 = variance(a);
+  const v2 = variance(b);
+  const difference = m1 - m2;
+
+  const pooledSd = Math.sqrt(((n1 - 1) * v1 + (n2 - 1) * v2) / (n1 + n2 - 2));
+  if (pooledSd === 0) return null;
+
+  const se = Math.sqrt(v1 / n1 + v2 / n2);
+  const welchDf =
+    (v1 / n1 + v2 / n2) ** 2 /
+    ((v1 / n1) ** 2 / (n1 - 1) + (v2 / n2) ** 2 / (n2 - 1));
+  const z = bonferroniZ(comparisons);
+  const t = tCritical(Number.isFinite(welchDf) ? welchDf : n1 + n2 - 2, z);
+
+  const correction = 1 - 3 / (4 * (n1 + n2) - 9);
+  const g = (difference / pooledSd) * correction;
+  const seG = Math.sqrt((n1 + n2) / (n1 * n2) + g ** 2 / (2 * (n1 + n2)));
+
+  return {
+    difference,
+    differenceInterval: [difference - t * se, difference + t * se],
+    hedgesG: g,
+    hedgesGInterval: [g - z * seG, g + z * seG],
+  };
+}
+
+/** Correlation expressed on the same scale as Cohen's d, for ranking mixed results. */
+export function correlationToD(r: number) {
+  const clamped = Math.max(-0.999, Math.min(0.999, r));
+  return (2 * clamped) / Math.sqrt(1 - clamped ** 2);
+}
+
+export function excludesZero([lo, hi]: Interval) {
+  return lo > 0 || hi < 0;
+}
@@ -1,51 +1,70 @@
 import { supabase } from './supabase';
+import { getTimeZone, todayISODate } from './dates';
 
-export async function updateStreak(userId: string, logDate?: string) {
-  const dateToUse = logDate || new Date().toISOString().split('T')[0];
-  const { data: user, error: fetchError } = await supabase
-    .from('users')
-    .select('current_streak, longest_streak, last_log_date')
-    .eq('id', userId)
-    .maybeSingle();
+/**
+ * Streaks are derived in the database from every logged date (daily and
+ * moment logs), earned freezes and rest days; triggers keep `users` up to
+ * date whenever logs change. See compute_user_streak() in the migrations.
+ */
+export interface StreakSummary {
+  current_streak: number;
+  longest_streak: number;
+  freezes_available: number;
+  last_log_date: string | null;
+}
 
-  if (fetchError) throw fetchError;
+/** Recomputes the signed-in user's streak, e.g. so a missed day shows up without a new log. */
+export async function recomputeStreak(): Promise<StreakSummary> {
+  const { data, error } = await supabase.rpc('recompute_streak').single();
 
-  const today = new Date(dateToUse);
-  const lastLog = user?.last_log_date ? new Date(user.last_log_date) : null;
+  if (error) throw error;
 
-  let newCurrentStreak = 1;
+  return data as StreakSummary;
+}
 
-  if (lastLog) {
-    const yesterday = new Date(today);
-    yesterday.setDate(yesterday.getDate() - 1);
+// user, timezone and day of the last recompute
+let lastRecomputedFor: string | null = null;
 
-    if (lastLog.toDateString() === yesterday.toDateString()) {
-      newCurrentStreak = (user?.current_streak || 0) + 1;
-    } else if (lastLog.toDateString() !== today.toDateString()) {
-      newCurrentStreak = 1;
-    } else {
-      newCurrentStreak = user?.current_streak || 1;
-    }
-  }
+/**
+ * Recomputes the streak once per day. Log changes already refresh it in the
+ * database, so only a day passing (or the timezone changing) can make the
+ * stored streak stale. Returns null when it was already current.
+ */
+export async function recomputeStreakIfDayChanged(userId: string): Promise<StreakSummary | null> {
+  const key = `${userId}|${getTimeZone()}|${todayISODate()}`;
+  if (key === lastRecomputedFor) return null;
+
+  const streak = await recomputeStreak();
+  lastRecomputedFor = key;
+  return streak;
+}
 
-  const newLongestStreak = Math.max(
-    newCurrentStreak,
-    user?.longest_streak || 0
-  );
-
-  const { error: updateError } = await supabase
-    .from('users')
-    .update({
-      current_streak: newCurrentStreak,
-      longest_streak: newLongestStreak,
-      last_log_date: dateToUse,
-    })
-    .eq('id', userId);
-
-  if (updateError) throw updateError;
-
-  return {
-    current_streak: newCurrentStreak,
-    longest_streak: newLongestStreak,
-  };
+export async function fetchRestDays(userId: string, startDate: string, endDate: string) {
+  const { data, error } = await supabase
+    .from('streak_rest_days')
+    .select('date')
+    .eq('user_id', userId)
+    .gte('date', startDate)
+    .lte('date', endDate);
+
+  if (error) throw error;
+
+  return (data ?? []).map((row) => row.date as string);
+}
+
+/** Marks or unmarks a rest/flare day; the streak is recomputed by the database. */
+export async function setRestDay(userId: string, date: string, rest: boolean) {
+  if (rest) {
+    const { error } = await supabase
+      .from('streak_rest_days')
+      .upsert({ user_id: userId, date }, { onConflict: 'user_id,date', ignoreDuplicates: true });
+    if (error) throw error;
+  } else {
+    const { error } = await supabase
+      .from('streak_rest_days')
+      .delete()
+      .eq('user_id', userId)
+      .eq('date', date);
+    if (error) throw error;
+  }
 }
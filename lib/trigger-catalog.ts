@@ -0,0 +1,115 @@
+import { supabase } from './supabase';
+import { Trigger } from './trigger-types';
+
+/**
+ * The core trigger catalog is released in numbered versions (see
+ * `trigger_catalog_versions`). `user_preferences.trigger_catalog_version`
+ * remembers the latest one a user has seen, so settings can point out what
+ * was added since.
+ */
+
+export interface TriggerReplacementNote {
+  from: Trigger;
+  to: Trigger[];
+}
+
+export interface CatalogUpdate {
+  // the latest catalog version; pass to markCatalogSeen once shown
+  version: number;
+  summaries: string[];
+  // active core triggers added after the version the user last saw
+  newTriggers: Trigger[];
+  // retired triggers the user was tracking, and what they were moved onto
+  replaced: TriggerReplacementNote[];
+}
+
+export async function fetchLatestCatalogVersion(): Promise<number> {
+  const { data, error } = await supabase
+    .from('trigger_catalog_versions')
+    .select('version')
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data?.version ?? 0;
+}
+
+export async function markCatalogSeen(userId: string, version?: number) {
+  const latest = version ?? (await fetchLatestCatalogVersion());
+
+  const { error } = await supabase
+    .from('user_preferences')
+    .upsert(
+      { user_id: userId, trigger_catalog_version: latest, updated_at: new Date().toISOString() },
+      { onConflict: 'user_id' }
+    );
+
+  if (error) throw error;
+}
+
+/**
+ * What changed in the catalog since the user last looked, or null when
+ * nothing did. Users who have never seen the catalog (new accounts) are
+ * caught up silently: everything is new to them, so there's nothing to flag.
+ */
+export async function fetchCatalogUpdate(userId: string): Promise<CatalogUpdate | null> {
+  const [{ data: prefs, error: prefErr }, { data: versions, error: vErr }] = await Promise.all([
+    supabase.from('user_preferences').select('trigger_catalog_version').eq('user_id', userId).maybeSingle(),
+    supabase.from('trigger_catalog_versions').select('version, summary').order('version', { ascending: true }),
+  ]);
+
+  if (prefErr) throw prefErr;
+  if (vErr) throw vErr;
+
+  const latest = versions?.[versions.length - 1]?.version ?? 0;
+  const seen = prefs?.trigger_catalog_version ?? 0;
+
+  if (seen === 0 && latest > 0) {
+    await markCatalogSeen(userId, latest);
+    return null;
+  }
+  if (seen >= latest) return null;
+
+  const [{ data: newTriggers, error: tErr }, { data: replacements, error: rErr }, { data: userTriggers, error: utErr }] =
+    await Promise.all([
+      supabase
+        .from('triggers')
+        .select('*')
+        .is('owner_user_id', null)
+        .eq('is_active', true)
+        .gt('catalog_version', seen)
+        .order('sort_order'),
+      supabase
+        .from('trigger_replacements')
+        .select('from:triggers!from_trigger_id(*), to:triggers!to_trigger_id(*)')
+        .gt('catalog_version', seen),
+      supabase.from('user_triggers').select('trigger_id').eq('user_id', userId),
+    ]);
+
+  if (tErr) throw tErr;
+  if (rErr) throw rErr;
+  if (utErr) throw utErr;
+
+  // only replacements of triggers this user had set up are worth mentioning
+  const tracked = new Set((userTriggers ?? []).map((ut) => ut.trigger_id));
+  const replacedById = new Map<string, TriggerReplacementNote>();
+  // the client can't tell these to-one embeds from lists, so the row shape is stated here
+  const rows = (replacements ?? []) as unknown as { from: Trigger | null; to: Trigger | null }[];
+  for (const { from, to } of rows) {
+    if (!from || !to || !tracked.has(from.id)) continue;
+    const note = replacedById.get(from.id) ?? { from, to: [] };
+    note.to.push(to);
+    replacedById.set(from.id, note);
+  }
+
+  return {
+    version: latest,
+    summaries: (versions ?? [])
+      .filter((v) => v.version > seen && v.summary)
+      .map((v) => v.summary as string),
+    newTriggers: (newTriggers ?? []) as Trigger[],
+    replaced: Array.from(replacedById.values()),
+  };
+}
@@ -0,0 +1,472 @@
+import { supabase } from './supabase';
+import { Trigger } from './trigger-types';
+import { MAX_MULTI_SELECT_OPTIONS } from './trigger-values';
+import { addDays, todayISODate } from './dates';
+import { fetchDoses, fetchMedications, medicationCorrelationInputs } from './medications';
+import {
+  Interval,
+  compareGroups,
+  correlationInterval,
+  correlationToD,
+  excludesZero,
+  pearson,
+} from './stats';
+
+// Severity on day d + lag is compared against the trigger logged on day d.
+export const CORRELATION_LAGS = [0, 1, 2] as const;
+
+// Below this many paired days a result is still computed but never marked reliable.
+export const MIN_PAIRED_DAYS = 10;
+// Each side of a binary/enum comparison needs at least this many days.
+const MIN_GROUP_DAYS = 3;
+
+export type EffectKind = 'r' | 'g';
+export type EffectStrength = 'negligible' | 'weak' | 'moderate' | 'strong';
+
+export interface TriggerCorrelation {
+  userConditionId: string;
+  conditionName: string;
+  triggerId: string;
+  triggerKey: string;
+  triggerLabel: string;
+  inputType: Trigger['input_type'];
+  lag: number;
+  // number of days with both a trigger value and a severity
+  n: number;
+  // r for scale/numeric/duration triggers, Hedges' g for binary/enum/multi-select triggers
+  effectKind: EffectKind;
+  effect: number;
+  effectInterval: Interval;
+  // g only: severity points on exposed days minus the other days
+  meanDifference: number | null;
+  meanDifferenceInterval: Interval | null;
+  // g only: the option that was compared against all other days
+  level: string | null;
+  exposedDays: number | null;
+  unexposedDays: number | null;
+  strength: EffectStrength;
+  // enough data and a 95% interval (widened for the lags and options searched) that excludes zero
+  reliable: boolean;
+}
+
+export interface ConditionCorrelations {
+  userConditionId: string;
+  conditionName: string;
+  daysWithSeverity: number;
+  triggersTested: number;
+  results: TriggerCorrelation[];
+}
+
+export interface CorrelationReport {
+  startDate: string;
+  endDate: string;
+  conditions: ConditionCorrelations[];
+}
+
+export interface DayData {
+  // user_condition_id -> severity
+  severities: Map<string, number>;
+  // trigger_id -> value
+  triggers: Map<string, number>;
+}
+
+export function strengthOf(kind: EffectKind, effect: number): EffectStrength {
+  const a = Math.abs(effect);
+  const [weak, moderate, strong] = kind === 'r' ? [0.1, 0.3, 0.5] : [0.2, 0.5, 0.8];
+  if (a >= strong) return 'strong';
+  if (a >= moderate) return 'moderate';
+  if (a >= weak) return 'weak';
+  return 'negligible';
+}
+
+/** Ranks r and g results on a common (Cohen's d) scale. */
+export function effectMagnitude(c: TriggerCorrelation) {
+  return Math.abs(c.effectKind === 'r' ? correlationToD(c.effect) : c.effect);
+}
+
+function average(values: number[]) {
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+/**
+ * One value for a trigger logged several times in a day: any-yes for binary
+ * triggers, the latest option for enums, every option picked for
+ * multi-selects, the total for numeric and duration triggers (amounts like a
+ * coffee or a nap) and the mean for scales. `values` are in logged order.
+ */
+export function combineTriggerValues(type: Trigger['input_type'] | undefined, values: number[]) {
+  if (type === 'binary') return Math.max(...values);
+  if (type === 'enum') return values[values.length - 1];
+  if (type === 'multi_select') return values.reduce((a, b) => a | b, 0);
+  if (type === 'numeric' || type === 'duration') return values.reduce((a, b) => a + b, 0);
+  return average(values);
+}
+
+/**
+ * Collapses daily and moment logs into one row per date. The daily check-in
+ * wins where it has a value; otherwise moment logs fill in (mean severity,
+ * and trigger values combined by combineTriggerValues).
+ */
+export function buildDays(
+  dailyLogs: any[],
+  momentLogs: any[],
+  triggersById: Map<string, Trigger>
+): Map<string, DayData> {
+  const days = new Map<string, DayData>();
+  const dayFor = (date: string) => {
+    let day = days.get(date);
+    if (!day) {
+      day = { severities: new Map(), triggers: new Map() };
+      days.set(date, day);
+    }
+    return day;
+  };
+
+  const momentSeverities = new Map<string, Map<string, number[]>>();
+  const momentTriggers = new Map<string, Map<string, number[]>>();
+
+  // moment logs arrive ordered by timestamp, so the last enum value is the latest
+  for (const log of momentLogs) {
+    for (const c of log.moment_log_conditions ?? []) {
+      if (c.severity === null || c.severity === undefined) continue;
+      const byCondition = momentSeverities.get(log.date) ?? new Map<string, number[]>();
+      const list = byCondition.get(c.user_condition_id) ?? [];
+      list.push(c.severity);
+      byCondition.set(c.user_condition_id, list);
+      momentSeverities.set(log.date, byCondition);
+    }
+    for (const t of log.moment_log_triggers ?? []) {
+      if (t.value === null || t.value === undefined) continue;
+      const byTrigger = momentTriggers.get(log.date) ?? new Map<string, number[]>();
+      const list = byTrigger.get(t.trigger_id) ?? [];
+      list.push(Number(t.value));
+      byTrigger.set(t.trigger_id, list);
+      momentTriggers.set(log.date, byTrigger);
+    }
+  }
+
+  for (const [date, byCondition] of momentSeverities) {
+    const day = dayFor(date);
+    for (const [ucId, values] of byCondition) {
+      day.severities.set(ucId, average(values));
+    }
+  }
+
+  for (const [date, byTrigger] of momentTriggers) {
+    const day = dayFor(date);
+    for (const [triggerId, values] of byTrigger) {
+      day.triggers.set(triggerId, combineTriggerValues(triggersById.get(triggerId)?.input_type, values));
+    }
+  }
+
+  for (const log of dailyLogs) {
+    const day = dayFor(log.date);
+    for (const c of log.daily_log_conditions ?? []) {
+      if (c.severity === null || c.severity === undefined) continue;
+      day.severities.set(c.user_condition_id, c.severity);
+    }
+    for (const t of log.daily_log_triggers ?? []) {
+      if (t.value === null || t.value === undefined) continue;
+      day.triggers.set(t.trigger_id, Number(t.value));
+    }
+  }
+
+  return days;
+}
+
+function pairsFor(days: Map<string, DayData>, ucId: string, triggerId: string, lag: number) {
+  const values: number[] = [];
+  const severities: number[] = [];
+
+  for (const [date, day] of days) {
+    const value = day.triggers.get(triggerId);
+    if (value === undefined) continue;
+    const severity = days.get(addDays(date, lag))?.severities.get(ucId);
+    if (severity === undefined) continue;
+    values.push(value);
+    severities.push(severity);
+  }
+
+  return { values, severities };
+}
+
+function analyzeScale(values: number[], severities: number[], comparisons: number) {
+  const r = pearson(values, severities);
+  if (r === null) return null;
+  return {
+    effectKind: 'r' as const,
+    effect: r,
+    effectInterval: correlationInterval(r, values.length, comparisons),
+    meanDifference: null,
+    meanDifferenceInterval: null,
+    level: null,
+    exposedDays: null,
+    unexposedDays: null,
+  };
+}
+
+interface LevelGroups {
+  level: string;
+  exposed: number[];
+  unexposed: number[];
+}
+
+// null when either side has fewer than MIN_GROUP_DAYS days, so the level isn't tested
+function splitByLevel(
+  values: number[],
+  severities: number[],
+  isExposed: (v: number) => boolean,
+  level: string
+): LevelGroups | null {
+  const exposed: number[] = [];
+  const unexposed: number[] = [];
+  values.forEach((v, i) => (isExposed(v) ? exposed : unexposed).push(severities[i]));
+  if (exposed.length < MIN_GROUP_DAYS || unexposed.length < MIN_GROUP_DAYS) return null;
+  return { level, exposed, unexposed };
+}
+
+function analyzeLevel({ level, exposed, unexposed }: LevelGroups, comparisons: number) {
+  const cmp = compareGroups(exposed, unexposed, comparisons);
+  if (!cmp) return null;
+
+  return {
+    effectKind: 'g' as const,
+    effect: cmp.hedgesG,
+    effectInterval: cmp.hedgesGInterval,
+    meanDifference: cmp.difference,
+    meanDifferenceInterval: cmp.differenceInterval,
+    level,
+    exposedDays: exposed.length,
+    unexposedDays: unexposed.length,
+  };
+}
+
+/** The clearest of several levels, with intervals widened for every level tested. */
+function analyzeBestLevel(candidates: (LevelGroups | null)[], comparisons: number) {
+  const tested = candidates.filter((c): c is LevelGroups => c !== null);
+  let best: ReturnType<typeof analyzeLevel> = null;
+  for (const groups of tested) {
+    const result = analyzeLevel(groups, comparisons * tested.length);
+    if (result && (!best || Math.abs(result.effect) > Math.abs(best.effect))) {
+      best = result;
+    }
+  }
+  return best;
+}
+
+/**
+ * Effect of one trigger on paired severities, picking the method by input
+ * type. `comparisons` is how many of these results the caller searches for
+ * the clearest one (e.g. one per lag); intervals are Bonferroni-widened for
+ * it, and for every option tested within an enum or multi-select.
+ */
+export function analyzeTrigger(
+  trigger: Trigger,
+  values: number[],
+  severities: number[],
+  comparisons: number = 1
+) {
+  if (trigger.input_type === 'scale' || trigger.input_type === 'numeric' || trigger.input_type === 'duration') {
+    return analyzeScale(values, severities, comparisons);
+  }
+
+  const options = trigger.options_json?.options ?? [];
+
+  if (trigger.input_type === 'binary') {
+    const groups = splitByLevel(values, severities, (v) => v > 0, options[1] ?? 'Yes');
+    return groups && analyzeLevel(groups, comparisons);
+  }
+
+  // multi-select: each option picked vs not picked, corrected like enums below
+  if (trigger.input_type === 'multi_select') {
+    const optionCount = Math.min(options.length, MAX_MULTI_SELECT_OPTIONS);
+    return analyzeBestLevel(
+      Array.from({ length: optionCount }, (_, i) =>
+        splitByLevel(values, severities, (v) => (v & (1 << i)) !== 0, options[i])
+      ),
+      comparisons
+    );
+  }
+
+  // enum: each option against every other day, keeping the clearest contrast.
+  // Picking the best of several options would inflate false positives, so each
+  // interval is widened for the number of options with enough days on both sides.
+  const seen = Array.from(new Set(values));
+  return analyzeBestLevel(
+    seen.map((option) =>
+      splitByLevel(values, severities, (v) => v === option, options[option] ?? String(option))
+    ),
+    comparisons
+  );
+}
+
+/** Pure computation over already-fetched rows; exported for reuse and testing. */
+export function computeCorrelations(
+  userConditions: any[],
+  triggers: Trigger[],
+  dailyLogs: any[],
+  momentLogs: any[]
+): ConditionCorrelations[] {
+  const triggersById = new Map(triggers.map((t) => [t.id, t]));
+  const days = buildDays(dailyLogs, momentLogs, triggersById);
+
+  const loggedTriggerIds = new Set<string>();
+  days.forEach((day) => day.triggers.forEach((_, id) => loggedTriggerIds.add(id)));
+  // a tag trigger's value is only how many tags were entered, so it isn't tested
+  const loggedTriggers = triggers.filter((t) => loggedTriggerIds.has(t.id) && t.input_type !== 'tags');
+
+  return userConditions.map((uc) => {
+    const name = uc.custom_label || uc.condition?.name || 'Unnamed condition';
+    let daysWithSeverity = 0;
+    days.forEach((day) => {
+      if (day.severities.has(uc.id)) daysWithSeverity++;
+    });
+
+    const results: TriggerCorrelation[] = [];
+    for (const trigger of loggedTriggers) {
+      for (const lag of CORRELATION_LAGS) {
+        const { values, severities } = pairsFor(days, uc.id, trigger.id, lag);
+        if (values.length < 3) continue;
+
+        // every lag is searched for the strongest, so each counts as a comparison
+        const analysis = analyzeTrigger(trigger, values, severities, CORRELATION_LAGS.length);
+        if (!analysis) continue;
+
+        results.push({
+          userConditionId: uc.id,
+          conditionName: name,
+          triggerId: trigger.id,
+          triggerKey: trigger.key,
+          triggerLabel: trigger.label,
+          inputType: trigger.input_type,
+          lag,
+          n: values.length,
+          ...analysis,
+          strength: strengthOf(analysis.effectKind, analysis.effect),
+          reliable: values.length >= MIN_PAIRED_DAYS && excludesZero(analysis.effectInterval),
+        });
+      }
+    }
+
+    results.sort(
+      (a, b) => Number(b.reliable) - Number(a.reliable) || effectMagnitude(b) - effectMagnitude(a)
+    );
+
+    return {
+      userConditionId: uc.id,
+      conditionName: name,
+      daysWithSeverity,
+      triggersTested: new Set(results.map((r) => r.triggerId)).size,
+      results,
+    };
+  });
+}
+
+/** Keeps the strongest lag for each trigger, preserving the ranking order. */
+export function strongestPerTrigger(results: TriggerCorrelation[]) {
+  const seen = new Set<string>();
+  return results.filter((r) => {
+    if (seen.has(r.triggerId)) return false;
+    seen.add(r.triggerId);
+    return true;
+  });
+}
+
+export async function fetchTriggerCorrelations(
+  userId: string,
+  days: number = 90
+): Promise<CorrelationReport> {
+  const endDate = todayISODate();
+  // pull extra days so the longest lag still has trigger values at the window start
+  const startDate = addDays(endDate, -(days - 1) - Math.max(...CORRELATION_LAGS));
+
+  const { data: userConditions, error: ucErr } = await supabase
+    .from('user_conditions')
+    .select('id, custom_label, condition:conditions(name)')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+  if (ucErr) throw ucErr;
+
+  const { data: triggers, error: tErr } = await supabase
+    .from('triggers')
+    .select('*')
+    .order('sort_order');
+  if (tErr) throw tErr;
+
+  const { data: dailyLogs, error: dlErr } = await supabase
+    .from('daily_logs')
+    .select(
+      'date, daily_log_conditions(user_condition_id, severity), daily_log_triggers(trigger_id, value)'
+    )
+    .eq('user_id', userId)
+    .gte('date', startDate)
+    .lte('date', endDate);
+  if (dlErr) throw dlErr;
+
+  const { data: momentLogs, error: mlErr } = await supabase
+    .from('moment_logs')
+    .select(
+      'date, timestamp, moment_log_conditions(user_condition_id, severity), moment_log_triggers(trigger_id, value)'
+    )
+    .eq('user_id', userId)
+    .gte('date', startDate)
+    .lte('date', endDate)
+    .order('timestamp', { ascending: true });
+  if (mlErr) throw mlErr;
+
+  // missed scheduled doses are analysed alongside the tracked triggers
+  const [medications, doses] = await Promise.all([
+    fetchMedications(userId, { includeInactive: true }),
+    fetchDoses(userId, startDate, endDate),
+  ]);
+  const medicationInputs = medicationCorrelationInputs(medications, doses);
+
+  return {
+    startDate,
+    endDate,
+    conditions: computeCorrelations(
+      userConditions ?? [],
+      [...((triggers ?? []) as Trigger[]), ...medicationInputs.triggers],
+      [...(dailyLogs ?? []), ...medicationInputs.dailyLogs],
+      momentLogs ?? []
+    ),
+  };
+}
+
+function lagPhrase(lag: number) {
+  if (lag === 0) return 'the same day';
+  if (lag === 1) return 'the next day';
+  return `${lag} days later`;
+}
+
+/** Plain-language headline for a single result. */
+export function describeCorrelation(c: TriggerCorrelation) {
+  const direction = c.effect > 0 ? 'higher' : 'lower';
+
+  if (c.effectKind === 'r') {
+    return `Higher ${c.triggerLabel.toLowerCase()} went with ${direction} ${c.conditionName} severity ${lagPhrase(c.lag)}`;
+  }
+
+  const diff = Math.abs(c.meanDifference ?? 0).toFixed(1);
+  const exposure =
+    c.inputType === 'binary' ? c.triggerLabel.toLowerCase() : `${c.triggerLabel.toLowerCase()}: ${c.level}`;
+  const when =
+    c.lag === 0 ? `on days with ${exposure}` : `${c.lag === 1 ? 'the day' : `${c.lag} days`} after ${exposure}`;
+  return `${c.conditionName} severity was ${diff} points ${direction} ${when}`;
+}
+
+function fmt(n: number, digits: number) {
+  const s = n.toFixed(digits);
+  return n > 0 ? `+${s}` : s;
+}
+
+/** Compact statistics line: effect, 95% interval and sample size. */
+export function describeCorrelationStats(c: TriggerCorrelation) {
+  if (c.effectKind === 'r') {
+    const [lo, hi] = c.effectInterval;
+    return `r = ${c.effect.toFixed(2)} (95% CI ${lo.toFixed(2)} to ${hi.toFixed(2)}) · ${c.n} days`;
+  }
+
+  const [lo, hi] = c.meanDifferenceInterval ?? c.effectInterval;
+  return `Δ ${fmt(c.meanDifference ?? 0, 1)} (95% CI ${fmt(lo, 1)} to ${fmt(hi, 1)}) · g = ${c.effect.toFixed(2)} · ${c.exposedDays} vs ${c.unexposedDays} days`;
+}
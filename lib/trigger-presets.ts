@@ -0,0 +1,139 @@
+import { supabase } from './supabase';
+import { Trigger } from './trigger-types';
+
+/**
+ * Triggers worth tracking for common conditions. Condition names come from
+ * several places (the `conditions` seed, COMMON_CONDITIONS, free text), so
+ * presets match on keywords rather than exact names.
+ */
+
+export interface TriggerPreset {
+  // matched as whole words against the lowercased condition name
+  keywords: string[];
+  // core trigger keys, most relevant first
+  triggerKeys: string[];
+}
+
+export const CONDITION_TRIGGER_PRESETS: TriggerPreset[] = [
+  {
+    keywords: ['pots', 'postural orthostatic', 'dysautonomia', 'dizziness', 'vertigo'],
+    triggerKeys: ['salt_intake', 'electrolytes_level', 'water_intake', 'heat_exposure', 'physical_activity'],
+  },
+  {
+    keywords: ['migraine', 'headache'],
+    triggerKeys: ['caffeine_level', 'sleep_duration', 'stress_level', 'water_intake', 'on_period'],
+  },
+  {
+    keywords: ['ibs', 'irritable bowel', 'crohns', 'crohn', 'colitis', 'celiac', 'gerd', 'lactose', 'nausea'],
+    triggerKeys: ['meal_regularity', 'meal_heaviness', 'sugar_carb_load', 'stress_level', 'substances_level'],
+  },
+  {
+    keywords: ['fibromyalgia', 'chronic fatigue', 'cfs', 'fatigue', 'chronic pain', 'brain fog'],
+    triggerKeys: ['sleep_duration', 'physical_activity', 'energy_level', 'stress_level', 'heat_exposure'],
+  },
+  {
+    keywords: ['anxiety', 'depression', 'stress', 'panic'],
+    triggerKeys: ['stress_level', 'sleep_duration', 'caffeine_level', 'substances_level', 'physical_activity'],
+  },
+  {
+    keywords: ['endometriosis', 'pcos', 'polycystic', 'menstrual', 'pmdd'],
+    triggerKeys: ['on_period', 'period_pain', 'stress_level', 'sugar_carb_load'],
+  },
+  {
+    keywords: ['hashimoto', 'hypothyroidism', 'hyperthyroidism', 'thyroid'],
+    triggerKeys: ['med_adherence', 'energy_level', 'sleep_duration', 'stress_level'],
+  },
+  {
+    keywords: ['lupus', 'rheumatoid', 'arthritis', 'psoriasis', 'eczema', 'autoimmune'],
+    triggerKeys: ['illness_today', 'stress_level', 'sleep_duration', 'heat_exposure', 'med_adherence'],
+  },
+  {
+    keywords: ['ehlers', 'eds', 'hypermobility', 'back pain', 'joint pain'],
+    triggerKeys: ['physical_activity', 'heat_exposure', 'sleep_duration', 'energy_level'],
+  },
+  {
+    keywords: ['insomnia', 'sleep'],
+    triggerKeys: ['caffeine_level', 'stress_level', 'substances_level', 'physical_activity'],
+  },
+  {
+    keywords: ['adhd'],
+    triggerKeys: ['sleep_duration', 'caffeine_level', 'med_adherence', 'stress_level'],
+  },
+  {
+    keywords: ['asthma', 'allergies', 'allergy'],
+    triggerKeys: ['heat_exposure', 'illness_today', 'physical_activity'],
+  },
+];
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Recommended trigger keys for a condition name, de-duplicated across matching presets. */
+export function recommendedTriggerKeys(conditionName: string) {
+  const name = conditionName.toLowerCase();
+  const keys: string[] = [];
+  for (const preset of CONDITION_TRIGGER_PRESETS) {
+    const matches = preset.keywords.some((k) => new RegExp(`\\b${escapeRegExp(k)}\\b`).test(name));
+    if (!matches) continue;
+    for (const key of preset.triggerKeys) {
+      if (!keys.includes(key)) keys.push(key);
+    }
+  }
+  return keys;
+}
+
+export interface RecommendedTrigger {
+  trigger: Trigger;
+  // already switched on for this user
+  tracked: boolean;
+}
+
+export async function fetchRecommendedTriggers(
+  userId: string,
+  conditionName: string
+): Promise<RecommendedTrigger[]> {
+  const keys = recommendedTriggerKeys(conditionName);
+  if (keys.length === 0) return [];
+
+  const [{ data: triggers, error: tErr }, { data: userTriggers, error: utErr }] = await Promise.all([
+    supabase.from('triggers').select('*').in('key', keys).eq('is_active', true),
+    supabase.from('user_triggers').select('trigger_id').eq('user_id', userId).eq('enabled', true),
+  ]);
+
+  if (tErr) throw tErr;
+  if (utErr) throw utErr;
+
+  const tracked = new Set((userTriggers ?? []).map((ut) => ut.trigger_id));
+  const byKey = new Map(((triggers ?? []) as Trigger[]).map((t) => [t.key, t]));
+
+  return keys
+    .map((key) => byKey.get(key))
+    .filter((t): t is Trigger => !!t)
+    .map((trigger) => ({ trigger, tracked: tracked.has(trigger.id) }));
+}
+
+/**
+ * Switches the triggers on, along with their parents so sub-triggers (salt
+ * intake under food tracking) also show up in Manage Triggers.
+ */
+export async function enableTriggers(userId: string, triggers: Trigger[]) {
+  const ids = new Set<string>();
+  for (const t of triggers) {
+    ids.add(t.id);
+    if (t.parent_trigger_id) ids.add(t.parent_trigger_id);
+  }
+  if (ids.size === 0) return;
+
+  const { error } = await supabase.from('user_triggers').upsert(
+    Array.from(ids).map((trigger_id) => ({
+      user_id: userId,
+      trigger_id,
+      enabled: true,
+      updated_at: new Date().toISOString(),
+    })),
+    { onConflict: 'user_id,trigger_id' }
+  );
+
+  if (error) throw error;
+}
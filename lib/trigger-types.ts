@@ -1,18 +1,45 @@
+/**
+ * How a trigger is logged and what ends up in `*_log_triggers.value`:
+ * - binary: 0/1
+ * - scale: an integer from options_json.min to max
+ * - enum: the index of the chosen option
+ * - numeric: the number entered, in options_json.unit
+ * - duration: minutes
+ * - multi_select: a bitmask of the chosen option indexes
+ * - tags: the number of tags; the tags themselves are in `value_text`
+ */
+export type TriggerInputType =
+  | 'binary'
+  | 'scale'
+  | 'enum'
+  | 'numeric'
+  | 'duration'
+  | 'multi_select'
+  | 'tags';
+
 export interface Trigger {
   id: string;
   key: string;
   label: string;
   category: string;
-  input_type: 'binary' | 'scale' | 'enum';
+  input_type: TriggerInputType;
   options_json: {
     options?: string[];
+    // scale bounds, or optional limits for numeric (and max minutes for duration)
     min?: number;
     max?: number;
     labels?: Record<string, string>;
+    // numeric only, e.g. 'mg' or 'steps'
+    unit?: string;
   };
   is_active: boolean;
   parent_trigger_id: string | null;
   sort_order: number;
+  // set on triggers a user created themselves; null for core triggers
+  owner_user_id?: string | null;
+  // core triggers: the catalog release that added / retired them
+  catalog_version?: number | null;
+  deprecated_in_version?: number | null;
   created_at: string;
 }
 
@@ -36,6 +63,14 @@ export interface TriggerLogValue {
   created_at: string;
 }
 
+export interface DailyLogTrigger extends TriggerLogValue {
+  daily_log_id: string;
+}
+
+export interface MomentLogTrigger extends TriggerLogValue {
+  moment_log_id: string;
+}
+
 export const TRIGGER_CATEGORIES = {
   sleep: 'Sleep',
   lifestyle: 'Lifestyle',
@@ -45,3 +80,8 @@ export const TRIGGER_CATEGORIES = {
   environment: 'Environment',
   menstrual: 'Menstrual Cycle',
 } as const;
+
+/** Display name for a core category, or the custom category text as entered. */
+export function triggerCategoryLabel(category: string) {
+  return TRIGGER_CATEGORIES[category as keyof typeof TRIGGER_CATEGORIES] ?? category;
+}
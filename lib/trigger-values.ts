@@ -0,0 +1,146 @@
+import { Trigger } from './trigger-types';
+
+/**
+ * Parsing and formatting for trigger values. Every input type stores a number
+ * in `value` (so correlations can use it) and, where the number alone isn't
+ * readable, the display text in `value_text`.
+ */
+
+// bitmask values have to stay exact, so multi-select lists are capped
+export const MAX_MULTI_SELECT_OPTIONS = 16;
+export const MAX_TAGS = 10;
+const MAX_TAG_LENGTH = 40;
+
+export interface ParsedTriggerValue {
+  value: number | null;
+  valueText: string | null;
+  // set when the input can't be stored; value is null then
+  error: string | null;
+}
+
+const EMPTY: ParsedTriggerValue = { value: null, valueText: null, error: null };
+
+function invalid(error: string): ParsedTriggerValue {
+  return { value: null, valueText: null, error };
+}
+
+export function formatNumber(n: number) {
+  return Number.isInteger(n) ? String(n) : String(Math.round(n * 100) / 100);
+}
+
+export function formatNumericValue(trigger: Trigger, value: number) {
+  const unit = trigger.options_json?.unit?.trim();
+  return unit ? `${formatNumber(value)} ${unit}` : formatNumber(value);
+}
+
+export function parseNumericTriggerValue(trigger: Trigger, text: string): ParsedTriggerValue {
+  const trimmed = text.trim();
+  if (!trimmed) return EMPTY;
+
+  const value = Number(trimmed.replace(',', '.'));
+  if (!Number.isFinite(value)) return invalid('Enter a number, e.g. 200 or 1.5.');
+
+  const { min, max } = trigger.options_json ?? {};
+  const unit = trigger.options_json?.unit ? ` ${trigger.options_json.unit}` : '';
+  if (min !== undefined && value < min) return invalid(`Must be at least ${min}${unit}.`);
+  if (max !== undefined && value > max) return invalid(`Must be at most ${max}${unit}.`);
+  if (min === undefined && value < 0) return invalid("Can't be negative.");
+
+  return { value, valueText: formatNumericValue(trigger, value), error: null };
+}
+
+export function formatDuration(minutes: number) {
+  const h = Math.floor(minutes / 60);
+  const m = Math.round(minutes % 60);
+  if (h === 0) return `${m}m`;
+  return m === 0 ? `${h}h` : `${h}h ${m}m`;
+}
+
+export function parseDurationTriggerValue(
+  trigger: Trigger,
+  hoursText: string,
+  minutesText: string
+): ParsedTriggerValue {
+  if (!hoursText.trim() && !minutesText.trim()) return EMPTY;
+
+  const hours = hoursText.trim() ? Number(hoursText) : 0;
+  const minutes = minutesText.trim() ? Number(minutesText) : 0;
+  if (!Number.isInteger(hours) || !Number.isInteger(minutes) || hours < 0 || minutes < 0) {
+    return invalid('Enter whole hours and minutes.');
+  }
+  if (minutes > 59) return invalid('Minutes must be between 0 and 59.');
+
+  const total = hours * 60 + minutes;
+  const max = trigger.options_json?.max ?? 24 * 60;
+  if (total > max) return invalid(`Must be at most ${formatDuration(max)}.`);
+
+  return { value: total, valueText: formatDuration(total), error: null };
+}
+
+export function multiSelectIndexes(value: number | null) {
+  const indexes: number[] = [];
+  if (value === null || value === undefined) return indexes;
+  for (let i = 0; i < MAX_MULTI_SELECT_OPTIONS; i++) {
+    if (value & (1 << i)) indexes.push(i);
+  }
+  return indexes;
+}
+
+/** Toggles one option in a multi-select value; null once nothing is selected. */
+export function toggleMultiSelect(trigger: Trigger, value: number | null, index: number): ParsedTriggerValue {
+  const next = (value ?? 0) ^ (1 << index);
+  if (next === 0) return EMPTY;
+
+  const options = trigger.options_json?.options ?? [];
+  const labels = multiSelectIndexes(next).map((i) => options[i] ?? String(i));
+  return { value: next, valueText: labels.join(', '), error: null };
+}
+
+/** Splits comma-separated input into trimmed, de-duplicated tags. */
+export function parseTags(text: string | null | undefined) {
+  const seen = new Set<string>();
+  const tags: string[] = [];
+  for (const raw of (text ?? '').split(',')) {
+    const tag = raw.trim().replace(/\s+/g, ' ');
+    if (!tag || seen.has(tag.toLowerCase())) continue;
+    seen.add(tag.toLowerCase());
+    tags.push(tag);
+  }
+  return tags;
+}
+
+export function tagsTriggerValue(tags: string[]): ParsedTriggerValue {
+  if (tags.length === 0) return EMPTY;
+  if (tags.length > MAX_TAGS) return invalid(`Up to ${MAX_TAGS} tags.`);
+  if (tags.some((t) => t.length > MAX_TAG_LENGTH)) {
+    return invalid(`Tags can be up to ${MAX_TAG_LENGTH} characters.`);
+  }
+  return { value: tags.length, valueText: tags.join(', '), error: null };
+}
+
+/** Human-readable value for a logged trigger row. */
+export function formatTriggerValue(
+  trigger: Trigger | undefined,
+  row: { value: number | null; value_text: string | null }
+): string {
+  if (row.value_text) return row.value_text;
+  if (row.value === null || row.value === undefined) return '';
+
+  const value = Number(row.value);
+  const options = trigger?.options_json?.options;
+  switch (trigger?.input_type) {
+    case 'enum':
+    case 'binary':
+      return options?.[value] ?? String(value);
+    case 'multi_select':
+      return multiSelectIndexes(value)
+        .map((i) => options?.[i] ?? String(i))
+        .join(', ');
+    case 'numeric':
+      return formatNumericValue(trigger, value);
+    case 'duration':
+      return formatDuration(value);
+    default:
+      return String(value);
+  }
+}
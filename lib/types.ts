@@ -16,7 +16,10 @@ export interface UserCondition {
   notes: string | null;
   created_at: string;
   is_cycle?: boolean;
+  // set when the condition was marked resolved; its logs are kept
+  archived_at?: string | null;
   condition?: Condition;
+  sub_symptoms?: SubSymptom[];
 }
 
 export type MoodTag = 'good' | 'neutral' | 'tough' | 'fluctuating';
@@ -34,6 +37,7 @@ export interface DailyLog {
   food_notes: string | null;
   meds_notes: string | null;
   triggers: string | null;
+  notes: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -46,24 +50,87 @@ export interface DailyLogCondition {
   notes: string | null;
 }
 
+// a row means the sub-symptom was present that day
+export interface DailyLogSubSymptom {
+  id: string;
+  daily_log_id: string;
+  sub_symptom_id: string;
+  severity: number | null;
+  created_at: string;
+}
+
 export interface UserProfile {
   id: string;
   email: string;
   current_streak: number;
   longest_streak: number;
   last_log_date: string | null;
+  streak_freezes_available: number;
   created_at: string;
   updated_at: string;
 }
 
+export type InsightConfidence = 'low' | 'medium' | 'high';
+
+export interface InsightTriggerRef {
+  key: string;
+  label: string;
+}
+
+export interface InsightPattern {
+  title: string;
+  explanation: string;
+  evidence_dates: string[];
+  triggers: InsightTriggerRef[];
+  conditions: string[];
+  confidence: InsightConfidence;
+}
+
+export interface InsightExperiment {
+  title: string;
+  description: string;
+  duration_days: number | null;
+  triggers: InsightTriggerRef[];
+}
+
+// Mirrors the report written by the ai-insights edge function (ai_insights.insights_json).
+export interface InsightReport {
+  version: number;
+  featured: { title: string; body: string };
+  patterns: InsightPattern[];
+  experiments: InsightExperiment[];
+  confidence: InsightConfidence;
+  confidence_reason: string;
+}
+
 export interface AIInsight {
   id: string;
   user_id: string;
   insights_text: string;
+  insights_json: InsightReport | null;
+  schema_version: number | null;
   insight_date: string;
   created_at: string;
 }
 
+export interface AmaConversation {
+  id: string;
+  user_id: string;
+  title: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AmaMessage {
+  id: string;
+  conversation_id: string;
+  user_id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  window_days: number | null;
+  created_at: string;
+}
+
 export interface MomentLog {
   id: string;
   user_id: string;
@@ -74,6 +141,7 @@ export interface MomentLog {
   triggers: string | null;
   notes: string | null;
   created_at: string;
+  updated_at: string;
 }
 
 export interface MomentLogCondition {
@@ -84,9 +152,126 @@ export interface MomentLogCondition {
   notes: string | null;
 }
 
+export interface MomentLogSubSymptom {
+  id: string;
+  moment_log_id: string;
+  sub_symptom_id: string;
+  severity: number | null;
+  created_at: string;
+}
+
+// 'resolved' only appears in the status history, when a condition is archived
+export type ConditionTimelineStatus = ConditionStatus | 'resolved';
+
+export interface ConditionStatusEvent {
+  id: string;
+  user_id: string;
+  user_condition_id: string;
+  status: ConditionTimelineStatus;
+  previous_status: ConditionTimelineStatus | null;
+  changed_on: string;
+  note: string | null;
+  created_at: string;
+}
+
+export type FlareStatus = 'detected' | 'confirmed' | 'dismissed';
+
+export interface FlareEpisode {
+  id: string;
+  user_id: string;
+  user_condition_id: string;
+  start_date: string;
+  end_date: string;
+  peak_date: string;
+  peak_severity: number;
+  recovery_date: string | null;
+  status: FlareStatus;
+  label: string | null;
+  note: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface SubSymptom {
   id: string;
   user_condition_id: string;
   name: string;
   created_at: string;
 }
+
+export type MedicationScheduleType = 'scheduled' | 'prn';
+
+export interface Medication {
+  id: string;
+  user_id: string;
+  user_condition_id: string | null;
+  name: string;
+  dose_amount: number | null;
+  dose_unit: string | null;
+  schedule_type: MedicationScheduleType;
+  // local "HH:MM" times; empty for PRN medications
+  schedule_times: string[];
+  notes: string | null;
+  active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type DoseStatus = 'taken' | 'skipped';
+
+export interface MedicationDose {
+  id: string;
+  user_id: string;
+  medication_id: string;
+  date: string;
+  taken_at: string;
+  scheduled_time: string | null;
+  status: DoseStatus;
+  is_prn: boolean;
+  dose_amount: number | null;
+  reason: string | null;
+  created_at: string;
+}
+
+export type NotificationPreference = 'daily' | 'occasional' | 'none';
+
+export interface UserPreferences {
+  id: string;
+  user_id: string;
+  theme: 'light' | 'dark' | 'auto' | null;
+  // null until the app saves the device's zone
+  timezone: string | null;
+  profile_picture_url: string | null;
+  display_name: string | null;
+  track_symptoms: boolean | null;
+  track_energy_stress: boolean | null;
+  track_sleep: boolean | null;
+  track_menstrual_cycle: boolean | null;
+  track_lifestyle: boolean | null;
+  onboarding_completed: boolean | null;
+  notification_preference: NotificationPreference | null;
+  trigger_catalog_version: number;
+  baseline_alerts_enabled: boolean;
+  baseline_alert_dismissed_on: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type NotificationFrequency = 'daily' | 'weekdays' | 'weekends' | 'weekly' | 'custom';
+
+export type ReminderTarget = 'daily_log' | 'moment_log' | 'medications';
+
+export interface CustomNotification {
+  id: string;
+  user_id: string;
+  message: string;
+  // "HH:MM" or "HH:MM:SS" in the user's timezone
+  time: string;
+  frequency: NotificationFrequency;
+  // 0 = Sunday … 6 = Saturday; used by weekly and custom reminders
+  days_of_week: number[];
+  target: ReminderTarget;
+  is_enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
@@ -0,0 +1,96 @@
+// Caller authentication and per-user rate limiting for edge functions.
+
+import { createClient, SupabaseClient, User } from "npm:@supabase/supabase-js@2.58.0";
+
+type EnvReader = (name: string) => string | undefined;
+
+export class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly headers: Record<string, string> = {}
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+export interface AuthenticatedCaller {
+  user: User;
+  // queries run as the caller, so row level security applies
+  supabase: SupabaseClient;
+}
+
+/**
+ * Resolves the caller from their `Authorization: Bearer <access token>` header.
+ * The anon key alone is not a user session and is rejected.
+ */
+export async function authenticateRequest(req: Request, env: EnvReader): Promise<AuthenticatedCaller> {
+  const authHeader = req.headers.get("Authorization") ?? "";
+  const token = authHeader.replace(/^Bearer\s+/i, "");
+  if (!token) {
+    throw new HttpError(401, "Missing authorization token");
+  }
+
+  const supabaseUrl = env("SUPABASE_URL");
+  const anonKey = env("SUPABASE_ANON_KEY");
+  if (!supabaseUrl || !anonKey) {
+    throw new HttpError(500, "Supabase configuration missing");
+  }
+
+  const supabase = createClient(supabaseUrl, anonKey, {
+    global: { headers: { Authorization: `Bearer ${token}` } },
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data?.user) {
+    throw new HttpError(401, "Invalid or expired session");
+  }
+
+  return { user: data.user, supabase };
+}
+
+export type RateLimitKind = "insights" | "ama";
+
+const DEFAULT_LIMITS: Record<RateLimitKind, number> = {
+  insights: 5,
+  ama: 30,
+};
+
+/**
+ * Records one request of `kind` for the caller, or throws a 429 with
+ * Retry-After when they are over the limit. Limits come from
+ * AI_INSIGHTS_RATE_LIMIT / AI_AMA_RATE_LIMIT per AI_RATE_LIMIT_WINDOW_SECONDS.
+ */
+export async function consumeRateLimit(
+  supabase: SupabaseClient,
+  kind: RateLimitKind,
+  env: EnvReader
+) {
+  const limitVar = kind === "insights" ? "AI_INSIGHTS_RATE_LIMIT" : "AI_AMA_RATE_LIMIT";
+  const limit = Number(env(limitVar) ?? DEFAULT_LIMITS[kind]);
+  const windowSeconds = Number(env("AI_RATE_LIMIT_WINDOW_SECONDS") ?? 3600);
+
+  const { data, error } = await supabase
+    .rpc("consume_ai_quota", {
+      p_kind: kind,
+      p_limit: limit,
+      p_window_seconds: windowSeconds,
+    })
+    .single();
+  if (error) throw error;
+
+  const result = data as { allowed: boolean; remaining: number; retry_after_seconds: number };
+  if (!result.allowed) {
+    throw new HttpError(
+      429,
+      kind === "ama"
+        ? "You've asked a lot of questions recently. Please try again later."
+        : "Insights were refreshed recently. Please try again later.",
+      { "Retry-After": String(result.retry_after_seconds) }
+    );
+  }
+
+  return result.remaining;
+}
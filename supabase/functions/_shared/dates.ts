@@ -0,0 +1,31 @@
+// Calendar dates in the caller's configured timezone (user_preferences.timezone),
+// matching how the app writes log `date` columns.
+
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.58.0";
+
+/**
+ * The caller's saved timezone. Users without a valid one get the same
+ * fallback the database uses for streaks (see user_time_zone() in the
+ * migrations), so both agree on "today".
+ */
+export async function fetchUserTimeZone(supabase: SupabaseClient) {
+  const { data, error } = await supabase.rpc("current_user_time_zone");
+  if (error) throw error;
+  return data as string;
+}
+
+export function toISODate(instant: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).formatToParts(instant);
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? "";
+  return `${get("year")}-${get("month")}-${get("day")}`;
+}
+
+export function addDays(isoDate: string, days: number) {
+  const [y, m, d] = isoDate.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d + days)).toISOString().split("T")[0];
+}
@@ -0,0 +1,511 @@
+// Provider-agnostic chat completion layer for edge functions.
+//
+// LLM_PROVIDER selects the backend:
+//   openai  - any OpenAI-compatible /chat/completions endpoint (OpenAI, llama.cpp server, vLLM)
+//   ollama  - a local Ollama server via its native /api/chat endpoint
+//   mock    - deterministic canned output, no network; for tests and offline development
+
+export type ChatRole = "system" | "user" | "assistant";
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+}
+
+export interface JsonSchemaFormat {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  // ask for JSON matching this schema instead of free text
+  jsonSchema?: JsonSchemaFormat;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  // true when the backend didn't report usage and it was approximated from text length
+  estimated: boolean;
+}
+
+export interface CompletionResult {
+  content: string;
+  usage: TokenUsage;
+  provider: string;
+  model: string;
+  attempts: number;
+  latencyMs: number;
+}
+
+export type DeltaHandler = (text: string) => void;
+
+export interface LLMProvider {
+  name: string;
+  model: string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+  // emits text as it is generated; resolves with the full content once done
+  stream(request: CompletionRequest, onDelta: DeltaHandler, signal?: AbortSignal): Promise<CompletionResult>;
+}
+
+export class LLMError extends Error {
+  constructor(
+    message: string,
+    readonly retryable: boolean,
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = "LLMError";
+  }
+}
+
+type EnvReader = (name: string) => string | undefined;
+
+interface ProviderSettings {
+  timeoutMs: number;
+  maxRetries: number;
+}
+
+type RawResult = Omit<CompletionResult, "attempts" | "latencyMs" | "provider" | "model">;
+
+// ~4 characters per token is close enough for English prompts
+export function estimateTokens(text: string) {
+  return Math.ceil(text.length / 4);
+}
+
+function estimateUsage(messages: ChatMessage[], content: string): TokenUsage {
+  const promptTokens = estimateTokens(messages.map((m) => m.content).join("\n"));
+  const completionTokens = estimateTokens(content);
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+    estimated: true,
+  };
+}
+
+async function post(
+  url: string,
+  body: unknown,
+  headers: Record<string, string>,
+  timeoutMs: number,
+  signal?: AbortSignal
+) {
+  const controller = new AbortController();
+  // the timeout covers waiting for the response headers, not a long stream
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const forwardAbort = () => controller.abort();
+  signal?.addEventListener("abort", forwardAbort);
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+  } catch (error) {
+    if (signal?.aborted) throw new LLMError("LLM request cancelled", false);
+    const timedOut = error instanceof DOMException && error.name === "AbortError";
+    throw new LLMError(
+      timedOut ? `LLM request timed out after ${timeoutMs}ms` : `LLM request failed: ${String(error)}`,
+      true
+    );
+  } finally {
+    clearTimeout(timer);
+  }
+
+  if (!response.ok) {
+    signal?.removeEventListener("abort", forwardAbort);
+    const detail = await response.text().catch(() => "");
+    throw new LLMError(
+      `LLM request failed with ${response.status}: ${detail.slice(0, 500)}`,
+      response.status === 429 || response.status >= 500,
+      response.status
+    );
+  }
+
+  return response;
+}
+
+async function postJson(url: string, body: unknown, headers: Record<string, string>, timeoutMs: number) {
+  // unlike a stream, the whole body has to arrive within the timeout, so a
+  // provider that sends headers and then stalls still fails (and is retried)
+  const deadline = new AbortController();
+  const timer = setTimeout(() => deadline.abort(), timeoutMs);
+  try {
+    const response = await post(url, body, headers, timeoutMs, deadline.signal);
+    return await response.json();
+  } catch (error) {
+    if (deadline.signal.aborted) {
+      throw new LLMError(`LLM request timed out after ${timeoutMs}ms`, true);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Calls onLine for each newline-terminated line of a streamed response body.
+async function readLines(response: Response, onLine: (line: string) => void) {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let newline: number;
+    while ((newline = buffer.indexOf("\n")) >= 0) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (line) onLine(line);
+    }
+  }
+
+  const rest = (buffer + decoder.decode()).trim();
+  if (rest) onLine(rest);
+}
+
+function openAICompatible(env: EnvReader, settings: ProviderSettings) {
+  const baseUrl = (env("LLM_BASE_URL") ?? "https://api.openai.com/v1").replace(/\/$/, "");
+  const apiKey = env("LLM_API_KEY") ?? env("OPENAI_API_KEY");
+  const model = env("LLM_MODEL") ?? "gpt-4o-mini";
+  const isHostedOpenAI = baseUrl.includes("api.openai.com");
+
+  if (isHostedOpenAI && !apiKey) {
+    throw new LLMError("OpenAI API key not configured", false);
+  }
+
+  return {
+    name: "openai",
+    model,
+    async call(request: CompletionRequest): Promise<RawResult> {
+      const data = await postJson(
+        `${baseUrl}/chat/completions`,
+        {
+          model,
+          messages: request.messages,
+          temperature: request.temperature ?? 0.7,
+          max_tokens: request.maxTokens ?? 600,
+          ...(request.jsonSchema && {
+            response_format: {
+              type: "json_schema",
+              json_schema: {
+                name: request.jsonSchema.name,
+                strict: true,
+                schema: request.jsonSchema.schema,
+              },
+            },
+          }),
+        },
+        apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+        settings.timeoutMs
+      );
+
+      const content = data.choices?.[0]?.message?.content ?? "";
+      const usage: TokenUsage = data.usage
+        ? {
+            promptTokens: data.usage.prompt_tokens ?? 0,
+            completionTokens: data.usage.completion_tokens ?? 0,
+            totalTokens: data.usage.total_tokens ?? 0,
+            estimated: false,
+          }
+        : estimateUsage(request.messages, content);
+
+      return { content, usage };
+    },
+    async callStream(
+      request: CompletionRequest,
+      onDelta: DeltaHandler,
+      signal?: AbortSignal
+    ): Promise<RawResult> {
+      const response = await post(
+        `${baseUrl}/chat/completions`,
+        {
+          model,
+          messages: request.messages,
+          temperature: request.temperature ?? 0.7,
+          max_tokens: request.maxTokens ?? 600,
+          stream: true,
+          stream_options: { include_usage: true },
+        },
+        apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+        settings.timeoutMs,
+        signal
+      );
+
+      let content = "";
+      let reported: any = null;
+      await readLines(response, (line) => {
+        if (!line.startsWith("data:")) return;
+        const payload = line.slice(5).trim();
+        if (payload === "[DONE]") return;
+
+        const chunk = JSON.parse(payload);
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+          content += delta;
+          onDelta(delta);
+        }
+        if (chunk.usage) reported = chunk.usage;
+      });
+
+      const usage: TokenUsage = reported
+        ? {
+            promptTokens: reported.prompt_tokens ?? 0,
+            completionTokens: reported.completion_tokens ?? 0,
+            totalTokens: reported.total_tokens ?? 0,
+            estimated: false,
+          }
+        : estimateUsage(request.messages, content);
+
+      return { content, usage };
+    },
+  };
+}
+
+function ollama(env: EnvReader, settings: ProviderSettings) {
+  const baseUrl = (env("LLM_BASE_URL") ?? "http://localhost:11434").replace(/\/$/, "");
+  const model = env("LLM_MODEL") ?? "llama3.1:8b";
+
+  return {
+    name: "ollama",
+    model,
+    async call(request: CompletionRequest): Promise<RawResult> {
+      const data = await postJson(
+        `${baseUrl}/api/chat`,
+        {
+          model,
+          messages: request.messages,
+          stream: false,
+          options: {
+            temperature: request.temperature ?? 0.7,
+            num_predict: request.maxTokens ?? 600,
+          },
+          ...(request.jsonSchema && { format: request.jsonSchema.schema }),
+        },
+        {},
+        settings.timeoutMs
+      );
+
+      const content = data.message?.content ?? "";
+      const reported = typeof data.prompt_eval_count === "number";
+      const usage: TokenUsage = reported
+        ? {
+            promptTokens: data.prompt_eval_count,
+            completionTokens: data.eval_count ?? 0,
+            totalTokens: data.prompt_eval_count + (data.eval_count ?? 0),
+            estimated: false,
+          }
+        : estimateUsage(request.messages, content);
+
+      return { content, usage };
+    },
+    async callStream(
+      request: CompletionRequest,
+      onDelta: DeltaHandler,
+      signal?: AbortSignal
+    ): Promise<RawResult> {
+      const response = await post(
+        `${baseUrl}/api/chat`,
+        {
+          model,
+          messages: request.messages,
+          stream: true,
+          options: {
+            temperature: request.temperature ?? 0.7,
+            num_predict: request.maxTokens ?? 600,
+          },
+        },
+        {},
+        settings.timeoutMs,
+        signal
+      );
+
+      let content = "";
+      let final: any = null;
+      await readLines(response, (line) => {
+        const chunk = JSON.parse(line);
+        const delta = chunk.message?.content;
+        if (delta) {
+          content += delta;
+          onDelta(delta);
+        }
+        if (chunk.done) final = chunk;
+      });
+
+      const usage: TokenUsage =
+        typeof final?.prompt_eval_count === "number"
+          ? {
+              promptTokens: final.prompt_eval_count,
+              completionTokens: final.eval_count ?? 0,
+              totalTokens: final.prompt_eval_count + (final.eval_count ?? 0),
+              estimated: false,
+            }
+          : estimateUsage(request.messages, content);
+
+      return { content, usage };
+    },
+  };
+}
+
+// Builds the smallest value that satisfies a JSON schema, so mock output still
+// passes the same parsing as real model output.
+function mockValueFor(schema: any, name: string): unknown {
+  if (schema?.enum) return schema.enum[0];
+  const type = Array.isArray(schema?.type) ? schema.type[0] : schema?.type;
+
+  switch (type) {
+    case "object": {
+      const out: Record<string, unknown> = {};
+      for (const [key, child] of Object.entries(schema.properties ?? {})) {
+        out[key] = mockValueFor(child, key);
+      }
+      return out;
+    }
+    case "array":
+      return [mockValueFor(schema.items, name)];
+    case "integer":
+    case "number":
+      return 1;
+    case "boolean":
+      return false;
+    case "null":
+      return null;
+    default:
+      return `Mock ${name}`;
+  }
+}
+
+function mock(env: EnvReader) {
+  const fixed = env("LLM_MOCK_RESPONSE");
+
+  const respond = (request: CompletionRequest) => {
+    if (fixed !== undefined) return fixed;
+    if (request.jsonSchema) {
+      return JSON.stringify(mockValueFor(request.jsonSchema.schema, request.jsonSchema.name));
+    }
+    const lastUser = [...request.messages].reverse().find((m) => m.role === "user");
+    return `Mock response to: ${lastUser?.content.slice(0, 200) ?? ""}`;
+  };
+
+  return {
+    name: "mock",
+    model: "mock",
+    async call(request: CompletionRequest): Promise<RawResult> {
+      const content = respond(request);
+      return { content, usage: estimateUsage(request.messages, content) };
+    },
+    async callStream(
+      request: CompletionRequest,
+      onDelta: DeltaHandler,
+      signal?: AbortSignal
+    ): Promise<RawResult> {
+      const full = respond(request);
+      let content = "";
+      // word-sized chunks, like a real model
+      for (const piece of full.match(/\S+\s*/g) ?? []) {
+        if (signal?.aborted) throw new LLMError("LLM request cancelled", false);
+        content += piece;
+        onDelta(piece);
+        await sleep(0);
+      }
+      return { content, usage: estimateUsage(request.messages, content) };
+    },
+  };
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Returns the provider named by LLM_PROVIDER (default "openai"), wrapped with
+ * timeouts and retries. Retries only transient failures (timeouts, network
+ * errors, 429 and 5xx) with exponential backoff. Pass `Deno.env.get` as `env`.
+ */
+export function createLLMProvider(env: EnvReader): LLMProvider {
+  const settings: ProviderSettings = {
+    timeoutMs: Number(env("LLM_TIMEOUT_MS") ?? 30000),
+    maxRetries: Number(env("LLM_MAX_RETRIES") ?? 2),
+  };
+
+  const kind = (env("LLM_PROVIDER") ?? "openai").toLowerCase();
+  const backend =
+    kind === "mock"
+      ? mock(env)
+      : kind === "ollama"
+        ? ollama(env, settings)
+        : kind === "openai"
+          ? openAICompatible(env, settings)
+          : null;
+
+  if (!backend) {
+    throw new LLMError(`Unknown LLM_PROVIDER "${kind}"`, false);
+  }
+
+  // retries transient failures, but never once output has reached the caller
+  const withRetries = async (run: () => Promise<RawResult>, canRetry: () => boolean) => {
+    const started = Date.now();
+    let attempt = 0;
+
+    while (true) {
+      attempt++;
+      try {
+        const result = await run();
+        return {
+          ...result,
+          provider: backend.name,
+          model: backend.model,
+          attempts: attempt,
+          latencyMs: Date.now() - started,
+        };
+      } catch (error) {
+        const retryable = error instanceof LLMError && error.retryable;
+        if (!retryable || !canRetry() || attempt > settings.maxRetries) throw error;
+        await sleep(500 * 2 ** (attempt - 1));
+      }
+    }
+  };
+
+  return {
+    name: backend.name,
+    model: backend.model,
+    complete(request) {
+      return withRetries(() => backend.call(request), () => true);
+    },
+    stream(request, onDelta, signal) {
+      let emitted = false;
+      return withRetries(
+        () =>
+          backend.callStream(
+            request,
+            (text) => {
+              emitted = true;
+              onDelta(text);
+            },
+            signal
+          ),
+        () => !emitted && !signal?.aborted
+      );
+    },
+  };
+}
+
+export function logUsage(label: string, result: CompletionResult) {
+  const { usage } = result;
+  console.log(
+    `[${label}] provider=${result.provider} model=${result.model} attempts=${result.attempts} ` +
+      `latency=${result.latencyMs}ms tokens=${usage.totalTokens} ` +
+      `(prompt ${usage.promptTokens}, completion ${usage.completionTokens}${usage.estimated ? ", estimated" : ""})`
+  );
+}
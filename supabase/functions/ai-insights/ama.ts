@@ -0,0 +1,157 @@
+// Ask-Me-Anything support: assembles the user's data context on the server and
+// loads/saves conversation history, all through the caller's RLS-scoped client.
+
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.58.0";
+import type { ChatMessage } from "../_shared/llm.ts";
+import { addDays, fetchUserTimeZone, toISODate } from "../_shared/dates.ts";
+
+export const DEFAULT_AMA_WINDOW_DAYS = 30;
+const MAX_AMA_WINDOW_DAYS = 365;
+
+// earlier turns sent back to the model with each follow-up question
+const HISTORY_MESSAGE_LIMIT = 20;
+
+export interface AmaContext {
+  days: number;
+  startDate: string;
+  conditions: any[];
+  dailyLogs: any[];
+  momentLogs: any[];
+}
+
+export function clampWindowDays(days: unknown) {
+  const n = Math.round(Number(days));
+  if (!Number.isFinite(n) || n < 1) return DEFAULT_AMA_WINDOW_DAYS;
+  return Math.min(n, MAX_AMA_WINDOW_DAYS);
+}
+
+const TRIGGER_SELECT = "value, value_text, trigger:triggers(key, label, input_type, options_json)";
+const CONDITION_SELECT = "severity, notes, user_condition:user_conditions(custom_label, condition:conditions(name))";
+const SUB_SYMPTOM_SELECT =
+  "severity, sub_symptom:sub_symptoms(name, user_condition:user_conditions(custom_label, condition:conditions(name)))";
+
+export async function fetchAmaContext(
+  supabase: SupabaseClient,
+  userId: string,
+  days: number
+): Promise<AmaContext> {
+  const timeZone = await fetchUserTimeZone(supabase);
+  const startDate = addDays(toISODate(new Date(), timeZone), -(days - 1));
+
+  const { data: conditions, error: condError } = await supabase
+    .from("user_conditions")
+    .select("custom_label, status, notes, condition:conditions(name), sub_symptoms(name)")
+    .eq("user_id", userId);
+  if (condError) throw condError;
+
+  const { data: dailyLogs, error: dailyError } = await supabase
+    .from("daily_logs")
+    .select(
+      `date, overall_severity, notes, daily_log_conditions(${CONDITION_SELECT}), daily_log_sub_symptoms(${SUB_SYMPTOM_SELECT}), daily_log_triggers(${TRIGGER_SELECT})`
+    )
+    .eq("user_id", userId)
+    .gte("date", startDate)
+    .order("date", { ascending: true });
+  if (dailyError) throw dailyError;
+
+  const { data: momentLogs, error: momentError } = await supabase
+    .from("moment_logs")
+    .select(
+      `timestamp, date, overall_severity, activity, notes, moment_log_conditions(${CONDITION_SELECT}), moment_log_sub_symptoms(${SUB_SYMPTOM_SELECT}), moment_log_triggers(${TRIGGER_SELECT})`
+    )
+    .eq("user_id", userId)
+    .gte("date", startDate)
+    .order("timestamp", { ascending: true });
+  if (momentError) throw momentError;
+
+  return {
+    days,
+    startDate,
+    conditions: conditions ?? [],
+    dailyLogs: dailyLogs ?? [],
+    momentLogs: momentLogs ?? [],
+  };
+}
+
+/**
+ * Returns the conversation to append to (creating one titled after the first
+ * question when none is given) and its most recent turns as chat history.
+ */
+export async function loadConversation(
+  supabase: SupabaseClient,
+  userId: string,
+  conversationId: string | null,
+  question: string
+): Promise<{ conversationId: string; history: ChatMessage[] }> {
+  if (conversationId) {
+    const { data: existing, error } = await supabase
+      .from("ama_conversations")
+      .select("id")
+      .eq("id", conversationId)
+      .eq("user_id", userId)
+      .maybeSingle();
+    if (error) throw error;
+
+    if (existing) {
+      const { data: rows, error: msgError } = await supabase
+        .from("ama_messages")
+        .select("role, content")
+        .eq("conversation_id", conversationId)
+        .order("created_at", { ascending: false })
+        .limit(HISTORY_MESSAGE_LIMIT);
+      if (msgError) throw msgError;
+
+      const history = (rows ?? [])
+        .reverse()
+        .map((m: any) => ({ role: m.role, content: m.content }) as ChatMessage);
+      return { conversationId, history };
+    }
+  }
+
+  const title = question.length > 80 ? `${question.slice(0, 77)}...` : question;
+  const { data: created, error: createError } = await supabase
+    .from("ama_conversations")
+    .insert({ user_id: userId, title })
+    .select("id")
+    .single();
+  if (createError) throw createError;
+
+  return { conversationId: created.id, history: [] };
+}
+
+export async function saveExchange(
+  supabase: SupabaseClient,
+  userId: string,
+  conversationId: string,
+  days: number,
+  question: string,
+  answer: string
+) {
+  const now = Date.now();
+  const { error } = await supabase.from("ama_messages").insert([
+    {
+      conversation_id: conversationId,
+      user_id: userId,
+      role: "user",
+      content: question,
+      window_days: days,
+      created_at: new Date(now).toISOString(),
+    },
+    {
+      conversation_id: conversationId,
+      user_id: userId,
+      role: "assistant",
+      content: answer,
+      window_days: days,
+      // keep the answer strictly after the question when ordering by created_at
+      created_at: new Date(now + 1).toISOString(),
+    },
+  ]);
+  if (error) throw error;
+
+  const { error: touchError } = await supabase
+    .from("ama_conversations")
+    .update({ updated_at: new Date(now + 1).toISOString() })
+    .eq("id", conversationId);
+  if (touchError) throw touchError;
+}
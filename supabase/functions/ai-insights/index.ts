@@ -1,11 +1,110 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { authenticateRequest, consumeRateLimit, HttpError } from "../_shared/auth.ts";
+import {
+  ChatMessage,
+  createLLMProvider,
+  LLMError,
+  LLMProvider,
+  logUsage,
+} from "../_shared/llm.ts";
+import { addDays, fetchUserTimeZone, toISODate } from "../_shared/dates.ts";
+import { clampWindowDays, fetchAmaContext, loadConversation, saveExchange } from "./ama.ts";
+import { buildAmaMessages, buildInsightsMessages } from "./prompts.ts";
+import {
+  emptyReport,
+  INSIGHT_JSON_SCHEMA,
+  INSIGHT_SCHEMA_VERSION,
+  normalizeReport,
+  reportToText,
+} from "./report.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
   "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+  "Access-Control-Expose-Headers": "Retry-After",
 };
 
+function sseEvent(event: string, data: unknown) {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Streams an AMA answer as server-sent events:
+ *   meta  - { conversationId, windowDays }, sent first
+ *   delta - { text } for each chunk of the answer
+ *   done  - { answer, conversationId, usage }
+ *   error - { error }
+ * If the client disconnects mid-answer the model request is aborted and the
+ * partial answer is still saved, so the conversation history stays coherent.
+ */
+function streamAmaAnswer(options: {
+  llm: LLMProvider;
+  messages: ChatMessage[];
+  onFinish: (answer: string) => Promise<void>;
+  meta: { conversationId: string; windowDays: number };
+}) {
+  const encoder = new TextEncoder();
+  const abort = new AbortController();
+  let answer = "";
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (abort.signal.aborted) return;
+        controller.enqueue(encoder.encode(sseEvent(event, data)));
+      };
+
+      send("meta", options.meta);
+
+      try {
+        const completion = await options.llm.stream(
+          { messages: options.messages, temperature: 0.7, maxTokens: 600 },
+          (text) => {
+            answer += text;
+            send("delta", { text });
+          },
+          abort.signal
+        );
+        logUsage("ai-insights:ama-stream", completion);
+
+        const finalAnswer = completion.content || "Unable to generate an answer at this time.";
+        await options.onFinish(finalAnswer);
+        send("done", {
+          answer: finalAnswer,
+          conversationId: options.meta.conversationId,
+          usage: completion.usage,
+        });
+      } catch (error) {
+        if (abort.signal.aborted) {
+          if (answer) {
+            await options
+              .onFinish(answer)
+              .catch((e) => console.error("Error saving partial answer:", e));
+          }
+          return;
+        }
+        console.error("LLM stream error:", error);
+        send("error", { error: "Failed to generate answer" });
+      }
+
+      if (!abort.signal.aborted) controller.close();
+    },
+    cancel() {
+      abort.abort();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
+}
+
 Deno.serve(async (req: Request) => {
   if (req.method === "OPTIONS") {
     return new Response(null, {
@@ -15,25 +114,34 @@ Deno.serve(async (req: Request) => {
   }
 
   try {
-    const { userId, days = 30, question = null, contextData = null } = await req.json();
-
-    if (!userId) {
-      return new Response(
-        JSON.stringify({ error: "userId is required" }),
-        {
-          status: 400,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        }
-      );
+    const env = (name: string) => Deno.env.get(name);
+    const { user, supabase } = await authenticateRequest(req, env);
+
+    const {
+      userId: requestedUserId,
+      days = 30,
+      question = null,
+      conversationId = null,
+      stream = false,
+    } = await req.json();
+
+    // userId is optional now; if a client still sends it, it has to be the caller
+    if (requestedUserId && requestedUserId !== user.id) {
+      throw new HttpError(403, "You can only request insights for your own account");
     }
-
-    const supabaseUrl = Deno.env.get("SUPABASE_URL");
-    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
-    const openaiApiKey = Deno.env.get("OPENAI_API_KEY");
-
-    if (!openaiApiKey) {
+    const userId = user.id;
+    // both paths read this many days of logs, so it's bounded the same way
+    const windowDays = clampWindowDays(days);
+
+    let llm: LLMProvider;
+    try {
+      llm = createLLMProvider(env);
+    } catch (error) {
+      console.error("LLM provider error:", error);
       return new Response(
-        JSON.stringify({ error: "OpenAI API key not configured" }),
+        JSON.stringify({
+          error: error instanceof LLMError ? error.message : "LLM provider not configured",
+        }),
         {
           status: 500,
           headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -41,75 +149,32 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    const supabase = await import("npm:@supabase/supabase-js@2.58.0").then(
-      (module) => module.createClient(supabaseUrl, supabaseServiceKey)
-    );
-
-    if (question && contextData) {
-      const { dailyLogs, momentLogs, conditions } = contextData;
-
-      const dailyLogsText = dailyLogs
-        .map(
-          (log: any) =>
-            `${log.date}: Severity ${log.overall_severity}/10, Sleep ${log.sleep_hours}h (quality ${log.sleep_quality}/5), Stress ${log.stress_level}/5, Activity ${log.activity_level}, Triggers: ${log.triggers || "none"}`
-        )
-        .join("\n");
-
-      const momentLogsText = momentLogs
-        .map(
-          (log: any) =>
-            `${log.timestamp}: Severity ${log.overall_severity}/10, Activity: ${log.activity || "none"}, Triggers: ${log.triggers || "none"}`
-        )
-        .join("\n");
-
-      const conditionsText = conditions
-        .map(
-          (c: any) =>
-            `${c.condition.name} (${c.status})${c.sub_symptoms?.length ? ` - Sub-symptoms: ${c.sub_symptoms.map((s: any) => s.name).join(", ")}` : ""}`
-        )
-        .join("\n");
-
-      const prompt = `You are a helpful health insights assistant analyzing chronic illness tracking data. A user has asked: "${question}"
-
-Here is their recent health data:
-
-CONDITIONS:
-${conditionsText}
-
-DAILY LOGS (last 30 days):
-${dailyLogsText}
-
-MOMENT LOGS (recent):
-${momentLogsText}
-
-Based on this data, provide a clear, helpful answer to their question. Be specific and reference patterns in their data. If you don't have enough data to answer confidently, say so and explain what additional data would help.`;
+    if (question) {
+      await consumeRateLimit(supabase, "ama", env);
+
+      const context = await fetchAmaContext(supabase, userId, windowDays);
+      const conversation = await loadConversation(supabase, userId, conversationId, question);
+      const messages = buildAmaMessages(question, context, conversation.history);
+
+      if (stream) {
+        return streamAmaAnswer({
+          llm,
+          messages,
+          onFinish: (answer) =>
+            saveExchange(supabase, userId, conversation.conversationId, windowDays, question, answer),
+          meta: { conversationId: conversation.conversationId, windowDays },
+        });
+      }
 
-      const openaiResponse = await fetch("https://api.openai.com/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          "Authorization": `Bearer ${openaiApiKey}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model: "gpt-4o-mini",
-          messages: [
-            {
-              role: "system",
-              content:
-                "You are a helpful health insights assistant. Be positive, specific, and actionable. Reference actual data points when possible.",
-            },
-            {
-              role: "user",
-              content: prompt,
-            },
-          ],
+      let completion;
+      try {
+        completion = await llm.complete({
+          messages,
           temperature: 0.7,
-          max_tokens: 600,
-        }),
-      });
-
-      if (!openaiResponse.ok) {
-        console.error("OpenAI API error:", await openaiResponse.text());
+          maxTokens: 600,
+        });
+      } catch (error) {
+        console.error("LLM error:", error);
         return new Response(
           JSON.stringify({ error: "Failed to generate answer" }),
           {
@@ -118,16 +183,18 @@ Based on this data, provide a clear, helpful answer to their question. Be specif
           }
         );
       }
+      logUsage("ai-insights:ama", completion);
 
-      const openaiData = await openaiResponse.json();
-      const answer =
-        openaiData.choices?.[0]?.message?.content ||
-        "Unable to generate an answer at this time.";
+      const answer = completion.content || "Unable to generate an answer at this time.";
+      await saveExchange(supabase, userId, conversation.conversationId, windowDays, question, answer);
 
       return new Response(
         JSON.stringify({
           answer: answer,
           question: question,
+          conversationId: conversation.conversationId,
+          windowDays,
+          usage: completion.usage,
         }),
         {
           headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -135,9 +202,9 @@ Based on this data, provide a clear, helpful answer to their question. Be specif
       );
     }
 
-    const startDate = new Date();
-    startDate.setDate(startDate.getDate() - days);
-    const formattedStartDate = startDate.toISOString().split("T")[0];
+    const timeZone = await fetchUserTimeZone(supabase);
+    const insightDate = toISODate(new Date(), timeZone);
+    const formattedStartDate = addDays(insightDate, -(windowDays - 1));
 
     const { data: logs, error: logsError } = await supabase
       .from("daily_logs")
@@ -153,6 +220,11 @@ Based on this data, provide a clear, helpful answer to their question. Be specif
         food_notes,
         meds_notes,
         triggers,
+        daily_log_triggers(
+          value,
+          value_text,
+          trigger:triggers(key, label, input_type, options_json)
+        ),
         daily_log_conditions(
           severity,
           notes,
@@ -160,6 +232,13 @@ Based on this data, provide a clear, helpful answer to their question. Be specif
             id,
             condition:conditions(name)
           )
+        ),
+        daily_log_sub_symptoms(
+          severity,
+          sub_symptom:sub_symptoms(
+            name,
+            user_condition:user_conditions(custom_label, condition:conditions(name))
+          )
         )
       `
       )
@@ -179,17 +258,23 @@ Based on this data, provide a clear, helpful answer to their question. Be specif
     }
 
     if (!logs || logs.length === 0) {
-      const defaultInsight =
-        "No logs found yet. Start logging your symptoms to see insights!";
-      await supabase.from("ai_insights").insert({
-        user_id: userId,
-        insights_text: defaultInsight,
-        insight_date: new Date().toISOString().split("T")[0],
-      });
+      const report = emptyReport("No logs found yet. Start logging your symptoms to see insights!");
+      const defaultInsight = reportToText(report);
+      await supabase.from("ai_insights").upsert(
+        {
+          user_id: userId,
+          insights_text: defaultInsight,
+          insights_json: report,
+          schema_version: INSIGHT_SCHEMA_VERSION,
+          insight_date: insightDate,
+        },
+        { onConflict: "user_id,insight_date" }
+      );
 
       return new Response(
         JSON.stringify({
           insights: defaultInsight,
+          report,
           logsAnalyzed: 0,
         }),
         {
@@ -198,60 +283,33 @@ Based on this data, provide a clear, helpful answer to their question. Be specif
       );
     }
 
-    const dataForPrompt = logs
-      .map(
-        (log: any) =>
-          `Date: ${log.date}
-  Overall Severity: ${log.overall_severity}/10
-  Sleep: ${log.sleep_hours}h (quality ${log.sleep_quality}/5)
-  Stress: ${log.stress_level}/5
-  Activity: ${log.activity_level}
-  Food: ${log.food_notes || "None"}
-  Meds: ${log.meds_notes || "None"}
-  Triggers: ${log.triggers || "None"}
-  Conditions: ${log.daily_log_conditions.map((c: any) => `${c.user_condition.condition.name} (${c.severity}/10)${c.notes ? " - " + c.notes : ""}`).join(", ") || "None"}`
-      )
-      .join("\n\n");
-
-    const prompt = `Analyze the following chronic illness tracking data and provide 3-6 key insights about symptoms, patterns, and potential triggers. Format your response as bullet points. Focus on:
-- Correlations between sleep and symptoms
-- Stress and symptom patterns
-- Activity levels and flare-ups
-- Potential food triggers
-- Environmental or situational triggers
-- Any positive patterns
-
-End with 2-3 actionable experiments the user can try.
-
-Data:
-${dataForPrompt}`;
-
-    const openaiResponse = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${openaiApiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "gpt-4o-mini",
-        messages: [
-          {
-            role: "system",
-            content:
-              "You are a helpful health insights assistant analyzing chronic illness tracking data. Be positive and actionable.",
-          },
-          {
-            role: "user",
-            content: prompt,
-          },
-        ],
-        temperature: 0.7,
-        max_tokens: 500,
-      }),
+    const known = {
+      dates: new Set<string>(logs.map((log: any) => log.date)),
+      triggers: new Map<string, string>(),
+      conditions: new Set<string>(),
+    };
+    logs.forEach((log: any) => {
+      (log.daily_log_triggers ?? []).forEach((t: any) => {
+        if (t.trigger?.key) known.triggers.set(t.trigger.key, t.trigger.label);
+      });
+      (log.daily_log_conditions ?? []).forEach((c: any) => {
+        const name = c.user_condition?.condition?.name;
+        if (name) known.conditions.add(name);
+      });
     });
 
-    if (!openaiResponse.ok) {
-      console.error("OpenAI API error:", await openaiResponse.text());
+    await consumeRateLimit(supabase, "insights", env);
+
+    let completion;
+    try {
+      completion = await llm.complete({
+        messages: buildInsightsMessages(logs),
+        temperature: 0.7,
+        maxTokens: 1200,
+        jsonSchema: { name: "insight_report", schema: INSIGHT_JSON_SCHEMA },
+      });
+    } catch (error) {
+      console.error("LLM error:", error);
       return new Response(
         JSON.stringify({ error: "Failed to generate insights" }),
         {
@@ -260,29 +318,60 @@ ${dataForPrompt}`;
         }
       );
     }
+    logUsage("ai-insights", completion);
 
-    const openaiData = await openaiResponse.json();
-    const insights =
-      openaiData.choices?.[0]?.message?.content ||
-      "Unable to generate insights at this time.";
+    let raw: any;
+    try {
+      raw = JSON.parse(completion.content);
+    } catch {
+      console.error("Model returned invalid JSON:", completion.content);
+      return new Response(
+        JSON.stringify({ error: "Failed to generate insights" }),
+        {
+          status: 502,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
 
-    await supabase.from("ai_insights").insert({
-      user_id: userId,
-      insights_text: insights,
-      insight_date: new Date().toISOString().split("T")[0],
-    });
+    const report = normalizeReport(raw, known);
+    const insights = reportToText(report);
+
+    const { error: saveError } = await supabase.from("ai_insights").upsert(
+      {
+        user_id: userId,
+        insights_text: insights,
+        insights_json: report,
+        schema_version: INSIGHT_SCHEMA_VERSION,
+        insight_date: insightDate,
+      },
+      { onConflict: "user_id,insight_date" }
+    );
+    if (saveError) console.error("Error saving insights:", saveError);
 
     return new Response(
       JSON.stringify({
         insights: insights,
+        report,
         logsAnalyzed: logs.length,
-        daysAnalyzed: days,
+        daysAnalyzed: windowDays,
+        usage: completion.usage,
       }),
       {
         headers: { ...corsHeaders, "Content-Type": "application/json" },
       }
     );
   } catch (error) {
+    if (error instanceof HttpError) {
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        {
+          status: error.status,
+          headers: { ...corsHeaders, ...error.headers, "Content-Type": "application/json" },
+        }
+      );
+    }
+
     console.error("Error:", error);
     return new Response(
       JSON.stringify({
@@ -0,0 +1,153 @@
+// Prompt building shared by every LLM provider, so switching backends never
+// changes what the model is asked.
+
+import type { ChatMessage } from "../_shared/llm.ts";
+import type { AmaContext } from "./ama.ts";
+
+export const INSIGHTS_SYSTEM_PROMPT =
+  "You are a helpful health insights assistant analyzing chronic illness tracking data. Be positive and actionable. Respond only with JSON matching the provided schema.";
+
+export const AMA_SYSTEM_PROMPT =
+  "You are a helpful health insights assistant. Be positive, specific, and actionable. Reference actual data points when possible.";
+
+export function formatTriggerValue(row: any) {
+  if (row.value_text) return row.value_text;
+  const options = row.trigger?.options_json?.options;
+  const type = row.trigger?.input_type;
+  // value_text is written for every other type; this covers older rows
+  if (options && (type === "enum" || type === "binary")) return options[row.value] ?? String(row.value);
+  return String(row.value);
+}
+
+export function formatDailyLogForInsights(log: any) {
+  return `Date: ${log.date}
+  Overall Severity: ${log.overall_severity}/10
+  Sleep: ${log.sleep_hours}h (quality ${log.sleep_quality}/5)
+  Stress: ${log.stress_level}/5
+  Activity: ${log.activity_level}
+  Food: ${log.food_notes || "None"}
+  Meds: ${log.meds_notes || "None"}
+  Triggers: ${log.triggers || "None"}
+  Tracked triggers: ${(log.daily_log_triggers ?? []).map((t: any) => `${t.trigger?.key} (${t.trigger?.label}) = ${formatTriggerValue(t)}`).join(", ") || "None"}
+  Conditions: ${log.daily_log_conditions.map((c: any) => `${c.user_condition.condition.name} (${c.severity}/10)${c.notes ? " - " + c.notes : ""}`).join(", ") || "None"}
+  Sub-symptoms: ${formatLoggedSubSymptoms(log.daily_log_sub_symptoms ?? [])}`;
+}
+
+export function buildInsightsMessages(logs: any[]): ChatMessage[] {
+  const dataForPrompt = logs.map(formatDailyLogForInsights).join("\n\n");
+
+  const prompt = `Analyze the following chronic illness tracking data and report 3-6 key patterns about symptoms and potential triggers, plus 2-3 actionable experiments the user can try. Focus on:
+- Correlations between sleep and symptoms
+- Stress and symptom patterns
+- Activity levels and flare-ups
+- Potential food triggers
+- Environmental or situational triggers
+- Any positive patterns
+
+For each pattern, list the dates (YYYY-MM-DD, from the data) that support it, the tracked trigger keys it involves, and the condition names it concerns. Only use trigger keys and condition names that appear in the data. Rate confidence honestly: use "low" when there are few supporting days.
+
+Data:
+${dataForPrompt}`;
+
+  return [
+    { role: "system", content: INSIGHTS_SYSTEM_PROMPT },
+    { role: "user", content: prompt },
+  ];
+}
+
+function conditionLabel(uc: any) {
+  return uc?.custom_label || uc?.condition?.name || "Unnamed condition";
+}
+
+function formatLoggedConditions(rows: any[]) {
+  return (
+    rows
+      .filter((c: any) => c.severity !== null && c.severity !== undefined)
+      .map(
+        (c: any) =>
+          `${conditionLabel(c.user_condition)} ${c.severity}/10${c.notes ? ` ("${c.notes}")` : ""}`
+      )
+      .join(", ") || "none"
+  );
+}
+
+// a logged sub-symptom row means it was present; severity is optional
+function formatLoggedSubSymptoms(rows: any[]) {
+  return (
+    rows
+      .filter((s: any) => s.sub_symptom)
+      .map(
+        (s: any) =>
+          `${s.sub_symptom.name} (${conditionLabel(s.sub_symptom.user_condition)}) ${s.severity !== null && s.severity !== undefined ? `${s.severity}/10` : "present"}`
+      )
+      .join(", ") || "none"
+  );
+}
+
+function formatLoggedTriggers(rows: any[]) {
+  return (
+    rows
+      .filter((t: any) => t.trigger)
+      .map((t: any) => `${t.trigger.label}: ${formatTriggerValue(t)}`)
+      .join(", ") || "none"
+  );
+}
+
+export function formatAmaContext(context: AmaContext) {
+  const conditionsText =
+    context.conditions
+      .map(
+        (c: any) =>
+          `${conditionLabel(c)} (${c.status})${c.sub_symptoms?.length ? ` - Sub-symptoms: ${c.sub_symptoms.map((s: any) => s.name).join(", ")}` : ""}`
+      )
+      .join("\n") || "None tracked";
+
+  const dailyLogsText =
+    context.dailyLogs
+      .map(
+        (log: any) =>
+          `${log.date}: Overall ${log.overall_severity ?? "-"}/10; Conditions: ${formatLoggedConditions(log.daily_log_conditions ?? [])}; Sub-symptoms: ${formatLoggedSubSymptoms(log.daily_log_sub_symptoms ?? [])}; Triggers: ${formatLoggedTriggers(log.daily_log_triggers ?? [])}${log.notes ? `; Notes: ${log.notes}` : ""}`
+      )
+      .join("\n") || "None";
+
+  const momentLogsText =
+    context.momentLogs
+      .map(
+        (log: any) =>
+          `${log.timestamp}: Overall ${log.overall_severity ?? "-"}/10; Activity: ${log.activity || "none"}; Conditions: ${formatLoggedConditions(log.moment_log_conditions ?? [])}; Sub-symptoms: ${formatLoggedSubSymptoms(log.moment_log_sub_symptoms ?? [])}; Triggers: ${formatLoggedTriggers(log.moment_log_triggers ?? [])}${log.notes ? `; Notes: ${log.notes}` : ""}`
+      )
+      .join("\n") || "None";
+
+  return `CONDITIONS:
+${conditionsText}
+
+DAILY CHECK-INS (last ${context.days} days, since ${context.startDate}):
+${dailyLogsText}
+
+MOMENT LOGS (last ${context.days} days):
+${momentLogsText}`;
+}
+
+/**
+ * System prompt carries the data; earlier turns of the conversation follow so
+ * the model can resolve follow-ups like "what about last week?".
+ */
+export function buildAmaMessages(
+  question: string,
+  context: AmaContext,
+  history: ChatMessage[]
+): ChatMessage[] {
+  const system = `${AMA_SYSTEM_PROMPT}
+
+You are answering questions about a user's chronic illness tracking data. Here is their data:
+
+${formatAmaContext(context)}
+
+Be specific and reference patterns in their data. If you don't have enough data to answer confidently, say so and explain what additional data would help.`;
+
+  return [
+    { role: "system", content: system },
+    ...history,
+    { role: "user", content: question },
+  ];
+}
@@ -0,0 +1,164 @@
+// Structured insight report: the JSON schema the model must follow and the
+// normalisation applied before anything is stored.
+
+export const INSIGHT_SCHEMA_VERSION = 1;
+
+export type Confidence = "low" | "medium" | "high";
+
+export interface InsightReport {
+  version: number;
+  featured: { title: string; body: string };
+  patterns: {
+    title: string;
+    explanation: string;
+    evidence_dates: string[];
+    triggers: { key: string; label: string }[];
+    conditions: string[];
+    confidence: Confidence;
+  }[];
+  experiments: {
+    title: string;
+    description: string;
+    duration_days: number | null;
+    triggers: { key: string; label: string }[];
+  }[];
+  confidence: Confidence;
+  confidence_reason: string;
+}
+
+// Shape the model is asked to produce. Triggers are referenced by key and
+// resolved to labels server-side so the stored report never carries made-up ones.
+export const INSIGHT_JSON_SCHEMA = {
+  type: "object",
+  additionalProperties: false,
+  required: ["featured", "patterns", "experiments", "confidence", "confidence_reason"],
+  properties: {
+    featured: {
+      type: "object",
+      additionalProperties: false,
+      required: ["title", "body"],
+      properties: {
+        title: { type: "string", description: "One short sentence, the most useful finding" },
+        body: { type: "string", description: "Two or three sentences of supporting detail" },
+      },
+    },
+    patterns: {
+      type: "array",
+      items: {
+        type: "object",
+        additionalProperties: false,
+        required: ["title", "explanation", "evidence_dates", "trigger_keys", "conditions", "confidence"],
+        properties: {
+          title: { type: "string" },
+          explanation: { type: "string" },
+          evidence_dates: {
+            type: "array",
+            items: { type: "string", description: "YYYY-MM-DD date from the data" },
+          },
+          trigger_keys: { type: "array", items: { type: "string" } },
+          conditions: { type: "array", items: { type: "string" } },
+          confidence: { type: "string", enum: ["low", "medium", "high"] },
+        },
+      },
+    },
+    experiments: {
+      type: "array",
+      items: {
+        type: "object",
+        additionalProperties: false,
+        required: ["title", "description", "duration_days", "trigger_keys"],
+        properties: {
+          title: { type: "string" },
+          description: { type: "string" },
+          duration_days: { type: ["integer", "null"] },
+          trigger_keys: { type: "array", items: { type: "string" } },
+        },
+      },
+    },
+    confidence: { type: "string", enum: ["low", "medium", "high"] },
+    confidence_reason: { type: "string" },
+  },
+};
+
+const CONFIDENCE_LEVELS: Confidence[] = ["low", "medium", "high"];
+
+function asConfidence(value: unknown): Confidence {
+  return CONFIDENCE_LEVELS.includes(value as Confidence) ? (value as Confidence) : "low";
+}
+
+function asString(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function asStringArray(value: unknown) {
+  return Array.isArray(value) ? value.map(asString).filter(Boolean) : [];
+}
+
+/**
+ * Coerces whatever the model returned into an InsightReport, dropping evidence
+ * dates that aren't in the analysed data and references to unknown triggers
+ * or conditions.
+ */
+export function normalizeReport(
+  raw: any,
+  known: { dates: Set<string>; triggers: Map<string, string>; conditions: Set<string> }
+): InsightReport {
+  const resolveTriggers = (keys: unknown) =>
+    asStringArray(keys)
+      .filter((key) => known.triggers.has(key))
+      .map((key) => ({ key, label: known.triggers.get(key)! }));
+
+  const patterns = (Array.isArray(raw?.patterns) ? raw.patterns : [])
+    .map((p: any) => ({
+      title: asString(p?.title),
+      explanation: asString(p?.explanation),
+      evidence_dates: asStringArray(p?.evidence_dates).filter((d) => known.dates.has(d)).sort(),
+      triggers: resolveTriggers(p?.trigger_keys),
+      conditions: asStringArray(p?.conditions).filter((c) => known.conditions.has(c)),
+      confidence: asConfidence(p?.confidence),
+    }))
+    .filter((p: any) => p.title);
+
+  const experiments = (Array.isArray(raw?.experiments) ? raw.experiments : [])
+    .map((e: any) => ({
+      title: asString(e?.title),
+      description: asString(e?.description),
+      duration_days:
+        Number.isInteger(e?.duration_days) && e.duration_days > 0 ? e.duration_days : null,
+      triggers: resolveTriggers(e?.trigger_keys),
+    }))
+    .filter((e: any) => e.title);
+
+  const featuredTitle = asString(raw?.featured?.title) || patterns[0]?.title || "";
+
+  return {
+    version: INSIGHT_SCHEMA_VERSION,
+    featured: {
+      title: featuredTitle || "Keep logging to uncover patterns.",
+      body: asString(raw?.featured?.body),
+    },
+    patterns,
+    experiments,
+    confidence: asConfidence(raw?.confidence),
+    confidence_reason: asString(raw?.confidence_reason),
+  };
+}
+
+// Plain-text rendering kept in insights_text for older clients.
+export function reportToText(report: InsightReport) {
+  const lines = [report.featured.title];
+  report.patterns.forEach((p) => lines.push(`- ${p.title}. ${p.explanation}`));
+  report.experiments.forEach((e) => lines.push(`- Try: ${e.title}. ${e.description}`));
+  return lines.join("\n");
+}
+
+export function emptyReport(title: string): InsightReport {
+  return {
+    version: INSIGHT_SCHEMA_VERSION,
+    featured: { title, body: "" },
+    patterns: [],
+    experiments: [],
+    confidence: "low",
+    confidence_reason: "Not enough data yet.",
+  };
+}
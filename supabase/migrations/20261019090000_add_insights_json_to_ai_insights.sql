@@ -0,0 +1,40 @@
+/*
+  # Store AI insights as structured JSON
+
+  ## Overview
+  The ai-insights edge function now asks the model for a typed JSON report
+  (featured insight, patterns with evidence, experiments, confidence) instead of
+  free-form bullet text. The report is stored alongside the existing text column.
+
+  ## Changes Made
+
+  ### 1. ai_insights table
+    - Added `insights_json` column (jsonb, nullable) - the structured insight report
+    - Added `schema_version` column (int, nullable) - version of the report shape in `insights_json`
+
+  ## Notes
+  - `insights_text` stays NOT NULL and now holds a plain-text rendering of the report,
+    so older clients keep working
+  - Rows written before this migration have NULL `insights_json`
+  - Uses IF NOT EXISTS checks to ensure safe, idempotent migrations
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'ai_insights' AND column_name = 'insights_json'
+  ) THEN
+    ALTER TABLE ai_insights ADD COLUMN insights_json jsonb;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'ai_insights' AND column_name = 'schema_version'
+  ) THEN
+    ALTER TABLE ai_insights ADD COLUMN schema_version int;
+  END IF;
+END $$;
@@ -0,0 +1,128 @@
+/*
+  # Per-user AI rate limiting and user-scoped insight writes
+
+  ## Overview
+  The ai-insights edge function now runs queries as the calling user (RLS applies)
+  instead of with the service-role key. This adds the policies it needs to cache
+  insights, and a usage table plus an atomic quota check for rate limiting.
+
+  ## Changes Made
+
+  ### 1. ai_insights table
+    - Added INSERT and UPDATE policies so users can write their own cached insights
+
+  ### 2. ai_usage_events table (new)
+    - One row per AI request (`kind` is 'insights' or 'ama')
+    - Users can read their own rows; rows are only written by `consume_ai_quota`
+
+  ### 3. consume_ai_quota(p_kind, p_limit, p_window_seconds) function
+    - Counts the caller's requests of that kind inside the window
+    - Records a new request and returns allowed = true if under the limit,
+      otherwise returns allowed = false with seconds until the next slot frees up
+    - SECURITY DEFINER, scoped to auth.uid(); serialised per user with an advisory lock
+
+  ## Notes
+  - Limits are chosen by the edge function, not the client
+  - Uses IF NOT EXISTS checks to ensure safe, idempotent migrations
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'ai_insights' AND policyname = 'Users can create own insights'
+  ) THEN
+    CREATE POLICY "Users can create own insights"
+      ON ai_insights FOR INSERT
+      TO authenticated
+      WITH CHECK (user_id = auth.uid());
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'ai_insights' AND policyname = 'Users can update own insights'
+  ) THEN
+    CREATE POLICY "Users can update own insights"
+      ON ai_insights FOR UPDATE
+      TO authenticated
+      USING (user_id = auth.uid())
+      WITH CHECK (user_id = auth.uid());
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS ai_usage_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('insights', 'ama')),
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+ALTER TABLE ai_usage_events ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'ai_usage_events' AND policyname = 'Users can view own AI usage'
+  ) THEN
+    CREATE POLICY "Users can view own AI usage"
+      ON ai_usage_events FOR SELECT
+      TO authenticated
+      USING (user_id = auth.uid());
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_events_user_kind_created
+  ON ai_usage_events(user_id, kind, created_at);
+
+CREATE OR REPLACE FUNCTION consume_ai_quota(
+  p_kind text,
+  p_limit int,
+  p_window_seconds int
+)
+RETURNS TABLE (allowed boolean, remaining int, retry_after_seconds int)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_used int;
+  v_oldest timestamptz;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- serialise concurrent requests from the same user so two can't both take the last slot
+  PERFORM pg_advisory_xact_lock(hashtext(v_user_id::text || ':' || p_kind));
+
+  SELECT count(*), min(created_at)
+    INTO v_used, v_oldest
+    FROM ai_usage_events
+   WHERE user_id = v_user_id
+     AND kind = p_kind
+     AND created_at > now() - make_interval(secs => p_window_seconds);
+
+  IF v_used >= p_limit THEN
+    RETURN QUERY SELECT
+      false,
+      0,
+      GREATEST(
+        1,
+        CEIL(EXTRACT(EPOCH FROM (v_oldest + make_interval(secs => p_window_seconds) - now())))::int
+      );
+    RETURN;
+  END IF;
+
+  INSERT INTO ai_usage_events (user_id, kind) VALUES (v_user_id, p_kind);
+
+  RETURN QUERY SELECT true, p_limit - v_used - 1, 0;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION consume_ai_quota(text, int, int) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION consume_ai_quota(text, int, int) TO authenticated;
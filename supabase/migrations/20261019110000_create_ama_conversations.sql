@@ -0,0 +1,86 @@
+/*
+  # Persist Ask-Me-Anything conversations
+
+  ## Overview
+  Stores AMA chat history so follow-up questions keep their context across
+  sessions. The ai-insights edge function reads recent messages from a
+  conversation and appends each question and answer, running as the user.
+
+  ## Changes Made
+
+  ### 1. ama_conversations table (new)
+    - One row per chat thread; `title` is taken from the first question
+    - `updated_at` is bumped whenever a message is added
+
+  ### 2. ama_messages table (new)
+    - `role` is 'user' or 'assistant'
+    - `window_days` records the data window the question was answered against
+
+  ## Security
+  - RLS enabled on both tables; users can only read and write their own rows
+*/
+
+CREATE TABLE IF NOT EXISTS ama_conversations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  title text NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS ama_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversation_id uuid NOT NULL REFERENCES ama_conversations(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  role text NOT NULL CHECK (role IN ('user', 'assistant')),
+  content text NOT NULL,
+  window_days int,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+ALTER TABLE ama_conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ama_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own AMA conversations"
+  ON ama_conversations FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create own AMA conversations"
+  ON ama_conversations FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own AMA conversations"
+  ON ama_conversations FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own AMA conversations"
+  ON ama_conversations FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can view own AMA messages"
+  ON ama_messages FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create own AMA messages"
+  ON ama_messages FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM ama_conversations
+      WHERE ama_conversations.id = ama_messages.conversation_id
+      AND ama_conversations.user_id = auth.uid()
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_ama_conversations_user_updated
+  ON ama_conversations(user_id, updated_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_ama_messages_conversation_created
+  ON ama_messages(conversation_id, created_at);
@@ -0,0 +1,295 @@
+/*
+  # Streaks recomputed from log history, with freezes and rest days
+
+  ## Overview
+  Streaks used to be bumped by the client comparing each new log against
+  `users.last_log_date`, so backfilling or editing an older log corrupted
+  `current_streak`. Streaks are now derived from the full set of logged dates
+  (daily check-ins and moment logs) and recomputed by the database whenever
+  logs change.
+
+  ## Changes Made
+
+  ### 1. users table
+    - Added `streak_freezes_available` (int) - freezes banked for missed days
+
+  ### 2. streak_rest_days table (new)
+    - Days the user marked as rest/flare days; they neither count towards nor
+      break a streak
+    - One row per user and date
+
+  ### 3. compute_user_streak(p_user_id) function
+    - Walks every day from the first log to today in the user's timezone
+      (`user_preferences.timezone`, falling back to UTC)
+    - A logged day extends the streak; every 7 logged days earn a freeze
+      (at most 2 banked)
+    - A rest day carries the streak over; a missed day uses a freeze if one is
+      banked, otherwise the streak resets
+    - Today never breaks a streak before it is over
+
+  ### 4. refresh_user_streak(p_user_id) function
+    - Stores the computed values on `users`
+
+  ### 5. recompute_streak() function
+    - RPC for the signed-in user; refreshes and returns their streak so a
+      missed day is reflected without logging anything
+
+  ### 6. Triggers
+    - Statement-level triggers on daily_logs, moment_logs and streak_rest_days
+      refresh the streak of every user whose rows changed
+
+  ## Security
+  - RLS enabled on streak_rest_days; users can only manage their own rows
+  - Streak functions are SECURITY DEFINER; only recompute_streak() is callable
+    by clients and it is scoped to auth.uid()
+
+  ## Notes
+  - Existing streaks are recomputed at the end of this migration
+  - Uses IF NOT EXISTS checks to ensure safe, idempotent migrations
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'users' AND column_name = 'streak_freezes_available'
+  ) THEN
+    ALTER TABLE users ADD COLUMN streak_freezes_available int DEFAULT 0 NOT NULL;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS streak_rest_days (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  date date NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE (user_id, date)
+);
+
+ALTER TABLE streak_rest_days ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'streak_rest_days' AND policyname = 'Users can view own rest days'
+  ) THEN
+    CREATE POLICY "Users can view own rest days"
+      ON streak_rest_days FOR SELECT
+      TO authenticated
+      USING (user_id = auth.uid());
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'streak_rest_days' AND policyname = 'Users can create own rest days'
+  ) THEN
+    CREATE POLICY "Users can create own rest days"
+      ON streak_rest_days FOR INSERT
+      TO authenticated
+      WITH CHECK (user_id = auth.uid());
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'streak_rest_days' AND policyname = 'Users can delete own rest days'
+  ) THEN
+    CREATE POLICY "Users can delete own rest days"
+      ON streak_rest_days FOR DELETE
+      TO authenticated
+      USING (user_id = auth.uid());
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION compute_user_streak(p_user_id uuid)
+RETURNS TABLE (current_streak int, longest_streak int, freezes_available int, last_log_date date)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tz text;
+  v_today date;
+  v_first date;
+  v_last date;
+  v_day date;
+  v_logged boolean;
+  v_rest boolean;
+  v_current int := 0;
+  v_longest int := 0;
+  v_freezes int := 0;
+  v_run int := 0;
+BEGIN
+  SELECT timezone INTO v_tz FROM user_preferences WHERE user_id = p_user_id;
+  BEGIN
+    v_today := (now() AT TIME ZONE coalesce(v_tz, 'UTC'))::date;
+  EXCEPTION WHEN invalid_parameter_value THEN
+    v_today := (now() AT TIME ZONE 'UTC')::date;
+  END;
+
+  SELECT min(d), max(d) INTO v_first, v_last FROM (
+    SELECT date AS d FROM daily_logs WHERE user_id = p_user_id
+    UNION ALL
+    SELECT date FROM moment_logs WHERE user_id = p_user_id
+  ) logged;
+
+  IF v_first IS NULL THEN
+    RETURN QUERY SELECT 0, 0, 0, NULL::date;
+    RETURN;
+  END IF;
+
+  FOR v_day, v_logged, v_rest IN
+    SELECT
+      g.day::date,
+      EXISTS (SELECT 1 FROM daily_logs dl WHERE dl.user_id = p_user_id AND dl.date = g.day::date)
+        OR EXISTS (SELECT 1 FROM moment_logs ml WHERE ml.user_id = p_user_id AND ml.date = g.day::date),
+      EXISTS (SELECT 1 FROM streak_rest_days r WHERE r.user_id = p_user_id AND r.date = g.day::date)
+    FROM generate_series(v_first::timestamp, greatest(v_today, v_last)::timestamp, interval '1 day') AS g(day)
+    ORDER BY g.day
+  LOOP
+    IF v_logged THEN
+      v_current := v_current + 1;
+      v_run := v_run + 1;
+      IF v_run % 7 = 0 THEN
+        v_freezes := least(v_freezes + 1, 2);
+      END IF;
+    ELSIF v_rest OR v_day >= v_today THEN
+      -- rest days carry the streak over; today isn't over yet
+      NULL;
+    ELSIF v_freezes > 0 THEN
+      v_freezes := v_freezes - 1;
+    ELSE
+      v_current := 0;
+      v_run := 0;
+    END IF;
+
+    v_longest := greatest(v_longest, v_current);
+  END LOOP;
+
+  RETURN QUERY SELECT v_current, v_longest, v_freezes, v_last;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION refresh_user_streak(p_user_id uuid)
+RETURNS TABLE (current_streak int, longest_streak int, freezes_available int, last_log_date date)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_streak record;
+BEGIN
+  SELECT * INTO v_streak FROM compute_user_streak(p_user_id);
+
+  UPDATE users
+     SET current_streak = v_streak.current_streak,
+         longest_streak = v_streak.longest_streak,
+         streak_freezes_available = v_streak.freezes_available,
+         last_log_date = v_streak.last_log_date,
+         updated_at = now()
+   WHERE id = p_user_id;
+
+  RETURN QUERY SELECT
+    v_streak.current_streak,
+    v_streak.longest_streak,
+    v_streak.freezes_available,
+    v_streak.last_log_date;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION recompute_streak()
+RETURNS TABLE (current_streak int, longest_streak int, freezes_available int, last_log_date date)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  RETURN QUERY SELECT * FROM refresh_user_streak(auth.uid());
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION refresh_streaks_for_new_rows()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM refresh_user_streak(u.user_id)
+     FROM (SELECT DISTINCT user_id FROM new_rows) u;
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION refresh_streaks_for_old_rows()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM refresh_user_streak(u.user_id)
+     FROM (SELECT DISTINCT user_id FROM old_rows) u;
+  RETURN NULL;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION compute_user_streak(uuid) FROM PUBLIC;
+REVOKE ALL ON FUNCTION refresh_user_streak(uuid) FROM PUBLIC;
+REVOKE ALL ON FUNCTION recompute_streak() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION recompute_streak() TO authenticated;
+
+DROP TRIGGER IF EXISTS daily_logs_streak_insert ON daily_logs;
+CREATE TRIGGER daily_logs_streak_insert
+  AFTER INSERT ON daily_logs
+  REFERENCING NEW TABLE AS new_rows
+  FOR EACH STATEMENT EXECUTE FUNCTION refresh_streaks_for_new_rows();
+
+DROP TRIGGER IF EXISTS daily_logs_streak_update ON daily_logs;
+CREATE TRIGGER daily_logs_streak_update
+  AFTER UPDATE ON daily_logs
+  REFERENCING NEW TABLE AS new_rows
+  FOR EACH STATEMENT EXECUTE FUNCTION refresh_streaks_for_new_rows();
+
+DROP TRIGGER IF EXISTS daily_logs_streak_delete ON daily_logs;
+CREATE TRIGGER daily_logs_streak_delete
+  AFTER DELETE ON daily_logs
+  REFERENCING OLD TABLE AS old_rows
+  FOR EACH STATEMENT EXECUTE FUNCTION refresh_streaks_for_old_rows();
+
+DROP TRIGGER IF EXISTS moment_logs_streak_insert ON moment_logs;
+CREATE TRIGGER moment_logs_streak_insert
+  AFTER INSERT ON moment_logs
+  REFERENCING NEW TABLE AS new_rows
+  FOR EACH STATEMENT EXECUTE FUNCTION refresh_streaks_for_new_rows();
+
+DROP TRIGGER IF EXISTS moment_logs_streak_update ON moment_logs;
+CREATE TRIGGER moment_logs_streak_update
+  AFTER UPDATE ON moment_logs
+  REFERENCING NEW TABLE AS new_rows
+  FOR EACH STATEMENT EXECUTE FUNCTION refresh_streaks_for_new_rows();
+
+DROP TRIGGER IF EXISTS moment_logs_streak_delete ON moment_logs;
+CREATE TRIGGER moment_logs_streak_delete
+  AFTER DELETE ON moment_logs
+  REFERENCING OLD TABLE AS old_rows
+  FOR EACH STATEMENT EXECUTE FUNCTION refresh_streaks_for_old_rows();
+
+DROP TRIGGER IF EXISTS streak_rest_days_insert ON streak_rest_days;
+CREATE TRIGGER streak_rest_days_insert
+  AFTER INSERT ON streak_rest_days
+  REFERENCING NEW TABLE AS new_rows
+  FOR EACH STATEMENT EXECUTE FUNCTION refresh_streaks_for_new_rows();
+
+DROP TRIGGER IF EXISTS streak_rest_days_delete ON streak_rest_days;
+CREATE TRIGGER streak_rest_days_delete
+  AFTER DELETE ON streak_rest_days
+  REFERENCING OLD TABLE AS old_rows
+  FOR EACH STATEMENT EXECUTE FUNCTION refresh_streaks_for_old_rows();
+
+SELECT refresh_user_streak(id) FROM users;
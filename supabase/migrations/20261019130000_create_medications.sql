@@ -0,0 +1,113 @@
+/*
+  # Medication tracking
+
+  ## Overview
+  Medications were only free text (`daily_logs.meds_notes`) plus the
+  `med_adherence` trigger. This adds first-class medications with schedules,
+  and a dose log covering both scheduled and as-needed (PRN) doses so
+  adherence can be measured and compared against symptom severity.
+
+  ## Changes Made
+
+  ### 1. medications table (new)
+    - `schedule_type` is 'scheduled' (taken at `schedule_times`, local HH:MM)
+      or 'prn' (as needed)
+    - Optional `user_condition_id` links a medication to the condition it treats
+    - `active` = false keeps history for medications the user stopped taking
+
+  ### 2. medication_doses table (new)
+    - One row per dose: `status` is 'taken' or 'skipped'
+    - Scheduled doses record their `scheduled_time` slot; one row per
+      medication, date and slot
+    - PRN doses have `is_prn` = true and an optional `reason`
+    - `date` is the calendar date in the user's timezone, like log dates
+
+  ## Security
+  - RLS enabled on both tables; users can only manage their own rows
+*/
+
+CREATE TABLE IF NOT EXISTS medications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  user_condition_id uuid REFERENCES user_conditions(id) ON DELETE SET NULL,
+  name text NOT NULL,
+  dose_amount numeric,
+  dose_unit text,
+  schedule_type text NOT NULL DEFAULT 'scheduled' CHECK (schedule_type IN ('scheduled', 'prn')),
+  schedule_times text[] NOT NULL DEFAULT '{}',
+  notes text,
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS medication_doses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  medication_id uuid NOT NULL REFERENCES medications(id) ON DELETE CASCADE,
+  date date NOT NULL,
+  taken_at timestamptz DEFAULT now() NOT NULL,
+  scheduled_time text,
+  status text NOT NULL DEFAULT 'taken' CHECK (status IN ('taken', 'skipped')),
+  is_prn boolean NOT NULL DEFAULT false,
+  dose_amount numeric,
+  reason text,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE (medication_id, date, scheduled_time)
+);
+
+ALTER TABLE medications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE medication_doses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own medications"
+  ON medications FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create own medications"
+  ON medications FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own medications"
+  ON medications FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own medications"
+  ON medications FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can view own medication doses"
+  ON medication_doses FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create own medication doses"
+  ON medication_doses FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM medications
+      WHERE medications.id = medication_doses.medication_id
+      AND medications.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own medication doses"
+  ON medication_doses FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own medication doses"
+  ON medication_doses FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE INDEX IF NOT EXISTS idx_medications_user ON medications(user_id, active);
+CREATE INDEX IF NOT EXISTS idx_medication_doses_user_date ON medication_doses(user_id, date);
+CREATE INDEX IF NOT EXISTS idx_medication_doses_medication_date ON medication_doses(medication_id, date);
@@ -0,0 +1,36 @@
+/*
+  # Reminder targets
+
+  ## Overview
+  `custom_notifications` rows are now scheduled as local notifications on the
+  device. Each reminder records which screen a tap should open.
+
+  ## Changes Made
+
+  ### 1. custom_notifications.target (new)
+    - 'daily_log' (default), 'moment_log' or 'medications'
+    - Existing reminders keep opening the daily check-in
+
+  ### 2. Weekly reminders
+    - Weekly reminders were saved without a day; they now store the weekday
+      they were created on in `days_of_week`, matching new weekly reminders
+*/
+
+ALTER TABLE custom_notifications
+  ADD COLUMN IF NOT EXISTS target text NOT NULL DEFAULT 'daily_log';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'custom_notifications_target_check'
+  ) THEN
+    ALTER TABLE custom_notifications
+      ADD CONSTRAINT custom_notifications_target_check
+      CHECK (target IN ('daily_log', 'moment_log', 'medications'));
+  END IF;
+END $$;
+
+UPDATE custom_notifications
+SET days_of_week = jsonb_build_array(EXTRACT(DOW FROM created_at)::int)
+WHERE frequency = 'weekly'
+  AND (days_of_week IS NULL OR jsonb_array_length(days_of_week) = 0);
@@ -0,0 +1,163 @@
+/*
+  # Sub-symptom logging
+
+  ## Overview
+  `sub_symptoms` could be created per condition but nothing recorded them:
+  `daily_log_conditions` and `moment_log_conditions` only hold one severity
+  per condition. These tables record which sub-symptoms were present in a
+  log and, optionally, how severe each was.
+
+  ## Changes Made
+
+  ### 1. daily_log_sub_symptoms table (new)
+    - One row per daily log and sub-symptom; a row means it was present
+    - `severity` (int, 0-10) is optional for a present-but-unrated sub-symptom
+
+  ### 2. moment_log_sub_symptoms table (new)
+    - Same shape, keyed by `moment_log_id`
+
+  Both cascade from their log and from `sub_symptoms`, so deleting a
+  sub-symptom (or its condition) removes its logged values.
+
+  ## Security
+  - RLS enabled on both tables; access follows the owning log, and inserts
+    also require the sub-symptom to belong to one of the user's conditions
+*/
+
+CREATE TABLE IF NOT EXISTS daily_log_sub_symptoms (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  daily_log_id uuid NOT NULL REFERENCES daily_logs(id) ON DELETE CASCADE,
+  sub_symptom_id uuid NOT NULL REFERENCES sub_symptoms(id) ON DELETE CASCADE,
+  severity int CHECK (severity >= 0 AND severity <= 10),
+  created_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE (daily_log_id, sub_symptom_id)
+);
+
+CREATE TABLE IF NOT EXISTS moment_log_sub_symptoms (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  moment_log_id uuid NOT NULL REFERENCES moment_logs(id) ON DELETE CASCADE,
+  sub_symptom_id uuid NOT NULL REFERENCES sub_symptoms(id) ON DELETE CASCADE,
+  severity int CHECK (severity >= 0 AND severity <= 10),
+  created_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE (moment_log_id, sub_symptom_id)
+);
+
+ALTER TABLE daily_log_sub_symptoms ENABLE ROW LEVEL SECURITY;
+ALTER TABLE moment_log_sub_symptoms ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own daily log sub-symptoms"
+  ON daily_log_sub_symptoms FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM daily_logs
+      WHERE daily_logs.id = daily_log_sub_symptoms.daily_log_id
+      AND daily_logs.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert own daily log sub-symptoms"
+  ON daily_log_sub_symptoms FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM daily_logs
+      WHERE daily_logs.id = daily_log_sub_symptoms.daily_log_id
+      AND daily_logs.user_id = auth.uid()
+    )
+    AND EXISTS (
+      SELECT 1 FROM sub_symptoms
+      JOIN user_conditions ON user_conditions.id = sub_symptoms.user_condition_id
+      WHERE sub_symptoms.id = daily_log_sub_symptoms.sub_symptom_id
+      AND user_conditions.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own daily log sub-symptoms"
+  ON daily_log_sub_symptoms FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM daily_logs
+      WHERE daily_logs.id = daily_log_sub_symptoms.daily_log_id
+      AND daily_logs.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM daily_logs
+      WHERE daily_logs.id = daily_log_sub_symptoms.daily_log_id
+      AND daily_logs.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete own daily log sub-symptoms"
+  ON daily_log_sub_symptoms FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM daily_logs
+      WHERE daily_logs.id = daily_log_sub_symptoms.daily_log_id
+      AND daily_logs.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can view own moment log sub-symptoms"
+  ON moment_log_sub_symptoms FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM moment_logs
+      WHERE moment_logs.id = moment_log_sub_symptoms.moment_log_id
+      AND moment_logs.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert own moment log sub-symptoms"
+  ON moment_log_sub_symptoms FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM moment_logs
+      WHERE moment_logs.id = moment_log_sub_symptoms.moment_log_id
+      AND moment_logs.user_id = auth.uid()
+    )
+    AND EXISTS (
+      SELECT 1 FROM sub_symptoms
+      JOIN user_conditions ON user_conditions.id = sub_symptoms.user_condition_id
+      WHERE sub_symptoms.id = moment_log_sub_symptoms.sub_symptom_id
+      AND user_conditions.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own moment log sub-symptoms"
+  ON moment_log_sub_symptoms FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM moment_logs
+      WHERE moment_logs.id = moment_log_sub_symptoms.moment_log_id
+      AND moment_logs.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM moment_logs
+      WHERE moment_logs.id = moment_log_sub_symptoms.moment_log_id
+      AND moment_logs.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete own moment log sub-symptoms"
+  ON moment_log_sub_symptoms FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM moment_logs
+      WHERE moment_logs.id = moment_log_sub_symptoms.moment_log_id
+      AND moment_logs.user_id = auth.uid()
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_daily_log_sub_symptoms_sub_symptom ON daily_log_sub_symptoms(sub_symptom_id);
+CREATE INDEX IF NOT EXISTS idx_moment_log_sub_symptoms_sub_symptom ON moment_log_sub_symptoms(sub_symptom_id);
@@ -0,0 +1,93 @@
+/*
+  # Condition status history and archiving
+
+  ## Overview
+  `user_conditions.status` was overwritten in place, so there was no record
+  of when a condition went from "exploring" to "diagnosed". Deleting a
+  condition was also the only way to stop tracking it, and that removes its
+  logged severities. This adds a status audit trail and lets a condition be
+  archived (resolved) while keeping every log.
+
+  ## Changes Made
+
+  ### 1. user_conditions.archived_at (new column)
+    - Set when the user marks a condition resolved; null while it's tracked
+    - Archived conditions are hidden from logging but keep their logs,
+      sub-symptoms and history
+
+  ### 2. condition_status_events table (new)
+    - One row per status change: `status` is a condition status, or
+      'resolved' when the condition was archived
+    - `previous_status` is null for the first entry
+    - `changed_on` is the date the change happened, which the user can
+      back-date (e.g. the day of the diagnosis); `note` is optional
+      ("diagnosed by rheumatologist")
+
+  ### 3. Backfill
+    - Every existing condition gets one entry with its current status, dated
+      the day it was added
+
+  ## Security
+  - RLS enabled; users can only manage events for their own conditions
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_conditions' AND column_name = 'archived_at'
+  ) THEN
+    ALTER TABLE user_conditions ADD COLUMN archived_at timestamptz;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS condition_status_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  user_condition_id uuid NOT NULL REFERENCES user_conditions(id) ON DELETE CASCADE,
+  status text NOT NULL CHECK (status IN ('diagnosed', 'likely', 'exploring', 'monitoring', 'resolved')),
+  previous_status text CHECK (previous_status IN ('diagnosed', 'likely', 'exploring', 'monitoring', 'resolved')),
+  changed_on date NOT NULL DEFAULT CURRENT_DATE,
+  note text,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+ALTER TABLE condition_status_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own condition status events"
+  ON condition_status_events FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create own condition status events"
+  ON condition_status_events FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM user_conditions
+      WHERE user_conditions.id = condition_status_events.user_condition_id
+      AND user_conditions.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own condition status events"
+  ON condition_status_events FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own condition status events"
+  ON condition_status_events FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE INDEX IF NOT EXISTS idx_condition_status_events_condition
+  ON condition_status_events(user_condition_id, changed_on);
+
+INSERT INTO condition_status_events (user_id, user_condition_id, status, changed_on, created_at)
+SELECT uc.user_id, uc.id, uc.status, uc.created_at::date, uc.created_at
+FROM user_conditions uc
+WHERE NOT EXISTS (
+  SELECT 1 FROM condition_status_events e WHERE e.user_condition_id = uc.id
+);
@@ -0,0 +1,86 @@
+/*
+  # User-defined triggers
+
+  ## Overview
+  The `triggers` catalog was global: rows came from the core seed and users
+  could only switch them on or off. Users can now define their own triggers.
+  They live in the same table, so logging, correlations, exports and AI
+  insights treat them exactly like core triggers.
+
+  ## Changes Made
+
+  ### 1. triggers.owner_user_id (new column)
+    - Null for core triggers; set to the user who created a custom trigger
+    - `key` stays globally unique; the app generates `custom_<slug>_<suffix>`
+      keys for custom triggers
+    - `category` may be one of the core categories or any custom text
+    - `parent_trigger_id` may point at a core trigger or one of the user's own
+
+  ### 2. Removing a custom trigger
+    - The app sets `is_active` = false instead of deleting, so values already
+      logged against it are kept; owners can still read their inactive rows
+
+  ## Security
+  - Users can read core triggers that are active, and all of their own
+  - Users can only create, update and delete triggers they own, and a
+    parent must be a core trigger or one of their own
+  - Core triggers remain read-only
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'triggers' AND column_name = 'owner_user_id'
+  ) THEN
+    ALTER TABLE triggers ADD COLUMN owner_user_id uuid REFERENCES users(id) ON DELETE CASCADE;
+  END IF;
+END $$;
+
+DROP POLICY IF EXISTS "Anyone can read active triggers" ON triggers;
+
+CREATE POLICY "Users can read core and own triggers"
+  ON triggers FOR SELECT
+  TO authenticated
+  USING (
+    (owner_user_id IS NULL AND is_active = true)
+    OR owner_user_id = auth.uid()
+  );
+
+CREATE POLICY "Users can create own triggers"
+  ON triggers FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    owner_user_id = auth.uid()
+    AND (
+      parent_trigger_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM triggers parent
+        WHERE parent.id = triggers.parent_trigger_id
+        AND (parent.owner_user_id IS NULL OR parent.owner_user_id = auth.uid())
+      )
+    )
+  );
+
+CREATE POLICY "Users can update own triggers"
+  ON triggers FOR UPDATE
+  TO authenticated
+  USING (owner_user_id = auth.uid())
+  WITH CHECK (
+    owner_user_id = auth.uid()
+    AND (
+      parent_trigger_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM triggers parent
+        WHERE parent.id = triggers.parent_trigger_id
+        AND (parent.owner_user_id IS NULL OR parent.owner_user_id = auth.uid())
+      )
+    )
+  );
+
+CREATE POLICY "Users can delete own triggers"
+  ON triggers FOR DELETE
+  TO authenticated
+  USING (owner_user_id = auth.uid());
+
+CREATE INDEX IF NOT EXISTS idx_triggers_owner ON triggers(owner_user_id) WHERE owner_user_id IS NOT NULL;
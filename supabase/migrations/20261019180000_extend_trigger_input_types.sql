@@ -0,0 +1,42 @@
+/*
+  # Numeric, duration, multi-select and tag triggers
+
+  ## Overview
+  Triggers could only be yes/no, a small scale or a single choice, so values
+  like mg of caffeine, time spent outdoors or what was eaten had to be squeezed
+  into enums. Four input types are added. No new columns are needed; values
+  keep going into `daily_log_triggers.value` / `moment_log_triggers.value`
+  (numeric) and `value_text`.
+
+  ## Changes Made
+
+  ### 1. triggers.input_type (check constraint widened)
+    - `numeric`: the number entered; `options_json.unit` ('mg', 'steps') and
+      optional `min` / `max` limits
+    - `duration`: stored as minutes; optional `options_json.max`
+    - `multi_select`: `options_json.options` like an enum, stored as a bitmask
+      of the chosen option indexes (at most 16 options)
+    - `tags`: free-text tags, stored comma-separated in `value_text` with the
+      tag count in `value`
+    - For every new type `value_text` holds the display text ("200 mg",
+      "1h 30m", "Dairy, Gluten")
+*/
+
+DO $$
+DECLARE
+  constraint_name text;
+BEGIN
+  FOR constraint_name IN
+    SELECT con.conname
+    FROM pg_constraint con
+    JOIN pg_class rel ON rel.oid = con.conrelid
+    WHERE rel.relname = 'triggers'
+    AND con.contype = 'c'
+    AND pg_get_constraintdef(con.oid) LIKE '%input_type%'
+  LOOP
+    EXECUTE format('ALTER TABLE triggers DROP CONSTRAINT %I', constraint_name);
+  END LOOP;
+END $$;
+
+ALTER TABLE triggers ADD CONSTRAINT triggers_input_type_check
+  CHECK (input_type IN ('binary', 'scale', 'enum', 'numeric', 'duration', 'multi_select', 'tags'));
@@ -0,0 +1,151 @@
+/*
+  # Versioned trigger catalog
+
+  ## Overview
+  Core triggers were added with one-off seed migrations and the app had no
+  way to tell a user what was new, retire a trigger, or move people onto a
+  trigger that replaced one. The catalog now has numbered versions. Each
+  catalog update is still a migration, but it follows the same steps and the
+  app reads the result to prompt users about new triggers.
+
+  ## Changes Made
+
+  ### 1. trigger_catalog_versions table (new)
+    - One row per catalog release (`version`, `summary`); version 1 is the
+      original core seed
+
+  ### 2. triggers.catalog_version / triggers.deprecated_in_version (new columns)
+    - `catalog_version`: the release that added a core trigger (null for
+      custom triggers)
+    - `deprecated_in_version`: the release that retired it; retired triggers
+      get `is_active` = false but are never deleted, so past
+      `daily_log_triggers` / `moment_log_triggers` values keep their label
+
+  ### 3. trigger_replacements table (new)
+    - Maps a retired trigger to what replaces it. Several rows from one
+      trigger describe a split; several rows into one trigger describe a merge
+
+  ### 4. user_preferences.trigger_catalog_version (new column)
+    - The latest catalog version the user has seen; existing users start at 1
+
+  ### 5. apply_trigger_catalog_version(version) (new function)
+    - Users tracking a replaced trigger start tracking its replacements
+    - Tracking is switched off for triggers retired in that version, and they
+      are marked inactive
+    - Only callable by migrations (not exposed to app users)
+
+  ### 6. Reading retired triggers
+    - Core triggers are readable whether or not they are active, so history,
+      exports and insights can still label old values. Screens that offer
+      triggers for tracking filter on `is_active`.
+
+  ## Shipping a catalog update
+    INSERT INTO trigger_catalog_versions (version, summary) VALUES (2, '...');
+    INSERT INTO triggers (..., catalog_version) VALUES (..., 2);
+    UPDATE triggers SET deprecated_in_version = 2 WHERE key = 'old_key';
+    INSERT INTO trigger_replacements (from_trigger_id, to_trigger_id, catalog_version) ...;
+    SELECT apply_trigger_catalog_version(2);
+
+  ## Security
+  - Catalog versions and replacements are readable by signed-in users and
+    only written by migrations
+*/
+
+CREATE TABLE IF NOT EXISTS trigger_catalog_versions (
+  version int PRIMARY KEY,
+  summary text,
+  released_at timestamptz DEFAULT now() NOT NULL
+);
+
+INSERT INTO trigger_catalog_versions (version, summary)
+VALUES (1, 'Core triggers')
+ON CONFLICT (version) DO NOTHING;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'triggers' AND column_name = 'catalog_version'
+  ) THEN
+    ALTER TABLE triggers ADD COLUMN catalog_version int REFERENCES trigger_catalog_versions(version);
+    UPDATE triggers SET catalog_version = 1 WHERE owner_user_id IS NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'triggers' AND column_name = 'deprecated_in_version'
+  ) THEN
+    ALTER TABLE triggers ADD COLUMN deprecated_in_version int REFERENCES trigger_catalog_versions(version);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_preferences' AND column_name = 'trigger_catalog_version'
+  ) THEN
+    ALTER TABLE user_preferences ADD COLUMN trigger_catalog_version int NOT NULL DEFAULT 0;
+    UPDATE user_preferences SET trigger_catalog_version = 1;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS trigger_replacements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  from_trigger_id uuid NOT NULL REFERENCES triggers(id) ON DELETE CASCADE,
+  to_trigger_id uuid NOT NULL REFERENCES triggers(id) ON DELETE CASCADE,
+  catalog_version int NOT NULL REFERENCES trigger_catalog_versions(version),
+  created_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE (from_trigger_id, to_trigger_id),
+  CHECK (from_trigger_id <> to_trigger_id)
+);
+
+ALTER TABLE trigger_catalog_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE trigger_replacements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read trigger catalog versions"
+  ON trigger_catalog_versions FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Anyone can read trigger replacements"
+  ON trigger_replacements FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Users can read core and own triggers" ON triggers;
+
+CREATE POLICY "Users can read core and own triggers"
+  ON triggers FOR SELECT
+  TO authenticated
+  USING (owner_user_id IS NULL OR owner_user_id = auth.uid());
+
+CREATE INDEX IF NOT EXISTS idx_trigger_replacements_version ON trigger_replacements(catalog_version);
+
+CREATE OR REPLACE FUNCTION apply_trigger_catalog_version(p_version int)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- a merge can map two tracked triggers onto the same replacement, hence DISTINCT ON
+  INSERT INTO user_triggers (user_id, trigger_id, enabled, sort_order, config_json)
+  SELECT DISTINCT ON (ut.user_id, r.to_trigger_id)
+    ut.user_id, r.to_trigger_id, true, ut.sort_order, ut.config_json
+  FROM trigger_replacements r
+  JOIN user_triggers ut ON ut.trigger_id = r.from_trigger_id AND ut.enabled
+  WHERE r.catalog_version = p_version
+  ON CONFLICT (user_id, trigger_id) DO UPDATE SET enabled = true, updated_at = now();
+
+  UPDATE user_triggers ut
+  SET enabled = false, updated_at = now()
+  FROM triggers t
+  WHERE t.id = ut.trigger_id
+  AND t.deprecated_in_version = p_version
+  AND ut.enabled;
+
+  UPDATE triggers
+  SET is_active = false
+  WHERE deprecated_in_version = p_version;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION apply_trigger_catalog_version(int) FROM PUBLIC;
@@ -0,0 +1,80 @@
+/*
+  # Flare episodes
+
+  ## Overview
+  Severity is stored per day and per moment, so the app never saw a flare as
+  one episode. The app now groups runs of high-severity days for each
+  condition into episodes and stores them here, so the user can confirm or
+  label them and the dashboard and condition screens can show how often flares
+  happen and how long they last.
+
+  ## Changes Made
+
+  ### 1. flare_episodes table (new)
+    - One row per episode of a `user_condition`
+    - `start_date` / `end_date`: the first and last high-severity day
+    - `peak_date` / `peak_severity`: the worst day and its highest rating
+    - `recovery_date`: the first logged day back below the flare threshold;
+      null while the flare is ongoing or nothing was logged after it
+    - `status`: 'detected' until the user reviews it, then 'confirmed' or
+      'dismissed'. Dismissed episodes are kept so they aren't suggested again
+    - `label` / `note`: optional, set when confirming ("after the wedding")
+
+  ## Security
+  - RLS enabled; users can only manage episodes for their own conditions
+*/
+
+CREATE TABLE IF NOT EXISTS flare_episodes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  user_condition_id uuid NOT NULL REFERENCES user_conditions(id) ON DELETE CASCADE,
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  peak_date date NOT NULL,
+  peak_severity numeric NOT NULL CHECK (peak_severity >= 0 AND peak_severity <= 10),
+  recovery_date date,
+  status text NOT NULL DEFAULT 'detected' CHECK (status IN ('detected', 'confirmed', 'dismissed')),
+  label text,
+  note text,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  CHECK (end_date >= start_date),
+  CHECK (peak_date BETWEEN start_date AND end_date),
+  CHECK (recovery_date IS NULL OR recovery_date > end_date)
+);
+
+ALTER TABLE flare_episodes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own flare episodes"
+  ON flare_episodes FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create own flare episodes"
+  ON flare_episodes FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM user_conditions
+      WHERE user_conditions.id = flare_episodes.user_condition_id
+      AND user_conditions.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own flare episodes"
+  ON flare_episodes FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own flare episodes"
+  ON flare_episodes FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE INDEX IF NOT EXISTS idx_flare_episodes_condition
+  ON flare_episodes(user_condition_id, start_date);
+
+CREATE INDEX IF NOT EXISTS idx_flare_episodes_user
+  ON flare_episodes(user_id, start_date);
@@ -0,0 +1,35 @@
+/*
+  # Baseline alert preferences
+
+  ## Overview
+  Severity is now compared against each user's rolling personal baseline
+  (computed in the app, nothing stored per day). The dashboard can raise an
+  alert when overall severity or a condition stays above baseline for several
+  days in a row; these columns let users turn that off or dismiss it.
+
+  ## Changes Made
+
+  ### 1. user_preferences.baseline_alerts_enabled (new column)
+    - Whether the dashboard shows above-baseline alerts; on by default
+
+  ### 2. user_preferences.baseline_alert_dismissed_on (new column)
+    - The day the user last dismissed the alerts; runs that started on or
+      before it aren't shown again
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_preferences' AND column_name = 'baseline_alerts_enabled'
+  ) THEN
+    ALTER TABLE user_preferences ADD COLUMN baseline_alerts_enabled boolean NOT NULL DEFAULT true;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_preferences' AND column_name = 'baseline_alert_dismissed_on'
+  ) THEN
+    ALTER TABLE user_preferences ADD COLUMN baseline_alert_dismissed_on date;
+  END IF;
+END $$;
@@ -0,0 +1,23 @@
+/*
+  # Drop the UTC default on user_preferences.timezone
+
+  ## Overview
+  `user_preferences.timezone` defaulted to 'UTC', so every preferences row
+  created without an explicit zone (including rows created by toggling an
+  unrelated setting) read as a deliberate choice of UTC once log dates and
+  streaks started following this column. Users outside UTC then had late
+  evening logs filed under the next day.
+
+  ## Changes Made
+
+  ### 1. user_preferences.timezone
+    - No default; null means "not chosen yet" and the app falls back to the
+      device's timezone, saving it on the next launch
+    - Existing 'UTC' values are cleared, since the default can't be told apart
+      from a deliberate choice. Users whose device really is on UTC get it
+      written back on their next launch
+*/
+
+ALTER TABLE user_preferences ALTER COLUMN timezone DROP DEFAULT;
+
+UPDATE user_preferences SET timezone = NULL WHERE timezone = 'UTC';
@@ -0,0 +1,98 @@
+/*
+  # Streak "today" without a known timezone
+
+  ## Overview
+  compute_user_streak() fell back to UTC when `user_preferences.timezone` was
+  missing or invalid. For users behind UTC that made their evening the next
+  day, so a day they hadn't finished yet was counted as missed and used a
+  freeze or reset the streak. Timezones are no longer defaulted to UTC (see
+  20261019220000_drop_user_timezone_default), so the fallback matters for
+  every user until the app saves their zone.
+
+  ## Changes Made
+
+  ### 1. compute_user_streak(p_user_id) function
+    - Without a valid timezone, "today" is the date at UTC-12, the earliest
+      date anywhere, so a day is only treated as over once it is over for
+      every zone. Logs dated ahead of it still count as before
+
+  ### 2. Existing streaks
+    - Recomputed for users without a saved timezone
+*/
+
+CREATE OR REPLACE FUNCTION compute_user_streak(p_user_id uuid)
+RETURNS TABLE (current_streak int, longest_streak int, freezes_available int, last_log_date date)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tz text;
+  v_today date;
+  v_first date;
+  v_last date;
+  v_day date;
+  v_logged boolean;
+  v_rest boolean;
+  v_current int := 0;
+  v_longest int := 0;
+  v_freezes int := 0;
+  v_run int := 0;
+BEGIN
+  SELECT timezone INTO v_tz FROM user_preferences WHERE user_id = p_user_id;
+  -- without a known zone, use the earliest date anywhere so a day that is
+  -- still going on for the user is never counted as missed
+  BEGIN
+    v_today := (now() AT TIME ZONE coalesce(v_tz, 'Etc/GMT+12'))::date;
+  EXCEPTION WHEN invalid_parameter_value THEN
+    v_today := (now() AT TIME ZONE 'Etc/GMT+12')::date;
+  END;
+
+  SELECT min(d), max(d) INTO v_first, v_last FROM (
+    SELECT date AS d FROM daily_logs WHERE user_id = p_user_id
+    UNION ALL
+    SELECT date FROM moment_logs WHERE user_id = p_user_id
+  ) logged;
+
+  IF v_first IS NULL THEN
+    RETURN QUERY SELECT 0, 0, 0, NULL::date;
+    RETURN;
+  END IF;
+
+  FOR v_day, v_logged, v_rest IN
+    SELECT
+      g.day::date,
+      EXISTS (SELECT 1 FROM daily_logs dl WHERE dl.user_id = p_user_id AND dl.date = g.day::date)
+        OR EXISTS (SELECT 1 FROM moment_logs ml WHERE ml.user_id = p_user_id AND ml.date = g.day::date),
+      EXISTS (SELECT 1 FROM streak_rest_days r WHERE r.user_id = p_user_id AND r.date = g.day::date)
+    FROM generate_series(v_first::timestamp, greatest(v_today, v_last)::timestamp, interval '1 day') AS g(day)
+    ORDER BY g.day
+  LOOP
+    IF v_logged THEN
+      v_current := v_current + 1;
+      v_run := v_run + 1;
+      IF v_run % 7 = 0 THEN
+        v_freezes := least(v_freezes + 1, 2);
+      END IF;
+    ELSIF v_rest OR v_day >= v_today THEN
+      -- rest days carry the streak over; today isn't over yet
+      NULL;
+    ELSIF v_freezes > 0 THEN
+      v_freezes := v_freezes - 1;
+    ELSE
+      v_current := 0;
+      v_run := 0;
+    END IF;
+
+    v_longest := greatest(v_longest, v_current);
+  END LOOP;
+
+  RETURN QUERY SELECT v_current, v_longest, v_freezes, v_last;
+END;
+$$;
+
+SELECT refresh_user_streak(u.id)
+  FROM users u
+  LEFT JOIN user_preferences p ON p.user_id = u.id
+ WHERE p.timezone IS NULL;
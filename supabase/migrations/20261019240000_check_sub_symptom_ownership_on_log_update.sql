@@ -0,0 +1,71 @@
+/*
+  # Sub-symptom ownership on log sub-symptom updates
+
+  ## Overview
+  The insert policies on `daily_log_sub_symptoms` and
+  `moment_log_sub_symptoms` require the sub-symptom to belong to one of the
+  user's conditions, but the update policies only checked the log. An update
+  could point a row at another user's sub-symptom.
+
+  ## Changes Made
+
+  ### 1. Update policies
+    - "Users can update own daily log sub-symptoms" and "Users can update own
+      moment log sub-symptoms" now check sub-symptom ownership in WITH CHECK,
+      matching the insert policies
+
+  ## Security
+  - Users can no longer reference sub-symptoms they don't own through updates
+*/
+
+DROP POLICY IF EXISTS "Users can update own daily log sub-symptoms" ON daily_log_sub_symptoms;
+
+CREATE POLICY "Users can update own daily log sub-symptoms"
+  ON daily_log_sub_symptoms FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM daily_logs
+      WHERE daily_logs.id = daily_log_sub_symptoms.daily_log_id
+      AND daily_logs.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM daily_logs
+      WHERE daily_logs.id = daily_log_sub_symptoms.daily_log_id
+      AND daily_logs.user_id = auth.uid()
+    )
+    AND EXISTS (
+      SELECT 1 FROM sub_symptoms
+      JOIN user_conditions ON user_conditions.id = sub_symptoms.user_condition_id
+      WHERE sub_symptoms.id = daily_log_sub_symptoms.sub_symptom_id
+      AND user_conditions.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can update own moment log sub-symptoms" ON moment_log_sub_symptoms;
+
+CREATE POLICY "Users can update own moment log sub-symptoms"
+  ON moment_log_sub_symptoms FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM moment_logs
+      WHERE moment_logs.id = moment_log_sub_symptoms.moment_log_id
+      AND moment_logs.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM moment_logs
+      WHERE moment_logs.id = moment_log_sub_symptoms.moment_log_id
+      AND moment_logs.user_id = auth.uid()
+    )
+    AND EXISTS (
+      SELECT 1 FROM sub_symptoms
+      JOIN user_conditions ON user_conditions.id = sub_symptoms.user_condition_id
+      WHERE sub_symptoms.id = moment_log_sub_symptoms.sub_symptom_id
+      AND user_conditions.user_id = auth.uid()
+    )
+  );
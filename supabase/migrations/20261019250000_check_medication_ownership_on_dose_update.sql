@@ -0,0 +1,32 @@
+/*
+  # Medication ownership on dose updates
+
+  ## Overview
+  The insert policy on `medication_doses` requires the medication to belong to
+  the user, but the update policy only checked `user_id`. An update could move
+  a dose onto another user's medication.
+
+  ## Changes Made
+
+  ### 1. "Users can update own medication doses" policy
+    - WITH CHECK now also requires `medication_id` to reference one of the
+      user's medications, matching the insert policy
+
+  ## Security
+  - Users can no longer attach doses to medications they don't own through updates
+*/
+
+DROP POLICY IF EXISTS "Users can update own medication doses" ON medication_doses;
+
+CREATE POLICY "Users can update own medication doses"
+  ON medication_doses FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM medications
+      WHERE medications.id = medication_doses.medication_id
+      AND medications.user_id = auth.uid()
+    )
+  );
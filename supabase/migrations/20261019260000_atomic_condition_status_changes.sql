@@ -0,0 +1,127 @@
+/*
+  # Atomic condition status changes
+
+  ## Overview
+  The app changed `user_conditions.status` (or `archived_at`) and then
+  inserted the matching `condition_status_events` row as a second request. If
+  the second request failed, the status changed without any history. These
+  functions do both writes in one transaction.
+
+  ## Changes Made
+
+  ### 1. change_condition_status(p_user_condition_id, p_status, p_changed_on, p_note)
+    - Sets the status and records the change, with the stored status as
+      `previous_status`
+    - Saving the status the condition already has does nothing
+
+  ### 2. set_condition_archived(p_user_condition_id, p_archived, p_changed_on, p_note)
+    - Archiving sets `archived_at` and records 'resolved'; restoring clears it
+      and records the condition's status with 'resolved' as the previous one
+    - Archiving an archived condition (or restoring a tracked one) does nothing
+
+  ## Security
+  - Both are SECURITY DEFINER, callable by authenticated users, and only
+    touch conditions owned by auth.uid()
+*/
+
+CREATE OR REPLACE FUNCTION change_condition_status(
+  p_user_condition_id uuid,
+  p_status text,
+  p_changed_on date DEFAULT NULL,
+  p_note text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_previous text;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT status INTO v_previous
+    FROM user_conditions
+   WHERE id = p_user_condition_id
+     AND user_id = v_user_id
+     FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Condition not found';
+  END IF;
+
+  IF v_previous IS NOT DISTINCT FROM p_status THEN
+    RETURN;
+  END IF;
+
+  UPDATE user_conditions SET status = p_status WHERE id = p_user_condition_id;
+
+  INSERT INTO condition_status_events (user_id, user_condition_id, status, previous_status, changed_on, note)
+  VALUES (
+    v_user_id,
+    p_user_condition_id,
+    p_status,
+    v_previous,
+    coalesce(p_changed_on, CURRENT_DATE),
+    nullif(btrim(p_note), '')
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION set_condition_archived(
+  p_user_condition_id uuid,
+  p_archived boolean,
+  p_changed_on date DEFAULT NULL,
+  p_note text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_status text;
+  v_archived_at timestamptz;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT status, archived_at INTO v_status, v_archived_at
+    FROM user_conditions
+   WHERE id = p_user_condition_id
+     AND user_id = v_user_id
+     FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Condition not found';
+  END IF;
+
+  IF (v_archived_at IS NOT NULL) = p_archived THEN
+    RETURN;
+  END IF;
+
+  UPDATE user_conditions
+     SET archived_at = CASE WHEN p_archived THEN now() ELSE NULL END
+   WHERE id = p_user_condition_id;
+
+  INSERT INTO condition_status_events (user_id, user_condition_id, status, previous_status, changed_on, note)
+  VALUES (
+    v_user_id,
+    p_user_condition_id,
+    CASE WHEN p_archived THEN 'resolved' ELSE v_status END,
+    CASE WHEN p_archived THEN v_status ELSE 'resolved' END,
+    coalesce(p_changed_on, CURRENT_DATE),
+    nullif(btrim(p_note), '')
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION change_condition_status(uuid, text, date, text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION set_condition_archived(uuid, boolean, date, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION change_condition_status(uuid, text, date, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_condition_archived(uuid, boolean, date, text) TO authenticated;
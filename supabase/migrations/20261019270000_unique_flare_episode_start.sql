@@ -0,0 +1,65 @@
+/*
+  # One flare episode per condition and start date
+
+  ## Overview
+  Flare detection runs on the device and reconciles `flare_episodes` with
+  several requests. Two devices (or two screens) syncing at once could both
+  insert the same episode. A unique constraint now rejects the second copy,
+  and the app skips inserts that hit it.
+
+  ## Changes Made
+
+  ### 1. Duplicates
+    - Existing duplicates are removed, keeping a reviewed (confirmed or
+      dismissed) copy over an unreviewed one, then the oldest
+
+  ### 2. flare_episodes_condition_start_key (new unique constraint)
+    - On (`user_condition_id`, `start_date`); replaces the plain index on the
+      same columns
+
+  ### 3. "Users can update own flare episodes" policy
+    - WITH CHECK now also requires the episode's condition to belong to the
+      user, matching the insert policy
+
+  ## Security
+  - Users can no longer move episodes onto conditions they don't own
+*/
+
+DELETE FROM flare_episodes e
+USING (
+  SELECT id,
+         row_number() OVER (
+           PARTITION BY user_condition_id, start_date
+           ORDER BY (status = 'detected'), created_at, id
+         ) AS rank
+    FROM flare_episodes
+) ranked
+WHERE e.id = ranked.id
+  AND ranked.rank > 1;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'flare_episodes_condition_start_key'
+  ) THEN
+    ALTER TABLE flare_episodes
+      ADD CONSTRAINT flare_episodes_condition_start_key UNIQUE (user_condition_id, start_date);
+  END IF;
+END $$;
+
+DROP INDEX IF EXISTS idx_flare_episodes_condition;
+
+DROP POLICY IF EXISTS "Users can update own flare episodes" ON flare_episodes;
+
+CREATE POLICY "Users can update own flare episodes"
+  ON flare_episodes FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM user_conditions
+      WHERE user_conditions.id = flare_episodes.user_condition_id
+      AND user_conditions.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,44 @@
+/*
+  # Stamp log updated_at on the server
+
+  ## Overview
+  `daily_logs.updated_at` and `moment_logs.updated_at` were written by the
+  app from the device clock, and the outbox compared them to decide whether a
+  replayed check-in was older than the server copy. A device with a clock
+  that runs behind lost its edits. The database now sets the column itself,
+  and the app detects conflicts by comparing the `updated_at` it started
+  editing from with the current one instead of comparing clocks.
+
+  ## Changes Made
+
+  ### 1. stamp_updated_at()
+    - BEFORE INSERT OR UPDATE trigger function that sets `updated_at` to now()
+      whatever the client sent
+
+  ### 2. Triggers
+    - `daily_logs_stamp_updated_at` on daily_logs
+    - `moment_logs_stamp_updated_at` on moment_logs
+*/
+
+CREATE OR REPLACE FUNCTION stamp_updated_at()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION stamp_updated_at() FROM PUBLIC;
+
+DROP TRIGGER IF EXISTS daily_logs_stamp_updated_at ON daily_logs;
+CREATE TRIGGER daily_logs_stamp_updated_at
+  BEFORE INSERT OR UPDATE ON daily_logs
+  FOR EACH ROW EXECUTE FUNCTION stamp_updated_at();
+
+DROP TRIGGER IF EXISTS moment_logs_stamp_updated_at ON moment_logs;
+CREATE TRIGGER moment_logs_stamp_updated_at
+  BEFORE INSERT OR UPDATE ON moment_logs
+  FOR EACH ROW EXECUTE FUNCTION stamp_updated_at();
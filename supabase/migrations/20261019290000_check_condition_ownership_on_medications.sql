@@ -0,0 +1,51 @@
+/*
+  # Condition ownership on medications
+
+  ## Overview
+  The insert and update policies on `medications` only checked `user_id`, so
+  a medication could be linked to another user's `user_condition_id`.
+
+  ## Changes Made
+
+  ### 1. "Users can create own medications" and "Users can update own medications" policies
+    - WITH CHECK now also requires `user_condition_id` to be null or to
+      reference one of the user's conditions
+
+  ## Security
+  - Users can no longer link medications to conditions they don't own
+*/
+
+DROP POLICY IF EXISTS "Users can create own medications" ON medications;
+
+CREATE POLICY "Users can create own medications"
+  ON medications FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND (
+      user_condition_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM user_conditions
+        WHERE user_conditions.id = medications.user_condition_id
+        AND user_conditions.user_id = auth.uid()
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can update own medications" ON medications;
+
+CREATE POLICY "Users can update own medications"
+  ON medications FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (
+    user_id = auth.uid()
+    AND (
+      user_condition_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM user_conditions
+        WHERE user_conditions.id = medications.user_condition_id
+        AND user_conditions.user_id = auth.uid()
+      )
+    )
+  );
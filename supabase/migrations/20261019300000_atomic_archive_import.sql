@@ -0,0 +1,182 @@
+/*
+  # Atomic archive import
+
+  ## Overview
+  Importing an export archive was a series of separate inserts, so a failure
+  partway left a half-restored account. Moment-log ratings were also linked to
+  the new logs by their position in the insert response, which PostgREST
+  doesn't guarantee. The app now gives every new row an id up front, so child
+  rows point at their parents directly, and sends all of them to this
+  function, which writes them in one transaction.
+
+  ## Changes Made
+
+  ### 1. import_archive(p_rows jsonb)
+    - `p_rows` holds the rows to add, already matched to this account by the
+      app: conditions, user_conditions, sub_symptoms, triggers, user_triggers,
+      preferences (an object, or null to leave them alone), daily_logs,
+      moment_logs and their condition, sub-symptom and trigger rows
+    - Rows that already exist (same condition, trigger setting or daily log
+      date) are skipped, along with the rows that hang off them
+
+  ## Security
+  - SECURITY DEFINER, callable by authenticated users
+  - Every owned row is written with auth.uid() as its owner, and rows that
+    point at conditions, sub-symptoms, triggers or logs the user doesn't own
+    are dropped
+*/
+
+CREATE OR REPLACE FUNCTION import_archive(p_rows jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_prefs user_preferences%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO conditions (id, name, description, is_cycle)
+  SELECT r.id, r.name, r.description, coalesce(r.is_cycle, false)
+    FROM jsonb_to_recordset(coalesce(p_rows->'conditions', '[]'))
+      AS r(id uuid, name text, description text, is_cycle boolean)
+  ON CONFLICT (name) DO NOTHING;
+
+  INSERT INTO user_conditions (id, user_id, condition_id, custom_label, status, notes, is_cycle, archived_at)
+  SELECT r.id, v_user_id, r.condition_id, r.custom_label, coalesce(r.status, 'exploring'), r.notes,
+         coalesce(r.is_cycle, false), r.archived_at
+    FROM jsonb_to_recordset(coalesce(p_rows->'user_conditions', '[]'))
+      AS r(id uuid, condition_id uuid, custom_label text, status text, notes text, is_cycle boolean,
+           archived_at timestamptz)
+    JOIN conditions c ON c.id = r.condition_id
+  ON CONFLICT (user_id, condition_id) DO NOTHING;
+
+  INSERT INTO sub_symptoms (id, user_condition_id, name)
+  SELECT r.id, r.user_condition_id, r.name
+    FROM jsonb_to_recordset(coalesce(p_rows->'sub_symptoms', '[]'))
+      AS r(id uuid, user_condition_id uuid, name text)
+    JOIN user_conditions uc ON uc.id = r.user_condition_id AND uc.user_id = v_user_id;
+
+  -- parents can arrive in the same batch as their sub-triggers
+  WITH r AS (
+    SELECT *
+      FROM jsonb_to_recordset(coalesce(p_rows->'triggers', '[]'))
+        AS r(id uuid, key text, label text, category text, input_type text, options_json jsonb,
+             parent_trigger_id uuid, is_active boolean, sort_order int)
+  )
+  INSERT INTO triggers (id, key, label, category, input_type, options_json, parent_trigger_id, owner_user_id,
+                        is_active, sort_order)
+  SELECT r.id, r.key, r.label, r.category, r.input_type, r.options_json, r.parent_trigger_id, v_user_id,
+         coalesce(r.is_active, true), coalesce(r.sort_order, 0)
+    FROM r
+   WHERE r.parent_trigger_id IS NULL
+      OR r.parent_trigger_id IN (SELECT id FROM r)
+      OR EXISTS (
+        SELECT 1 FROM triggers parent
+         WHERE parent.id = r.parent_trigger_id
+           AND (parent.owner_user_id IS NULL OR parent.owner_user_id = v_user_id)
+      );
+
+  INSERT INTO user_triggers (user_id, trigger_id, enabled, sort_order, config_json)
+  SELECT v_user_id, r.trigger_id, coalesce(r.enabled, true), coalesce(r.sort_order, 0), r.config_json
+    FROM jsonb_to_recordset(coalesce(p_rows->'user_triggers', '[]'))
+      AS r(trigger_id uuid, enabled boolean, sort_order int, config_json jsonb)
+    JOIN triggers t ON t.id = r.trigger_id AND (t.owner_user_id IS NULL OR t.owner_user_id = v_user_id)
+  ON CONFLICT (user_id, trigger_id) DO NOTHING;
+
+  IF jsonb_typeof(p_rows->'preferences') = 'object' THEN
+    INSERT INTO user_preferences (user_id) VALUES (v_user_id) ON CONFLICT (user_id) DO NOTHING;
+
+    SELECT * INTO v_prefs FROM user_preferences WHERE user_id = v_user_id FOR UPDATE;
+    -- columns the archive doesn't have keep their current values
+    v_prefs := jsonb_populate_record(v_prefs, (p_rows->'preferences') - 'id' - 'user_id' - 'created_at' - 'updated_at');
+
+    UPDATE user_preferences
+       SET theme = v_prefs.theme,
+           timezone = v_prefs.timezone,
+           profile_picture_url = v_prefs.profile_picture_url,
+           display_name = v_prefs.display_name,
+           track_symptoms = v_prefs.track_symptoms,
+           track_energy_stress = v_prefs.track_energy_stress,
+           track_sleep = v_prefs.track_sleep,
+           track_menstrual_cycle = v_prefs.track_menstrual_cycle,
+           track_lifestyle = v_prefs.track_lifestyle,
+           onboarding_completed = v_prefs.onboarding_completed,
+           notification_preference = v_prefs.notification_preference,
+           trigger_catalog_version = v_prefs.trigger_catalog_version,
+           baseline_alerts_enabled = v_prefs.baseline_alerts_enabled,
+           baseline_alert_dismissed_on = v_prefs.baseline_alert_dismissed_on,
+           updated_at = now()
+     WHERE id = v_prefs.id;
+  END IF;
+
+  INSERT INTO daily_logs (id, user_id, date, mood_tag, overall_severity, sleep_hours, sleep_quality, stress_level,
+                          activity_level, food_notes, meds_notes, triggers, notes)
+  SELECT r.id, v_user_id, r.date, r.mood_tag, r.overall_severity, r.sleep_hours, r.sleep_quality, r.stress_level,
+         r.activity_level, r.food_notes, r.meds_notes, r.triggers, r.notes
+    FROM jsonb_to_recordset(coalesce(p_rows->'daily_logs', '[]'))
+      AS r(id uuid, date date, mood_tag text, overall_severity int, sleep_hours numeric, sleep_quality int,
+           stress_level int, activity_level text, food_notes text, meds_notes text, triggers text, notes text)
+  ON CONFLICT (user_id, date) DO NOTHING;
+
+  INSERT INTO daily_log_conditions (daily_log_id, user_condition_id, severity, notes)
+  SELECT r.daily_log_id, r.user_condition_id, r.severity, r.notes
+    FROM jsonb_to_recordset(coalesce(p_rows->'daily_log_conditions', '[]'))
+      AS r(daily_log_id uuid, user_condition_id uuid, severity int, notes text)
+    JOIN daily_logs l ON l.id = r.daily_log_id AND l.user_id = v_user_id
+    JOIN user_conditions uc ON uc.id = r.user_condition_id AND uc.user_id = v_user_id
+  ON CONFLICT (daily_log_id, user_condition_id) DO NOTHING;
+
+  INSERT INTO daily_log_sub_symptoms (daily_log_id, sub_symptom_id, severity)
+  SELECT r.daily_log_id, r.sub_symptom_id, r.severity
+    FROM jsonb_to_recordset(coalesce(p_rows->'daily_log_sub_symptoms', '[]'))
+      AS r(daily_log_id uuid, sub_symptom_id uuid, severity int)
+    JOIN daily_logs l ON l.id = r.daily_log_id AND l.user_id = v_user_id
+    JOIN sub_symptoms s ON s.id = r.sub_symptom_id
+    JOIN user_conditions uc ON uc.id = s.user_condition_id AND uc.user_id = v_user_id
+  ON CONFLICT (daily_log_id, sub_symptom_id) DO NOTHING;
+
+  INSERT INTO daily_log_triggers (daily_log_id, trigger_id, value, value_text)
+  SELECT r.daily_log_id, r.trigger_id, r.value, r.value_text
+    FROM jsonb_to_recordset(coalesce(p_rows->'daily_log_triggers', '[]'))
+      AS r(daily_log_id uuid, trigger_id uuid, value numeric, value_text text)
+    JOIN daily_logs l ON l.id = r.daily_log_id AND l.user_id = v_user_id
+    JOIN triggers t ON t.id = r.trigger_id AND (t.owner_user_id IS NULL OR t.owner_user_id = v_user_id);
+
+  INSERT INTO moment_logs (id, user_id, timestamp, date, overall_severity, activity, triggers, notes)
+  SELECT r.id, v_user_id, r.timestamp, r.date, r.overall_severity, r.activity, r.triggers, r.notes
+    FROM jsonb_to_recordset(coalesce(p_rows->'moment_logs', '[]'))
+      AS r(id uuid, timestamp timestamptz, date date, overall_severity int, activity text, triggers text,
+           notes text);
+
+  INSERT INTO moment_log_conditions (moment_log_id, user_condition_id, severity, notes)
+  SELECT r.moment_log_id, r.user_condition_id, r.severity, r.notes
+    FROM jsonb_to_recordset(coalesce(p_rows->'moment_log_conditions', '[]'))
+      AS r(moment_log_id uuid, user_condition_id uuid, severity int, notes text)
+    JOIN moment_logs l ON l.id = r.moment_log_id AND l.user_id = v_user_id
+    JOIN user_conditions uc ON uc.id = r.user_condition_id AND uc.user_id = v_user_id;
+
+  INSERT INTO moment_log_sub_symptoms (moment_log_id, sub_symptom_id, severity)
+  SELECT r.moment_log_id, r.sub_symptom_id, r.severity
+    FROM jsonb_to_recordset(coalesce(p_rows->'moment_log_sub_symptoms', '[]'))
+      AS r(moment_log_id uuid, sub_symptom_id uuid, severity int)
+    JOIN moment_logs l ON l.id = r.moment_log_id AND l.user_id = v_user_id
+    JOIN sub_symptoms s ON s.id = r.sub_symptom_id
+    JOIN user_conditions uc ON uc.id = s.user_condition_id AND uc.user_id = v_user_id
+  ON CONFLICT (moment_log_id, sub_symptom_id) DO NOTHING;
+
+  INSERT INTO moment_log_triggers (moment_log_id, trigger_id, value, value_text)
+  SELECT r.moment_log_id, r.trigger_id, r.value, r.value_text
+    FROM jsonb_to_recordset(coalesce(p_rows->'moment_log_triggers', '[]'))
+      AS r(moment_log_id uuid, trigger_id uuid, value numeric, value_text text)
+    JOIN moment_logs l ON l.id = r.moment_log_id AND l.user_id = v_user_id
+    JOIN triggers t ON t.id = r.trigger_id AND (t.owner_user_id IS NULL OR t.owner_user_id = v_user_id);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION import_archive(jsonb) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION import_archive(jsonb) TO authenticated;
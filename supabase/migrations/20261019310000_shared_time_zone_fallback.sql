@@ -0,0 +1,134 @@
+/*
+  # One timezone fallback for the database and edge functions
+
+  ## Overview
+  compute_user_streak() used UTC-12 for users without a valid saved timezone,
+  but the edge functions fell back to UTC, so the two disagreed about "today"
+  for those users. The lookup and its fallback now live in one function that
+  the streak code and the edge functions both use.
+
+  ## Changes Made
+
+  ### 1. user_time_zone(p_user_id)
+    - The user's saved timezone, or 'Etc/GMT+12' (UTC-12, the earliest date
+      anywhere) when it is missing or unknown, so a day that is still going on
+      for the user is never treated as over
+
+  ### 2. current_user_time_zone()
+    - user_time_zone() for auth.uid(), for edge functions calling as the user
+
+  ### 3. compute_user_streak(p_user_id)
+    - Uses user_time_zone() instead of its own fallback
+
+  ## Security
+  - user_time_zone() is not callable by clients; current_user_time_zone() is
+    callable by authenticated users and only reads their own row
+*/
+
+CREATE OR REPLACE FUNCTION user_time_zone(p_user_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tz text;
+BEGIN
+  SELECT timezone INTO v_tz FROM user_preferences WHERE user_id = p_user_id;
+  IF v_tz IS NULL THEN
+    RETURN 'Etc/GMT+12';
+  END IF;
+
+  BEGIN
+    PERFORM now() AT TIME ZONE v_tz;
+  EXCEPTION WHEN invalid_parameter_value THEN
+    RETURN 'Etc/GMT+12';
+  END;
+  RETURN v_tz;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION current_user_time_zone()
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  RETURN user_time_zone(auth.uid());
+END;
+$$;
+
+REVOKE ALL ON FUNCTION user_time_zone(uuid) FROM PUBLIC;
+REVOKE ALL ON FUNCTION current_user_time_zone() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION current_user_time_zone() TO authenticated;
+
+CREATE OR REPLACE FUNCTION compute_user_streak(p_user_id uuid)
+RETURNS TABLE (current_streak int, longest_streak int, freezes_available int, last_log_date date)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_today date;
+  v_first date;
+  v_last date;
+  v_day date;
+  v_logged boolean;
+  v_rest boolean;
+  v_current int := 0;
+  v_longest int := 0;
+  v_freezes int := 0;
+  v_run int := 0;
+BEGIN
+  v_today := (now() AT TIME ZONE user_time_zone(p_user_id))::date;
+
+  SELECT min(d), max(d) INTO v_first, v_last FROM (
+    SELECT date AS d FROM daily_logs WHERE user_id = p_user_id
+    UNION ALL
+    SELECT date FROM moment_logs WHERE user_id = p_user_id
+  ) logged;
+
+  IF v_first IS NULL THEN
+    RETURN QUERY SELECT 0, 0, 0, NULL::date;
+    RETURN;
+  END IF;
+
+  FOR v_day, v_logged, v_rest IN
+    SELECT
+      g.day::date,
+      EXISTS (SELECT 1 FROM daily_logs dl WHERE dl.user_id = p_user_id AND dl.date = g.day::date)
+        OR EXISTS (SELECT 1 FROM moment_logs ml WHERE ml.user_id = p_user_id AND ml.date = g.day::date),
+      EXISTS (SELECT 1 FROM streak_rest_days r WHERE r.user_id = p_user_id AND r.date = g.day::date)
+    FROM generate_series(v_first::timestamp, greatest(v_today, v_last)::timestamp, interval '1 day') AS g(day)
+    ORDER BY g.day
+  LOOP
+    IF v_logged THEN
+      v_current := v_current + 1;
+      v_run := v_run + 1;
+      IF v_run % 7 = 0 THEN
+        v_freezes := least(v_freezes + 1, 2);
+      END IF;
+    ELSIF v_rest OR v_day >= v_today THEN
+      -- rest days carry the streak over; today isn't over yet
+      NULL;
+    ELSIF v_freezes > 0 THEN
+      v_freezes := v_freezes - 1;
+    ELSE
+      v_current := 0;
+      v_run := 0;
+    END IF;
+
+    v_longest := greatest(v_longest, v_current);
+  END LOOP;
+
+  RETURN QUERY SELECT v_current, v_longest, v_freezes, v_last;
+END;
+$$;